@@ -1,136 +1,61 @@
+import {
+  extractDocumentation as runExtraction,
+  createStrategyContext,
+  getWebStrategies,
+  locateLlmsTxt,
+  type DocumentPriorities,
+} from '@llm-energy/core'
 import type { Document, ExtractionResult } from './types.js'
-import { parseLlmsContent, extractSiteName } from './parser.js'
-import { generateAllDocuments } from './generator.js'
 
 /**
- * Fetches and extracts documentation from a URL's llms.txt or llms-full.txt
+ * User-Agent sent by the MCP server
  */
-export async function extractDocumentation(url: string): Promise<ExtractionResult> {
-  const startTime = Date.now()
-  
-  // Parse and normalize the URL
-  let targetUrl = url.trim()
-  if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
-    targetUrl = `https://${targetUrl}`
-  }
+const USER_AGENT = 'llm-energy-MCP/1.0 (Documentation Extractor)'
 
-  let urlObj: URL
-  try {
-    urlObj = new URL(targetUrl)
-  } catch {
-    throw new Error('Invalid URL format')
-  }
-  
-  const baseUrl = `${urlObj.protocol}//${urlObj.host}`
-  
-  // Try llms-full.txt first, then fallback to llms.txt
-  let content: string | null = null
-  let sourceUrl: string = ''
-  
-  const urlsToTry = [
-    `${baseUrl}/llms-full.txt`,
-    `${baseUrl}/llms.txt`
-  ]
-  
-  for (const tryUrl of urlsToTry) {
-    try {
-      const response = await fetch(tryUrl, {
-        headers: {
-          'User-Agent': 'llm-energy-MCP/1.0 (Documentation Extractor)',
-        },
-      })
-      
-      if (response.ok) {
-        content = await response.text()
-        sourceUrl = tryUrl
-        break
-      }
-    } catch {
-      continue
-    }
-  }
-  
-  if (!content) {
-    throw new Error(`No llms.txt or llms-full.txt found at ${urlObj.host}`)
-  }
-  
-  // Parse the content into documents
-  const parsedDocuments = parseLlmsContent(content)
-  
-  if (parsedDocuments.length === 0) {
-    throw new Error('No content could be parsed from the documentation')
-  }
-  
-  // Generate all output documents
-  const { documents, fullDocument, agentGuide } = generateAllDocuments(
-    parsedDocuments,
-    content,
-    sourceUrl
-  )
-  
-  // Calculate statistics
-  const totalTokens = documents.reduce((sum, doc) => sum + doc.tokens, 0) 
-    + fullDocument.tokens 
-    + agentGuide.tokens
-  
-  const processingTime = Date.now() - startTime
-  
-  return {
-    url: targetUrl,
-    sourceUrl,
-    rawContent: content,
-    documents,
-    fullDocument,
-    agentGuide,
-    stats: {
-      totalTokens,
-      documentCount: documents.length,
-      processingTime
-    }
-  }
+/**
+ * Options for MCP extractions
+ */
+export interface McpExtractOptions {
+  /** Fetch the pages listed in an llms.txt index as separate documents */
+  expandLinks?: boolean
+  /** Vocabulary or model name for token counts */
+  tokenizer?: string
+  /** Token budget for the full document */
+  maxTokens?: number
+  /** Ranking used with maxTokens */
+  priorities?: DocumentPriorities
+  /** Keep near-duplicate documents instead of collapsing them */
+  keepDuplicates?: boolean
+  /** Language tag of the translation to extract (default: en) */
+  locale?: string
+}
+
+/**
+ * Extracts documentation from a URL with the same strategies as the web app:
+ * llms.txt first, then sitemaps, docs discovery, OpenAPI specs, GitHub docs
+ * folders and link crawling
+ * Uses the shared extraction engine from @llm-energy/core
+ */
+export async function extractDocumentation(
+  url: string,
+  options: McpExtractOptions = {}
+): Promise<ExtractionResult> {
+  return runExtraction(url, { userAgent: USER_AGENT, ...options, strategies: getWebStrategies(url) })
 }
 
 /**
  * Fetches raw llms.txt content without parsing
+ * A locale other than English tries that translation's file first
  */
-export async function fetchLlmsTxt(url: string): Promise<{ content: string; sourceUrl: string }> {
-  let targetUrl = url.trim()
-  if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
-    targetUrl = `https://${targetUrl}`
-  }
+export async function fetchLlmsTxt(url: string, locale?: string): Promise<{ content: string; sourceUrl: string }> {
+  const context = createStrategyContext(url, { userAgent: USER_AGENT, locale })
+  const located = await locateLlmsTxt(context)
 
-  let urlObj: URL
-  try {
-    urlObj = new URL(targetUrl)
-  } catch {
-    throw new Error('Invalid URL format')
+  if (!located) {
+    throw new Error(`No llms.txt or llms-full.txt found at ${new URL(context.url).host}`)
   }
-  
-  const baseUrl = `${urlObj.protocol}//${urlObj.host}`
-  
-  const urlsToTry = [
-    `${baseUrl}/llms-full.txt`,
-    `${baseUrl}/llms.txt`
-  ]
-  
-  for (const tryUrl of urlsToTry) {
-    try {
-      const response = await fetch(tryUrl, {
-        headers: {
-          'User-Agent': 'LLMs-Forge-MCP/1.0 (Documentation Extractor)',
-        },
-      })
-      
-      if (response.ok) {
-        const content = await response.text()
-        return { content, sourceUrl: tryUrl }
-      }
-    } catch {
-      continue
-    }
-  }
-  
-  throw new Error(`No llms.txt or llms-full.txt found at ${urlObj.host}`)
+
+  return { content: located.content, sourceUrl: located.url }
 }
 
 /**
@@ -13,12 +13,20 @@ import {
   McpError
 } from '@modelcontextprotocol/sdk/types.js'
 
-import { extractDocumentation, fetchLlmsTxt, verifyLlmsTxt, discoverDocumentationUrls } from './extractor.js'
+import { buildSearchIndex, getExtractionVariant, parseDocumentPriorities, querySearchIndex, highlightSnippet, type SearchIndex } from '@llm-energy/core'
+import { extractDocumentation, fetchLlmsTxt, verifyLlmsTxt, discoverDocumentationUrls, type McpExtractOptions } from './extractor.js'
+import { createSnapshotStore } from './snapshots.js'
 import type { ExtractionResult, Document } from './types.js'
 
 // Store extracted documentation in memory for resource access
 const extractionCache = new Map<string, ExtractionResult>()
 
+// Search indexes for cached extractions, built on the first query
+const searchIndexCache = new Map<string, SearchIndex>()
+
+// Versioned snapshots on disk; enabled by SNAPSHOT_STORE=fs
+const snapshotStore = createSnapshotStore()
+
 const server = new Server(
   {
     name: 'llm-energy-mcp',
@@ -39,13 +47,41 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     tools: [
       {
         name: 'extract_documentation',
-        description: 'Extract and parse documentation from a website that has llms.txt or llms-full.txt. Returns structured documents ready for AI consumption including individual sections, a full consolidated document, and an agent guide.',
+        description: 'Extract and parse documentation from a website: its llms.txt or llms-full.txt, or else its sitemap, docs site, OpenAPI spec, GitHub docs folder or linked pages. Returns structured documents ready for AI consumption including individual sections, a full consolidated document, and an agent guide.',
         inputSchema: {
           type: 'object',
           properties: {
             url: {
               type: 'string',
               description: 'The URL of the documentation website (e.g., docs.anthropic.com, stripe.com/docs)'
+            },
+            expand_links: {
+              type: 'boolean',
+              description: 'When the site only has an llms.txt index, fetch each linked page as its own document (default: false)'
+            },
+            tokenizer: {
+              type: 'string',
+              description: 'Tokenizer or model used for token counts: cl100k, o200k, claude, or a model name such as gpt-4o or claude-sonnet-4 (default: cl100k)'
+            },
+            max_tokens: {
+              type: 'number',
+              description: 'Token budget for the full document. Introductions and getting-started pages are kept first; Optional and changelog sections are dropped first and listed in the agent guide'
+            },
+            priorities: {
+              type: 'object',
+              description: 'Ranking used with max_tokens: terms matched as whole words in section titles, filenames and URLs. A list replaces the default one of its kind (default: introductions first; changelogs, migrations and Optional sections last)',
+              properties: {
+                first: { type: 'array', items: { type: 'string' }, description: 'Terms of sections to keep first, most important first' },
+                last: { type: 'array', items: { type: 'string' }, description: 'Terms of sections to drop first' }
+              }
+            },
+            keep_duplicates: {
+              type: 'boolean',
+              description: 'Keep near-duplicate sections (e.g. repeated in linked llms-full.txt files) instead of collapsing them; duplicates are flagged with duplicateOf (default: false)'
+            },
+            locale: {
+              type: 'string',
+              description: 'Language tag of the translation to extract, e.g. ja, de or pt-BR. Pages and llms.txt files of other languages are left out; the locales the site offers are listed in the response (default: en)'
             }
           },
           required: ['url']
@@ -60,6 +96,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             url: {
               type: 'string',
               description: 'The URL of the documentation website'
+            },
+            locale: {
+              type: 'string',
+              description: 'Language tag of a translated file to try first, e.g. ja for /ja/llms.txt or llms-ja.txt (default: en)'
             }
           },
           required: ['url']
@@ -83,6 +123,28 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['url', 'filename']
         }
       },
+      {
+        name: 'search_documentation',
+        description: 'Full-text search over a site\'s documentation. Returns ranked snippets with the matching filename, so you can fetch only the sections you need with get_document_section. Extracts the site first if it has not been extracted yet.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              description: 'The URL of the documentation website'
+            },
+            query: {
+              type: 'string',
+              description: 'What to search for (e.g., "refresh token expiry")'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of results (default: 10)'
+            }
+          },
+          required: ['url', 'query']
+        }
+      },
       {
         name: 'list_extracted_documents',
         description: 'List all document sections from a previously extracted URL.',
@@ -125,6 +187,46 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['url']
         }
       },
+      {
+        name: 'list_snapshots',
+        description: 'List the saved snapshot versions of a URL with their content hash and timestamp. Every extract_documentation call saves a new version when the content changed. Requires SNAPSHOT_STORE=fs.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              description: 'The URL of the documentation website'
+            },
+            variant: {
+              type: 'string',
+              description: 'Snapshot variant reported by extract_documentation for non-default options such as expand_links or tokenizer (default: default options)'
+            }
+          },
+          required: ['url']
+        }
+      },
+      {
+        name: 'load_snapshot',
+        description: 'Load a saved snapshot version of a URL so the other tools (get_document_section, search_documentation, ...) read that exact version. Use it to pin or reproduce a run.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              description: 'The URL of the documentation website'
+            },
+            version: {
+              type: 'number',
+              description: 'Snapshot version from list_snapshots (default: latest)'
+            },
+            variant: {
+              type: 'string',
+              description: 'Snapshot variant reported by extract_documentation for non-default options such as expand_links or tokenizer (default: default options)'
+            }
+          },
+          required: ['url']
+        }
+      },
       {
         name: 'verify_llms_txt',
         description: 'Check if a website has a valid llms.txt or llms-full.txt file. Returns availability status, file location, and basic metadata.',
@@ -169,11 +271,36 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new McpError(ErrorCode.InvalidParams, 'URL is required')
         }
 
-        const result = await extractDocumentation(url)
+        const maxTokens = args?.max_tokens
+        if (maxTokens !== undefined && (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens <= 0)) {
+          throw new McpError(ErrorCode.InvalidParams, 'max_tokens must be a positive integer')
+        }
+
+        const priorities = parseDocumentPriorities(args?.priorities)
+        if (priorities === null) {
+          throw new McpError(ErrorCode.InvalidParams, 'priorities must be { first?: string[], last?: string[] } with at most 20 terms each')
+        }
+
+        const options: McpExtractOptions = {
+          expandLinks: args?.expand_links === true,
+          tokenizer: typeof args?.tokenizer === 'string' ? args.tokenizer : undefined,
+          maxTokens,
+          priorities,
+          keepDuplicates: args?.keep_duplicates === true,
+          locale: typeof args?.locale === 'string' ? args.locale : undefined,
+        }
+        const result = await extractDocumentation(url, options)
         
         // Cache the result for later access
         const cacheKey = normalizeUrl(url)
         extractionCache.set(cacheKey, result)
+        searchIndexCache.delete(cacheKey)
+
+        // Each combination of options is versioned separately
+        const snapshot = await snapshotStore?.save(result, getExtractionVariant(options)).catch(error => {
+          console.error('Snapshot error:', error)
+          return undefined
+        })
 
         return {
           content: [
@@ -183,20 +310,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 success: true,
                 url: result.url,
                 sourceUrl: result.sourceUrl,
+                locale: result.locale,
+                locales: result.locales,
                 stats: result.stats,
                 documents: result.documents.map(d => ({
                   filename: d.filename,
                   title: d.title,
-                  tokens: d.tokens
+                  tokens: d.tokens,
+                  sourceUrls: d.sourceUrls,
+                  duplicateOf: d.duplicateOf
                 })),
                 fullDocument: {
                   filename: result.fullDocument.filename,
                   tokens: result.fullDocument.tokens
                 },
+                budget: result.budget,
+                snapshot: snapshot && { version: snapshot.version, hash: snapshot.hash, variant: snapshot.variant },
                 agentGuide: {
                   filename: result.agentGuide.filename,
                   tokens: result.agentGuide.tokens
                 },
+                codeExamples: result.codeExamples && {
+                  filename: result.codeExamples.document.filename,
+                  tokens: result.codeExamples.document.tokens,
+                  count: result.codeExamples.count,
+                  languages: result.codeExamples.groups.map(g => g.language)
+                },
                 message: `Successfully extracted ${result.stats.documentCount} documents (${result.stats.totalTokens} tokens) in ${result.stats.processingTime}ms. Use get_document_section, get_full_documentation, or get_agent_guide to access the content.`
               }, null, 2)
             }
@@ -204,13 +343,69 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
+      case 'list_snapshots':
+      case 'load_snapshot': {
+        const url = args?.url as string
+        if (!url) {
+          throw new McpError(ErrorCode.InvalidParams, 'URL is required')
+        }
+        if (!snapshotStore) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            'Snapshots are disabled. Set SNAPSHOT_STORE=fs (and optionally SNAPSHOT_PATH) to enable them.'
+          )
+        }
+
+        const variant = typeof args?.variant === 'string' ? args.variant : ''
+
+        if (name === 'list_snapshots') {
+          const snapshots = await snapshotStore.list(url, variant)
+          return {
+            content: [
+              {
+                type: 'text',
+                text: snapshots.length > 0
+                  ? JSON.stringify({ url, ...(variant ? { variant } : {}), snapshots }, null, 2)
+                  : `No snapshots for ${url}. Run extract_documentation to save one.`
+              }
+            ]
+          }
+        }
+
+        const version = args?.version
+        if (version !== undefined && (typeof version !== 'number' || !Number.isInteger(version) || version < 1)) {
+          throw new McpError(ErrorCode.InvalidParams, 'version must be a positive integer')
+        }
+
+        const snapshot = await snapshotStore.get(url, version, variant)
+        if (!snapshot) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `No snapshot${version ? ` version ${version}` : ''} for ${url}. Use list_snapshots to see the saved versions.`
+          )
+        }
+
+        const cacheKey = normalizeUrl(url)
+        extractionCache.set(cacheKey, snapshot.result)
+        searchIndexCache.delete(cacheKey)
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Loaded version ${snapshot.version} of ${snapshot.url} (hash ${snapshot.hash}, saved ${snapshot.createdAt}): ${snapshot.documentCount} documents, ${snapshot.totalTokens} tokens. The other tools now read this version.`
+            }
+          ]
+        }
+      }
+
       case 'fetch_llms_txt': {
         const url = args?.url as string
         if (!url) {
           throw new McpError(ErrorCode.InvalidParams, 'URL is required')
         }
 
-        const { content, sourceUrl } = await fetchLlmsTxt(url)
+        const { content, sourceUrl } = await fetchLlmsTxt(url, typeof args?.locale === 'string' ? args.locale : undefined)
 
         return {
           content: [
@@ -260,6 +455,58 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
+      case 'search_documentation': {
+        const url = args?.url as string
+        const query = args?.query as string
+
+        if (!url || !query) {
+          throw new McpError(ErrorCode.InvalidParams, 'URL and query are required')
+        }
+
+        const cacheKey = normalizeUrl(url)
+        let cached = extractionCache.get(cacheKey)
+        if (!cached) {
+          cached = await extractDocumentation(url)
+          extractionCache.set(cacheKey, cached)
+        }
+
+        let index = searchIndexCache.get(cacheKey)
+        if (!index) {
+          index = buildSearchIndex(cached)
+          searchIndexCache.set(cacheKey, index)
+        }
+
+        const limit = typeof args?.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : 10
+        const hits = querySearchIndex(index, query, { limit })
+
+        if (hits.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No results for "${query}" in ${cached.sourceUrl}.`
+              }
+            ]
+          }
+        }
+
+        const text = hits.map((hit, i) => {
+          const location = hit.headingPath && hit.headingPath.length > 0
+            ? hit.headingPath.join(' > ')
+            : hit.title
+          return `${i + 1}. **${location}** (${hit.filename}, score ${hit.score})\n   ${highlightSnippet(hit)}`
+        }).join('\n\n')
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Results for "${query}" in ${cached.sourceUrl}:\n\n${text}\n\nUse get_document_section with a filename to read the full section.`
+            }
+          ]
+        }
+      }
+
       case 'list_extracted_documents': {
         const url = args?.url as string
         
@@ -423,6 +670,22 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
       description: `AI agent usage guide for ${url}`,
       mimeType: 'text/markdown'
     })
+
+    if (result.codeExamples) {
+      resources.push({
+        uri: `llms-forge://${url}/code-examples`,
+        name: `Code Examples - ${url}`,
+        description: `${result.codeExamples.count} code examples grouped by language and topic`,
+        mimeType: 'text/markdown'
+      })
+
+      resources.push({
+        uri: `llms-forge://${url}/code-examples.json`,
+        name: `Code Examples (JSON) - ${url}`,
+        description: `${result.codeExamples.count} code examples with language, heading and source URL`,
+        mimeType: 'application/json'
+      })
+    }
     
     for (const doc of result.documents) {
       resources.push({
@@ -459,11 +722,17 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
   }
   
   let content: string
+  let mimeType = 'text/markdown'
   
   if (filename === 'full') {
     content = cached.fullDocument.content
   } else if (filename === 'guide') {
     content = cached.agentGuide.content
+  } else if (filename === 'code-examples' && cached.codeExamples) {
+    content = cached.codeExamples.document.content
+  } else if (filename === 'code-examples.json' && cached.codeExamples) {
+    content = JSON.stringify(cached.codeExamples.groups, null, 2)
+    mimeType = 'application/json'
   } else {
     const doc = cached.documents.find(d => d.filename === filename)
     if (!doc) {
@@ -476,7 +745,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     contents: [
       {
         uri,
-        mimeType: 'text/markdown',
+        mimeType,
         text: content
       }
     ]
@@ -0,0 +1,17 @@
+import type { SnapshotStore } from '@llm-energy/core'
+import { FileSnapshotStore, getSnapshotStoreConfig } from '@llm-energy/core/snapshot-store'
+
+/**
+ * Store configured with SNAPSHOT_STORE and SNAPSHOT_PATH, or null when snapshots are disabled
+ *
+ * Uses the same filesystem store and variables as the web app, so both can
+ * share a directory. The SQLite store is only available in the web app.
+ */
+export function createSnapshotStore(): SnapshotStore | null {
+  const config = getSnapshotStoreConfig()
+  if (config?.kind === 'sqlite') {
+    console.error('SNAPSHOT_STORE=sqlite is not supported by the MCP server; use "fs". Snapshots are disabled.')
+    return null
+  }
+  return config ? new FileSnapshotStore(config.location) : null
+}
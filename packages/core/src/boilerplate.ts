@@ -0,0 +1,203 @@
+/**
+ * Boilerplate - Strips text that recurs across most pages of a crawl
+ *
+ * html-to-markdown drops navigation and footers by tag and class, but
+ * cookie banners, "Was this page helpful?" widgets, footer link lists and
+ * version pickers are often plain paragraphs and lists inside the content.
+ * Every block of every page (and every list item or link line) is
+ * fingerprinted; what appears on most pages of the site is not documentation
+ * and is removed from all of them.
+ */
+
+import type { BoilerplateBlock, BoilerplateReport } from './types';
+import { countWords, type MarkdownDocument } from './html-to-markdown';
+
+export interface BoilerplateOptions {
+  /** Share of the pages a block must appear on to be stripped (default: 0.6) */
+  minShare?: number;
+  /** Pages a block must appear on at the least (default: 3) */
+  minPages?: number;
+}
+
+export interface BoilerplateResult {
+  pages: MarkdownDocument[];
+  /** What was stripped; undefined when nothing was */
+  report?: BoilerplateReport;
+}
+
+const DEFAULT_MIN_SHARE = 0.6;
+const DEFAULT_MIN_PAGES = 3;
+const REPORT_TEXT_LENGTH = 200;
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HEADING_PATTERN = /^#{1,6}\s/;
+/** List items, and lines made of nothing but links */
+const LINE_PATTERN = /^\s*([-*+]|\d+[.)])\s+\S|^\s*(\[[^\]]*\]\([^)]*\)[\s|·•–—-]*)+$/;
+
+interface Block {
+  text: string;
+  /** Headings and code blocks are never stripped by fingerprint */
+  kind: 'heading' | 'code' | 'text';
+}
+
+/**
+ * Split markdown into blank-line separated blocks, keeping fenced code whole
+ */
+function splitBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  let lines: string[] = [];
+  let fenced = false;
+  let code = false;
+
+  const flush = () => {
+    if (lines.length > 0) {
+      const text = lines.join('\n');
+      blocks.push({ text, kind: code ? 'code' : HEADING_PATTERN.test(text) && lines.length === 1 ? 'heading' : 'text' });
+    }
+    lines = [];
+    code = false;
+  };
+
+  for (const line of content.split('\n')) {
+    if (FENCE_PATTERN.test(line)) {
+      if (!fenced) {
+        flush();
+        code = true;
+      }
+      fenced = !fenced;
+      lines.push(line);
+      if (!fenced) flush();
+    } else if (!fenced && !line.trim()) {
+      flush();
+    } else if (!fenced && HEADING_PATTERN.test(line)) {
+      flush();
+      lines.push(line);
+      flush();
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Normalized text that recognises the same block on different pages
+ * Link targets and numbers are left out, so "Edit this page" links and
+ * "Last updated" dates still match.
+ */
+export function fingerprintBlock(text: string): string {
+  return text
+    .replace(/\]\([^)]*\)/g, ']')
+    .replace(/\d+/g, '0')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Number of pages each fingerprint appears on, with its first text
+ */
+function countPages(pages: string[][]): Map<string, { text: string; pages: number }> {
+  const counts = new Map<string, { text: string; pages: number }>();
+  for (const texts of pages) {
+    const seen = new Set<string>();
+    for (const text of texts) {
+      const key = fingerprintBlock(text);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      const entry = counts.get(key);
+      if (entry) entry.pages++;
+      else counts.set(key, { text, pages: 1 });
+    }
+  }
+  return counts;
+}
+
+function recurring(counts: Map<string, { text: string; pages: number }>, threshold: number): Map<string, { text: string; pages: number }> {
+  return new Map([...counts].filter(([, entry]) => entry.pages >= threshold));
+}
+
+function linesOf(block: Block): string[] {
+  return block.kind === 'text' ? block.text.split('\n').filter(line => LINE_PATTERN.test(line)) : [];
+}
+
+/**
+ * Remove boilerplate blocks and lines from one page's blocks
+ * Headings whose whole section was removed go as well. Returns null when
+ * the page has no boilerplate.
+ */
+function stripBlocks(blocks: Block[], isBlock: (text: string) => boolean, isLine: (line: string) => boolean): string | null {
+  const kept = blocks.map(block => {
+    if (block.kind !== 'text') return block;
+    if (isBlock(block.text)) return null;
+
+    const lines = block.text.split('\n');
+    const keptLines = lines.filter(line => !(LINE_PATTERN.test(line) && isLine(line)));
+    if (keptLines.length === lines.length) return block;
+    return keptLines.some(line => line.trim()) ? { ...block, text: keptLines.join('\n') } : null;
+  });
+
+  blocks.forEach((block, i) => {
+    if (block.kind !== 'heading') return;
+    let end = i + 1;
+    while (end < blocks.length && blocks[end].kind !== 'heading') end++;
+    if (end > i + 1 && kept.slice(i + 1, end).every(candidate => candidate === null)) kept[i] = null;
+  });
+
+  if (kept.every((block, i) => block === blocks[i])) return null;
+  return kept.filter((block): block is Block => block !== null).map(block => block.text).join('\n\n');
+}
+
+function reportText(text: string): string {
+  return text.length > REPORT_TEXT_LENGTH ? `${text.slice(0, REPORT_TEXT_LENGTH - 3)}...` : text;
+}
+
+/**
+ * Strip the blocks and lines that recur across most pages of a crawl
+ * A page that would be left empty is kept as it was.
+ *
+ * @example
+ * const { pages, report } = stripBoilerplate(crawled.documents);
+ * report?.removed[0].text // 'Was this page helpful?'
+ */
+export function stripBoilerplate(pages: MarkdownDocument[], options: BoilerplateOptions = {}): BoilerplateResult {
+  const { minShare = DEFAULT_MIN_SHARE, minPages = DEFAULT_MIN_PAGES } = options;
+  const threshold = Math.max(minPages, Math.ceil(pages.length * minShare));
+  if (pages.length < threshold) return { pages };
+
+  const parsed = pages.map(page => splitBlocks(page.content));
+
+  const blocks = recurring(countPages(parsed.map(page =>
+    page.filter(block => block.kind === 'text').map(block => block.text)
+  )), threshold);
+  const isBlock = (text: string) => blocks.has(fingerprintBlock(text));
+
+  // Lines are only counted in blocks that stay, so a recurring footer is reported once
+  const lines = recurring(countPages(parsed.map(page =>
+    page.filter(block => !isBlock(block.text)).flatMap(linesOf)
+  )), threshold);
+  const isLine = (line: string) => lines.has(fingerprintBlock(line));
+
+  if (blocks.size === 0 && lines.size === 0) return { pages };
+
+  let removedCharacters = 0;
+  const stripped = pages.map((page, i) => {
+    const content = stripBlocks(parsed[i], isBlock, isLine);
+    if (content === null || !content.trim()) return page;
+    removedCharacters += page.content.length - content.length;
+    return { ...page, content, wordCount: countWords(content) };
+  });
+  if (removedCharacters === 0) return { pages };
+
+  const removed: BoilerplateBlock[] = [
+    ...[...blocks.values()].map(({ text, pages }) => ({ text: reportText(text), kind: 'block' as const, pageCount: pages })),
+    ...[...lines.values()].map(({ text, pages }) => ({ text: reportText(text.trim()), kind: 'line' as const, pageCount: pages })),
+  ].sort((a, b) => b.pageCount - a.pageCount);
+
+  return {
+    pages: stripped,
+    report: { pageCount: pages.length, removed, removedCharacters },
+  };
+}
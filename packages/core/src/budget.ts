@@ -0,0 +1,291 @@
+/**
+ * @llm-energy/core - Token budgets
+ *
+ * Ranks documents by how useful they are as context and packs the most
+ * useful ones into an llms-full.md that fits a token budget. Introductions
+ * and getting-started guides come first; `## Optional` pages, changelogs and
+ * release notes are the first to go.
+ */
+
+import type { Document, DocumentPriorities, TokenBudget } from './types'
+import { generateFullDocument, tableOfContentsLine } from './generator'
+import { estimateTokens } from './parser'
+
+/** Separator between documents in llms-full.md */
+const DOCUMENT_SEPARATOR = '\n\n---\n\n'
+
+/**
+ * Default ranking, in the spirit of sortDocumentationUrls for scraped pages
+ */
+export const DEFAULT_DOCUMENT_PRIORITIES: DocumentPriorities = {
+  first: [
+    /\b(intro|introduction|overview|about)\b/i,
+    /getting[\s_-]?started|quick[\s_-]?start/i,
+    /\b(install|installation|setup)\b/i,
+    /\b(guides?|tutorials?|concepts?)\b/i,
+    /\b(api|reference)\b/i,
+  ],
+  last: [
+    /\b(migrat\w*|upgrad\w*|deprecat\w*)\b/i,
+    /\b(changelog|change[\s_-]log|release[\s_-]?notes|releases)\b/i,
+    /\boptional\b/i,
+  ],
+}
+
+/** Most terms accepted per list by parseDocumentPriorities */
+const MAX_PRIORITY_TERMS = 20
+
+/**
+ * Ranking terms sent by API and MCP callers
+ */
+export interface DocumentPriorityTerms {
+  /** Terms of documents to keep first, most important first (array or comma-separated) */
+  first?: string[] | string
+  /** Terms of documents to drop first, last term first (array or comma-separated) */
+  last?: string[] | string
+}
+
+/**
+ * Reads one list of terms; null when it is not strings or has too many
+ */
+function parseTerms(value: unknown): RegExp[] | undefined | null {
+  if (value === undefined || value === null) return undefined
+  const terms = typeof value === 'string' ? value.split(',') : value
+  if (!Array.isArray(terms) || !terms.every(term => typeof term === 'string')) return null
+
+  const trimmed = terms.map(term => term.trim()).filter(Boolean)
+  if (trimmed.length > MAX_PRIORITY_TERMS) return null
+  // Plain words, never patterns: callers cannot send an expensive regex
+  return trimmed.map(term => {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    return new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`, 'i')
+  })
+}
+
+/**
+ * Builds a ranking from caller-supplied terms
+ * Each term matches a document's title, filename or URL as a whole word,
+ * ignoring case. A list that is given replaces the default list of that kind.
+ *
+ * @param value - DocumentPriorityTerms, e.g. from a request body
+ * @returns The ranking, undefined when no terms were given, or null when they are invalid
+ *
+ * @example
+ * parseDocumentPriorities({ first: ['webhooks'], last: 'legacy, v1' })
+ */
+export function parseDocumentPriorities(value: unknown): DocumentPriorities | undefined | null {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'object' || Array.isArray(value)) return null
+
+  const { first, last } = value as DocumentPriorityTerms
+  const firstPatterns = parseTerms(first)
+  const lastPatterns = parseTerms(last)
+  if (firstPatterns === null || lastPatterns === null) return null
+  if (!firstPatterns && !lastPatterns) return undefined
+
+  return {
+    first: firstPatterns ?? DEFAULT_DOCUMENT_PRIORITIES.first,
+    last: lastPatterns ?? DEFAULT_DOCUMENT_PRIORITIES.last,
+  }
+}
+
+/**
+ * Fields used to rank a document
+ */
+export interface RankableDocument {
+  title: string
+  filename?: string
+  sourceUrl?: string
+  optional?: boolean
+}
+
+/**
+ * Options for packing documents into a token budget
+ */
+export interface PackOptions {
+  /** Ranking used to decide what is dropped (default: DEFAULT_DOCUMENT_PRIORITIES) */
+  priorities?: DocumentPriorities
+  /** Vocabulary or model name used for the full document's token count */
+  tokenizer?: string
+}
+
+/**
+ * Documents that fit a budget and the ones that were left out
+ */
+export interface BudgetSelection<T> {
+  /** Documents within the budget, in their original order */
+  included: T[]
+  /** Documents that did not fit, most important first */
+  dropped: T[]
+}
+
+/**
+ * Output of packDocuments
+ */
+export interface PackedDocuments {
+  fullDocument: Document
+  /** Documents included in the full document, in their original order */
+  included: Document[]
+  budget: TokenBudget
+}
+
+/**
+ * Scores a document; lower scores are kept first
+ */
+function priorityScore(document: RankableDocument, priorities: DocumentPriorities): number {
+  const text = [document.title, document.filename, document.sourceUrl].filter(Boolean).join(' ')
+  const neutral = priorities.first.length
+
+  if (document.optional) {
+    return neutral + priorities.last.length + 1
+  }
+
+  const last = priorities.last.findIndex(pattern => pattern.test(text))
+  if (last !== -1) {
+    return neutral + 1 + last
+  }
+
+  const first = priorities.first.findIndex(pattern => pattern.test(text))
+  return first === -1 ? neutral : first
+}
+
+/**
+ * Orders documents from most to least important
+ * Documents with the same priority keep their original order.
+ *
+ * @param documents - Documents to rank
+ * @param priorities - Patterns for documents to keep first and drop first
+ * @returns A new, ranked array
+ *
+ * @example
+ * rankDocuments(result.documents).map(doc => doc.title)
+ * // ['Introduction', 'Getting Started', 'Guides', ..., 'Changelog']
+ */
+export function rankDocuments<T extends RankableDocument>(
+  documents: T[],
+  priorities: DocumentPriorities = DEFAULT_DOCUMENT_PRIORITIES
+): T[] {
+  return documents
+    .map((document, index) => ({ document, index, score: priorityScore(document, priorities) }))
+    .sort((a, b) => a.score - b.score || a.index - b.index)
+    .map(entry => entry.document)
+}
+
+/**
+ * Picks the most important documents whose tokens add up to at most maxTokens
+ * A document that does not fit is skipped, so smaller documents of lower
+ * priority can still use the remaining budget.
+ *
+ * @param documents - Documents with token counts
+ * @param maxTokens - Token budget
+ * @param priorities - Ranking used to decide what is dropped
+ * @param cost - Tokens a document takes up (default: its own tokens)
+ * @returns The included documents in their original order and the dropped ones
+ */
+export function selectWithinBudget<T extends RankableDocument & { tokens: number }>(
+  documents: T[],
+  maxTokens: number,
+  priorities: DocumentPriorities = DEFAULT_DOCUMENT_PRIORITIES,
+  cost: (document: T) => number = document => document.tokens
+): BudgetSelection<T> {
+  const kept = new Set<T>()
+  const dropped: T[] = []
+  let used = 0
+
+  for (const document of rankDocuments(documents, priorities)) {
+    const tokens = cost(document)
+    if (used + tokens <= maxTokens) {
+      kept.add(document)
+      used += tokens
+    } else {
+      dropped.push(document)
+    }
+  }
+
+  return {
+    included: documents.filter(document => kept.has(document)),
+    dropped,
+  }
+}
+
+/**
+ * Builds an llms-full.md that fits within maxTokens
+ * The header, table of contents and separators count towards the budget:
+ * each document is charged for its own entry and separator, and when token
+ * boundaries still push the file over, a binary search finds how many of the
+ * most important documents fit. The full file is tokenized a few times at
+ * most, not once per dropped document.
+ *
+ * @param documents - Parsed documents
+ * @param rawContent - Original raw content
+ * @param sourceUrl - URL the documentation was read from
+ * @param maxTokens - Token budget for the full document
+ * @param options - Ranking and tokenizer
+ * @returns The budgeted full document and a report of what was dropped
+ *
+ * @example
+ * const { fullDocument, budget } = packDocuments(documents, raw, url, 50000)
+ * console.log(`${budget.dropped.length} documents left out`)
+ */
+export function packDocuments(
+  documents: Document[],
+  rawContent: string,
+  sourceUrl: string,
+  maxTokens: number,
+  options: PackOptions = {}
+): PackedDocuments {
+  const priorities = options.priorities ?? DEFAULT_DOCUMENT_PRIORITIES
+  const { tokenizer } = options
+  const build = (selected: Document[]) => generateFullDocument(selected, rawContent, sourceUrl, tokenizer)
+
+  const empty = build([])
+  const header = empty.tokens + estimateTokens(`## Table of Contents\n\n${DOCUMENT_SEPARATOR}`, tokenizer)
+  // The widest list number stands in for every entry's
+  const entryCost = (document: Document) =>
+    document.tokens + estimateTokens(`${tableOfContentsLine(document, documents.length - 1)}\n${DOCUMENT_SEPARATOR}`, tokenizer)
+
+  const selection = selectWithinBudget(documents, maxTokens - header, priorities, entryCost)
+  let included = selection.included
+  const dropped = selection.dropped
+  let fullDocument = build(included)
+
+  if (fullDocument.tokens > maxTokens) {
+    // Keep the largest number of top-ranked documents that fits
+    const ranked = rankDocuments(included, priorities)
+    let fits = 0
+    let over = ranked.length
+    let best = empty
+    while (over - fits > 1) {
+      const middle = Math.floor((fits + over) / 2)
+      const kept = new Set(ranked.slice(0, middle))
+      const candidate = build(included.filter(document => kept.has(document)))
+      if (candidate.tokens <= maxTokens) {
+        fits = middle
+        best = candidate
+      } else {
+        over = middle
+      }
+    }
+
+    const kept = new Set(ranked.slice(0, fits))
+    dropped.push(...ranked.slice(fits))
+    included = included.filter(document => kept.has(document))
+    fullDocument = best
+  }
+
+  return {
+    fullDocument,
+    included,
+    budget: {
+      maxTokens,
+      usedTokens: fullDocument.tokens,
+      includedCount: included.length,
+      dropped: rankDocuments(dropped, priorities).map(({ filename, title, tokens, sourceUrl: url }) => ({
+        filename,
+        title,
+        tokens,
+        ...(url && { sourceUrl: url }),
+      })),
+    },
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * @llm-energy/core - LRU cache
+ *
+ * LRU cache with TTL support, plus the caches the crawling strategies share
+ * across extractions: robots.txt files and how each origin serves markdown.
+ * Pure TypeScript implementation with no external dependencies
+ */
+
+import type { CacheEntry, HttpValidators } from './types'
+
+export interface CacheOptions {
+  /** Time to live in milliseconds (default: 5 minutes) */
+  ttl?: number
+  /** Maximum cache entries (default: 100) */
+  maxEntries?: number
+}
+
+export interface CacheStats {
+  hits: number
+  misses: number
+  size: number
+  evictions: number
+  /** Expired entries renewed after the origin answered 304 Not Modified */
+  revalidations: number
+}
+
+/**
+ * Normalize a URL for use as a cache key
+ * - Removes trailing slashes
+ * - Lowercases the host
+ * - Removes default ports
+ */
+export function normalizeUrlKey(url: string): string {
+  try {
+    const parsed = new URL(url)
+    // Lowercase the host
+    const host = parsed.host.toLowerCase()
+    // Remove trailing slashes from pathname
+    const pathname = parsed.pathname.replace(/\/+$/, '') || '/'
+    // Reconstruct URL without search params for caching purposes
+    return `${parsed.protocol}//${host}${pathname}`
+  } catch {
+    // If URL parsing fails, just normalize basic things
+    return url.toLowerCase().replace(/\/+$/, '')
+  }
+}
+
+/**
+ * Separates the URL of a cache key from its option variant
+ * A space never appears in a normalized URL, so fragments and query strings
+ * cannot be mistaken for a variant.
+ */
+const VARIANT_SEPARATOR = ' '
+
+/**
+ * Build the cache key of one option variant of a URL, e.g. an expanded extraction
+ * An empty variant gives the plain URL key.
+ *
+ * @example
+ * cacheKeyWithVariant('https://Example.com/docs/', 'expand') // 'https://example.com/docs expand'
+ */
+export function cacheKeyWithVariant(url: string, variant: string): string {
+  const key = normalizeUrlKey(url)
+  return variant ? `${key}${VARIANT_SEPARATOR}${variant}` : key
+}
+
+/**
+ * Normalize a cache key: its URL with normalizeUrlKey, its variant (if any) as-is
+ */
+export function normalizeCacheKey(key: string): string {
+  const separator = key.indexOf(VARIANT_SEPARATOR)
+  return separator === -1
+    ? normalizeUrlKey(key)
+    : `${normalizeUrlKey(key.slice(0, separator))}${key.slice(separator)}`
+}
+
+/**
+ * LRU Cache implementation with TTL support
+ * Thread-safe for serverless environments
+ */
+export class LRUCache<T> {
+  private cache: Map<string, CacheEntry<T>>
+  private readonly maxEntries: number
+  private readonly defaultTtl: number
+  private stats: CacheStats
+
+  constructor(options: CacheOptions = {}) {
+    this.cache = new Map()
+    this.maxEntries = options.maxEntries ?? 100
+    this.defaultTtl = options.ttl ?? 5 * 60 * 1000 // 5 minutes default
+    this.stats = {
+      hits: 0,
+      misses: 0,
+      size: 0,
+      evictions: 0,
+      revalidations: 0,
+    }
+  }
+
+  /**
+   * Get a value from the cache
+   * Returns null if not found or expired
+   */
+  get(key: string): T | null {
+    const normalizedKey = normalizeCacheKey(key)
+    const entry = this.cache.get(normalizedKey)
+
+    if (!entry) {
+      this.stats.misses++
+      return null
+    }
+
+    // Check if entry has expired
+    const now = Date.now()
+    if (now - entry.timestamp > entry.ttl) {
+      // Entry expired, remove it unless it can still be revalidated
+      if (!entry.validators) {
+        this.cache.delete(normalizedKey)
+        this.stats.size = this.cache.size
+      }
+      this.stats.misses++
+      return null
+    }
+
+    // Move to end (most recently used) by re-inserting
+    this.cache.delete(normalizedKey)
+    this.cache.set(normalizedKey, entry)
+
+    this.stats.hits++
+    return entry.data
+  }
+
+  /**
+   * Set a value in the cache with optional custom TTL
+   * With validators, the entry is kept after it expires so getStale() can
+   * return it for a conditional request
+   */
+  set(key: string, value: T, ttl?: number, validators?: HttpValidators): void {
+    const normalizedKey = normalizeCacheKey(key)
+    const entry: CacheEntry<T> = {
+      data: value,
+      timestamp: Date.now(),
+      ttl: ttl ?? this.defaultTtl,
+      validators: validators?.etag || validators?.lastModified ? validators : undefined,
+    }
+
+    // If key exists, remove it first to update order
+    if (this.cache.has(normalizedKey)) {
+      this.cache.delete(normalizedKey)
+    }
+
+    // Check if we need to evict
+    while (this.cache.size >= this.maxEntries) {
+      // Get the oldest entry (first in Map iteration order)
+      const oldestKey = this.cache.keys().next().value
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey)
+        this.stats.evictions++
+      } else {
+        break
+      }
+    }
+
+    this.cache.set(normalizedKey, entry)
+    this.stats.size = this.cache.size
+  }
+
+  /**
+   * Check if a key exists and is not expired
+   */
+  has(key: string): boolean {
+    const normalizedKey = normalizeCacheKey(key)
+    const entry = this.cache.get(normalizedKey)
+
+    if (!entry) {
+      return false
+    }
+
+    // Check if entry has expired
+    const now = Date.now()
+    if (now - entry.timestamp > entry.ttl) {
+      if (!entry.validators) {
+        this.cache.delete(normalizedKey)
+        this.stats.size = this.cache.size
+      }
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Get an expired entry that can be revalidated with its origin
+   * Returns null if the key is missing, still fresh, or has no validators
+   */
+  getStale(key: string): { data: T; validators: HttpValidators } | null {
+    const entry = this.cache.get(normalizeCacheKey(key))
+    if (!entry?.validators || Date.now() - entry.timestamp <= entry.ttl) {
+      return null
+    }
+    return { data: entry.data, validators: entry.validators }
+  }
+
+  /**
+   * Start a new TTL for an entry whose origin answered 304 Not Modified
+   * Returns the cached value, or null if the key is missing
+   */
+  refresh(key: string, ttl?: number): T | null {
+    const normalizedKey = normalizeCacheKey(key)
+    const entry = this.cache.get(normalizedKey)
+    if (!entry) {
+      return null
+    }
+
+    entry.timestamp = Date.now()
+    if (ttl !== undefined) entry.ttl = ttl
+
+    // Move to end (most recently used)
+    this.cache.delete(normalizedKey)
+    this.cache.set(normalizedKey, entry)
+
+    this.stats.revalidations++
+    return entry.data
+  }
+
+  /**
+   * Delete a specific key from the cache
+   */
+  delete(key: string): boolean {
+    const normalizedKey = normalizeCacheKey(key)
+    const deleted = this.cache.delete(normalizedKey)
+    this.stats.size = this.cache.size
+    return deleted
+  }
+
+  /**
+   * Clear all entries from the cache
+   */
+  clear(): void {
+    this.cache.clear()
+    this.stats.size = 0
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): CacheStats {
+    return { ...this.stats }
+  }
+
+  /**
+   * Get the remaining TTL for a key in seconds
+   * Returns -1 if key doesn't exist or is expired
+   */
+  getTtlRemaining(key: string): number {
+    const remaining = this.getTtlRemainingMs(key)
+    return remaining === -1 ? -1 : Math.ceil(remaining / 1000)
+  }
+
+  /**
+   * Get the remaining TTL for a key in milliseconds, the unit set() takes
+   * Returns -1 if key doesn't exist or is expired
+   */
+  getTtlRemainingMs(key: string): number {
+    const normalizedKey = normalizeCacheKey(key)
+    const entry = this.cache.get(normalizedKey)
+
+    if (!entry) {
+      return -1
+    }
+
+    const remaining = entry.ttl - (Date.now() - entry.timestamp)
+    return remaining > 0 ? remaining : -1
+  }
+
+  /**
+   * Prune expired entries (can be called periodically)
+   */
+  prune(): number {
+    const now = Date.now()
+    let pruned = 0
+
+    const entries = Array.from(this.cache.entries())
+    for (const [key, entry] of entries) {
+      if (now - entry.timestamp > entry.ttl) {
+        this.cache.delete(key)
+        pruned++
+      }
+    }
+
+    this.stats.size = this.cache.size
+    return pruned
+  }
+
+  /**
+   * Get all cache keys (for debugging/monitoring)
+   */
+  keys(): string[] {
+    return Array.from(this.cache.keys())
+  }
+}
+
+const DEFAULT_ROBOTS_CACHE_TTL = 60 * 60 * 1000 // 1 hour
+const DEFAULT_PAGE_FORMAT_CACHE_TTL = 60 * 60 * 1000 // 1 hour
+
+// Singleton cache instance for robots.txt files, keyed by origin
+let robotsCacheInstance: LRUCache<unknown> | null = null
+
+/**
+ * Get the singleton robots.txt cache instance
+ */
+export function getRobotsCache<T>(): LRUCache<T> {
+  if (!robotsCacheInstance) {
+    robotsCacheInstance = new LRUCache<T>({
+      ttl: DEFAULT_ROBOTS_CACHE_TTL,
+      maxEntries: 500,
+    })
+  }
+  return robotsCacheInstance as LRUCache<T>
+}
+
+// Singleton cache instance for how each origin serves page markdown, keyed by origin
+let pageFormatCacheInstance: LRUCache<unknown> | null = null
+
+/**
+ * Get the singleton page format cache instance
+ */
+export function getPageFormatCache<T>(): LRUCache<T> {
+  if (!pageFormatCacheInstance) {
+    pageFormatCacheInstance = new LRUCache<T>({
+      ttl: DEFAULT_PAGE_FORMAT_CACHE_TTL,
+      maxEntries: 500,
+    })
+  }
+  return pageFormatCacheInstance as LRUCache<T>
+}
+
+/**
+ * Clear the robots.txt and page format caches
+ */
+export function clearCrawlCaches(): void {
+  robotsCacheInstance?.clear()
+  pageFormatCacheInstance?.clear()
+}
+
+/**
+ * Get stats of the robots.txt and page format caches (null when unused)
+ */
+export function getCrawlCacheStats(): { robots: CacheStats | null; pageFormat: CacheStats | null } {
+  return {
+    robots: robotsCacheInstance?.getStats() ?? null,
+    pageFormat: pageFormatCacheInstance?.getStats() ?? null,
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * @llm-energy/core - RAG chunker
+ *
+ * Splits extracted markdown into token-bounded, overlapping chunks for
+ * retrieval pipelines. Chunks never span two headings and never cut a
+ * fenced code block; each one records its heading path, source URL, index
+ * and a SHA-256 content hash.
+ */
+
+import type { Chunk, ChunkOptions, Document } from './types'
+import { estimateTokens } from './parser'
+import { sha256 } from './hash'
+
+/** Default maximum tokens per chunk */
+export const DEFAULT_CHUNK_TOKENS = 512
+
+/** Default tokens repeated from the end of the previous chunk */
+export const DEFAULT_CHUNK_OVERLAP = 64
+
+/**
+ * Smallest piece of text the chunker moves around: a sentence, a line, or a
+ * whole fenced code block
+ */
+interface Unit {
+  text: string
+  /** Separator placed before the unit when it follows another one */
+  separator: string
+  tokens: number
+  /** Fenced code blocks are never split or repeated as overlap */
+  code: boolean
+}
+
+/**
+ * Text under one heading
+ */
+interface Section {
+  headingPath: string[]
+  units: Unit[]
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+(?=[A-Z0-9`*_[(])/
+
+/**
+ * Splits text that is too long for one chunk on word boundaries
+ */
+function splitWords(text: string, maxTokens: number, tokenizer?: string): string[] {
+  const pieces: string[] = []
+  let current: string[] = []
+  let tokens = 0
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const wordTokens = estimateTokens(word, tokenizer)
+    if (current.length > 0 && tokens + wordTokens > maxTokens) {
+      pieces.push(current.join(' '))
+      current = []
+      tokens = 0
+    }
+    current.push(word)
+    tokens += wordTokens
+  }
+
+  if (current.length > 0) pieces.push(current.join(' '))
+  return pieces
+}
+
+/**
+ * Turns one prose line into sentence units (table rows stay whole)
+ */
+function lineUnits(line: string, separator: string, maxTokens: number, tokenizer?: string): Unit[] {
+  const sentences = line.trimStart().startsWith('|') ? [line] : line.split(SENTENCE_BOUNDARY)
+
+  return sentences.flatMap((sentence, i) => {
+    const pieces = estimateTokens(sentence, tokenizer) > maxTokens
+      ? splitWords(sentence, maxTokens, tokenizer)
+      : [sentence]
+    return pieces.map((text, j) => ({
+      text,
+      separator: i === 0 && j === 0 ? separator : ' ',
+      tokens: estimateTokens(text, tokenizer),
+      code: false,
+    }))
+  })
+}
+
+/**
+ * Parses markdown into sections with their heading path and units
+ */
+function parseSections(content: string, maxTokens: number, tokenizer?: string): Section[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n')
+  const sections: Section[] = []
+  const headings: Array<{ level: number; title: string }> = []
+
+  let current: Section = { headingPath: [], units: [] }
+  let fence: string[] | null = null
+  let separator = ''
+
+  const push = (units: Unit[]) => {
+    current.units.push(...units)
+    separator = '\n'
+  }
+
+  for (const line of lines) {
+    if (fence) {
+      fence.push(line)
+      if (FENCE_PATTERN.test(line)) {
+        const text = fence.join('\n')
+        push([{ text, separator, tokens: estimateTokens(text, tokenizer), code: true }])
+        fence = null
+      }
+      continue
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      fence = [line]
+      continue
+    }
+
+    const heading = line.match(HEADING_PATTERN)
+    if (heading) {
+      if (current.units.length > 0) sections.push(current)
+
+      const level = heading[1].length
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop()
+      }
+      headings.push({ level, title: heading[2] })
+
+      current = { headingPath: headings.map(h => h.title), units: [] }
+      separator = ''
+      push([{ text: line, separator, tokens: estimateTokens(line, tokenizer), code: false }])
+      continue
+    }
+
+    if (!line.trim()) {
+      // Remember the paragraph break for the next unit
+      if (current.units.length > 0) separator = '\n\n'
+      continue
+    }
+
+    push(lineUnits(line, separator, maxTokens, tokenizer))
+  }
+
+  // An unclosed fence runs to the end of the content
+  if (fence) {
+    const text = fence.join('\n')
+    push([{ text, separator, tokens: estimateTokens(text, tokenizer), code: true }])
+  }
+  if (current.units.length > 0) sections.push(current)
+
+  // A heading followed directly by a sub-heading has nothing of its own to index
+  return sections.filter(section => section.units.length > 1 || section.headingPath.length === 0)
+}
+
+/**
+ * Joins units back into markdown
+ */
+function joinUnits(units: Unit[]): string {
+  return units.map((unit, i) => (i === 0 ? unit.text : `${unit.separator}${unit.text}`)).join('')
+}
+
+/**
+ * Trailing units of a chunk that fit in the overlap budget
+ */
+function overlapUnits(units: Unit[], overlapTokens: number): Unit[] {
+  const overlap: Unit[] = []
+  let tokens = 0
+
+  for (let i = units.length - 1; i >= 0; i--) {
+    const unit = units[i]
+    if (unit.code || tokens + unit.tokens > overlapTokens) break
+    overlap.unshift(unit)
+    tokens += unit.tokens
+  }
+
+  return overlap
+}
+
+/**
+ * Groups a section's units into chunks of at most maxTokens
+ */
+function chunkSection(section: Section, maxTokens: number, overlapTokens: number): string[] {
+  const chunks: string[] = []
+  let current: Unit[] = []
+  let tokens = 0
+  // Units carried over from the previous chunk; a chunk of only overlap is not emitted
+  let carried = 0
+
+  for (const unit of section.units) {
+    if (current.length > carried && tokens + unit.tokens > maxTokens) {
+      chunks.push(joinUnits(current))
+      // Never let the overlap push the next unit over the limit
+      current = overlapUnits(current, Math.min(overlapTokens, maxTokens - unit.tokens))
+      carried = current.length
+      tokens = current.reduce((sum, u) => sum + u.tokens, 0)
+    }
+
+    current.push(unit)
+    tokens += unit.tokens
+  }
+
+  if (current.length > carried) {
+    chunks.push(joinUnits(current))
+  }
+
+  return chunks
+}
+
+/**
+ * Splits markdown into token-bounded, overlapping chunks
+ *
+ * Chunks break at headings, then between paragraphs and sentences. A fenced
+ * code block is never cut: one larger than `maxTokens` becomes a chunk of
+ * its own. Consecutive chunks under the same heading repeat up to
+ * `overlapTokens` of trailing text so no sentence loses its context.
+ *
+ * @param content - Markdown to split
+ * @param options - Chunk size, overlap, source URL and tokenizer
+ * @returns Chunks in document order
+ *
+ * @example
+ * const chunks = chunkMarkdown(doc.content, { maxTokens: 256, sourceUrl: doc.sourceUrl })
+ * chunks[3].headingPath.join(' > ') // 'Auth > OAuth > Refresh tokens'
+ */
+export function chunkMarkdown(content: string, options: ChunkOptions = {}): Chunk[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_CHUNK_TOKENS
+  const overlapTokens = Math.min(options.overlapTokens ?? DEFAULT_CHUNK_OVERLAP, Math.floor(maxTokens / 2))
+  const tokenizer = options.tokenizer
+
+  const chunks: Chunk[] = []
+  for (const section of parseSections(content, maxTokens, tokenizer)) {
+    for (const text of chunkSection(section, maxTokens, overlapTokens)) {
+      chunks.push({
+        content: text,
+        tokens: estimateTokens(text, tokenizer),
+        headingPath: section.headingPath,
+        sourceUrl: options.sourceUrl ?? '',
+        index: chunks.length,
+        hash: sha256(text),
+      })
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Chunks every document; chunk indexes restart at 0 for each document
+ *
+ * @param documents - Extracted documents
+ * @param options - Chunk settings; `sourceUrl` is used for documents without their own
+ * @returns All chunks, in document order, tagged with their document's filename
+ *
+ * @example
+ * const chunks = chunkDocuments(result.documents, { sourceUrl: result.sourceUrl })
+ */
+export function chunkDocuments(documents: Document[], options: ChunkOptions = {}): Chunk[] {
+  return documents.flatMap(document =>
+    chunkMarkdown(document.content, {
+      ...options,
+      sourceUrl: document.sourceUrl ?? options.sourceUrl,
+    }).map(chunk => ({ ...chunk, filename: document.filename }))
+  )
+}
@@ -0,0 +1,318 @@
+/**
+ * @llm-energy/core - Code example index
+ *
+ * Collects every fenced code block from extracted documents, with its
+ * language (inferred from the code when the fence has no tag), the heading
+ * it sits under and the page it came from, and writes them out as
+ * CODE-EXAMPLES.md grouped by language and topic.
+ */
+
+import type { CodeExample, CodeExampleGroup, CodeExampleIndex, Document } from './types'
+import { estimateTokens, extractSiteName } from './parser'
+
+/** Filename of the generated code example document */
+export const CODE_EXAMPLES_FILENAME = 'CODE-EXAMPLES.md'
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const OPEN_FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})\s*([^`]*)$/
+
+/**
+ * Fence tags mapped to one name per language
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  terminal: 'bash',
+  'shell-session': 'bash',
+  shellscript: 'bash',
+  py: 'python',
+  python3: 'python',
+  rb: 'ruby',
+  yml: 'yaml',
+  golang: 'go',
+  rs: 'rust',
+  cs: 'csharp',
+  'c#': 'csharp',
+  kt: 'kotlin',
+  ps1: 'powershell',
+  pwsh: 'powershell',
+  'c++': 'cpp',
+  cc: 'cpp',
+  jsonc: 'json',
+  json5: 'json',
+  md: 'markdown',
+  mdx: 'markdown',
+  gql: 'graphql',
+  proto: 'protobuf',
+  txt: 'text',
+  plaintext: 'text',
+  plain: 'text',
+  none: 'text',
+}
+
+/**
+ * Headings used for the languages in CODE-EXAMPLES.md
+ */
+const LANGUAGE_NAMES: Record<string, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  jsx: 'JSX',
+  tsx: 'TSX',
+  json: 'JSON',
+  yaml: 'YAML',
+  html: 'HTML',
+  css: 'CSS',
+  sql: 'SQL',
+  http: 'HTTP',
+  xml: 'XML',
+  php: 'PHP',
+  csharp: 'C#',
+  cpp: 'C++',
+  graphql: 'GraphQL',
+  toml: 'TOML',
+  text: 'Plain text',
+}
+
+const SHELL_COMMAND = /^(\$ |#!\/.*\b(ba|z)?sh\b|(npm|npx|yarn|pnpm|bun|bunx|deno|pip3?|pipx|poetry|uv|brew|apt(-get)?|curl|wget|git|docker|kubectl|helm|cd|mkdir|export|sudo|cargo|gem|composer|go (get|install|run|mod)) )/
+
+/**
+ * Language inference rules, tried in order on the trimmed code
+ */
+const INFERENCE_RULES: Array<[string, (code: string, firstLine: string) => boolean]> = [
+  ['json', code => /^[[{]/.test(code) && isJson(code)],
+  ['php', code => code.startsWith('<?php')],
+  ['xml', code => code.startsWith('<?xml')],
+  ['html', code => /^<(!doctype|html|head|body|div|span|p|a|ul|ol|section|script|style|template|form|button|img|link|meta)\b/i.test(code)],
+  ['bash', (_, firstLine) => SHELL_COMMAND.test(firstLine)],
+  ['http', (_, firstLine) => /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS) (\/|https?:\/\/)\S*( HTTP\/[\d.]+)?$/.test(firstLine)],
+  ['sql', code => /^(SELECT|INSERT INTO|UPDATE \w+ SET|DELETE FROM|CREATE (TABLE|INDEX|VIEW)|ALTER TABLE|WITH \w+ AS)\b/i.test(code)],
+  ['python', code => /^(def \w+\(|async def \w+\(|class \w+(\(.*\))?:|from [\w.]+ import |import [\w.]+(\s+as \w+)?$|print\()/m.test(code)],
+  ['go', code => /^package \w+$/m.test(code) || (/\bfunc (\(.*?\) )?\w+\(/.test(code) && code.includes(':='))],
+  ['rust', code => /\bfn \w+\(|\blet mut\b|^use \w+::/m.test(code)],
+  ['typescript', code => /^(export )?(interface \w+|type \w+(<[^>]*>)? =)|^import type\b|\b(const|let) \w+: \w+|\)\s*:\s*(string|number|boolean|void|Promise<)|\bas const\b/m.test(code)],
+  ['javascript', code => /\b(const|let|var) \w+\s*=|\bfunction\b|=>|\brequire\(|^import .+ from ['"]|^export (default|const|function|class)\b|console\.log\(/m.test(code)],
+  ['css', code => /^[^{\n]+\{\s*$/m.test(code) && /^\s+[\w-]+:\s*[^;\n]+;/m.test(code)],
+  ['yaml', code => isYaml(code)],
+]
+
+function isJson(code: string): boolean {
+  try {
+    JSON.parse(code)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * True when every top-level line is a YAML key or list item
+ */
+function isYaml(code: string): boolean {
+  const lines = code.split('\n').filter(line => line.trim() && !line.trim().startsWith('#'))
+  return lines.some(line => /^\s*[\w.-]+:(\s|$)/.test(line))
+    && lines.every(line => /^(\s+\S|\s*- |\s*[\w."'-]+:(\s|$))/.test(line) && !/[;{}(]\s*$/.test(line))
+}
+
+/**
+ * Maps a fence info string to a language name
+ *
+ * @returns The normalized language, or undefined when the fence has no tag
+ *
+ * @example
+ * normalizeCodeLanguage('ts title="client.ts"') // 'typescript'
+ * normalizeCodeLanguage('{.python}') // 'python'
+ */
+export function normalizeCodeLanguage(info: string): string | undefined {
+  const tag = info.trim().replace(/^\{\s*\.?/, '').split(/[\s,{}:]/)[0]
+    .toLowerCase()
+    .replace(/^language-/, '')
+  if (!tag) return undefined
+  return LANGUAGE_ALIASES[tag] ?? tag
+}
+
+/**
+ * Guesses the language of an untagged code block
+ *
+ * @returns A language name, or 'text' when no rule matches
+ *
+ * @example
+ * inferCodeLanguage('npm install widgets') // 'bash'
+ * inferCodeLanguage('{"id": 1}') // 'json'
+ */
+export function inferCodeLanguage(code: string): string {
+  const trimmed = code.trim()
+  const firstLine = trimmed.split('\n')[0]
+  return INFERENCE_RULES.find(([, matches]) => matches(trimmed, firstLine))?.[0] ?? 'text'
+}
+
+/**
+ * Collects the fenced code blocks of documents in document order
+ * Identical blocks of the same language are only kept the first time.
+ *
+ * @param documents - Documents to scan
+ * @param sourceUrl - URL recorded for documents without their own
+ */
+export function collectCodeExamples(documents: Document[], sourceUrl: string): CodeExample[] {
+  const examples: CodeExample[] = []
+  const seen = new Set<string>()
+
+  for (const doc of documents) {
+    const lines = doc.content.replace(/\r\n?/g, '\n').split('\n')
+    let heading: string | undefined
+
+    for (let i = 0; i < lines.length; i++) {
+      const open = lines[i].match(OPEN_FENCE_PATTERN)
+      if (!open) {
+        const match = lines[i].match(HEADING_PATTERN)
+        if (match) heading = match[2]
+        continue
+      }
+
+      const [, indent, fence, info] = open
+      const close = new RegExp(`^\\s*${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`)
+      const body: string[] = []
+      while (++i < lines.length && !close.test(lines[i])) {
+        body.push(lines[i].startsWith(indent) ? lines[i].slice(indent.length) : lines[i].trimStart())
+      }
+
+      const code = body.join('\n').replace(/^\n+|\s+$/g, '')
+      if (!code) continue
+
+      const tagged = normalizeCodeLanguage(info)
+      const language = tagged ?? inferCodeLanguage(code)
+      const key = `${language}\u0000${code}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      examples.push({
+        language,
+        inferred: tagged === undefined,
+        code,
+        heading,
+        topic: doc.title,
+        filename: doc.filename,
+        sourceUrl: doc.sourceUrl ?? sourceUrl,
+      })
+    }
+  }
+
+  return examples
+}
+
+/**
+ * Groups examples by language (most examples first), then by topic in document order
+ */
+export function groupCodeExamples(examples: CodeExample[]): CodeExampleGroup[] {
+  const groups = new Map<string, CodeExampleGroup>()
+
+  for (const example of examples) {
+    let group = groups.get(example.language)
+    if (!group) {
+      group = { language: example.language, count: 0, topics: [] }
+      groups.set(example.language, group)
+    }
+    let topic = group.topics.find(candidate => candidate.topic === example.topic)
+    if (!topic) {
+      topic = { topic: example.topic, examples: [] }
+      group.topics.push(topic)
+    }
+    topic.examples.push(example)
+    group.count++
+  }
+
+  return [...groups.values()].sort((a, b) => b.count - a.count || a.language.localeCompare(b.language))
+}
+
+function languageName(language: string): string {
+  return LANGUAGE_NAMES[language] ?? language.charAt(0).toUpperCase() + language.slice(1)
+}
+
+/**
+ * Wraps code in a fence longer than any backtick run inside it
+ */
+function fenceCode(code: string, language: string): string {
+  const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length))
+  const fence = '`'.repeat(longest + 1)
+  return `${fence}${language === 'text' ? '' : language}\n${code}\n${fence}`
+}
+
+/**
+ * Generates CODE-EXAMPLES.md from grouped examples
+ *
+ * @param groups - Examples grouped by language and topic
+ * @param sourceUrl - URL the documentation was extracted from
+ * @param siteName - Site name for the title (optional, derived from sourceUrl if not provided)
+ * @param tokenizer - Vocabulary or model name used for the token count (optional)
+ */
+export function generateCodeExamplesDocument(
+  groups: CodeExampleGroup[],
+  sourceUrl: string,
+  siteName?: string,
+  tokenizer?: string
+): Document {
+  const resolvedSiteName = siteName || extractSiteName(sourceUrl)
+  const title = `${resolvedSiteName.charAt(0).toUpperCase() + resolvedSiteName.slice(1)} Code Examples`
+  const count = groups.reduce((sum, group) => sum + group.count, 0)
+
+  const contents = groups.map(group => `- ${languageName(group.language)} (${group.count})`)
+  const sections = groups.map(group => {
+    const topics = group.topics.map(({ topic, examples }) => {
+      const blocks = examples.map(example => [
+        `#### ${example.heading ?? topic}`,
+        `Source: ${example.sourceUrl}${example.inferred ? ' (language inferred)' : ''}`,
+        fenceCode(example.code, example.language),
+      ].join('\n\n'))
+      return `### ${topic}\n\n${blocks.join('\n\n')}`
+    })
+    return `## ${languageName(group.language)}\n\n${topics.join('\n\n')}`
+  })
+
+  const content = [
+    `# ${title}`,
+    `> ${count} code example${count === 1 ? '' : 's'} in ${groups.length} language${groups.length === 1 ? '' : 's'} from ${sourceUrl}`,
+    `## Languages\n\n${contents.join('\n')}`,
+    ...sections,
+  ].join('\n\n') + '\n'
+
+  return {
+    filename: CODE_EXAMPLES_FILENAME,
+    title,
+    content,
+    tokens: estimateTokens(content, tokenizer),
+  }
+}
+
+/**
+ * Builds the code example index of an extraction
+ *
+ * @returns The index, or undefined when the documents contain no code blocks
+ *
+ * @example
+ * const index = buildCodeExampleIndex(result.documents, result.sourceUrl)
+ * index?.groups[0].language // 'typescript'
+ */
+export function buildCodeExampleIndex(
+  documents: Document[],
+  sourceUrl: string,
+  siteName?: string,
+  tokenizer?: string
+): CodeExampleIndex | undefined {
+  const examples = collectCodeExamples(documents, sourceUrl)
+  if (examples.length === 0) return undefined
+
+  const groups = groupCodeExamples(examples)
+  return {
+    document: generateCodeExamplesDocument(groups, sourceUrl, siteName, tokenizer),
+    groups,
+    count: examples.length,
+  }
+}
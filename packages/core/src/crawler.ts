@@ -0,0 +1,338 @@
+/**
+ * Crawler - Polite, concurrent multi-page fetching
+ *
+ * Pages are grouped by origin. Each origin's robots.txt is checked before
+ * anything else is requested from it, and requests to one origin are spaced by
+ * its Crawl-delay (or a small default delay) with a cap on requests in flight.
+ * Origins are crawled side by side under a global concurrency limit.
+ *
+ * 429 and 5xx responses are retried with exponential backoff, waiting at least
+ * as long as the server's Retry-After. Pages that still fail are reported with
+ * an error code instead of being dropped.
+ */
+
+import type { FailedUrl, FetchErrorCode, SkippedUrl } from './types';
+import { DEFAULT_USER_AGENT } from './extractor';
+import { getRobotsPolicy, getRobotsTxt, isAllowedByRobots, type RobotsPolicy } from './robots';
+
+export interface CrawlOptions {
+  /** User agent sent with requests and matched against robots.txt groups */
+  userAgent?: string;
+  /** Requests in flight across all origins (default: 6) */
+  concurrency?: number;
+  /** Requests in flight per origin when robots.txt sets no Crawl-delay (default: 2) */
+  concurrencyPerHost?: number;
+  /** Minimum time between request starts on one origin, in ms (default: 100) */
+  delayMs?: number;
+  /** Upper bound for a robots.txt Crawl-delay, in ms (default: 10000) */
+  maxCrawlDelayMs?: number;
+  /** Check robots.txt before fetching (default: true) */
+  respectRobots?: boolean;
+  /** Retries after a 429 or 5xx response (default: 2) */
+  retries?: number;
+  /** First retry delay; doubled for every further retry, in ms (default: 500) */
+  retryDelayMs?: number;
+  /** Longest wait before a retry; a longer Retry-After fails the page, in ms (default: 30000) */
+  maxRetryDelayMs?: number;
+  /** Time allowed for one page, in ms (default: 15000) */
+  pageTimeoutMs?: number;
+  /** Stops the crawl; pages fetched so far are returned */
+  signal?: AbortSignal;
+  /** Called before each page is fetched, and once with completed === total at the end */
+  onProgress?: (completed: number, total: number, currentUrl: string) => void;
+}
+
+export interface CrawlResult<T> {
+  /** Fetched pages in the order of the input URLs */
+  pages: Array<{ url: string; value: T }>;
+  /** Pages that were not fetched, with the reason */
+  skipped: SkippedUrl[];
+  /** Pages that could not be fetched, with an error code */
+  failed: FailedUrl[];
+}
+
+/**
+ * Error thrown by page fetchers so the crawler can decide whether to retry
+ */
+export class CrawlError extends Error {
+  constructor(
+    message: string,
+    public readonly code: FetchErrorCode,
+    public readonly status?: number,
+    /** Wait requested by a Retry-After header, in ms */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'CrawlError';
+  }
+}
+
+const DEFAULT_CONCURRENCY = 6;
+const DEFAULT_CONCURRENCY_PER_HOST = 2;
+const DEFAULT_DELAY_MS = 100;
+const DEFAULT_MAX_CRAWL_DELAY_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30000;
+const DEFAULT_PAGE_TIMEOUT_MS = 15000;
+
+const ALLOW_ALL: RobotsPolicy = { rules: [] };
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Build the error for a non-2xx page response
+ */
+export function httpError(url: string, response: Response): CrawlError {
+  return new CrawlError(
+    `Failed to fetch ${url}: ${response.status} ${response.statusText}`.trim(),
+    response.status === 429 ? 'RATE_LIMITED' : 'HTTP_ERROR',
+    response.status,
+    parseRetryAfter(response.headers.get('retry-after'))
+  );
+}
+
+/**
+ * Wait for a number of milliseconds, returning early when the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0 || signal?.aborted) return Promise.resolve();
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Counting semaphore for the global concurrency limit
+ */
+class Semaphore {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // release() hands its slot straight to the next waiter
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Normalise anything a page fetcher throws into a CrawlError
+ */
+function toCrawlError(error: unknown): CrawlError {
+  if (error instanceof CrawlError) return error;
+  // fetch() rejects with a TypeError when the connection fails
+  if (error instanceof TypeError) {
+    return new CrawlError(error.message, 'NETWORK_ERROR');
+  }
+  return new CrawlError(error instanceof Error ? error.message : String(error), 'UNKNOWN');
+}
+
+/**
+ * Whether a failed attempt may be retried
+ */
+function isRetryable(error: CrawlError): boolean {
+  return error.code === 'RATE_LIMITED' || (error.code === 'HTTP_ERROR' && (error.status ?? 0) >= 500);
+}
+
+/**
+ * Run a page fetcher with a timeout
+ * The fetcher gets a signal that aborts on timeout or when the crawl is cancelled.
+ */
+async function fetchWithTimeout<T>(
+  fetchPage: (url: string, signal: AbortSignal) => Promise<T>,
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      controller.abort();
+      reject(new CrawlError(`Timed out after ${timeoutMs} ms`, 'TIMEOUT'));
+    }, timeoutMs);
+  });
+
+  try {
+    // Racing the timeout also covers fetchers that ignore the signal
+    return await Promise.race([fetchPage(url, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * Fetch a list of pages politely
+ *
+ * @param urls - Pages to fetch; duplicates are fetched once
+ * @param fetchPage - Fetches and converts one page; should throw a CrawlError
+ *   (see httpError) for non-2xx responses so 429 and 5xx can be retried
+ * @param options - Concurrency, politeness and retry settings, cancellation and progress
+ */
+export async function crawl<T>(
+  urls: string[],
+  fetchPage: (url: string, signal: AbortSignal) => Promise<T>,
+  options: CrawlOptions = {}
+): Promise<CrawlResult<T>> {
+  const {
+    userAgent = DEFAULT_USER_AGENT,
+    concurrency = DEFAULT_CONCURRENCY,
+    concurrencyPerHost = DEFAULT_CONCURRENCY_PER_HOST,
+    delayMs = DEFAULT_DELAY_MS,
+    maxCrawlDelayMs = DEFAULT_MAX_CRAWL_DELAY_MS,
+    respectRobots = true,
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    maxRetryDelayMs = DEFAULT_MAX_RETRY_DELAY_MS,
+    pageTimeoutMs = DEFAULT_PAGE_TIMEOUT_MS,
+    signal,
+    onProgress,
+  } = options;
+
+  const uniqueUrls = Array.from(new Set(urls));
+  const total = uniqueUrls.length;
+  const values = new Map<string, T>();
+  const skipped: SkippedUrl[] = [];
+  const failed: FailedUrl[] = [];
+  const slots = new Semaphore(Math.max(1, concurrency));
+  let completed = 0;
+
+  const byOrigin = new Map<string, string[]>();
+  for (const url of uniqueUrls) {
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      skipped.push({ url, reason: 'invalid-url' });
+      completed++;
+      continue;
+    }
+    byOrigin.set(origin, [...(byOrigin.get(origin) ?? []), url]);
+  }
+
+  const crawlOrigin = async (origin: string, originUrls: string[]) => {
+    const robots = respectRobots ? await getRobotsTxt(origin, userAgent) : null;
+    if (respectRobots && !robots) {
+      for (const url of originUrls) skipped.push({ url, reason: 'robots-unavailable' });
+      completed += originUrls.length;
+      return;
+    }
+
+    const policy = robots ? getRobotsPolicy(robots, userAgent) : ALLOW_ALL;
+    const queue = originUrls.filter(url => {
+      if (isAllowedByRobots(policy, url)) return true;
+      skipped.push({ url, reason: 'robots-disallowed' });
+      completed++;
+      return false;
+    });
+
+    // A Crawl-delay asks for one request at a time, that far apart
+    const crawlDelayMs = policy.crawlDelay !== undefined
+      ? Math.min(policy.crawlDelay * 1000, maxCrawlDelayMs)
+      : undefined;
+    const interval = Math.max(crawlDelayMs ?? 0, delayMs);
+    const workers = crawlDelayMs !== undefined ? 1 : Math.max(1, concurrencyPerHost);
+
+    // Earliest time the next request to this origin may start; backoff pushes it out
+    let nextStart = 0;
+    const waitForTurn = async () => {
+      let wait: number;
+      while ((wait = nextStart - Date.now()) > 0 && !signal?.aborted) {
+        await sleep(wait, signal);
+      }
+    };
+
+    const fetchWithRetries = async (url: string) => {
+      for (let attempt = 1; ; attempt++) {
+        // Wait for the origin before taking a global slot, then check again
+        // in case another worker started a request in the meantime
+        await waitForTurn();
+        await slots.acquire();
+        let error: CrawlError;
+        try {
+          await waitForTurn();
+          if (signal?.aborted) return;
+          nextStart = Date.now() + interval;
+
+          values.set(url, await fetchWithTimeout(fetchPage, url, pageTimeoutMs, signal));
+          return;
+        } catch (thrown) {
+          error = toCrawlError(thrown);
+        } finally {
+          slots.release();
+        }
+
+        if (signal?.aborted) return;
+
+        const backoff = Math.max(retryDelayMs * 2 ** (attempt - 1), error.retryAfterMs ?? 0);
+        if (!isRetryable(error) || attempt > retries || backoff > maxRetryDelayMs) {
+          failed.push({ url, code: error.code, status: error.status, message: error.message, attempts: attempt });
+          return;
+        }
+
+        // The whole origin backs off, not just this page
+        nextStart = Math.max(nextStart, Date.now() + backoff);
+      }
+    };
+
+    const worker = async () => {
+      while (queue.length > 0 && !signal?.aborted) {
+        const url = queue.shift() as string;
+        onProgress?.(completed, total, url);
+        await fetchWithRetries(url);
+        completed++;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(workers, queue.length) }, worker));
+  };
+
+  await Promise.all(Array.from(byOrigin, ([origin, originUrls]) => crawlOrigin(origin, originUrls)));
+
+  onProgress?.(total, total, '');
+  return {
+    pages: uniqueUrls
+      .filter(url => values.has(url))
+      .map(url => ({ url, value: values.get(url) as T })),
+    skipped,
+    failed,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * @llm-energy/core - Near-duplicate detection
+ *
+ * A hub llms.txt and the llms-full.txt files it links to often carry the
+ * same sections two or three times. Documents are compared by MinHash
+ * signatures of their word shingles; each near-duplicate is collapsed into
+ * the first document with that content, which keeps every source URL.
+ */
+
+import type { Document } from './types'
+
+/** Estimated Jaccard similarity from which two documents count as duplicates */
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85
+
+/** Words per shingle */
+export const DEFAULT_SHINGLE_SIZE = 5
+
+/** Hash functions per MinHash signature */
+export const DEFAULT_MINHASH_SIZE = 128
+
+/**
+ * Options for detecting near-duplicate documents
+ */
+export interface DedupeOptions {
+  /** Estimated similarity from which documents are duplicates, 0-1 (default: 0.85) */
+  threshold?: number
+  /** Words per shingle (default: 5) */
+  shingleSize?: number
+  /** Hash functions per signature (default: 128) */
+  signatureSize?: number
+  /** Flag duplicates with `duplicateOf` instead of removing them (default: false) */
+  keepDuplicates?: boolean
+}
+
+/**
+ * Documents after collapsing near-duplicates
+ */
+export interface DedupeResult {
+  documents: Document[]
+  /** Number of documents collapsed into another one (0 when duplicates are kept) */
+  removedCount: number
+  /** Tokens of the collapsed documents (0 when duplicates are kept) */
+  removedTokens: number
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Finalizer of MurmurHash3; spreads a seeded value over all 32 bits
+ */
+function mix(value: number): number {
+  let hash = value
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x85ebca6b)
+  hash ^= hash >>> 13
+  hash = Math.imul(hash, 0xc2b2ae35)
+  hash ^= hash >>> 16
+  return hash >>> 0
+}
+
+/**
+ * Hashes of the word shingles of a text
+ * Markdown syntax, link targets and case are ignored, so the same section
+ * rendered by two llms.txt generators still matches.
+ *
+ * @param text - Markdown to shingle
+ * @param size - Words per shingle (default: 5)
+ */
+export function shingleHashes(text: string, size = DEFAULT_SHINGLE_SIZE): Set<number> {
+  const words = text
+    .toLowerCase()
+    .replace(/\]\([^)]*\)/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  const hashes = new Set<number>()
+  if (words.length === 0) return hashes
+  for (let i = 0; i <= Math.max(0, words.length - size); i++) {
+    hashes.add(fnv1a(words.slice(i, i + size).join(' ')))
+  }
+  return hashes
+}
+
+/**
+ * MinHash signature of a shingle set: the smallest seeded hash per function
+ *
+ * @param shingles - Shingle hashes from shingleHashes()
+ * @param size - Hash functions (default: 128)
+ */
+export function minHashSignature(shingles: Set<number>, size = DEFAULT_MINHASH_SIZE): Uint32Array {
+  const signature = new Uint32Array(size).fill(0xffffffff)
+  for (const shingle of shingles) {
+    for (let i = 0; i < size; i++) {
+      const hash = mix(shingle ^ Math.imul(i + 1, 0x9e3779b1))
+      if (hash < signature[i]) signature[i] = hash
+    }
+  }
+  return signature
+}
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures
+ */
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  const size = Math.min(a.length, b.length)
+  if (size === 0) return 0
+  let equal = 0
+  for (let i = 0; i < size; i++) {
+    if (a[i] === b[i]) equal++
+  }
+  return equal / size
+}
+
+/**
+ * Collapses near-duplicate documents into the first document with the same content
+ * The kept document records every URL the content was found at in `sourceUrls`.
+ *
+ * @param documents - Documents in result order
+ * @param sourceUrl - URL recorded for documents without their own
+ * @param options - Threshold, signature settings and whether to keep duplicates
+ *
+ * @example
+ * const { documents, removedTokens } = dedupeDocuments(result.documents, result.sourceUrl)
+ */
+export function dedupeDocuments(
+  documents: Document[],
+  sourceUrl: string,
+  options: DedupeOptions = {}
+): DedupeResult {
+  const {
+    threshold = DEFAULT_DUPLICATE_THRESHOLD,
+    shingleSize = DEFAULT_SHINGLE_SIZE,
+    signatureSize = DEFAULT_MINHASH_SIZE,
+    keepDuplicates = false,
+  } = options
+
+  const originals: Array<{ index: number; signature: Uint32Array; urls: Set<string> }> = []
+  const duplicateOf = new Map<number, number>()
+
+  documents.forEach((doc, index) => {
+    const shingles = shingleHashes(doc.content, shingleSize)
+    // Empty documents have nothing to compare
+    if (shingles.size === 0) return
+
+    const signature = minHashSignature(shingles, signatureSize)
+    const original = originals.find(candidate => estimateSimilarity(candidate.signature, signature) >= threshold)
+    if (original) {
+      original.urls.add(doc.sourceUrl ?? sourceUrl)
+      duplicateOf.set(index, original.index)
+    } else {
+      originals.push({ index, signature, urls: new Set([doc.sourceUrl ?? sourceUrl]) })
+    }
+  })
+
+  if (duplicateOf.size === 0) {
+    return { documents, removedCount: 0, removedTokens: 0 }
+  }
+
+  const provenance = new Map(originals.filter(({ urls }) => urls.size > 1).map(({ index, urls }) => [index, [...urls]]))
+  const result: Document[] = []
+  let removedTokens = 0
+
+  documents.forEach((doc, index) => {
+    const original = duplicateOf.get(index)
+    if (original === undefined) {
+      const sourceUrls = provenance.get(index)
+      result.push(sourceUrls ? { ...doc, sourceUrls } : doc)
+    } else if (keepDuplicates) {
+      result.push({ ...doc, duplicateOf: documents[original].filename })
+    } else {
+      removedTokens += doc.tokens
+    }
+  })
+
+  return {
+    documents: result,
+    removedCount: keepDuplicates ? 0 : duplicateOf.size,
+    removedTokens: keepDuplicates ? 0 : removedTokens,
+  }
+}
@@ -0,0 +1,460 @@
+/**
+ * @llm-energy/core - Documentation diff
+ *
+ * Compares two extractions of a site: sections are matched by the slug of
+ * their title, classified as added, removed, modified or moved, and modified
+ * sections get line-level hunks. formatDiffChangelog turns the result into a
+ * markdown summary.
+ */
+
+import type { Document, ExtractionResult } from './types'
+import { slugify } from './parser'
+
+/**
+ * How a section changed between the two extractions
+ */
+export type SectionChangeType = 'added' | 'removed' | 'modified' | 'moved'
+
+/**
+ * One line of a hunk
+ */
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed'
+  content: string
+  /** Line number in the old section (context and removed lines) */
+  oldLine?: number
+  /** Line number in the new section (context and added lines) */
+  newLine?: number
+}
+
+/**
+ * A run of changed lines with surrounding context, as in a unified diff
+ */
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+/**
+ * Where a section sits in one of the extractions
+ */
+export interface SectionLocation {
+  filename: string
+  /** 0-based position among the documents */
+  position: number
+}
+
+/**
+ * A section that differs between the two extractions
+ */
+export interface SectionChange {
+  type: SectionChangeType
+  title: string
+  /** Slug of the title, used to match sections */
+  slug: string
+  before?: SectionLocation
+  after?: SectionLocation
+  /** A modified section whose position also changed */
+  moved?: boolean
+  additions: number
+  deletions: number
+  /** Line-level changes; only for modified sections */
+  hunks: DiffHunk[]
+}
+
+/**
+ * Result of diffExtractions
+ */
+export interface ExtractionDiff {
+  before: { url: string; sourceUrl: string }
+  after: { url: string; sourceUrl: string }
+  /** Changed sections, in the order of the new extraction; removed sections last */
+  changes: SectionChange[]
+  summary: {
+    added: number
+    removed: number
+    modified: number
+    moved: number
+    unchanged: number
+  }
+}
+
+/**
+ * Options for diffExtractions
+ */
+export interface DiffOptions {
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number
+}
+
+/**
+ * Options for formatDiffChangelog
+ */
+export interface ChangelogOptions {
+  /** Name for the old extraction (default: its source URL) */
+  beforeLabel?: string
+  /** Name for the new extraction (default: its source URL) */
+  afterLabel?: string
+  /** Append a unified diff of every modified section */
+  includeDiffs?: boolean
+}
+
+/** Edit distance above which two texts are treated as completely rewritten */
+const MAX_EDIT_DISTANCE = 2000
+
+/**
+ * Shortest edit script between two line arrays (Myers' O(ND) algorithm)
+ */
+function diffLineArrays(a: string[], b: string[]): DiffLine[] {
+  // Common prefix and suffix need no search
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const oldLines = a.slice(start, endA)
+  const newLines = b.slice(start, endB)
+  const n = oldLines.length
+  const m = newLines.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // State of v before each step, for walking the path back
+  const trace: Int32Array[] = []
+  let distance = -1
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE) && distance < 0; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        distance = d
+        break
+      }
+    }
+  }
+
+  const middle: Array<Pick<DiffLine, 'type' | 'content'>> = []
+  if (distance < 0) {
+    // Too different to be worth aligning
+    middle.push(...oldLines.map(content => ({ type: 'removed' as const, content })))
+    middle.push(...newLines.map(content => ({ type: 'added' as const, content })))
+  } else {
+    let x = n
+    let y = m
+    for (let d = distance; d > 0; d--) {
+      const previous = trace[d]
+      const k = x - y
+      const previousK = k === -d || (k !== d && previous[k - 1 + d] < previous[k + 1 + d]) ? k + 1 : k - 1
+      const previousX = previous[previousK + d]
+      const previousY = previousX - previousK
+
+      while (x > previousX && y > previousY) {
+        middle.push({ type: 'context', content: oldLines[--x] })
+        y--
+      }
+      if (x === previousX) {
+        middle.push({ type: 'added', content: newLines[--y] })
+      } else {
+        middle.push({ type: 'removed', content: oldLines[--x] })
+      }
+    }
+    while (x > 0 && y > 0) {
+      middle.push({ type: 'context', content: oldLines[--x] })
+      y--
+    }
+    middle.reverse()
+  }
+
+  const operations = [
+    ...a.slice(0, start).map(content => ({ type: 'context' as const, content })),
+    ...middle,
+    ...a.slice(endA).map(content => ({ type: 'context' as const, content })),
+  ]
+
+  // Number the lines
+  let oldLine = 1
+  let newLine = 1
+  return operations.map(({ type, content }) => {
+    if (type === 'added') return { type, content, newLine: newLine++ }
+    if (type === 'removed') return { type, content, oldLine: oldLine++ }
+    return { type, content, oldLine: oldLine++, newLine: newLine++ }
+  })
+}
+
+/**
+ * Line-level diff of two texts, grouped into hunks
+ *
+ * @param before - Old text
+ * @param after - New text
+ * @param context - Unchanged lines kept around each change (default: 3)
+ * @returns Hunks in order; empty when the texts are equal
+ *
+ * @example
+ * const hunks = diffLines('a\nb\nc', 'a\nB\nc')
+ * formatHunks(hunks) // '@@ -1,3 +1,3 @@\n a\n-b\n+B\n c'
+ */
+export function diffLines(before: string, after: string, context = 3): DiffHunk[] {
+  const lines = diffLineArrays(before.split('\n'), after.split('\n'))
+  const hunks: DiffHunk[] = []
+
+  // Group changed lines that are at most 2 * context apart
+  let i = 0
+  while (i < lines.length) {
+    if (lines[i].type === 'context') {
+      i++
+      continue
+    }
+
+    const first = Math.max(0, i - context)
+    let last = i
+    let j = i
+    while (j < lines.length) {
+      if (lines[j].type !== 'context') {
+        last = j
+      } else if (j - last > context * 2) {
+        break
+      }
+      j++
+    }
+    const end = Math.min(lines.length, last + context + 1)
+    const body = lines.slice(first, end)
+
+    // Lines of each side before the hunk; an empty side starts at the line it follows
+    const oldBefore = lines.slice(0, first).filter(line => line.type !== 'added').length
+    const newBefore = lines.slice(0, first).filter(line => line.type !== 'removed').length
+    const oldLines = body.filter(line => line.type !== 'added').length
+    const newLines = body.filter(line => line.type !== 'removed').length
+    hunks.push({
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: body,
+    })
+    i = end
+  }
+
+  return hunks
+}
+
+/**
+ * Renders hunks as unified diff text
+ */
+export function formatHunks(hunks: DiffHunk[]): string {
+  return hunks
+    .map(hunk => [
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+      ...hunk.lines.map(line => `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.content}`),
+    ].join('\n'))
+    .join('\n')
+}
+
+/**
+ * Keys documents by title slug; repeated titles are told apart by occurrence
+ */
+function keyDocuments(documents: Document[]): Map<string, { document: Document; position: number; slug: string }> {
+  const keyed = new Map<string, { document: Document; position: number; slug: string }>()
+  const seen = new Map<string, number>()
+
+  documents.forEach((document, position) => {
+    const slug = slugify(document.title) || document.filename.replace(/^\d+-/, '').replace(/\.mdx?$/, '')
+    const occurrence = seen.get(slug) ?? 0
+    seen.set(slug, occurrence + 1)
+    keyed.set(occurrence === 0 ? slug : `${slug}#${occurrence}`, { document, position, slug })
+  })
+
+  return keyed
+}
+
+/**
+ * Positions in `values` that form the longest increasing subsequence
+ */
+function longestIncreasing(values: number[]): Set<number> {
+  const tails: number[] = []
+  const previous = new Array<number>(values.length).fill(-1)
+
+  values.forEach((value, i) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (values[tails[mid]] < value) low = mid + 1
+      else high = mid
+    }
+    if (low > 0) previous[i] = tails[low - 1]
+    tails[low] = i
+  })
+
+  const kept = new Set<number>()
+  for (let i = tails[tails.length - 1] ?? -1; i >= 0; i = previous[i]) kept.add(i)
+  return kept
+}
+
+/**
+ * Compares two extractions of a documentation site
+ *
+ * Sections are matched by title. A matched section whose content changed is
+ * modified; one that only changed position relative to the others is moved.
+ *
+ * @param before - Older extraction
+ * @param after - Newer extraction
+ * @param options - Context lines for the hunks
+ *
+ * @example
+ * const diff = diffExtractions(snapshot.result, await extractDocumentation(url))
+ * console.log(formatDiffChangelog(diff))
+ */
+export function diffExtractions(
+  before: Pick<ExtractionResult, 'url' | 'sourceUrl' | 'documents'>,
+  after: Pick<ExtractionResult, 'url' | 'sourceUrl' | 'documents'>,
+  options: DiffOptions = {}
+): ExtractionDiff {
+  const context = options.context ?? 3
+  const oldSections = keyDocuments(before.documents)
+  const newSections = keyDocuments(after.documents)
+
+  // Sections present in both, in their new order; the ones off the longest
+  // run that kept its old order are the ones that moved
+  const matched = Array.from(newSections).filter(([key]) => oldSections.has(key))
+  const inOrder = longestIncreasing(matched.map(([key]) => oldSections.get(key)!.position))
+  const movedKeys = new Set(matched.filter((_, i) => !inOrder.has(i)).map(([key]) => key))
+
+  const changes: SectionChange[] = []
+  let unchanged = 0
+
+  for (const [key, section] of newSections) {
+    const after = { filename: section.document.filename, position: section.position }
+    const old = oldSections.get(key)
+
+    if (!old) {
+      changes.push({
+        type: 'added',
+        title: section.document.title,
+        slug: section.slug,
+        after,
+        additions: section.document.content.split('\n').length,
+        deletions: 0,
+        hunks: [],
+      })
+      continue
+    }
+
+    const before = { filename: old.document.filename, position: old.position }
+    const moved = movedKeys.has(key)
+
+    if (old.document.content !== section.document.content) {
+      const hunks = diffLines(old.document.content, section.document.content, context)
+      const lines = hunks.flatMap(hunk => hunk.lines)
+      changes.push({
+        type: 'modified',
+        title: section.document.title,
+        slug: section.slug,
+        before,
+        after,
+        ...(moved ? { moved } : {}),
+        additions: lines.filter(line => line.type === 'added').length,
+        deletions: lines.filter(line => line.type === 'removed').length,
+        hunks,
+      })
+    } else if (moved) {
+      changes.push({ type: 'moved', title: section.document.title, slug: section.slug, before, after, additions: 0, deletions: 0, hunks: [] })
+    } else {
+      unchanged++
+    }
+  }
+
+  for (const [key, section] of oldSections) {
+    if (newSections.has(key)) continue
+    changes.push({
+      type: 'removed',
+      title: section.document.title,
+      slug: section.slug,
+      before: { filename: section.document.filename, position: section.position },
+      additions: 0,
+      deletions: section.document.content.split('\n').length,
+      hunks: [],
+    })
+  }
+
+  const count = (type: SectionChangeType) => changes.filter(change => change.type === type).length
+  return {
+    before: { url: before.url, sourceUrl: before.sourceUrl },
+    after: { url: after.url, sourceUrl: after.sourceUrl },
+    changes,
+    summary: {
+      added: count('added'),
+      removed: count('removed'),
+      modified: count('modified'),
+      moved: count('moved'),
+      unchanged,
+    },
+  }
+}
+
+/**
+ * Markdown changelog for a diff: counts, then the sections under each kind of change
+ *
+ * @example
+ * formatDiffChangelog(diff, { beforeLabel: 'v3 (2026-01-02)', afterLabel: 'live' })
+ */
+export function formatDiffChangelog(diff: ExtractionDiff, options: ChangelogOptions = {}): string {
+  const { summary } = diff
+  const beforeLabel = options.beforeLabel ?? diff.before.sourceUrl
+  const afterLabel = options.afterLabel ?? diff.after.sourceUrl
+  const lines = [
+    '# Documentation Changes',
+    '',
+    `**Before:** ${beforeLabel}  `,
+    `**After:** ${afterLabel}`,
+    '',
+  ]
+
+  if (diff.changes.length === 0) {
+    lines.push(`No changes across ${summary.unchanged} sections.`)
+    return lines.join('\n')
+  }
+
+  lines.push(
+    `${summary.added} added, ${summary.removed} removed, ${summary.modified} modified, ` +
+    `${summary.moved} moved, ${summary.unchanged} unchanged`
+  )
+
+  const groups: Array<[SectionChangeType, string, (change: SectionChange) => string]> = [
+    ['added', 'Added', change => `- ${change.title} (\`${change.after!.filename}\`)`],
+    ['removed', 'Removed', change => `- ${change.title} (\`${change.before!.filename}\`)`],
+    ['modified', 'Modified', change =>
+      `- ${change.title}: +${change.additions} −${change.deletions}${change.moved ? ' (moved)' : ''}`],
+    ['moved', 'Moved', change =>
+      `- ${change.title}: position ${change.before!.position + 1} → ${change.after!.position + 1}`],
+  ]
+
+  for (const [type, heading, format] of groups) {
+    const group = diff.changes.filter(change => change.type === type)
+    if (group.length === 0) continue
+    lines.push('', `## ${heading}`, '', ...group.map(format))
+  }
+
+  if (options.includeDiffs) {
+    for (const change of diff.changes.filter(c => c.type === 'modified')) {
+      lines.push('', `### ${change.title}`, '', '```diff', formatHunks(change.hunks), '```')
+    }
+  }
+
+  return lines.join('\n')
+}
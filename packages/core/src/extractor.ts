@@ -0,0 +1,315 @@
+/**
+ * @llm-energy/core - Extraction engine
+ *
+ * Runs a list of extraction strategies against a URL and turns the first
+ * successful result into the shared ExtractionResult shape. The web app,
+ * batch API and MCP server all go through this function.
+ */
+
+import type {
+  Document,
+  ExtractionResult,
+  ExtractionStrategy,
+  ExtractOptions,
+  StrategyContext,
+  StrategyResult,
+  TokenBudget,
+} from './types'
+import { extractSiteName } from './parser'
+import { generateFullDocument, generateAgentGuide } from './generator'
+import { llmsTxtStrategy } from './llms-txt'
+import { DEFAULT_DOCUMENT_PRIORITIES, packDocuments } from './budget'
+import { chunkDocuments } from './chunker'
+import { buildCodeExampleIndex } from './code-examples'
+import { dedupeDocuments } from './dedupe'
+import { DEFAULT_LOCALE, normalizeLocale } from './locale'
+import { DEFAULT_TOKENIZER, loadPublishedRanks, resolveTokenizer } from './tokenizer'
+
+/**
+ * Default User-Agent sent by the extraction engine
+ */
+export const DEFAULT_USER_AGENT = 'llms-forge/1.0 (Documentation Extractor)'
+
+/**
+ * Strategies used when the caller does not provide any
+ */
+export const defaultStrategies: ExtractionStrategy[] = [llmsTxtStrategy]
+
+/**
+ * Error thrown by the extraction engine
+ * `code` lets HTTP callers map failures to status codes
+ */
+export class ExtractionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_URL' | 'NOT_FOUND' | 'CANCELLED'
+  ) {
+    super(message)
+    this.name = 'ExtractionError'
+  }
+}
+
+/**
+ * Adds https:// to bare domains and validates the result
+ *
+ * @example
+ * normalizeTargetUrl('docs.anthropic.com') // 'https://docs.anthropic.com'
+ */
+export function normalizeTargetUrl(url: string): string {
+  let targetUrl = url.trim()
+  if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
+    targetUrl = `https://${targetUrl}`
+  }
+
+  try {
+    new URL(targetUrl)
+  } catch {
+    throw new ExtractionError('Invalid URL format', 'INVALID_URL')
+  }
+
+  return targetUrl
+}
+
+/**
+ * Options that change what an extraction returns
+ */
+export type ExtractionVariantOptions = Pick<
+  ExtractOptions,
+  'expandLinks' | 'tokenizer' | 'maxTokens' | 'priorities' | 'chunks' | 'keepDuplicates' | 'locale'
+>
+
+/**
+ * Ranking patterns as text for a variant
+ */
+function patternSources(patterns: RegExp[]): string {
+  return patterns.map(pattern => pattern.source).join(',')
+}
+
+/**
+ * Describes the non-default options of an extraction, so caches and snapshot
+ * stores keep each variant of a URL apart
+ *
+ * @returns An empty string for the default options
+ *
+ * @example
+ * getExtractionVariant({}) // ''
+ * getExtractionVariant({ expandLinks: true, tokenizer: 'gpt-4o' }) // 'expand&tokenizer=o200k'
+ */
+export function getExtractionVariant(options: ExtractionVariantOptions): string {
+  const { chunks } = options
+  const tokenizer = resolveTokenizer(options.tokenizer)
+  const locale = normalizeLocale(options.locale)
+
+  return [
+    options.expandLinks ? 'expand' : '',
+    tokenizer !== DEFAULT_TOKENIZER ? `tokenizer=${tokenizer}` : '',
+    options.maxTokens !== undefined ? `maxTokens=${options.maxTokens}` : '',
+    // Priorities only change the result when there is a budget to rank for
+    options.maxTokens !== undefined && options.priorities && options.priorities !== DEFAULT_DOCUMENT_PRIORITIES
+      ? `priorities=${patternSources(options.priorities.first)}/${patternSources(options.priorities.last)}`
+      : '',
+    typeof chunks === 'object' ? `chunks=${chunks.maxTokens ?? ''}/${chunks.overlapTokens ?? ''}` : chunks ? 'chunks' : '',
+    options.keepDuplicates ? 'keepDuplicates' : '',
+    locale && locale !== DEFAULT_LOCALE ? `locale=${locale}` : '',
+  ].filter(Boolean).join('&')
+}
+
+/**
+ * Builds the context shared by all strategies for one extraction
+ *
+ * @param url - URL provided by the caller (protocol optional)
+ * @param options - Engine options
+ */
+export function createStrategyContext(url: string, options: ExtractOptions = {}): StrategyContext {
+  const targetUrl = normalizeTargetUrl(url)
+  const urlObj = new URL(targetUrl)
+  const hostname = urlObj.hostname.replace(/^www\./, '')
+
+  // Root domain for subdomain checks (e.g., defillama.com from api.defillama.com)
+  const domainParts = hostname.split('.')
+  const rootDomain = domainParts.length > 2
+    ? domainParts.slice(-2).join('.')
+    : hostname
+
+  return {
+    url: targetUrl,
+    baseUrl: `${urlObj.protocol}//${urlObj.host}`,
+    rootDomain,
+    userAgent: options.userAgent ?? DEFAULT_USER_AGENT,
+    timeoutMs: options.timeoutMs ?? 30000,
+    maxPages: options.maxPages ?? 50,
+    maxCrawlDepth: options.maxCrawlDepth ?? 3,
+    followLinks: options.followLinks ?? true,
+    maxLinkDepth: options.maxLinkDepth ?? 3,
+    maxLinkedFiles: options.maxLinkedFiles ?? 25,
+    expandLinks: options.expandLinks ?? false,
+    concurrency: options.concurrency ?? 5,
+    tokenizer: resolveTokenizer(options.tokenizer),
+    locale: normalizeLocale(options.locale) ?? DEFAULT_LOCALE,
+    signal: options.signal,
+    onProgress: options.onProgress,
+    onDocument: options.onDocument,
+  }
+}
+
+/**
+ * Extracts documentation from a URL using the configured strategies
+ *
+ * @param url - Site or llms.txt URL (protocol optional)
+ * @param options - Strategies, request settings, and progress callback
+ * @returns The extraction result with documents, full document and agent guide
+ * @throws ExtractionError when the URL is invalid, no strategy found content,
+ *   or the extraction was cancelled through `options.signal`
+ *
+ * @example
+ * const result = await extractDocumentation('docs.anthropic.com')
+ * console.log(result.stats.documentCount)
+ */
+export async function extractDocumentation(
+  url: string,
+  options: ExtractOptions = {}
+): Promise<ExtractionResult> {
+  const startTime = Date.now()
+  const strategies = options.strategies ?? defaultStrategies
+  // Crawling strategies pass their pages on as they arrive; the others' documents are sent once they return
+  let streamed = false
+  const context = createStrategyContext(url, {
+    ...options,
+    onDocument: options.onDocument && (document => {
+      streamed = true
+      options.onDocument?.(document)
+    }),
+  })
+  const { onProgress, signal } = context
+
+  // Exact token counts for vocabularies with a published rank table
+  await loadPublishedRanks(context.tokenizer)
+
+  const throwIfCancelled = () => {
+    if (signal?.aborted) {
+      throw new ExtractionError('Extraction cancelled', 'CANCELLED')
+    }
+  }
+
+  onProgress?.({
+    status: 'analyzing',
+    message: 'Analyzing URL...',
+    progress: 5,
+  })
+
+  let strategyName = ''
+  let output: StrategyResult | null = null
+
+  for (const strategy of strategies) {
+    throwIfCancelled()
+    onProgress?.({
+      status: 'analyzing',
+      message: `Trying ${strategy.name} strategy...`,
+      progress: 10,
+      currentStep: strategy.name,
+    })
+
+    try {
+      const result = await strategy.extract(context)
+      if (result && result.documents.length > 0) {
+        strategyName = strategy.name
+        output = result
+        break
+      }
+    } catch (error) {
+      // A failing strategy should not prevent the next one from running
+      console.warn(`Extraction strategy ${strategy.name} failed for ${context.url}:`, error)
+    }
+  }
+
+  throwIfCancelled()
+
+  if (!output) {
+    const host = new URL(context.url).host
+    const tried = strategies.map(s => s.name).join(', ')
+    throw new ExtractionError(`No documentation found at ${host} (tried: ${tried})`, 'NOT_FOUND')
+  }
+
+  const { sourceUrl, rawContent, linkedSources, validators, skipped, failed, platform, boilerplate, locale, locales } = output
+  const deduped = dedupeDocuments(output.documents, sourceUrl, { keepDuplicates: options.keepDuplicates })
+  const { documents } = deduped
+
+  if (!streamed) {
+    for (const document of documents) {
+      options.onDocument?.(document)
+    }
+  }
+
+  onProgress?.({
+    status: 'processing',
+    message: 'Generating outputs...',
+    progress: 85,
+  })
+
+  const siteName = extractSiteName(sourceUrl)
+  let fullDocument: Document
+  let budget: TokenBudget | undefined
+
+  if (options.maxTokens !== undefined) {
+    const packed = packDocuments(documents, rawContent, sourceUrl, options.maxTokens, {
+      priorities: options.priorities,
+      tokenizer: context.tokenizer,
+    })
+    fullDocument = packed.fullDocument
+    budget = packed.budget
+  } else {
+    fullDocument = generateFullDocument(documents, rawContent, sourceUrl, context.tokenizer)
+  }
+
+  const agentGuide = generateAgentGuide(documents, sourceUrl, siteName, linkedSources, context.tokenizer, budget)
+
+  const chunks = options.chunks
+    ? chunkDocuments(documents, {
+      ...(typeof options.chunks === 'object' ? options.chunks : {}),
+      sourceUrl,
+      tokenizer: context.tokenizer,
+    })
+    : undefined
+
+  const codeExamples = buildCodeExampleIndex(documents, sourceUrl, siteName, context.tokenizer)
+
+  const totalTokens = documents.reduce((sum, doc) => sum + doc.tokens, 0)
+    + fullDocument.tokens
+    + agentGuide.tokens
+
+  onProgress?.({
+    status: 'complete',
+    message: `Extraction complete! Found ${documents.length} documents.`,
+    progress: 100,
+  })
+
+  return {
+    url: context.url,
+    sourceUrl,
+    strategy: strategyName,
+    rawContent,
+    documents,
+    fullDocument,
+    agentGuide,
+    linkedSources,
+    budget,
+    chunks,
+    codeExamples,
+    validators,
+    skipped: skipped && skipped.length > 0 ? skipped : undefined,
+    failed: failed && failed.length > 0 ? failed : undefined,
+    platform,
+    boilerplate,
+    locale,
+    locales,
+    stats: {
+      totalTokens,
+      documentCount: documents.length,
+      processingTime: Date.now() - startTime,
+      linkedSourceCount: linkedSources?.length,
+      tokenizer: context.tokenizer,
+      duplicatesRemoved: deduped.removedCount || undefined,
+      duplicateTokensRemoved: deduped.removedTokens || undefined,
+    },
+  }
+}
@@ -4,8 +4,30 @@
  * Functions for generating full documentation and agent guides
  */
 
-import type { Document } from './types'
+import type { Document, LinkedSource, LinkedSourceNode, TokenBudget } from './types'
 import { estimateTokens, extractSiteName } from './parser'
+import { buildLinkedSourceTree } from './llms-txt'
+
+/**
+ * Formats linked sources as a nested markdown list
+ */
+function formatSourceTree(nodes: LinkedSourceNode[], indent = ''): string[] {
+  return nodes.flatMap(({ source, children }) => [
+    `${indent}- ${source.name}: ${source.url}`,
+    ...formatSourceTree(children, `${indent}  `),
+  ])
+}
+
+/**
+ * Table of contents entry of a document in llms-full.md
+ *
+ * @param doc - Document the entry links to
+ * @param index - Position of the document, starting at 0
+ */
+export function tableOfContentsLine(doc: Pick<Document, 'title'>, index: number): string {
+  const anchor = doc.title.toLowerCase().replace(/[^\w\s-]/g, '').replace(/\s+/g, '-')
+  return `${index + 1}. [${doc.title}](#${anchor})`
+}
 
 /**
  * Generates the llms-full.md consolidated document with table of contents
@@ -13,21 +35,20 @@ import { estimateTokens, extractSiteName } from './parser'
  * @param documents - Array of parsed document sections
  * @param rawContent - Original raw content (unused, kept for API compatibility)
  * @param sourceUrl - URL where the llms.txt was fetched from
+ * @param tokenizer - Vocabulary or model name used for the token count (optional)
  * @returns A single Document containing all content with TOC
  */
 export function generateFullDocument(
   documents: Document[],
   rawContent: string,
-  sourceUrl: string
+  sourceUrl: string,
+  tokenizer?: string
 ): Document {
   const siteName = extractSiteName(sourceUrl)
   const title = `${siteName.charAt(0).toUpperCase() + siteName.slice(1)} Documentation`
   
   // Build table of contents
-  const tocLines = documents.map((doc, index) => {
-    const anchor = doc.title.toLowerCase().replace(/[^\w\s-]/g, '').replace(/\s+/g, '-')
-    return `${index + 1}. [${doc.title}](#${anchor})`
-  })
+  const tocLines = documents.map(tableOfContentsLine)
   
   const toc = tocLines.length > 0 
     ? `## Table of Contents\n\n${tocLines.join('\n')}\n\n---\n\n`
@@ -46,7 +67,7 @@ export function generateFullDocument(
     filename: 'llms-full.md',
     title,
     content: fullContent,
-    tokens: estimateTokens(fullContent)
+    tokens: estimateTokens(fullContent, tokenizer)
   }
 }
 
@@ -56,12 +77,18 @@ export function generateFullDocument(
  * @param documents - Array of parsed document sections
  * @param sourceUrl - URL where the llms.txt was fetched from
  * @param siteName - Extracted site name (optional, will be derived from sourceUrl if not provided)
+ * @param linkedSources - Linked llms.txt files merged into the documents (optional)
+ * @param tokenizer - Vocabulary the document token counts were computed with (optional)
+ * @param budget - Token budget report when llms-full.md was packed (optional)
  * @returns A Document containing the agent guide
  */
 export function generateAgentGuide(
   documents: Document[],
   sourceUrl: string,
-  siteName?: string
+  siteName?: string,
+  linkedSources?: LinkedSource[],
+  tokenizer?: string,
+  budget?: TokenBudget
 ): Document {
   const resolvedSiteName = siteName || extractSiteName(sourceUrl)
   const formattedSiteName = resolvedSiteName.charAt(0).toUpperCase() + resolvedSiteName.slice(1)
@@ -78,6 +105,16 @@ export function generateAgentGuide(
   const topicSummary = documents.length > 5 
     ? `${topics}, and more`
     : topics
+
+  // List every source when content was merged from linked llms.txt files
+  const sourcesSection = linkedSources && linkedSources.length > 0
+    ? `\n## Documentation Sources\n\nThis extraction includes content from multiple documentation sources:\n\n- Main: ${sourceUrl}\n${formatSourceTree(buildLinkedSourceTree(linkedSources)).join('\n')}\n`
+    : ''
+
+  // Tell the agent which files are only available individually
+  const budgetSection = budget && budget.dropped.length > 0
+    ? `\n## Omitted From llms-full.md\n\nllms-full.md was limited to ${budget.maxTokens.toLocaleString()} tokens. These documents were left out of it but are still included as individual files:\n\n${budget.dropped.map(doc => `- **${doc.filename}** - ${doc.title} (${doc.tokens.toLocaleString()} tokens)`).join('\n')}\n`
+    : ''
   
   const content = `# Agent Guide for ${formattedSiteName} Documentation
 
@@ -88,8 +125,8 @@ This package contains documentation extracted from ${formattedSiteName}'s offici
 - **Original URL**: ${sourceUrl}
 - **Extraction Date**: ${extractionDate}
 - **Total Documents**: ${documents.length}
-- **Total Tokens**: ${documents.reduce((sum, d) => sum + d.tokens, 0).toLocaleString()}
-
+- **Total Tokens**: ${documents.reduce((sum, d) => sum + d.tokens, 0).toLocaleString()}${tokenizer ? ` (${tokenizer} tokenizer)` : ''}
+${sourcesSection}${budgetSection}
 ## Included Files
 
 ### Main Files
@@ -138,7 +175,7 @@ Original documentation: ${sourceUrl}
     filename: 'AGENT-GUIDE.md',
     title: 'Agent Guide',
     content,
-    tokens: estimateTokens(content)
+    tokens: estimateTokens(content, tokenizer)
   }
 }
 
@@ -0,0 +1,502 @@
+/**
+ * GitHub Docs Reader
+ *
+ * Reads the markdown docs folder of a GitHub repository for libraries that
+ * keep their documentation only in the repo:
+ * - Lists the repository tree once and picks the docs folder (docs/, doc/,
+ *   documentation/, website/docs/, or the folder given in a /tree/ URL)
+ * - Orders pages with the repo's navigation file when it has one:
+ *   _sidebar.md (docsify), SUMMARY.md (GitBook, mdBook), mkdocs.yml or
+ *   sidebars.js (Docusaurus); other pages follow in path order
+ * - Downloads .md / .mdx files from raw.githubusercontent.com
+ * - Strips MDX imports, exports and JSX components, keeping their text
+ */
+
+import yaml from 'js-yaml'
+import type { FailedUrl, SkippedUrl } from './types'
+import { DEFAULT_USER_AGENT } from './extractor'
+import { GITHUB_API_BASE, fetchGitHub, fetchRawFile, parseGitHubUrl } from './github'
+import { crawl, httpError } from './crawler'
+
+/**
+ * Folders checked for docs, in order, when the URL does not name one
+ */
+const DOCS_DIRECTORIES = ['docs', 'doc', 'documentation', 'website/docs', 'docs/src']
+
+/**
+ * Navigation files, in order of preference
+ */
+const NAVIGATION_FILES = ['_sidebar.md', 'SUMMARY.md', 'mkdocs.yml', 'mkdocs.yaml', 'sidebars.js', 'sidebars.ts']
+
+const MARKDOWN_EXTENSION = /\.(md|mdx|markdown)$/i
+
+/**
+ * Repository (and optionally branch and folder) to read docs from
+ */
+export interface GitHubDocsSource {
+  owner: string
+  repo: string
+  /** Branch or tag; the repository's default branch when unset */
+  branch?: string
+  /** Docs folder; detected when unset */
+  path?: string
+}
+
+export interface GitHubDocFile {
+  /** Path in the repository */
+  path: string
+  title: string
+  /** Markdown with front matter and MDX syntax removed */
+  content: string
+  /** File on github.com */
+  url: string
+}
+
+export interface GitHubDocsOptions {
+  /** GitHub token for private repositories and a higher API rate limit */
+  token?: string
+  userAgent?: string
+  /** Maximum number of files to download */
+  maxFiles?: number
+  concurrency?: number
+  pageTimeoutMs?: number
+  signal?: AbortSignal
+  onProgress?: (completed: number, total: number, currentPath: string) => void
+}
+
+export interface GitHubDocsResult {
+  /** github.com URL of the docs folder */
+  sourceUrl: string
+  branch: string
+  docsPath: string
+  /** Docs files in reading order */
+  files: GitHubDocFile[]
+  skipped: SkippedUrl[]
+  failed: FailedUrl[]
+}
+
+/**
+ * Parse a repository URL, including /tree/<branch>/<folder> and
+ * /blob/<branch>/<file> links
+ * Returns null for anything that is not on github.com.
+ */
+export function parseGitHubDocsUrl(url: string): GitHubDocsSource | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url.includes('://') ? url : `https://${url}`)
+  } catch {
+    return null
+  }
+  if (parsed.hostname.replace(/^www\./, '') !== 'github.com') return null
+
+  const repo = parseGitHubUrl(parsed.href)
+  if (!repo) return null
+
+  const [, , kind, branch, ...rest] = parsed.pathname.split('/').filter(Boolean)
+  if ((kind !== 'tree' && kind !== 'blob') || !branch) return repo
+
+  // A link to a single file reads the folder it is in
+  const segments = kind === 'blob' ? rest.slice(0, -1) : rest
+  const path = segments.map(decodeURIComponent).join('/')
+  return { ...repo, branch, ...(path ? { path } : {}) }
+}
+
+/**
+ * Title from a file name, e.g. 'getting-started.mdx' -> 'Getting started'
+ */
+function titleFromPath(path: string): string {
+  const segments = path.replace(MARKDOWN_EXTENSION, '').split('/')
+  let name = segments.pop() ?? ''
+  if (/^(index|readme)$/i.test(name) && segments.length > 0) name = segments.pop() ?? name
+
+  const words = name.replace(/^\d+[-_.]\s*/, '').replace(/[-_]+/g, ' ').trim()
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : name
+}
+
+/**
+ * Remove a block that starts on lines[start] and runs until its braces,
+ * brackets and parentheses are balanced; returns the index after it
+ */
+function skipBalanced(lines: string[], start: number): number {
+  let depth = 0
+  for (let i = start; i < lines.length; i++) {
+    for (const char of lines[i]) {
+      if ('{[('.includes(char)) depth++
+      else if ('}])'.includes(char)) depth--
+    }
+    if (depth <= 0) return i + 1
+  }
+  return lines.length
+}
+
+/**
+ * Replace JSX in a block of prose (never code)
+ * Components are dropped but their children kept; a `title` or `label`
+ * attribute (tabs, admonitions, cards) is kept as a bold line.
+ */
+function stripJsx(text: string): string {
+  const inlineCode: string[] = []
+  const protectedText = text.replace(/`[^`\n]+`/g, code => `\u0000${inlineCode.push(code) - 1}\u0000`)
+
+  const stripped = protectedText
+    .replace(/\{\/\*[\s\S]*?\*\/\}/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // <Component ... />, allowing one level of {...} in attributes
+    .replace(/<[A-Z][\w.]*(?:[^<>{}]|\{[^{}]*\})*\/>/g, '')
+    .replace(/<\/[A-Z][\w.]*\s*>/g, '\n')
+    .replace(/<[A-Z][\w.]*((?:[^<>{}]|\{[^{}]*\})*)>/g, (_, attributes: string) => {
+      const label = attributes.match(/\b(?:title|label)=(?:"([^"]*)"|'([^']*)'|\{\s*["'`]([^"'`]*)["'`]\s*\})/)
+      const text = label?.[1] ?? label?.[2] ?? label?.[3]
+      return text ? `\n**${text}**\n\n` : '\n'
+    })
+    // Docusaurus heading ids: ## Title {#custom-id}
+    .replace(/^(#{1,6} .*?)\s*\{#[\w-]+\}\s*$/gm, '$1')
+
+  return stripped.replace(/\u0000(\d+)\u0000/g, (_, index: string) => inlineCode[Number(index)])
+}
+
+/**
+ * Turn Docusaurus / VitePress admonitions (:::note Title ... :::) into
+ * blockquotes with a bold title
+ */
+function convertAdmonitions(lines: string[]): string[] {
+  const output: string[] = []
+  let depth = 0
+
+  for (const line of lines) {
+    const quote = '> '.repeat(depth)
+    const open = line.match(/^\s*:::+\s*(\w+)(?:\[(.*)\]|\s+(.*))?\s*$/)
+    if (open) {
+      const kind = open[1].charAt(0).toUpperCase() + open[1].slice(1)
+      const title = (open[2] ?? open[3])?.trim() || kind
+      output.push(`${quote}> **${title}**`, `${quote}>`)
+      depth++
+    } else if (depth > 0 && /^\s*:::+\s*$/.test(line)) {
+      depth--
+      output.push('')
+    } else {
+      output.push(depth > 0 ? `${quote}${line}`.trimEnd() : line)
+    }
+  }
+
+  return output
+}
+
+/**
+ * Convert a markdown or MDX file into plain markdown
+ * Front matter, import / export statements and JSX components are removed;
+ * code blocks are left untouched. The title is the front matter title, the
+ * leading # heading (which is removed) or the file name.
+ */
+export function mdxToMarkdown(source: string, path = ''): { title: string; content: string } {
+  let text = source.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n')
+  let frontMatterTitle: string | undefined
+
+  const frontMatter = text.match(/^---\n([\s\S]*?)\n---(?:\n|$)/)
+  if (frontMatter) {
+    try {
+      const data = yaml.load(frontMatter[1]) as Record<string, unknown> | null
+      const title = data?.title ?? data?.sidebar_label
+      if (typeof title === 'string' && title.trim()) frontMatterTitle = title.trim()
+    } catch {
+      // Unreadable front matter is dropped all the same
+    }
+    text = text.slice(frontMatter[0].length)
+  }
+
+  const lines = text.split('\n')
+  const chunks: Array<{ code: boolean; lines: string[] }> = []
+  let fence: string | null = null
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1]
+
+    if (fence) {
+      chunks[chunks.length - 1].lines.push(line)
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) fence = null
+      continue
+    }
+    if (marker) {
+      fence = marker
+      chunks.push({ code: true, lines: [line] })
+      continue
+    }
+
+    if (/^import\s/.test(line)) {
+      // Multi-line imports end with their module specifier
+      while (i < lines.length - 1 && !/(from\s+|^import\s+)['"][^'"]+['"];?\s*$/.test(lines[i])) i++
+      continue
+    }
+    if (/^export\s/.test(line)) {
+      i = skipBalanced(lines, i) - 1
+      continue
+    }
+
+    const last = chunks[chunks.length - 1]
+    if (last && !last.code) last.lines.push(line)
+    else chunks.push({ code: false, lines: [line] })
+  }
+
+  const markdown = chunks
+    .map(chunk => (chunk.code ? chunk.lines.join('\n') : convertAdmonitions(stripJsx(chunk.lines.join('\n')).split('\n')).join('\n')))
+    .join('\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  const heading = markdown.match(/^# (.+)(?:\n+|$)/)
+  const content = heading ? markdown.slice(heading[0].length).trim() : markdown
+
+  return {
+    title: frontMatterTitle ?? heading?.[1].trim() ?? titleFromPath(path),
+    content,
+  }
+}
+
+/**
+ * Directory part of a repository path ('' for the root)
+ */
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/')
+  return index === -1 ? '' : path.slice(0, index)
+}
+
+/**
+ * Join repository path segments, resolving . and ..
+ */
+function joinPath(...parts: string[]): string {
+  const segments: string[] = []
+  for (const segment of parts.join('/').split('/')) {
+    if (!segment || segment === '.') continue
+    if (segment === '..') segments.pop()
+    else segments.push(segment)
+  }
+  return segments.join('/')
+}
+
+/**
+ * Find the docs file a navigation entry points at: the path itself, with a
+ * markdown extension added, or the folder's index / README
+ */
+function findDocFile(candidate: string, files: Set<string>): string | undefined {
+  const base = candidate.replace(/\/$/, '')
+  const options = [
+    base,
+    ...['.md', '.mdx', '.markdown'].map(extension => `${base}${extension}`),
+    ...['index.md', 'index.mdx', 'README.md', 'readme.md'].map(name => joinPath(base, name)),
+  ]
+  return options.find(option => files.has(option))
+}
+
+/**
+ * Link targets of a markdown navigation file (_sidebar.md, SUMMARY.md),
+ * as repository paths
+ */
+function readMarkdownNavigation(content: string, navPath: string, docsPath: string): string[] {
+  const paths: string[] = []
+  for (const match of Array.from(content.matchAll(/\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^)]*)?\)/g))) {
+    const target = decodeURIComponent(match[1].split(/[?#]/)[0])
+    if (!target || /^[a-z][\w+.-]*:/i.test(target)) continue
+    // docsify resolves absolute links from the docs root
+    paths.push(target.startsWith('/') ? joinPath(docsPath, target) : joinPath(dirname(navPath), target))
+  }
+  return paths
+}
+
+/**
+ * Page paths listed in an mkdocs.yml nav, relative to its docs_dir
+ */
+function readMkDocsNavigation(content: string, navPath: string): { docsPath: string; paths: string[] } | null {
+  let config: { nav?: unknown; docs_dir?: unknown } | null
+  try {
+    // Drop custom tags such as !!python/name:... and !ENV, which js-yaml cannot load
+    config = yaml.load(content.replace(/(^|\s)!!?[A-Za-z][\w/:.-]*/g, '$1')) as typeof config
+  } catch {
+    return null
+  }
+
+  const docsPath = joinPath(dirname(navPath), typeof config?.docs_dir === 'string' ? config.docs_dir : 'docs')
+  const paths: string[] = []
+  const walk = (entry: unknown): void => {
+    if (typeof entry === 'string') {
+      if (!/^[a-z][\w+.-]*:/i.test(entry)) paths.push(joinPath(docsPath, entry))
+    } else if (Array.isArray(entry)) {
+      entry.forEach(walk)
+    } else if (entry && typeof entry === 'object') {
+      Object.values(entry).forEach(walk)
+    }
+  }
+  walk(config?.nav)
+
+  return { docsPath, paths }
+}
+
+/**
+ * Doc ids in a Docusaurus sidebars file, in order of appearance
+ * The file is code, so every string literal is a candidate; strings that are
+ * not doc ids (labels, types) match no file and are ignored. A dirName of an
+ * autogenerated sidebar matches the folder's files.
+ */
+function readSidebarsNavigation(content: string, docsPath: string): string[] {
+  const withoutComments = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:])\/\/.*$/gm, '$1')
+  return Array.from(withoutComments.matchAll(/(['"`])((?:(?!\1)[^\\\n]|\\.)+)\1/g))
+    .map(match => joinPath(docsPath, match[2]))
+}
+
+/**
+ * Put docs files in navigation order; files the navigation leaves out follow
+ * in path order, with each folder's index or README first
+ */
+export function orderDocFiles(files: string[], navigation: string[] = []): string[] {
+  const available = new Set(files)
+  const ordered: string[] = []
+  const listed = new Set<string>()
+  const add = (file: string) => {
+    if (!listed.has(file)) {
+      listed.add(file)
+      ordered.push(file)
+    }
+  }
+
+  for (const entry of navigation) {
+    const file = findDocFile(entry, available)
+    if (file) {
+      add(file)
+    } else {
+      // A folder entry (e.g. an autogenerated sidebar) lists the folder's pages
+      const prefix = `${entry.replace(/\/$/, '')}/`
+      sortByPath(files.filter(candidate => candidate.startsWith(prefix))).forEach(add)
+    }
+  }
+
+  return [...ordered, ...sortByPath(files.filter(file => !listed.has(file)))]
+}
+
+function sortByPath(files: string[]): string[] {
+  const key = (file: string) => file.replace(/(^|\/)(index|readme)\.\w+$/i, '$1').toLowerCase()
+  return [...files].sort((a, b) => key(a).localeCompare(key(b), undefined, { numeric: true }))
+}
+
+/**
+ * Read the navigation file closest to the docs folder, if any
+ */
+async function readNavigation(
+  source: GitHubDocsSource,
+  branch: string,
+  docsPath: string,
+  blobs: Set<string>,
+  token?: string
+): Promise<{ docsPath: string; paths: string[] } | null> {
+  // Docusaurus sites often keep docs/ at the root and the site in website/
+  const candidates = Array.from(new Set([docsPath, dirname(docsPath), '', 'website']))
+    .flatMap(folder => NAVIGATION_FILES.map(name => joinPath(folder, name)))
+    .filter(path => blobs.has(path))
+
+  for (const navPath of candidates) {
+    const content = await fetchRawFile(source.owner, source.repo, navPath, branch, token)
+    if (!content) continue
+
+    const name = navPath.split('/').pop() ?? ''
+    if (name.startsWith('mkdocs.')) {
+      const mkdocs = readMkDocsNavigation(content, navPath)
+      if (mkdocs && mkdocs.paths.length > 0) return mkdocs
+    } else if (name.startsWith('sidebars.')) {
+      return { docsPath, paths: readSidebarsNavigation(content, docsPath) }
+    } else {
+      return { docsPath, paths: readMarkdownNavigation(content, navPath, docsPath) }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Download and convert the docs folder of a repository
+ * Returns null when the repository does not exist or has no markdown docs.
+ */
+export async function fetchGitHubDocs(
+  source: GitHubDocsSource,
+  options: GitHubDocsOptions = {}
+): Promise<GitHubDocsResult | null> {
+  const { owner, repo } = source
+  const { token, userAgent = DEFAULT_USER_AGENT, maxFiles = 50 } = options
+
+  let branch = source.branch
+  if (!branch) {
+    const repoResponse = await fetchGitHub(`${GITHUB_API_BASE}/repos/${owner}/${repo}`, token)
+    if (repoResponse.status === 404) return null
+    if (!repoResponse.ok) {
+      throw new Error(repoResponse.status === 403
+        ? 'GitHub rate limit exceeded. Set GITHUB_TOKEN to raise it.'
+        : `GitHub API error: ${repoResponse.status}`)
+    }
+    const repoInfo = await repoResponse.json() as { default_branch?: string }
+    branch = repoInfo.default_branch || 'main'
+  }
+
+  const treeResponse = await fetchGitHub(
+    `${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${encodeURIComponent(branch)}?recursive=1`,
+    token
+  )
+  if (!treeResponse.ok) return null
+
+  const tree = await treeResponse.json() as { tree?: Array<{ path: string; type: string }> }
+  const blobs = new Set((tree.tree ?? []).filter(entry => entry.type === 'blob').map(entry => entry.path))
+  const markdownIn = (folder: string) => Array.from(blobs).filter(path =>
+    MARKDOWN_EXTENSION.test(path)
+    && (folder === '' || path.startsWith(`${folder}/`))
+    && !path.split('/').some(segment => segment.startsWith('_') || segment === 'node_modules')
+    && !/(^|\/)SUMMARY\.md$/.test(path))
+
+  let docsPath = source.path ?? DOCS_DIRECTORIES.find(folder => markdownIn(folder).length > 0)
+  if (docsPath === undefined) return null
+
+  const navigation = await readNavigation(source, branch, docsPath, blobs, token)
+  // mkdocs.yml may point at a docs_dir other than the detected folder
+  if (navigation && !source.path) docsPath = navigation.docsPath
+
+  const files = orderDocFiles(markdownIn(docsPath), navigation?.paths).slice(0, maxFiles)
+  if (files.length === 0) return null
+
+  const rawUrl = (path: string) =>
+    `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path.split('/').map(encodeURIComponent).join('/')}`
+  const pathByUrl = new Map(files.map(path => [rawUrl(path), path]))
+
+  const fetched = await crawl(
+    Array.from(pathByUrl.keys()),
+    async (url, signal) => {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': userAgent, ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        signal,
+      })
+      if (!response.ok) throw httpError(url, response)
+      return response.text()
+    },
+    {
+      userAgent,
+      concurrency: options.concurrency,
+      pageTimeoutMs: options.pageTimeoutMs,
+      // raw.githubusercontent.com serves files, not pages for crawlers
+      respectRobots: false,
+      delayMs: 0,
+      signal: options.signal,
+      onProgress: (completed, total, currentUrl) => options.onProgress?.(completed, total, pathByUrl.get(currentUrl) ?? ''),
+    }
+  )
+
+  const blobBase = `https://github.com/${owner}/${repo}/blob/${branch}`
+  return {
+    sourceUrl: `https://github.com/${owner}/${repo}/tree/${branch}${docsPath ? `/${docsPath}` : ''}`,
+    branch,
+    docsPath,
+    files: fetched.pages
+      .map(({ url, value }) => {
+        const path = pathByUrl.get(url) ?? ''
+        return { path, url: `${blobBase}/${path}`, ...mdxToMarkdown(value, path) }
+      })
+      .filter(file => file.content.length > 0),
+    skipped: fetched.skipped,
+    failed: fetched.failed,
+  }
+}
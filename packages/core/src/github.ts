@@ -0,0 +1,115 @@
+/**
+ * @llm-energy/core - GitHub API helpers
+ *
+ * Repository URL parsing and authenticated fetches against the GitHub API and
+ * raw.githubusercontent.com, shared by the docs folder strategy and the web
+ * app's install.md analyzer
+ */
+
+export const GITHUB_API_BASE = 'https://api.github.com'
+
+/**
+ * Parse a GitHub URL to extract owner and repo
+ */
+export function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
+  // Support formats:
+  // - https://github.com/owner/repo
+  // - github.com/owner/repo
+  // - owner/repo
+  // - https://github.com/owner/repo.git
+  // - https://github.com/owner/repo/tree/branch
+  
+  let normalized = url.trim()
+  
+  // Remove .git suffix
+  normalized = normalized.replace(/\.git$/, '')
+  
+  // Handle full URLs
+  const urlMatch = normalized.match(/github\.com\/([^\/]+)\/([^\/\?#]+)/)
+  if (urlMatch) {
+    return { owner: urlMatch[1], repo: urlMatch[2] }
+  }
+  
+  // Handle owner/repo format
+  const shortMatch = normalized.match(/^([a-zA-Z0-9_-]+)\/([a-zA-Z0-9_.-]+)$/)
+  if (shortMatch) {
+    return { owner: shortMatch[1], repo: shortMatch[2] }
+  }
+  
+  return null
+}
+
+/**
+ * Fetch with timeout and error handling
+ */
+export async function fetchGitHub(
+  url: string,
+  token?: string
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json',
+    'User-Agent': 'llm-energy-install-md-generator',
+  }
+  
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`
+  }
+  
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 15000)
+  
+  try {
+    const response = await fetch(url, {
+      headers,
+      signal: controller.signal,
+    })
+    clearTimeout(timeoutId)
+    return response
+  } catch (error) {
+    clearTimeout(timeoutId)
+    throw error
+  }
+}
+
+/**
+ * Fetch raw file content from GitHub
+ */
+export async function fetchRawFile(
+  owner: string,
+  repo: string,
+  path: string,
+  branch: string = 'main',
+  token?: string
+): Promise<string | null> {
+  // Try raw.githubusercontent.com first (no rate limit)
+  const rawUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path}`
+  
+  try {
+    const response = await fetch(rawUrl, {
+      headers: { 'User-Agent': 'llm-energy-install-md-generator' },
+    })
+    
+    if (response.ok) {
+      return await response.text()
+    }
+  } catch {
+    // Fall through to API
+  }
+  
+  // Fallback to API
+  const apiUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}?ref=${branch}`
+  
+  try {
+    const response = await fetchGitHub(apiUrl, token)
+    if (!response.ok) return null
+    
+    const data = await response.json() as { content?: string; encoding?: string }
+    if (data.content && data.encoding === 'base64') {
+      return Buffer.from(data.content, 'base64').toString('utf-8')
+    }
+  } catch {
+    return null
+  }
+  
+  return null
+}
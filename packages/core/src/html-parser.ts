@@ -0,0 +1,502 @@
+/**
+ * HTML Parser - Forgiving tokenizer and tree builder for scraped pages
+ *
+ * Builds a small element tree without a DOM, so it runs anywhere the
+ * extractor does. It follows the parts of the HTML spec that matter for
+ * documentation markup: void elements, raw text elements (script, style),
+ * entity decoding and the implied end tags of p, li, dt/dd, table rows and
+ * cells. Stray end tags are ignored; unclosed elements end with their parent.
+ */
+
+export interface HtmlText {
+  type: 'text';
+  value: string;
+  parent: HtmlElement | null;
+}
+
+export interface HtmlElement {
+  type: 'element';
+  /** Lowercased tag name; '#document' for the root */
+  tagName: string;
+  /** Lowercased attribute names with decoded values; the first occurrence wins */
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+export type HtmlToken =
+  | { type: 'startTag'; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { type: 'endTag'; name: string }
+  | { type: 'text'; value: string };
+
+/**
+ * Elements that never have children or an end tag
+ */
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+/**
+ * Elements whose content is text up to the matching end tag
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'noscript', 'template']);
+
+/**
+ * Raw text elements whose content still has entities decoded
+ */
+const ESCAPABLE_RAW_TEXT_ELEMENTS = new Set(['textarea', 'title']);
+
+/**
+ * Start tags that close an open <p>
+ */
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+]);
+
+const HEADINGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+/**
+ * Elements an implied end tag never reaches past
+ */
+const SCOPE_BOUNDARIES = new Set(['#document', 'html', 'body', 'table', 'td', 'th', 'caption', 'button', 'object', 'template']);
+
+/**
+ * Named character references common in documentation pages
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  copy: '©', reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–',
+  lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”', bdquo: '„',
+  laquo: '«', raquo: '»', bull: '•', middot: '·', times: '×', divide: '÷',
+  deg: '°', plusmn: '±', micro: 'µ', para: '¶', sect: '§', euro: '€',
+  pound: '£', yen: '¥', cent: '¢', larr: '←', rarr: '→', uarr: '↑', darr: '↓',
+  harr: '↔', lArr: '⇐', rArr: '⇒', hArr: '⇔', ne: '≠', le: '≤', ge: '≥',
+  infin: '∞', minus: '−', check: '✓', ensp: '\u2002', emsp: '\u2003',
+  thinsp: '\u2009', zwnj: '\u200c', zwj: '\u200d', shy: '\u00ad',
+  lbrace: '{', rbrace: '}', lsqb: '[', rsqb: ']', lpar: '(', rpar: ')',
+  verbar: '|', vert: '|', grave: '`', Hat: '^', lowbar: '_', ast: '*', num: '#',
+  dollar: '$', percnt: '%', excl: '!', quest: '?', colon: ':', semi: ';',
+  comma: ',', period: '.', sol: '/', bsol: '\\', equals: '=', plus: '+',
+};
+
+/**
+ * Decode named and numeric character references
+ * Unknown names are left as they are.
+ */
+export function decodeHtmlEntities(text: string): string {
+  if (!text.includes('&')) return text;
+
+  return text.replace(/&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);?/g, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+    }
+    // Named references need their semicolon, except for the classic few
+    if (!match.endsWith(';') && !['amp', 'lt', 'gt', 'quot', 'nbsp'].includes(ref)) return match;
+    return NAMED_ENTITIES[ref] ?? match;
+  });
+}
+
+/**
+ * Parse the attributes of a start tag, starting after its name
+ * Returns the attributes and the index just past the closing '>'.
+ */
+function readAttributes(html: string, start: number): { attributes: Record<string, string>; end: number; selfClosing: boolean } {
+  const attributes: Record<string, string> = {};
+  let i = start;
+
+  while (i < html.length) {
+    while (i < html.length && /\s/.test(html[i])) i++;
+    if (html[i] === '>') return { attributes, end: i + 1, selfClosing: false };
+    if (html.startsWith('/>', i)) return { attributes, end: i + 2, selfClosing: true };
+    if (html[i] === '/') {
+      i++;
+      continue;
+    }
+
+    const nameStart = i;
+    while (i < html.length && !/[\s=>]/.test(html[i]) && !html.startsWith('/>', i)) i++;
+    const name = html.slice(nameStart, i).toLowerCase();
+
+    while (i < html.length && /\s/.test(html[i])) i++;
+    let value = '';
+    if (html[i] === '=') {
+      i++;
+      while (i < html.length && /\s/.test(html[i])) i++;
+      const quote = html[i];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, i + 1);
+        const valueEnd = close === -1 ? html.length : close;
+        value = html.slice(i + 1, valueEnd);
+        i = valueEnd + 1;
+      } else {
+        const valueStart = i;
+        while (i < html.length && !/[\s>]/.test(html[i])) i++;
+        value = html.slice(valueStart, i);
+      }
+    }
+
+    if (name && !(name in attributes)) {
+      attributes[name] = decodeHtmlEntities(value);
+    }
+  }
+
+  return { attributes, end: html.length, selfClosing: false };
+}
+
+/**
+ * Split HTML into start tags, end tags and text
+ * Comments, doctypes and processing instructions are dropped.
+ */
+export function tokenizeHtml(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  let i = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'text') {
+      last.value += value;
+    } else {
+      tokens.push({ type: 'text', value });
+    }
+  };
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i);
+    if (lt === -1) {
+      pushText(decodeHtmlEntities(html.slice(i)));
+      break;
+    }
+    if (lt > i) pushText(decodeHtmlEntities(html.slice(i, lt)));
+    i = lt;
+
+    if (html.startsWith('<!--', i)) {
+      const close = html.indexOf('-->', i + 4);
+      i = close === -1 ? html.length : close + 3;
+      continue;
+    }
+
+    if (html[i + 1] === '!' || html[i + 1] === '?') {
+      const close = html.indexOf('>', i);
+      i = close === -1 ? html.length : close + 1;
+      continue;
+    }
+
+    const isEndTag = html[i + 1] === '/';
+    const nameStart = i + (isEndTag ? 2 : 1);
+    if (!/[a-zA-Z]/.test(html[nameStart] ?? '')) {
+      // Not a tag, e.g. "a < b"
+      pushText('<');
+      i++;
+      continue;
+    }
+
+    let nameEnd = nameStart;
+    while (nameEnd < html.length && !/[\s/>]/.test(html[nameEnd])) nameEnd++;
+    const name = html.slice(nameStart, nameEnd).toLowerCase();
+
+    if (isEndTag) {
+      const close = html.indexOf('>', nameEnd);
+      i = close === -1 ? html.length : close + 1;
+      tokens.push({ type: 'endTag', name });
+      continue;
+    }
+
+    const { attributes, end, selfClosing } = readAttributes(html, nameEnd);
+    tokens.push({ type: 'startTag', name, attributes, selfClosing });
+    i = end;
+
+    if (RAW_TEXT_ELEMENTS.has(name) && !selfClosing) {
+      const closeMatch = new RegExp(`</${name}[\\s/>]`, 'i').exec(html.slice(i));
+      const contentEnd = closeMatch ? i + closeMatch.index : html.length;
+      const content = html.slice(i, contentEnd);
+      if (content) {
+        tokens.push({ type: 'text', value: ESCAPABLE_RAW_TEXT_ELEMENTS.has(name) ? decodeHtmlEntities(content) : content });
+      }
+      tokens.push({ type: 'endTag', name });
+      const close = html.indexOf('>', contentEnd);
+      i = closeMatch && close !== -1 ? close + 1 : html.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Create an element node
+ */
+export function createElement(tagName: string, attributes: Record<string, string> = {}): HtmlElement {
+  return { type: 'element', tagName, attributes, children: [], parent: null };
+}
+
+/**
+ * Parse HTML into an element tree rooted at a '#document' element
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root = createElement('#document');
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  /**
+   * Pop up to and including the nearest open element named in `names`,
+   * unless an element in `boundaries` comes first
+   */
+  const closeImplied = (names: Set<string> | string[], boundaries: Set<string> | string[] = SCOPE_BOUNDARIES) => {
+    const targets = new Set(names);
+    const stops = new Set(boundaries);
+    for (let i = stack.length - 1; i > 0; i--) {
+      const tagName = stack[i].tagName;
+      if (targets.has(tagName)) {
+        stack.length = i;
+        return;
+      }
+      if (stops.has(tagName)) return;
+    }
+  };
+
+  for (const token of tokenizeHtml(html)) {
+    if (token.type === 'text') {
+      const parent = current();
+      const last = parent.children[parent.children.length - 1];
+      if (last?.type === 'text') {
+        last.value += token.value;
+      } else {
+        parent.children.push({ type: 'text', value: token.value, parent });
+      }
+      continue;
+    }
+
+    const { name } = token;
+
+    if (token.type === 'endTag') {
+      // Pop to the matching element; ignore end tags with nothing to close
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tagName === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (CLOSES_PARAGRAPH.has(name)) closeImplied(['p']);
+    if (HEADINGS.has(name) && HEADINGS.has(current().tagName)) stack.pop();
+
+    switch (name) {
+      case 'li':
+        closeImplied(['li'], [...SCOPE_BOUNDARIES, 'ul', 'ol', 'menu']);
+        break;
+      case 'dt':
+      case 'dd':
+        closeImplied(['dt', 'dd'], [...SCOPE_BOUNDARIES, 'dl']);
+        break;
+      case 'tr':
+        closeImplied(['tr'], ['#document', 'table', 'thead', 'tbody', 'tfoot']);
+        break;
+      case 'td':
+      case 'th':
+        closeImplied(['td', 'th'], ['#document', 'table', 'tr']);
+        break;
+      case 'thead':
+      case 'tbody':
+      case 'tfoot':
+        closeImplied(['thead', 'tbody', 'tfoot'], ['#document', 'table']);
+        break;
+      case 'option':
+        closeImplied(['option'], [...SCOPE_BOUNDARIES, 'select']);
+        break;
+      case 'a':
+        closeImplied(['a']);
+        break;
+    }
+
+    const element = createElement(name, token.attributes);
+    element.parent = current();
+    current().children.push(element);
+
+    if (!VOID_ELEMENTS.has(name) && !token.selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Whether a node is an element, optionally with one of the given tag names
+ */
+export function isElement(node: HtmlNode | null | undefined, ...tagNames: string[]): node is HtmlElement {
+  return node?.type === 'element' && (tagNames.length === 0 || tagNames.includes(node.tagName));
+}
+
+/**
+ * Attribute value, or undefined when the attribute is missing
+ */
+export function getAttribute(element: HtmlElement, name: string): string | undefined {
+  return element.attributes[name.toLowerCase()];
+}
+
+/**
+ * Class names of an element
+ */
+export function getClassList(element: HtmlElement): string[] {
+  return (element.attributes.class ?? '').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Concatenated text of a node and its descendants
+ */
+export function textContent(node: HtmlNode): string {
+  if (node.type === 'text') return node.value;
+  return node.children.map(textContent).join('');
+}
+
+/**
+ * Split a selector at separator characters outside [...] attribute blocks
+ */
+function splitSelector(selector: string, isSeparator: (char: string) => boolean): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inAttribute = false;
+
+  for (const char of selector) {
+    if (char === '[') inAttribute = true;
+    else if (char === ']') inAttribute = false;
+
+    if (!inAttribute && isSeparator(char)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Compile one compound selector such as `div.content[role="main"]`
+ */
+function compileCompound(compound: string): (element: HtmlElement) => boolean {
+  const match = compound.match(/^([a-zA-Z][\w-]*|\*)?((?:[.#][\w-]+|\[[^\]]+\])*)$/);
+  if (!match) return () => false;
+
+  const tagName = match[1] && match[1] !== '*' ? match[1].toLowerCase() : undefined;
+  const checks = Array.from(match[2].matchAll(/[.#][\w-]+|\[[^\]]+\]/g), ([qualifier]) => {
+    if (qualifier[0] === '.') {
+      const className = qualifier.slice(1);
+      return (element: HtmlElement) => getClassList(element).includes(className);
+    }
+    if (qualifier[0] === '#') {
+      const id = qualifier.slice(1);
+      return (element: HtmlElement) => element.attributes.id === id;
+    }
+    const attribute = qualifier.slice(1, -1).match(/^\s*([\w-]+)\s*(?:([\^*$]?)=\s*["']?([^"']*)["']?)?\s*$/);
+    if (!attribute) return () => false;
+    const [, name, operator, value] = attribute;
+    return (element: HtmlElement) => {
+      const actual = element.attributes[name.toLowerCase()];
+      if (actual === undefined || value === undefined) return actual !== undefined;
+      if (operator === '^') return actual.startsWith(value);
+      if (operator === '*') return actual.includes(value);
+      if (operator === '$') return actual.endsWith(value);
+      return actual === value;
+    };
+  });
+
+  return (element: HtmlElement) =>
+    (!tagName || element.tagName === tagName) && checks.every(check => check(element));
+}
+
+/**
+ * Compile a simple selector into a predicate
+ * Supports tag names, .class, #id, [attr], [attr="value"] and the ^=, *= and
+ * $= attribute operators, compound selectors such as `div.content`,
+ * descendant combinators (`nav a`) and comma-separated lists.
+ */
+export function compileSelector(selector: string): (element: HtmlElement) => boolean {
+  const alternatives = splitSelector(selector, char => char === ',').map(part => {
+    const compounds = splitSelector(part.trim(), char => /\s/.test(char))
+      .filter(Boolean)
+      .map(compileCompound);
+    if (compounds.length === 0) return () => false;
+
+    return (element: HtmlElement) => {
+      if (!compounds[compounds.length - 1](element)) return false;
+
+      // Match the remaining compounds right to left against the nearest ancestors
+      let ancestor = element.parent;
+      for (let i = compounds.length - 2; i >= 0; i--) {
+        while (ancestor && !compounds[i](ancestor)) ancestor = ancestor.parent;
+        if (!ancestor) return false;
+        ancestor = ancestor.parent;
+      }
+      return true;
+    };
+  });
+
+  return element => alternatives.some(matches => matches(element));
+}
+
+/**
+ * Check an element against a simple selector (see compileSelector)
+ */
+export function matchesSelector(element: HtmlElement, selector: string): boolean {
+  return compileSelector(selector)(element);
+}
+
+/**
+ * All descendant elements matching a selector or predicate, in document order
+ */
+export function querySelectorAll(
+  root: HtmlElement,
+  selector: string | ((element: HtmlElement) => boolean)
+): HtmlElement[] {
+  const matches = typeof selector === 'string' ? compileSelector(selector) : selector;
+  const found: HtmlElement[] = [];
+
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (child.type !== 'element') continue;
+      if (matches(child)) found.push(child);
+      visit(child);
+    }
+  };
+
+  visit(root);
+  return found;
+}
+
+/**
+ * First descendant element matching a selector or predicate
+ */
+export function querySelector(
+  root: HtmlElement,
+  selector: string | ((element: HtmlElement) => boolean)
+): HtmlElement | null {
+  const matches = typeof selector === 'string' ? compileSelector(selector) : selector;
+
+  for (const child of root.children) {
+    if (child.type !== 'element') continue;
+    if (matches(child)) return child;
+    const found = querySelector(child, matches);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Detach a node from its parent
+ */
+export function removeNode(node: HtmlNode): void {
+  if (!node.parent) return;
+  node.parent.children = node.parent.children.filter(child => child !== node);
+  node.parent = null;
+}
@@ -0,0 +1,836 @@
+/**
+ * HTML to Markdown Converter - Scrapes web pages and converts to clean markdown
+ *
+ * Pages are parsed into an element tree (see html-parser) and converted by a
+ * list of rules, one per kind of element, so nesting such as lists inside
+ * list items or paragraphs inside cells survives. Callers can add rules for
+ * site-specific markup. Sites that serve their pages' markdown source (see
+ * page-fetcher) skip the conversion.
+ */
+
+import yaml from 'js-yaml';
+import type { DocsPlatform, FailedUrl, SkippedUrl } from './types';
+import { crawl, type CrawlOptions } from './crawler';
+import { fetchPage, type PageFormat } from './page-fetcher';
+import { detectDocsPlatform, getNavigation, getPlatformInfo, type PlatformExtractor } from './platforms';
+import {
+  getAttribute,
+  getClassList,
+  isElement,
+  compileSelector,
+  parseHtml,
+  querySelector,
+  querySelectorAll,
+  removeNode,
+  textContent,
+  type HtmlElement,
+  type HtmlNode,
+  type HtmlText,
+} from './html-parser';
+
+export interface MarkdownDocument {
+  title: string;
+  url: string;
+  content: string;
+  wordCount: number;
+  description?: string;
+  /** URL from <link rel="canonical">, resolved against the page URL */
+  canonicalUrl?: string;
+  /** Absolute http(s) links found anywhere on the page, including navigation */
+  links?: string[];
+  /** Docs platform the page was built with, when recognised (see platforms/) */
+  platform?: DocsPlatform;
+  /** Sidebar links in reading order, on recognised platforms */
+  navigation?: string[];
+  /** Whether the content is the site's own markdown or converted HTML (see page-fetcher) */
+  format?: PageFormat;
+  /** Language the page declares, from <html lang> or a `lang` / `locale` front matter field */
+  lang?: string;
+}
+
+export interface ScrapeResult {
+  /** Pages with meaningful content, in the order of the input URLs */
+  documents: MarkdownDocument[];
+  /** Pages that were not fetched, e.g. because robots.txt disallows them */
+  skipped: SkippedUrl[];
+  /** Pages that could not be fetched after retries */
+  failed: FailedUrl[];
+}
+
+export interface ScrapePagesOptions extends CrawlOptions {
+  /** Called with each page that has meaningful content as soon as it is scraped */
+  onPage?: (page: MarkdownDocument) => void;
+}
+
+export interface ScrapePageOptions {
+  userAgent?: string;
+  /** Aborts the request */
+  signal?: AbortSignal;
+  /** Use the page's markdown source when the site serves one (default: true) */
+  markdownFirst?: boolean;
+  /** Probe the page's .md variant only when robots.txt allows it (default: true) */
+  respectRobots?: boolean;
+}
+
+/**
+ * Selectors to find main content
+ */
+const CONTENT_SELECTORS = [
+  'article',
+  'main',
+  '[role="main"]',
+  '.docs-content',
+  '.documentation',
+  '.content',
+  '.markdown-body',
+  '.prose',
+  '#content',
+  '#main-content',
+  '.post-content',
+  '.article-content',
+];
+
+/**
+ * Elements to remove before conversion
+ */
+const REMOVE_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'nav',
+  'footer',
+  'header',
+  'aside',
+  '.sidebar',
+  '.navigation',
+  '.nav',
+  '.menu',
+  '.toc',
+  '.table-of-contents',
+  '.ads',
+  '.advertisement',
+  '.cookie-banner',
+  '.cookie-consent',
+  '.newsletter',
+  '.social-share',
+  '.comments',
+  '.related-posts',
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+];
+
+/**
+ * Count words in a string
+ */
+export function countWords(text: string): number {
+  return text
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .length;
+}
+
+/**
+ * Context passed to conversion rules
+ */
+export interface ConversionContext {
+  /** URL that relative links and images are resolved against */
+  baseUrl?: string;
+  /** Convert the children of an element with the active rules */
+  convertChildren: (element: HtmlElement) => string;
+}
+
+/**
+ * A conversion rule turns one kind of element into markdown
+ * Rules are checked in order and the first matching one wins; elements
+ * without a rule contribute their converted children.
+ */
+export interface ConversionRule {
+  /** Selector (see compileSelector) or predicate for the elements this rule handles */
+  filter: string | ((element: HtmlElement) => boolean);
+  /** Markdown for the element, given the markdown of its children */
+  replacement: (content: string, element: HtmlElement, context: ConversionContext) => string;
+}
+
+export interface HtmlToMarkdownOptions {
+  /** URL that relative links and images are resolved against */
+  baseUrl?: string;
+  /** Extra rules, checked before the default rules */
+  rules?: ConversionRule[];
+}
+
+/**
+ * Elements that start and end a block of text
+ */
+const BLOCK_ELEMENTS = new Set([
+  '#document', 'html', 'body', 'address', 'article', 'aside', 'blockquote', 'caption',
+  'center', 'dd', 'details', 'dialog', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+  'li', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table',
+  'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+/**
+ * Elements that are never part of the text
+ */
+const IGNORED_ELEMENTS = 'script, style, noscript, template, head, svg, canvas, iframe, object, button, select, textarea, input';
+
+/**
+ * Resolve a link target against the base URL; fragments and unparseable targets are kept as they are
+ */
+function resolveUrl(href: string, baseUrl?: string): string {
+  if (!baseUrl || href.startsWith('#')) return href;
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Markdown link destination with optional title
+ */
+function linkDestination(url: string, title?: string): string {
+  const escaped = url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+  return title ? `${escaped} "${title.replace(/"/g, '\\"')}"` : escaped;
+}
+
+/**
+ * Wrap inline content in a delimiter, keeping surrounding whitespace outside it
+ */
+function wrapInline(content: string, delimiter: string): string {
+  const [, leading, text, trailing] = content.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+  return text ? `${leading}${delimiter}${text}${delimiter}${trailing}` : content;
+}
+
+/**
+ * Language of a code element from language-* / lang-* classes or data-language
+ */
+export function getCodeLanguage(element: HtmlElement): string | undefined {
+  const dataLanguage = getAttribute(element, 'data-language') ?? getAttribute(element, 'data-lang');
+  if (dataLanguage) return dataLanguage;
+
+  for (const className of getClassList(element)) {
+    const match = className.match(/^(?:language|lang)-([\w+#.-]+)$/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Text of preformatted content; highlighters that render one element per
+ * line separate the lines with <br>
+ */
+function preformattedText(node: HtmlNode): string {
+  if (node.type === 'text') return node.value;
+  if (node.tagName === 'br') return '\n';
+  return node.children.map(preformattedText).join('');
+}
+
+/**
+ * Shortest run of backticks that does not occur in the text, at least `min` long
+ */
+function backtickFence(text: string, min: number): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(min, longest + 1));
+}
+
+/**
+ * Convert a table, including thead/tbody/tfoot sections, colspan and rowspan
+ * The first row becomes the header row, as GitHub-flavoured markdown requires one.
+ */
+function tableToMarkdown(table: HtmlElement, context: ConversionContext): string {
+  const sections = table.children.filter((child): child is HtmlElement => isElement(child));
+  const ordered = [
+    ...sections.filter(section => section.tagName === 'thead'),
+    ...sections.filter(section => section.tagName !== 'thead' && section.tagName !== 'tfoot'),
+    ...sections.filter(section => section.tagName === 'tfoot'),
+  ];
+  const rows = ordered.flatMap(section => section.tagName === 'tr'
+    ? [section]
+    : section.children.filter((child): child is HtmlElement => isElement(child, 'tr')));
+
+  const grid: string[][] = [];
+  // Rows each column is still covered by a rowspan from above
+  const spanned: number[] = [];
+
+  for (const row of rows) {
+    const cells: string[] = [];
+    let column = 0;
+    const skipSpanned = () => {
+      while (spanned[column] > 0) {
+        spanned[column]--;
+        cells[column++] = '';
+      }
+    };
+
+    for (const cell of row.children) {
+      if (!isElement(cell, 'td', 'th')) continue;
+      skipSpanned();
+
+      const text = context.convertChildren(cell).replace(/\s*\n+\s*/g, ' ').trim().replace(/\|/g, '\\|');
+      const colspan = Math.min(Math.max(parseInt(getAttribute(cell, 'colspan') ?? '1', 10) || 1, 1), 100);
+      const rowspan = Math.min(Math.max(parseInt(getAttribute(cell, 'rowspan') ?? '1', 10) || 1, 1), 1000);
+
+      for (let i = 0; i < colspan; i++) {
+        cells[column] = i === 0 ? text : '';
+        if (rowspan > 1) spanned[column] = rowspan - 1;
+        column++;
+      }
+    }
+    // Columns after the last cell that are covered from above
+    while (column < spanned.length) {
+      skipSpanned();
+      column++;
+    }
+
+    if (cells.length > 0) grid.push(Array.from(cells, cell => cell ?? ''));
+  }
+
+  if (grid.length === 0) return '';
+
+  const width = Math.max(...grid.map(cells => cells.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  const [header, ...body] = grid;
+  const markdown = [line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+
+  const caption = table.children.find(child => isElement(child, 'caption')) as HtmlElement | undefined;
+  const captionText = caption ? context.convertChildren(caption).trim() : '';
+
+  return `\n\n${captionText ? `${captionText}\n\n` : ''}${markdown}\n\n`;
+}
+
+/**
+ * Default rules for documentation pages
+ */
+export const DEFAULT_CONVERSION_RULES: ConversionRule[] = [
+  {
+    filter: 'input[type="checkbox"]',
+    replacement: (_, element) => ('checked' in element.attributes ? '[x] ' : '[ ] '),
+  },
+  {
+    filter: IGNORED_ELEMENTS,
+    replacement: () => '',
+  },
+  {
+    filter: 'h1, h2, h3, h4, h5, h6',
+    replacement: (content, element) => {
+      const text = content.replace(/\s*\n+\s*/g, ' ').trim();
+      return text ? `\n\n${'#'.repeat(Number(element.tagName[1]))} ${text}\n\n` : '';
+    },
+  },
+  {
+    filter: 'br',
+    replacement: () => '\n',
+  },
+  {
+    filter: 'hr',
+    replacement: () => '\n\n---\n\n',
+  },
+  {
+    filter: 'blockquote',
+    replacement: content => {
+      const text = content.trim();
+      return text ? `\n\n${text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')}\n\n` : '';
+    },
+  },
+  {
+    filter: 'pre',
+    replacement: (_, element) => {
+      const code = element.children.find(child => isElement(child, 'code')) as HtmlElement | undefined;
+      // Highlighters often put the language class on a wrapper around <pre>
+      const language = (code && getCodeLanguage(code))
+        ?? getCodeLanguage(element)
+        ?? (element.parent && getCodeLanguage(element.parent))
+        ?? '';
+      // A newline right after <pre> is not part of the content
+      const text = preformattedText(element).replace(/\u00a0/g, ' ').replace(/^\r?\n/, '').replace(/\s+$/, '');
+      if (!text) return '';
+      const fence = backtickFence(text, 3);
+      return `\n\n${fence}${language}\n${text}\n${fence}\n\n`;
+    },
+  },
+  {
+    filter: 'code, kbd, samp, tt',
+    replacement: (_, element) => {
+      const text = textContent(element).replace(/\u00a0/g, ' ').replace(/\s+/g, ' ').trim();
+      if (!text) return '';
+      const fence = backtickFence(text, 1);
+      const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+      return `${fence}${padding}${text}${padding}${fence}`;
+    },
+  },
+  {
+    filter: 'ul, ol, menu',
+    // Lists nested in a list item stay tight
+    replacement: (content, element) => (isElement(element.parent, 'li') ? `\n${content}\n` : `\n\n${content}\n\n`),
+  },
+  {
+    filter: 'li',
+    replacement: (content, element) => {
+      let marker = '- ';
+      const list = element.parent;
+      if (isElement(list, 'ol')) {
+        const start = parseInt(getAttribute(list, 'start') ?? '1', 10);
+        const items = list.children.filter(child => isElement(child, 'li'));
+        marker = `${(Number.isNaN(start) ? 1 : start) + items.indexOf(element)}. `;
+      }
+      const indent = ' '.repeat(marker.length);
+      const body = content
+        .replace(/^\n+/, '')
+        .replace(/\n+$/, '')
+        .split('\n')
+        .map((line, i) => (i > 0 && line ? indent + line : line))
+        .join('\n');
+      return `${marker}${body}\n`;
+    },
+  },
+  {
+    filter: 'table',
+    replacement: (_, element, context) => tableToMarkdown(element, context),
+  },
+  {
+    filter: 'a',
+    replacement: (content, element, context) => {
+      const href = getAttribute(element, 'href')?.trim();
+      const text = content.replace(/\s*\n+\s*/g, ' ').trim();
+      if (!href || /^javascript:/i.test(href)) return content;
+      // Heading permalinks such as "#" or "¶"
+      if (href.startsWith('#') && /^[#¶§\s\u200b]*$/.test(text)) return '';
+      if (!text) return '';
+      return `[${text}](${linkDestination(resolveUrl(href, context.baseUrl), getAttribute(element, 'title'))})`;
+    },
+  },
+  {
+    filter: 'img',
+    replacement: (_, element, context) => {
+      const src = getAttribute(element, 'src') || getAttribute(element, 'data-src');
+      if (!src) return '';
+      const alt = (getAttribute(element, 'alt') ?? '').replace(/\s+/g, ' ').trim();
+      return `![${alt}](${linkDestination(resolveUrl(src, context.baseUrl), getAttribute(element, 'title'))})`;
+    },
+  },
+  {
+    filter: 'strong, b',
+    replacement: content => wrapInline(content, '**'),
+  },
+  {
+    filter: 'em, i, cite',
+    replacement: content => wrapInline(content, '*'),
+  },
+  {
+    filter: 'del, s, strike',
+    replacement: content => wrapInline(content, '~~'),
+  },
+  {
+    filter: 'dt',
+    replacement: content => (content.trim() ? `\n\n**${content.trim()}**\n\n` : ''),
+  },
+  {
+    filter: 'p',
+    replacement: content => `\n\n${content}\n\n`,
+  },
+  {
+    filter: element => BLOCK_ELEMENTS.has(element.tagName),
+    replacement: content => `\n\n${content}\n\n`,
+  },
+];
+
+/**
+ * Collapse whitespace the way a browser renders it
+ * Runs of whitespace become one space, and spaces at the start or end of a
+ * block are dropped. Text inside <pre> is kept as it is. Returns the
+ * collapsed value of every text node, leaving the tree untouched.
+ */
+function collapseWhitespace(root: HtmlElement): Map<HtmlText, string> {
+  const values = new Map<HtmlText, string>();
+  let previous: HtmlText | null = null;
+  let keepLeadingSpace = false;
+
+  const endRun = () => {
+    if (previous) values.set(previous, (values.get(previous) as string).replace(/ $/, ''));
+    previous = null;
+    keepLeadingSpace = false;
+  };
+
+  const visit = (node: HtmlNode) => {
+    if (node.type === 'text') {
+      let value = node.value.replace(/[ \t\n\r\f]+/g, ' ');
+      const afterSpace = previous ? (values.get(previous) as string).endsWith(' ') : !keepLeadingSpace;
+      if (afterSpace && value.startsWith(' ')) value = value.slice(1);
+      values.set(node, value);
+      if (value) {
+        previous = node;
+        keepLeadingSpace = false;
+      }
+      return;
+    }
+
+    if (node.tagName === 'pre' || node.tagName === 'br' || BLOCK_ELEMENTS.has(node.tagName)) {
+      endRun();
+      if (node.tagName !== 'pre') node.children.forEach(visit);
+      endRun();
+    } else if (node.tagName === 'img') {
+      // Inline content without text: a following space still separates it
+      previous = null;
+      keepLeadingSpace = true;
+    } else if (node.tagName === 'input') {
+      // Checkbox markers bring their own trailing space
+      previous = null;
+      keepLeadingSpace = false;
+    } else {
+      node.children.forEach(visit);
+    }
+  };
+
+  visit(root);
+  endRun();
+  return values;
+}
+
+/**
+ * Concatenate converted nodes, merging the newlines between blocks
+ * Blocks ask for surrounding newlines; where two meet, the larger request wins,
+ * capped at one blank line.
+ */
+function joinMarkdown(parts: string[]): string {
+  let output = '';
+  // Newlines requested since the last text
+  let newlines = 0;
+
+  for (const part of parts) {
+    let start = 0;
+    let end = part.length;
+    while (start < end && part[start] === '\n') start++;
+    while (end > start && part[end - 1] === '\n') end--;
+
+    newlines = Math.max(newlines, start);
+    if (start < end) {
+      output += '\n'.repeat(Math.min(2, newlines)) + part.slice(start, end);
+      newlines = part.length - end;
+    }
+  }
+
+  return output + '\n'.repeat(Math.min(2, newlines));
+}
+
+/**
+ * Convert HTML to markdown
+ *
+ * @param html - HTML source or an already parsed tree (see parseHtml)
+ * @param options - Base URL for relative links and extra conversion rules
+ */
+export function htmlToMarkdown(html: string | HtmlElement, options: HtmlToMarkdownOptions = {}): string {
+  const root = typeof html === 'string' ? parseHtml(html) : html;
+  const rules = [...(options.rules ?? []), ...DEFAULT_CONVERSION_RULES].map(rule => ({
+    matches: typeof rule.filter === 'string' ? compileSelector(rule.filter) : rule.filter,
+    replacement: rule.replacement,
+  }));
+  const text = collapseWhitespace(root);
+
+  const convertNode = (node: HtmlNode): string => {
+    if (node.type === 'text') {
+      return (text.get(node) ?? node.value).replace(/\u00a0/g, ' ');
+    }
+    const rule = rules.find(candidate => candidate.matches(node));
+    const content = convertChildren(node);
+    return rule ? rule.replacement(content, node, context) : content;
+  };
+
+  const convertChildren = (element: HtmlElement): string => joinMarkdown(element.children.map(convertNode));
+
+  const context: ConversionContext = { baseUrl: options.baseUrl, convertChildren };
+
+  return convertNode(root)
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Content attribute of the first <meta> whose `attribute` equals `value`
+ */
+function getMetaContent(document: HtmlElement, attribute: string, value: string): string | undefined {
+  const meta = querySelector(document, element =>
+    element.tagName === 'meta' && element.attributes[attribute]?.toLowerCase() === value
+  );
+  const content = meta && getAttribute(meta, 'content')?.trim();
+  return content || undefined;
+}
+
+/**
+ * Extract title from a parsed page
+ */
+function extractTitle(document: HtmlElement, url: string): string {
+  // Try og:title first
+  const ogTitle = getMetaContent(document, 'property', 'og:title');
+  if (ogTitle) return ogTitle;
+
+  // Try <title> tag
+  const titleElement = querySelector(document, 'title');
+  if (titleElement) {
+    // Clean up common suffixes like " - Company Name" or " | Docs"
+    const title = textContent(titleElement).trim().replace(/\s*[-|–]\s*[^-|–]+$/, '').trim();
+    if (title) return title;
+  }
+
+  // Try first <h1>
+  const h1 = querySelector(document, 'h1');
+  const heading = h1 && textContent(h1).replace(/\s+/g, ' ').trim();
+  if (heading) return heading;
+
+  return titleFromUrl(url);
+}
+
+/**
+ * Title from the last segment of a page URL, or its hostname
+ */
+function titleFromUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const pathParts = urlObj.pathname.split('/').filter(Boolean);
+    if (pathParts.length > 0) {
+      return pathParts[pathParts.length - 1]
+        .replace(/[-_]/g, ' ')
+        .replace(/\.(html?|md|mdx)$/i, '')
+        .split(' ')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+    }
+    return urlObj.hostname;
+  } catch {
+    return 'Documentation';
+  }
+}
+
+/**
+ * Extract description from a parsed page
+ */
+function extractDescription(document: HtmlElement): string | undefined {
+  return getMetaContent(document, 'property', 'og:description')
+    ?? getMetaContent(document, 'name', 'description');
+}
+
+/**
+ * Resolve an href against a base URL; null for non-http(s) targets
+ */
+function resolveHref(href: string, baseUrl: string): string | null {
+  try {
+    const resolved = new URL(href.trim(), baseUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the canonical URL declared by a page
+ */
+export function extractCanonicalUrl(document: HtmlElement, pageUrl: string): string | undefined {
+  const link = querySelector(document, element =>
+    element.tagName === 'link'
+    && (getAttribute(element, 'rel') ?? '').toLowerCase().split(/\s+/).includes('canonical')
+    && Boolean(getAttribute(element, 'href'))
+  );
+  return link ? resolveHref(getAttribute(link, 'href') as string, pageUrl) ?? undefined : undefined;
+}
+
+/**
+ * Extract every unique http(s) link on a page, resolved against <base href> or the page URL
+ */
+export function extractLinks(document: HtmlElement, pageUrl: string): string[] {
+  const base = querySelector(document, 'base[href]');
+  const baseUrl = (base && resolveHref(getAttribute(base, 'href') as string, pageUrl)) || pageUrl;
+  const links = new Set<string>();
+
+  for (const anchor of querySelectorAll(document, 'a[href]')) {
+    const resolved = resolveHref(getAttribute(anchor, 'href') as string, baseUrl);
+    if (resolved) links.add(resolved);
+  }
+
+  return Array.from(links);
+}
+
+/**
+ * Find the element holding the page's main content
+ * The first content selector whose element has more than 100 characters of
+ * text wins; otherwise the whole body is used.
+ */
+function extractMainContent(document: HtmlElement): HtmlElement {
+  for (const selector of CONTENT_SELECTORS) {
+    const element = querySelector(document, selector);
+    if (element && textContent(element).trim().length > 100) {
+      return element;
+    }
+  }
+
+  return querySelector(document, 'body') ?? document;
+}
+
+/**
+ * Find the rendered page content of a recognised platform and strip its chrome
+ * The page's own <h1> is removed and returned as the title, as documents are
+ * given a heading from the title when they are assembled.
+ */
+function extractPlatformContent(
+  document: HtmlElement,
+  extractor: PlatformExtractor
+): { content: HtmlElement; title?: string } | null {
+  const content = extractor.contentSelectors
+    .map(selector => querySelector(document, selector))
+    .find((element): element is HtmlElement => element !== null && textContent(element).trim().length > 0);
+  if (!content) return null;
+
+  for (const element of querySelectorAll(content, extractor.removeSelectors.join(', '))) {
+    removeNode(element);
+  }
+
+  const heading = querySelector(content, 'h1');
+  const title = heading ? textContent(heading).replace(/\s+/g, ' ').trim() : '';
+  if (heading) removeNode(heading);
+
+  return { content, title: title || undefined };
+}
+
+/**
+ * Convert a fetched HTML page into a markdown document
+ * Metadata and links come from the whole page; the markdown only from its
+ * main content, without navigation, sidebars and other page chrome. Pages of
+ * a recognised docs platform (see platforms/) are converted with that
+ * platform's content container, chrome selectors and rules.
+ */
+export function htmlPageToDocument(html: string, url: string): MarkdownDocument {
+  const document = parseHtml(html);
+  const description = extractDescription(document);
+  const canonicalUrl = extractCanonicalUrl(document, url);
+  const links = extractLinks(document, url);
+  const lang = getAttribute(querySelector(document, 'html') ?? document, 'lang')?.trim() || undefined;
+
+  const extractor = detectDocsPlatform(document);
+  const platform = extractor ? getPlatformInfo(extractor, document, url) : undefined;
+  const navigation = extractor ? getNavigation(extractor, document, url) : undefined;
+  const platformContent = extractor ? extractPlatformContent(document, extractor) : null;
+
+  let title: string;
+  let content: string;
+  if (extractor && platformContent) {
+    title = platformContent.title ?? extractTitle(document, url);
+    content = htmlToMarkdown(platformContent.content, { baseUrl: url, rules: extractor.rules });
+  } else {
+    title = extractTitle(document, url);
+    for (const element of querySelectorAll(document, REMOVE_SELECTORS.join(', '))) {
+      removeNode(element);
+    }
+    content = htmlToMarkdown(extractMainContent(document), { baseUrl: url, rules: extractor?.rules });
+  }
+
+  return {
+    title,
+    url,
+    content,
+    wordCount: countWords(content),
+    description,
+    canonicalUrl,
+    links,
+    platform,
+    navigation: navigation && navigation.length > 0 ? navigation : undefined,
+    lang,
+  };
+}
+
+/**
+ * Extract every unique http(s) link target in markdown, resolved against the page URL
+ */
+function extractMarkdownLinks(markdown: string, pageUrl: string): string[] {
+  const links = new Set<string>();
+  const targets = [
+    ...Array.from(markdown.matchAll(/\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^)]*)?\)/g)),
+    ...Array.from(markdown.matchAll(/<(https?:\/\/[^>\s]+)>/g)),
+    ...Array.from(markdown.matchAll(/^\s*\[[^\]]+\]:\s*<?(\S+?)>?(?:\s|$)/gm)),
+  ];
+
+  for (const [, href] of targets) {
+    const resolved = resolveHref(href, pageUrl);
+    if (resolved) links.add(resolved);
+  }
+
+  return Array.from(links);
+}
+
+/**
+ * Build a document from a page's own markdown
+ * Front matter gives the title and description and is removed. Without a
+ * front matter title, a leading # heading becomes the title (and is removed,
+ * as on converted pages); otherwise the URL does.
+ */
+export function markdownPageToDocument(markdown: string, url: string, format: PageFormat): MarkdownDocument {
+  let content = markdown.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  let frontMatter: Record<string, unknown> = {};
+
+  const block = content.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
+  if (block) {
+    try {
+      const data = yaml.load(block[1]);
+      if (data && typeof data === 'object') frontMatter = data as Record<string, unknown>;
+    } catch {
+      // Unreadable front matter is dropped all the same
+    }
+    content = content.slice(block[0].length);
+  }
+  content = content.trim();
+
+  const heading = content.match(/^# (.+)(?:\n+|$)/);
+  if (heading) content = content.slice(heading[0].length).trim();
+
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  return {
+    title: text(frontMatter.title) ?? heading?.[1].trim() ?? titleFromUrl(url),
+    url,
+    content,
+    wordCount: countWords(content),
+    description: text(frontMatter.description),
+    links: extractMarkdownLinks(content, url),
+    format,
+    lang: text(frontMatter.lang) ?? text(frontMatter.locale),
+  };
+}
+
+/**
+ * Scrape a page and convert to markdown
+ * The site's own markdown is used when it serves one; otherwise the HTML is
+ * converted. Throws a CrawlError carrying the status and Retry-After for
+ * non-2xx responses.
+ */
+export async function scrapePageToMarkdown(url: string, options: ScrapePageOptions = {}): Promise<MarkdownDocument> {
+  const page = await fetchPage(url, options);
+
+  return page.format === 'html'
+    ? { ...htmlPageToDocument(page.body, url), format: 'html' }
+    : markdownPageToDocument(page.body, url, page.format);
+}
+
+/**
+ * Scrape multiple pages with progress tracking
+ * Pages are fetched concurrently through the crawler, which honours robots.txt,
+ * limits requests per host and retries rate-limited or failing pages. Stops
+ * early (returning what was scraped so far) when `options.signal` is aborted.
+ */
+export async function scrapePages(urls: string[], options: ScrapePagesOptions = {}): Promise<ScrapeResult> {
+  const { pages, skipped, failed } = await crawl(
+    urls,
+    async (url, signal) => {
+      const page = await scrapePageToMarkdown(url, { userAgent: options.userAgent, signal, respectRobots: options.respectRobots });
+      if (page.content.length > 50) options.onPage?.(page);
+      return page;
+    },
+    options
+  );
+
+  return {
+    // Only include pages with meaningful content
+    documents: pages.map(page => page.value).filter(doc => doc.content.length > 50),
+    skipped,
+    failed,
+  };
+}
@@ -18,6 +18,33 @@ export type {
   ExportFormat,
   CacheEntry,
   RateLimitResult,
+  LinkedSource,
+  LinkedSourceNode,
+  ExtractionStatus,
+  ExtractionProgress,
+  ExtractionStrategy,
+  StrategyContext,
+  StrategyResult,
+  HttpValidators,
+  SkipReason,
+  SkippedUrl,
+  FetchErrorCode,
+  FailedUrl,
+  SiteVariant,
+  DocsPlatform,
+  BoilerplateBlock,
+  BoilerplateReport,
+  ExtractOptions,
+  LlmsTxtLink,
+  LlmsTxtSection,
+  LlmsTxtManifest,
+  DocumentPriorities,
+  TokenBudget,
+  Chunk,
+  ChunkOptions,
+  CodeExample,
+  CodeExampleGroup,
+  CodeExampleIndex,
 } from './types'
 
 // Parser utilities
@@ -28,7 +55,29 @@ export {
   parseMarkdownSections,
   sectionsToDocuments,
   parseLlmsContent,
+  splitLlmsSections,
 } from './parser'
+export type { SplitSectionsOptions } from './parser'
+
+// Tokenizer
+export {
+  DEFAULT_TOKENIZER,
+  countTokens,
+  encode,
+  resolveTokenizer,
+  registerVocabulary,
+  getVocabulary,
+  listVocabularies,
+  loadVocabularyRanks,
+  loadPublishedRanks,
+  parseCompressedRanks,
+  parseTiktokenRanks,
+} from './tokenizer'
+export type { TokenizerName, Vocabulary, EstimationProfile } from './tokenizer'
+
+// llms.txt manifest parser
+export { parseLlmsTxtManifest, isOptionalSection } from './manifest'
+export type { ParseManifestOptions } from './manifest'
 
 // Generator utilities
 export {
@@ -36,3 +85,231 @@ export {
   generateAgentGuide,
   generateAllDocuments,
 } from './generator'
+
+// Token budgets
+export {
+  DEFAULT_DOCUMENT_PRIORITIES,
+  rankDocuments,
+  selectWithinBudget,
+  packDocuments,
+  parseDocumentPriorities,
+} from './budget'
+export type { RankableDocument, PackOptions, BudgetSelection, PackedDocuments, DocumentPriorityTerms } from './budget'
+
+// RAG chunker
+export { DEFAULT_CHUNK_TOKENS, DEFAULT_CHUNK_OVERLAP, chunkMarkdown, chunkDocuments } from './chunker'
+
+// Code example index
+export {
+  CODE_EXAMPLES_FILENAME,
+  normalizeCodeLanguage,
+  inferCodeLanguage,
+  collectCodeExamples,
+  groupCodeExamples,
+  generateCodeExamplesDocument,
+  buildCodeExampleIndex,
+} from './code-examples'
+
+// Near-duplicate detection
+export {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  DEFAULT_SHINGLE_SIZE,
+  DEFAULT_MINHASH_SIZE,
+  shingleHashes,
+  minHashSignature,
+  estimateSimilarity,
+  dedupeDocuments,
+} from './dedupe'
+export type { DedupeOptions, DedupeResult } from './dedupe'
+
+// Locale detection
+export {
+  DEFAULT_LOCALE,
+  normalizeLocale,
+  matchesLocale,
+  detectUrlLocale,
+  selectLocale,
+  servedLocale,
+  collectLocales,
+} from './locale'
+
+// Full-text search
+export {
+  tokenizeSearchTerms,
+  createSearchIndex,
+  buildSearchIndex,
+  querySearchIndex,
+  highlightSnippet,
+} from './search'
+export type { SearchEntry, SearchIndex, SearchOptions, SearchHit, SearchHighlight } from './search'
+
+// Content hashing
+export { sha256 } from './hash'
+
+// Documentation diff
+export { diffLines, formatHunks, diffExtractions, formatDiffChangelog } from './diff'
+export type {
+  SectionChangeType,
+  DiffLine,
+  DiffHunk,
+  SectionLocation,
+  SectionChange,
+  ExtractionDiff,
+  DiffOptions,
+  ChangelogOptions,
+} from './diff'
+
+// Extraction snapshots
+export { snapshotKey, hashExtraction, createSnapshot, toSnapshotMeta } from './snapshot'
+export type { Snapshot, SnapshotMeta, SnapshotStore } from './snapshot'
+
+// Extraction engine
+export {
+  DEFAULT_USER_AGENT,
+  defaultStrategies,
+  ExtractionError,
+  normalizeTargetUrl,
+  createStrategyContext,
+  extractDocumentation,
+  getExtractionVariant,
+} from './extractor'
+export type { ExtractionVariantOptions } from './extractor'
+
+// llms.txt strategy
+export {
+  llmsTxtStrategy,
+  fetchLlmsFile,
+  fetchLlmsFileWithValidators,
+  getLlmsTxtCandidates,
+  locateLlmsTxt,
+  detectLinkedLlmsTxtFiles,
+  normalizeLlmsTxtUrl,
+  fetchAllLinkedLlmsTxt,
+  traverseLinkedLlmsTxt,
+  buildLinkedSourceTree,
+  getManifestPageLinks,
+  expandManifestLinks,
+} from './llms-txt'
+export type { LinkedLlmsTxt, FetchedLlmsFile } from './llms-txt'
+
+// Web strategies
+export {
+  sitemapStrategy,
+  docsDiscoveryStrategy,
+  openApiStrategy,
+  githubStrategy,
+  htmlScrapeStrategy,
+  webStrategies,
+  getWebStrategies,
+} from './web-strategies'
+export { urlExists, isDocumentationUrl } from './url-probe'
+
+// HTML parsing and conversion
+export {
+  decodeHtmlEntities,
+  tokenizeHtml,
+  createElement,
+  parseHtml,
+  isElement,
+  getAttribute,
+  getClassList,
+  textContent,
+  compileSelector,
+  matchesSelector,
+  querySelectorAll,
+  querySelector,
+  removeNode,
+} from './html-parser'
+export type { HtmlText, HtmlElement, HtmlNode, HtmlToken } from './html-parser'
+export {
+  countWords,
+  getCodeLanguage,
+  DEFAULT_CONVERSION_RULES,
+  htmlToMarkdown,
+  extractCanonicalUrl,
+  extractLinks,
+  htmlPageToDocument,
+  markdownPageToDocument,
+  scrapePageToMarkdown,
+  scrapePages,
+} from './html-to-markdown'
+export type {
+  MarkdownDocument,
+  ScrapeResult,
+  ScrapePageOptions,
+  ScrapePagesOptions,
+  ConversionContext,
+  ConversionRule,
+  HtmlToMarkdownOptions,
+} from './html-to-markdown'
+export {
+  PLATFORM_EXTRACTORS,
+  detectDocsPlatform,
+  getPlatformExtractor,
+  getNavigation,
+  getPlatformInfo,
+} from './platforms'
+export type { PlatformExtractor } from './platforms/types'
+export { stripBoilerplate, fingerprintBlock } from './boilerplate'
+export type { BoilerplateOptions, BoilerplateResult } from './boilerplate'
+
+// Crawling
+export { CrawlError, parseRetryAfter, httpError, crawl } from './crawler'
+export type { CrawlOptions, CrawlResult } from './crawler'
+export { parseRobotsTxt, getRobotsPolicy, isAllowedByRobots, fetchRobotsTxt, getRobotsTxt } from './robots'
+export type { RobotsRule, RobotsGroup, RobotsTxt, RobotsPolicy } from './robots'
+export { getMarkdownUrl, fetchPage } from './page-fetcher'
+export type { PageFormat, FetchedPage, FetchPageOptions } from './page-fetcher'
+export {
+  isExcludedUrl,
+  parseSitemapXml,
+  getEntryLocale,
+  parseSitemap,
+  parseSitemapPages,
+  sortDocumentationUrls,
+} from './sitemap-parser'
+export type {
+  SitemapAlternate,
+  SitemapEntry,
+  SitemapParseResult,
+  SitemapOptions,
+  SitemapPages,
+} from './sitemap-parser'
+export { canonicalizeUrl, getCrawlScope, isInCrawlScope, crawlLinks } from './link-crawler'
+export type { LinkCrawlOptions, CrawlScope } from './link-crawler'
+
+// OpenAPI specs
+export {
+  OPENAPI_SPEC_PATHS,
+  isOpenApiSpecUrl,
+  parseOpenApiSpec,
+  fetchOpenApiSpec,
+  schemaToType,
+  exampleFromSchema,
+  openApiToMarkdown,
+} from './openapi'
+export type {
+  OpenApiSchema,
+  OpenApiSecurityScheme,
+  OpenApiSpec,
+  OpenApiSection,
+  FetchOpenApiSpecOptions,
+} from './openapi'
+
+// GitHub
+export { GITHUB_API_BASE, parseGitHubUrl, fetchGitHub, fetchRawFile } from './github'
+export { parseGitHubDocsUrl, mdxToMarkdown, orderDocFiles, fetchGitHubDocs } from './github-docs'
+export type { GitHubDocsSource, GitHubDocFile, GitHubDocsOptions, GitHubDocsResult } from './github-docs'
+
+// Caching
+export {
+  LRUCache,
+  normalizeUrlKey,
+  cacheKeyWithVariant,
+  normalizeCacheKey,
+  getRobotsCache,
+  getPageFormatCache,
+  clearCrawlCaches,
+  getCrawlCacheStats,
+} from './cache'
+export type { CacheOptions, CacheStats } from './cache'
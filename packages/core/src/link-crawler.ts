@@ -0,0 +1,215 @@
+/**
+ * Link Crawler - Breadth-first crawl of a docs site from its start page
+ *
+ * Used when a site has no llms.txt or sitemap. Starting from the docs URL,
+ * links are followed level by level while they stay on the same origin and
+ * under the start page's path prefix. Pages are fetched at the URL they were
+ * linked as (relative links depend on it) but compared in canonical form, so
+ * tracking parameters, fragments, index pages and <link rel="canonical">
+ * aliases are only fetched once. Each level goes through the crawler, which
+ * handles robots.txt, politeness and retries. On recognised docs platforms,
+ * pages listed in the sidebar are crawled first and in sidebar order.
+ */
+
+import type { FailedUrl, SkippedUrl } from './types';
+import { crawl } from './crawler';
+import { scrapePageToMarkdown, type MarkdownDocument, type ScrapePagesOptions, type ScrapeResult } from './html-to-markdown';
+import { isDocumentationUrl, isExcludedUrl, sortDocumentationUrls } from './sitemap-parser';
+
+export interface LinkCrawlOptions extends ScrapePagesOptions {
+  /** Pages requested in total, including the start page (default: 50) */
+  maxPages?: number;
+  /** Link depth followed from the start page; 0 fetches only the start page (default: 3) */
+  maxDepth?: number;
+}
+
+/**
+ * Pages and subtree a crawl may visit
+ */
+export interface CrawlScope {
+  origin: string;
+  /** Path prefix without a trailing slash; empty for the whole origin */
+  pathPrefix: string;
+}
+
+const DEFAULT_MAX_PAGES = 50;
+const DEFAULT_MAX_DEPTH = 3;
+
+/**
+ * Query parameters that never change page content
+ */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|ref|ref_src)$/i;
+
+/**
+ * File extensions that are not pages (stylesheets, data files, downloads)
+ */
+const NON_PAGE_EXTENSION = /\.(?!html?$|php$|aspx?$)[a-z][a-z0-9]{0,4}$/i;
+
+/**
+ * Normalise a URL so that aliases of one page compare equal
+ * Drops the fragment and tracking parameters, sorts the query, and strips
+ * index.html and trailing slashes.
+ */
+export function canonicalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  parsed.pathname = parsed.pathname.replace(/\/index\.html?$/i, '/');
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  return parsed.href;
+}
+
+/**
+ * Scope of a crawl starting at a URL
+ * A start page that looks like a file (e.g. /docs/intro.html) scopes the
+ * crawl to its directory.
+ */
+export function getCrawlScope(startUrl: string): CrawlScope {
+  const { origin, pathname } = new URL(startUrl);
+  const segments = pathname.split('/').filter(Boolean);
+
+  if (segments.length > 0 && !pathname.endsWith('/') && segments[segments.length - 1].includes('.')) {
+    segments.pop();
+  }
+
+  return {
+    origin,
+    pathPrefix: segments.length > 0 ? `/${segments.join('/')}` : '',
+  };
+}
+
+/**
+ * Check whether a URL lies inside a crawl scope
+ */
+export function isInCrawlScope(url: string, scope: CrawlScope): boolean {
+  const { origin, pathname } = new URL(url);
+  if (origin !== scope.origin) return false;
+  if (!scope.pathPrefix) return true;
+  return pathname === scope.pathPrefix || pathname.startsWith(`${scope.pathPrefix}/`);
+}
+
+/**
+ * Order a crawl level: pages in the docs sidebar first, in sidebar order,
+ * then documentation-looking pages, then the rest, each of the latter groups
+ * by the same priority as sitemap pages
+ */
+function orderLevel(urls: string[], navigationOrder: Map<string, number>): string[] {
+  const position = (url: string) => navigationOrder.get(canonicalizeUrl(url));
+  const inNavigation = urls
+    .filter(url => position(url) !== undefined)
+    .sort((a, b) => (position(a) as number) - (position(b) as number));
+  const rest = urls.filter(url => position(url) === undefined);
+
+  const docs = rest.filter(isDocumentationUrl);
+  const others = rest.filter(url => !isDocumentationUrl(url));
+  return [...inNavigation, ...sortDocumentationUrls(docs), ...sortDocumentationUrls(others)];
+}
+
+/**
+ * Crawl a docs site breadth-first from a start page
+ *
+ * @param startUrl - Page the crawl starts from; also defines its scope
+ * @param options - Page and depth limits plus the crawler's politeness,
+ *   retry, cancellation and progress settings
+ * @returns Pages with meaningful content in crawl order, plus skipped and failed pages
+ */
+export async function crawlLinks(startUrl: string, options: LinkCrawlOptions = {}): Promise<ScrapeResult> {
+  const {
+    maxPages = DEFAULT_MAX_PAGES,
+    maxDepth = DEFAULT_MAX_DEPTH,
+    onProgress,
+    onPage,
+    ...crawlOptions
+  } = options;
+
+  const scope = getCrawlScope(startUrl);
+  const seen = new Set([canonicalizeUrl(startUrl)]);
+  const documentKeys = new Set<string>();
+  // Pages passed to onPage, which is called as pages arrive rather than level by level
+  const announced = new Set<string>();
+  const documents: MarkdownDocument[] = [];
+  // Sidebar position of every page named in a crawled page's navigation
+  const navigationOrder = new Map<string, number>();
+  const skipped: SkippedUrl[] = [];
+  const failed: FailedUrl[] = [];
+
+  let level = [startUrl];
+  let requested = 0;
+
+  for (let depth = 0; level.length > 0 && requested < maxPages; depth++) {
+    if (crawlOptions.signal?.aborted) break;
+
+    const batch = level.slice(0, maxPages - requested);
+    const offset = requested;
+    requested += batch.length;
+
+    const result = await crawl(
+      batch,
+      // The start page is read as HTML: its navigation links are the map of the site,
+      // and a page's markdown source only has the links in its text
+      async (url, signal) => {
+        const page = await scrapePageToMarkdown(url, {
+          userAgent: crawlOptions.userAgent,
+          signal,
+          markdownFirst: depth > 0,
+          respectRobots: crawlOptions.respectRobots,
+        });
+        // Canonical aliases of a page already passed on are dropped below
+        const key = canonicalizeUrl(page.canonicalUrl && isInCrawlScope(page.canonicalUrl, scope) ? page.canonicalUrl : url);
+        if (page.content.length > 50 && !announced.has(key)) {
+          announced.add(key);
+          onPage?.(page);
+        }
+        return page;
+      },
+      {
+        ...crawlOptions,
+        // The total grows as links are discovered; the final call comes once, below
+        onProgress: (completed, total, currentUrl) => {
+          if (currentUrl) onProgress?.(offset + completed, offset + total, currentUrl);
+        },
+      }
+    );
+    skipped.push(...result.skipped);
+    failed.push(...result.failed);
+
+    const next: string[] = [];
+    for (const { url, value: page } of result.pages) {
+      // Pages naming an already crawled page as canonical are aliases of it
+      const canonical = page.canonicalUrl && isInCrawlScope(page.canonicalUrl, scope)
+        ? canonicalizeUrl(page.canonicalUrl)
+        : canonicalizeUrl(url);
+      if (documentKeys.has(canonical)) continue;
+      documentKeys.add(canonical);
+      seen.add(canonical);
+
+      if (page.content.length > 50) documents.push(page);
+      for (const link of page.navigation ?? []) {
+        const key = canonicalizeUrl(link);
+        if (!navigationOrder.has(key)) navigationOrder.set(key, navigationOrder.size);
+      }
+      if (depth >= maxDepth) continue;
+
+      for (const link of page.links ?? []) {
+        if (!isInCrawlScope(link, scope) || isExcludedUrl(link)) continue;
+        const candidate = canonicalizeUrl(link);
+        if (seen.has(candidate) || NON_PAGE_EXTENSION.test(new URL(candidate).pathname)) continue;
+        seen.add(candidate);
+        next.push(link.split('#')[0]);
+      }
+    }
+
+    level = orderLevel(next, navigationOrder);
+  }
+
+  onProgress?.(requested, requested, '');
+  return { documents, skipped, failed };
+}
@@ -0,0 +1,615 @@
+/**
+ * @llm-energy/core - llms.txt extraction strategy
+ *
+ * Locates llms-full.txt / llms.txt for a site, splits it into sections,
+ * and follows links to other llms.txt files (common on documentation hubs).
+ * Index-only llms.txt files can be expanded by fetching each linked page.
+ */
+
+import type {
+  Document,
+  ExtractionStrategy,
+  HttpValidators,
+  LinkedSource,
+  LinkedSourceNode,
+  LlmsTxtLink,
+  LlmsTxtManifest,
+  StrategyContext,
+} from './types'
+import { estimateTokens, slugify, splitLlmsSections } from './parser'
+import { parseLlmsTxtManifest } from './manifest'
+import { DEFAULT_LOCALE, collectLocales, detectUrlLocale, matchesLocale, servedLocale } from './locale'
+
+/**
+ * A linked llms.txt file referenced from the main llms.txt
+ */
+export interface LinkedLlmsTxt {
+  url: string
+  name: string
+  description?: string
+  content?: string
+  /** Whether this is a -full.txt version */
+  isFull?: boolean
+  /** URL of the file that linked to this one */
+  parentUrl?: string
+  /** Number of links followed from the main source to reach this file */
+  depth?: number
+  /** Locale named by the file's URL, e.g. 'zh' for llms-zh.txt */
+  locale?: string
+}
+
+type RequestContext = Pick<StrategyContext, 'userAgent' | 'timeoutMs' | 'signal'>
+
+/**
+ * A fetched llms.txt file with the validators its server sent
+ */
+export interface FetchedLlmsFile {
+  content: string
+  /** Present when the response carried an ETag or Last-Modified header */
+  validators?: HttpValidators
+}
+
+/**
+ * Fetches a text file, returning null on network errors, non-2xx responses,
+ * or when the server answers with an HTML page instead of plain text
+ *
+ * @param url - URL of the file to fetch
+ * @param context - User agent, timeout, and cancellation signal to use
+ * @returns File content and its ETag / Last-Modified, or null if unavailable
+ */
+export async function fetchLlmsFileWithValidators(url: string, context: RequestContext): Promise<FetchedLlmsFile | null> {
+  if (context.signal?.aborted) {
+    return null
+  }
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), context.timeoutMs)
+  const abort = () => controller.abort()
+  context.signal?.addEventListener('abort', abort)
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': context.userAgent,
+      },
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      return null
+    }
+
+    const text = await response.text()
+    const head = text.trim().slice(0, 100).toLowerCase()
+    // Many sites answer unknown paths with their HTML app shell
+    if (!text.trim() || head.startsWith('<!doctype') || head.startsWith('<html')) {
+      return null
+    }
+
+    const etag = response.headers.get('etag') ?? undefined
+    const lastModified = response.headers.get('last-modified') ?? undefined
+    return {
+      content: text,
+      validators: etag || lastModified ? { etag, lastModified } : undefined,
+    }
+  } catch {
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+    context.signal?.removeEventListener('abort', abort)
+  }
+}
+
+/**
+ * Fetches a text file, returning null on network errors, non-2xx responses,
+ * or when the server answers with an HTML page instead of plain text
+ *
+ * @param url - URL of the file to fetch
+ * @param context - User agent, timeout, and cancellation signal to use
+ * @returns File content, or null if unavailable
+ */
+export async function fetchLlmsFile(url: string, context: RequestContext): Promise<string | null> {
+  const file = await fetchLlmsFileWithValidators(url, context)
+  return file?.content ?? null
+}
+
+/**
+ * Builds the ordered list of URLs where an llms.txt file may live
+ * llms-full.txt is preferred on every host before falling back to llms.txt.
+ * A locale other than English first tries /{locale}/llms-full.txt and
+ * llms-{locale}-full.txt style files on the site.
+ *
+ * @example
+ * getLlmsTxtCandidates(context) // for https://example.com/docs
+ * // ['https://example.com/docs/llms-full.txt', 'https://example.com/llms-full.txt',
+ * //  'https://docs.example.com/llms-full.txt', ..., 'https://example.com/.well-known/llms.txt']
+ */
+export function getLlmsTxtCandidates(
+  context: Pick<StrategyContext, 'url' | 'baseUrl' | 'rootDomain'> & Partial<Pick<StrategyContext, 'locale'>>
+): string[] {
+  const { url, baseUrl, rootDomain, locale = DEFAULT_LOCALE } = context
+  const pathname = new URL(url).pathname.replace(/\/+$/, '')
+
+  // A direct link to a .txt file is used as-is
+  if (/\.txt$/i.test(pathname)) {
+    return [url]
+  }
+
+  const hosts = [
+    pathname ? `${baseUrl}${pathname}` : baseUrl,
+    baseUrl,
+    `https://docs.${rootDomain}`,
+    `https://api-docs.${rootDomain}`,
+    `https://developer.${rootDomain}`,
+    `https://api.${rootDomain}`,
+  ]
+  const uniqueHosts = Array.from(new Set(hosts))
+  const localized = matchesLocale(locale, DEFAULT_LOCALE)
+    ? []
+    : [
+      `${baseUrl}/${locale}/llms-full.txt`,
+      `${baseUrl}/llms-${locale}-full.txt`,
+      `${baseUrl}/${locale}/llms.txt`,
+      `${baseUrl}/llms-${locale}.txt`,
+    ]
+
+  return [
+    ...localized,
+    ...uniqueHosts.map(host => `${host}/llms-full.txt`),
+    ...uniqueHosts.map(host => `${host}/llms.txt`),
+    `${baseUrl}/.well-known/llms.txt`,
+  ]
+}
+
+/**
+ * Finds the first available llms.txt file for the context URL
+ *
+ * @returns The file URL, content and validators, or null when none exists
+ */
+export async function locateLlmsTxt(context: StrategyContext): Promise<{
+  url: string
+  content: string
+  validators?: HttpValidators
+} | null> {
+  for (const candidate of getLlmsTxtCandidates(context)) {
+    if (context.signal?.aborted) break
+    const file = await fetchLlmsFileWithValidators(candidate, context)
+    if (file) {
+      return { url: candidate, content: file.content, validators: file.validators }
+    }
+  }
+  return null
+}
+
+/**
+ * Key used to dedupe linked llms.txt files: host and path without protocol,
+ * query, hash or `-full` suffix, so the llms.txt and llms-full.txt of one
+ * directory count as the same file
+ *
+ * @example
+ * normalizeLlmsTxtUrl('https://www.Example.com/sdk/llms-full.txt#top') // 'example.com/sdk/llms.txt'
+ */
+export function normalizeLlmsTxtUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const host = parsed.host.toLowerCase().replace(/^www\./, '')
+    const pathname = parsed.pathname.replace(/\/{2,}/g, '/').replace(/-full(\.txt)$/i, '$1')
+    return `${host}${pathname}`
+  } catch {
+    return url.toLowerCase()
+  }
+}
+
+/**
+ * Resolves a possibly relative link against the file it appears in
+ */
+function resolveLink(target: string, baseUrl: string): string | null {
+  try {
+    const resolved = new URL(target, baseUrl)
+    return /^https?:$/.test(resolved.protocol) ? resolved.toString() : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Picks a display name for a linked file
+ * Uses the filename (llms-sdk.txt → "Sdk"), then the link text, then the
+ * directory or host for plain llms.txt files
+ */
+function linkedFileName(url: string, title?: string): string {
+  const { hostname, pathname } = new URL(url)
+  const segments = pathname.split('/').filter(Boolean)
+  const filename = segments.pop() || 'llms.txt'
+  const baseName = filename
+    .replace(/^llms-?/, '')
+    .replace(/-?full\.txt$/, '')
+    .replace(/\.txt$/, '')
+    .replace(/-/g, ' ')
+    .trim()
+
+  if (baseName) {
+    return baseName.charAt(0).toUpperCase() + baseName.slice(1)
+  }
+  if (title && !/^https?:\/\//i.test(title)) {
+    return title
+  }
+  const directory = segments.pop()
+  return directory
+    ? directory.charAt(0).toUpperCase() + directory.slice(1)
+    : hostname.replace(/^www\./, '')
+}
+
+/**
+ * Detect and extract links to other llms.txt files from content
+ * Supports absolute URLs and markdown links, relative ones included:
+ * - https://example.com/llms-sdk.txt
+ * - [SDK](./sdk/llms-full.txt)
+ * - [Product](https://product.example.com/llms.txt)
+ *
+ * @param content - Content of the llms.txt file
+ * @param sourceUrl - URL of that file; relative links resolve against it and
+ *   it is never returned as a link (in either its llms.txt or -full form)
+ * @returns Linked files in document order, preferring the -full variant of each,
+ *   with the locale their URL names (llms-zh.txt, /ja/llms.txt)
+ */
+export function detectLinkedLlmsTxtFiles(content: string, sourceUrl: string): LinkedLlmsTxt[] {
+  const sourceKey = normalizeLlmsTxtUrl(sourceUrl)
+  const lines = content.split('\n')
+  const matches: Array<{ index: number; raw: string; url: string; title?: string }> = []
+
+  // Markdown links, which may be relative
+  for (const match of content.matchAll(/\[([^\]]*)\]\(\s*<?([^)\s>]+)>?[^)]*\)/g)) {
+    const url = resolveLink(match[2], sourceUrl)
+    if (url && isLlmsFileUrl(url)) {
+      matches.push({ index: match.index ?? 0, raw: match[2], url, title: match[1].trim() || undefined })
+    }
+  }
+
+  // Bare absolute URLs
+  for (const match of content.matchAll(/https?:\/\/[^\s<>"')\]]+\/llms[^/\s<>"')\]]*\.txt/gi)) {
+    matches.push({ index: match.index ?? 0, raw: match[0], url: match[0] })
+  }
+
+  matches.sort((a, b) => a.index - b.index)
+
+  // Group variants of the same file to prefer the -full version
+  const filesByKey = new Map<string, LinkedLlmsTxt>()
+
+  for (const match of matches) {
+    const key = normalizeLlmsTxtUrl(match.url)
+    if (key === sourceKey) continue
+
+    const isFull = /-full\.txt$/i.test(new URL(match.url).pathname)
+    const existing = filesByKey.get(key)
+    if (existing && (existing.isFull || !isFull)) continue
+
+    // Try to find a description from the surrounding context
+    const lineContainingUrl = lines.find(line => line.includes(match.raw)) || ''
+    const description = lineContainingUrl
+      .replace(match.raw, '')
+      .replace(/\[.*?\]/g, '')
+      .replace(/\(.*?\)/g, '')
+      .replace(/[-–—:]/g, '')
+      .trim()
+
+    filesByKey.set(key, {
+      url: match.url,
+      name: linkedFileName(match.url, match.title ?? existing?.name),
+      description: description || existing?.description,
+      isFull,
+      locale: detectUrlLocale(match.url),
+    })
+  }
+
+  return Array.from(filesByKey.values())
+}
+
+/**
+ * Fetch all linked llms.txt files, a few at a time
+ * Files that fail to download are returned without content
+ *
+ * @param files - Files to fetch
+ * @param context - User agent, timeout, and cancellation signal to use
+ * @param maxConcurrent - Number of files fetched at once
+ * @param onFetched - Called after each batch with the number of files done
+ */
+export async function fetchAllLinkedLlmsTxt(
+  files: LinkedLlmsTxt[],
+  context: RequestContext,
+  maxConcurrent = 5,
+  onFetched?: (completed: number, total: number) => void
+): Promise<LinkedLlmsTxt[]> {
+  const results: LinkedLlmsTxt[] = []
+
+  for (let i = 0; i < files.length; i += maxConcurrent) {
+    if (context.signal?.aborted) break
+
+    const batch = files.slice(i, i + maxConcurrent)
+    const batchResults = await Promise.all(batch.map(async file => {
+      const content = await fetchLlmsFile(file.url, context)
+      return content ? { ...file, content } : file
+    }))
+    results.push(...batchResults)
+    onFetched?.(results.length, files.length)
+  }
+
+  return results
+}
+
+/**
+ * Follow links to other llms.txt files level by level, e.g. hub → product
+ * llms.txt → sub-product llms-full.txt
+ *
+ * Files are deduped by normalized URL, so cycles (a file linking back to one
+ * of its ancestors) and diamonds are only fetched once. Traversal stops after
+ * `context.maxLinkDepth` levels or `context.maxLinkedFiles` fetched files.
+ * Files whose URL names a locale other than `context.locale` are not followed.
+ *
+ * @param root - URL and content of the main llms.txt file
+ * @param context - Limits, request settings, and progress callback
+ * @returns Successfully fetched files in breadth-first order, each with its parentUrl and depth
+ */
+export async function traverseLinkedLlmsTxt(
+  root: { url: string; content: string },
+  context: StrategyContext
+): Promise<LinkedLlmsTxt[]> {
+  const visited = new Set([normalizeLlmsTxtUrl(root.url)])
+  const results: LinkedLlmsTxt[] = []
+  let attempted = 0
+  let level: LinkedLlmsTxt[] = detectLinkedLlmsTxtFiles(root.content, root.url)
+    .map(file => ({ ...file, parentUrl: root.url, depth: 1 }))
+
+  for (let depth = 1; depth <= context.maxLinkDepth && level.length > 0; depth++) {
+    const pending = level.filter(file => {
+      if (file.locale && !matchesLocale(file.locale, context.locale)) return false
+      const key = normalizeLlmsTxtUrl(file.url)
+      if (visited.has(key)) return false
+      visited.add(key)
+      return true
+    }).slice(0, Math.max(0, context.maxLinkedFiles - attempted))
+
+    if (pending.length === 0) break
+    attempted += pending.length
+
+    context.onProgress?.({
+      status: 'fetching',
+      message: `Fetching ${pending.length} linked llms.txt files (level ${depth})...`,
+      progress: 40,
+      totalSteps: pending.length,
+      completedSteps: 0,
+    })
+
+    const fetched = await fetchAllLinkedLlmsTxt(pending, context, context.concurrency)
+    const next: LinkedLlmsTxt[] = []
+
+    for (const file of fetched) {
+      if (!file.content) continue
+      results.push(file)
+      next.push(...detectLinkedLlmsTxtFiles(file.content, file.url)
+        .map(child => ({ ...child, parentUrl: file.url, depth: depth + 1 })))
+    }
+
+    level = next
+  }
+
+  return results
+}
+
+/**
+ * Nests linked sources under the file that linked to them
+ * Sources whose parent is the main source (or unknown) become roots.
+ *
+ * @param sources - Flat linked sources with parentUrl, as in ExtractionResult.linkedSources
+ * @returns Top-level nodes in their original order
+ */
+export function buildLinkedSourceTree(sources: LinkedSource[]): LinkedSourceNode[] {
+  const nodes = new Map(sources.map(source => [source.url, { source, children: [] as LinkedSourceNode[] }]))
+  const roots: LinkedSourceNode[] = []
+
+  for (const node of nodes.values()) {
+    const parent = node.source.parentUrl ? nodes.get(node.source.parentUrl) : undefined
+    if (parent && parent !== node) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  return roots
+}
+
+/**
+ * Whether a URL points at an llms.txt-style file (llms.txt, llms-full.txt, llms-sdk.txt, ...)
+ */
+function isLlmsFileUrl(url: string): boolean {
+  return /\/llms[^/]*\.txt$/i.test(url.split(/[?#]/)[0])
+}
+
+/**
+ * Picks the pages to fetch from an llms.txt index
+ * Links to other llms.txt files are left to linked-file following, and
+ * pages from the Optional section come last so the page cap drops them first.
+ *
+ * @param manifest - Parsed llms.txt index (with absolute link URLs)
+ * @returns Unique http(s) page links in the order they should be fetched
+ */
+export function getManifestPageLinks(manifest: LlmsTxtManifest): LlmsTxtLink[] {
+  const seen = new Set<string>()
+  const pages = manifest.links.filter(link => {
+    if (!/^https?:\/\//i.test(link.url) || isLlmsFileUrl(link.url)) return false
+    const key = link.url.split('#')[0]
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+
+  return [
+    ...pages.filter(link => !link.optional),
+    ...pages.filter(link => link.optional),
+  ]
+}
+
+/**
+ * Builds the leading document of an expanded index from its name, summary and details
+ */
+function manifestIntroduction(manifest: LlmsTxtManifest, sourceUrl: string, tokenizer: string): Document | null {
+  const content = [
+    manifest.name ? `# ${manifest.name}` : '',
+    manifest.summary ? `> ${manifest.summary.replace(/\n/g, '\n> ')}` : '',
+    manifest.details ?? '',
+  ].filter(Boolean).join('\n\n')
+
+  if (content.length < 20) {
+    return null
+  }
+
+  return {
+    filename: '01-introduction.md',
+    title: 'Introduction',
+    content,
+    tokens: estimateTokens(content, tokenizer),
+    sourceUrl,
+  }
+}
+
+/**
+ * Fetch the pages linked from an llms.txt index and turn each one into a document
+ * At most `context.maxPages` pages are fetched, `context.concurrency` at a time.
+ * Pages that fail to download or answer with HTML are skipped.
+ *
+ * @param manifest - Parsed llms.txt index (with absolute link URLs)
+ * @param context - Strategy context providing limits, request settings and progress
+ * @param offset - Number of documents already produced, used to continue filename numbering
+ * @returns One document per fetched page, with `sourceUrl` set to the page URL
+ */
+export async function expandManifestLinks(
+  manifest: LlmsTxtManifest,
+  context: StrategyContext,
+  offset = 0
+): Promise<Document[]> {
+  const links = getManifestPageLinks(manifest).slice(0, context.maxPages)
+  if (links.length === 0) {
+    return []
+  }
+
+  context.onProgress?.({
+    status: 'fetching',
+    message: `Fetching ${links.length} linked pages...`,
+    progress: 40,
+    totalSteps: links.length,
+    completedSteps: 0,
+  })
+
+  const pages = links.map(link => ({ url: link.url, name: link.title, description: link.description }))
+  const optionalUrls = new Set(links.filter(link => link.optional).map(link => link.url))
+  const fetched = await fetchAllLinkedLlmsTxt(pages, context, context.concurrency, (completed, total) => {
+    context.onProgress?.({
+      status: 'fetching',
+      message: `Fetched ${completed} of ${total} linked pages`,
+      progress: Math.round(40 + (completed / total) * 40),
+      totalSteps: total,
+      completedSteps: completed,
+    })
+  })
+
+  const documents: Document[] = []
+  for (const page of fetched) {
+    const text = page.content?.trim()
+    if (!text) continue
+
+    // Keep the page's own heading, or add one from the link title
+    const content = text.startsWith('#') ? text : `## ${page.name}\n\n${text}`
+    const number = String(offset + documents.length + 1).padStart(2, '0')
+    documents.push({
+      filename: `${number}-${slugify(page.name).slice(0, 50) || 'page'}.md`,
+      title: page.name,
+      content,
+      tokens: estimateTokens(content, context.tokenizer),
+      sourceUrl: page.url,
+      ...(optionalUrls.has(page.url) && { optional: true }),
+    })
+  }
+
+  return documents
+}
+
+/**
+ * Strategy: read the site's llms-full.txt or llms.txt
+ */
+export const llmsTxtStrategy: ExtractionStrategy = {
+  name: 'llms-txt',
+
+  async extract(context) {
+    context.onProgress?.({
+      status: 'fetching',
+      message: 'Looking for llms.txt...',
+      progress: 15,
+    })
+
+    const located = await locateLlmsTxt(context)
+    if (!located) {
+      return null
+    }
+
+    context.onProgress?.({
+      status: 'fetching',
+      message: `Found ${located.url}`,
+      progress: 30,
+      currentStep: located.url,
+    })
+
+    let documents: Document[] = splitLlmsSections(located.content, { tokenizer: context.tokenizer })
+    const locales = collectLocales([located.url, ...detectLinkedLlmsTxtFiles(located.content, located.url).map(file => file.url)]
+      .map(detectUrlLocale))
+    const linkedSources: LinkedSource[] = []
+    let expanded = false
+
+    // An index without llms-full.txt: fetch the pages it lists
+    if (context.expandLinks && !/-full\.txt$/i.test(located.url)) {
+      const manifest = parseLlmsTxtManifest(located.content, { baseUrl: located.url })
+      const introduction = manifestIntroduction(manifest, located.url, context.tokenizer)
+      const pages = await expandManifestLinks(manifest, context, introduction ? 1 : 0)
+
+      if (pages.length > 0) {
+        documents = introduction ? [introduction, ...pages] : pages
+        expanded = true
+      }
+    }
+
+    if (context.followLinks) {
+      const linkedFiles = await traverseLinkedLlmsTxt(located, context)
+
+      for (const linked of linkedFiles) {
+        const linkedDocuments = splitLlmsSections(linked.content ?? '', {
+          sourceUrl: linked.url,
+          name: linked.name,
+          offset: documents.length,
+          tokenizer: context.tokenizer,
+        })
+        documents.push(...linkedDocuments)
+        linkedSources.push({
+          url: linked.url,
+          name: linked.name,
+          description: linked.description,
+          documentCount: linkedDocuments.length,
+          tokens: estimateTokens(linked.content ?? '', context.tokenizer),
+          parentUrl: linked.parentUrl,
+          depth: linked.depth,
+        })
+      }
+    }
+
+    return {
+      sourceUrl: located.url,
+      rawContent: located.content,
+      documents,
+      linkedSources: linkedSources.length > 0 ? linkedSources : undefined,
+      // A 304 for the main file says nothing about pages or linked files
+      validators: expanded || linkedSources.length > 0 ? undefined : located.validators,
+      // The English files are used when the site has no translated llms.txt
+      locale: servedLocale([located.url, ...linkedSources.map(source => source.url)].map(detectUrlLocale), context.locale),
+      locales,
+    }
+  },
+}
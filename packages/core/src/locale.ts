@@ -0,0 +1,155 @@
+/**
+ * Locale detection for internationalized documentation
+ *
+ * Translated docs are told apart by a language segment in the URL
+ * (/ja/guide, /docs/zh-cn/), a localized llms.txt file name (llms-zh.txt),
+ * sitemap hreflang alternates or the page's lang attribute. Extractions keep
+ * one locale so translations of the same page do not end up side by side.
+ */
+
+/** Locale extracted when none is requested */
+export const DEFAULT_LOCALE = 'en'
+
+/**
+ * Languages recognised in URLs
+ * Two-letter codes that are common path segments for other things
+ * (go, js, ml, ui, ...) are left out on purpose.
+ */
+const URL_LANGUAGES = new Set([
+  'ar', 'bg', 'bn', 'ca', 'cs', 'da', 'de', 'el', 'en', 'es', 'et', 'fa', 'fi', 'fr',
+  'he', 'hi', 'hr', 'hu', 'id', 'it', 'ja', 'ko', 'lt', 'lv', 'nb', 'nl', 'pl', 'pt',
+  'ro', 'ru', 'sk', 'sl', 'sr', 'sv', 'th', 'tr', 'uk', 'vi', 'zh',
+])
+
+/** Language with an optional region or script: ja, pt-br, zh_CN, zh-hans, es-419 */
+const URL_LOCALE = '([a-z]{2}(?:[-_](?:[a-z]{2}|han[st]|\\d{3}))?)'
+const SEGMENT_PATTERN = new RegExp(`^${URL_LOCALE}$`, 'i')
+/** llms-ja.txt, llms-zh-cn-full.txt, llms-full-de.txt */
+const LLMS_FILE_PATTERN = new RegExp(`^llms(?:-full)?[-_.]${URL_LOCALE}(?:-full)?\\.txt$`, 'i')
+const QUERY_PARAMS = ['lang', 'locale', 'hl']
+
+/**
+ * Lowercases a language tag and joins its parts with hyphens
+ *
+ * @returns The normalized tag, or undefined for empty or malformed tags (and x-default)
+ *
+ * @example
+ * normalizeLocale('zh_CN') // 'zh-cn'
+ * normalizeLocale('x-default') // undefined
+ */
+export function normalizeLocale(tag: string | null | undefined): string | undefined {
+  const normalized = tag?.trim().toLowerCase().replace(/_/g, '-')
+  return normalized && /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/.test(normalized) ? normalized : undefined
+}
+
+/**
+ * Whether a locale belongs to the requested one
+ * Languages must match; regions only when both tags have one, so 'en'
+ * matches 'en-us' but 'zh-tw' does not match 'zh-cn'.
+ *
+ * @example
+ * matchesLocale('pt-br', 'pt') // true
+ */
+export function matchesLocale(locale: string, wanted: string): boolean {
+  const [language, region] = locale.split('-')
+  const [wantedLanguage, wantedRegion] = wanted.split('-')
+  return language === wantedLanguage && (!region || !wantedRegion || region === wantedRegion)
+}
+
+/**
+ * Locale named by a URL: a language segment among the first two path
+ * segments, a localized llms.txt file name, or a lang / locale / hl query
+ * parameter
+ *
+ * @returns The normalized locale, or undefined when the URL names none
+ *
+ * @example
+ * detectUrlLocale('https://example.com/ja/docs/intro') // 'ja'
+ * detectUrlLocale('https://example.com/llms-zh-cn.txt') // 'zh-cn'
+ * detectUrlLocale('https://example.com/docs/install') // undefined
+ */
+export function detectUrlLocale(url: string): string | undefined {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return undefined
+  }
+
+  const known = (tag: string | undefined) => {
+    const locale = normalizeLocale(tag)
+    return locale && URL_LANGUAGES.has(locale.split('-')[0]) ? locale : undefined
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean)
+  const filename = segments[segments.length - 1]?.match(LLMS_FILE_PATTERN)
+  const fromFile = filename ? known(filename[1]) : undefined
+  if (fromFile) return fromFile
+
+  for (const segment of segments.slice(0, 2)) {
+    const locale = SEGMENT_PATTERN.test(segment) ? known(segment) : undefined
+    if (locale) return locale
+  }
+
+  for (const param of QUERY_PARAMS) {
+    const locale = known(parsed.searchParams.get(param) ?? undefined)
+    if (locale) return locale
+  }
+
+  return undefined
+}
+
+/**
+ * Keeps the items in the requested locale
+ * Items without a locale count as the site's default language (English).
+ * When no item is in the requested locale, the items without one are kept,
+ * as the site has no translation into it; when every item has a different
+ * locale, all of them are kept rather than returning nothing.
+ *
+ * @param items - Pages, URLs or files to filter
+ * @param localeOf - Normalized locale of an item, or undefined when it has none
+ * @param wanted - Requested locale (default: 'en')
+ */
+export function selectLocale<T>(items: T[], localeOf: (item: T) => string | undefined, wanted = DEFAULT_LOCALE): T[] {
+  const defaultWanted = matchesLocale(DEFAULT_LOCALE, wanted)
+  const locales = items.map(localeOf)
+  const selected = items.filter((_, i) => {
+    const locale = locales[i]
+    return locale ? matchesLocale(locale, wanted) : defaultWanted
+  })
+  if (selected.length > 0) return selected
+
+  const unmarked = items.filter((_, i) => !locales[i])
+  return unmarked.length > 0 ? unmarked : items
+}
+
+/**
+ * Locale a set of extracted items is actually in
+ * selectLocale falls back to untranslated items, so this is the requested
+ * locale only when some of them are in it. Items without a locale count
+ * as the default language.
+ *
+ * @param locales - Normalized locales of the kept items
+ * @param wanted - Requested locale (default: 'en')
+ * @returns The locale, or undefined when there are no items or they are in several other locales
+ *
+ * @example
+ * servedLocale(['ja', undefined], 'ja') // 'ja'
+ * servedLocale([undefined], 'ja') // 'en'
+ */
+export function servedLocale(locales: Array<string | undefined>, wanted = DEFAULT_LOCALE): string | undefined {
+  const served = Array.from(new Set(locales.map(locale => locale ?? DEFAULT_LOCALE)))
+  if (served.length === 1) return served[0]
+  return served.some(locale => matchesLocale(locale, wanted)) ? wanted : undefined
+}
+
+/**
+ * Sorted, unique list of the locales a site offers
+ * Items without a locale count as the default language.
+ *
+ * @returns The locales, or undefined when the site offers nothing but the default language
+ */
+export function collectLocales(locales: Array<string | undefined>): string[] | undefined {
+  const unique = Array.from(new Set(locales.map(locale => locale ?? DEFAULT_LOCALE))).sort()
+  return unique.length === 0 || (unique.length === 1 && unique[0] === DEFAULT_LOCALE) ? undefined : unique
+}
@@ -0,0 +1,146 @@
+/**
+ * @llm-energy/core - llms.txt manifest parser
+ *
+ * Parses llms.txt files following the structure from https://llmstxt.org:
+ * an H1 name, an optional blockquote summary, free-form details, and H2
+ * sections containing file lists of `- [title](url): description` entries.
+ * Links in the `## Optional` section are flagged so callers can skip them.
+ */
+
+import type { LlmsTxtLink, LlmsTxtManifest, LlmsTxtSection } from './types'
+
+/**
+ * Options for parsing an llms.txt manifest
+ */
+export interface ParseManifestOptions {
+  /** URL of the llms.txt file; relative link URLs are resolved against it */
+  baseUrl?: string
+}
+
+/**
+ * Matches a list item whose content starts with a markdown link:
+ * `- [title](url)`, `- [title](url "tooltip"): description`, `* [title](url) - description`
+ */
+const LINK_ENTRY_PATTERN = /^\s*[-*+]\s+\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)\s*(?:[:\-–—]\s*(.*))?$/
+
+/**
+ * Whether a section title marks the spec's `## Optional` section
+ */
+export function isOptionalSection(title: string): boolean {
+  return title.trim().toLowerCase() === 'optional'
+}
+
+/**
+ * Resolves a link URL against the manifest URL when possible
+ */
+function resolveUrl(url: string, baseUrl?: string): string {
+  if (!baseUrl) return url
+  try {
+    return new URL(url, baseUrl).toString()
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Joins collected lines into trimmed text, or undefined when empty
+ */
+function joinText(lines: string[]): string | undefined {
+  const text = lines.join('\n').trim()
+  return text || undefined
+}
+
+/**
+ * Parses llms.txt content into a typed manifest
+ * Headings and links inside fenced code blocks are treated as plain text.
+ *
+ * @param content - Raw llms.txt content
+ * @param options - Base URL for resolving relative links
+ * @returns The manifest with name, summary, details, sections and all links
+ *
+ * @example
+ * const manifest = parseLlmsTxtManifest(content, { baseUrl: 'https://example.com/llms.txt' })
+ * manifest.links.filter(link => !link.optional).map(link => link.url)
+ */
+export function parseLlmsTxtManifest(content: string, options: ParseManifestOptions = {}): LlmsTxtManifest {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n')
+  const manifest: LlmsTxtManifest = { sections: [], links: [] }
+
+  const summaryLines: string[] = []
+  const detailLines: string[] = []
+  let noteLines: string[] = []
+  let currentSection: LlmsTxtSection | null = null
+  let inCodeBlock = false
+  // Whether the next lines may still belong to the blockquote summary
+  let readingSummary = false
+
+  const finishSection = () => {
+    if (!currentSection) return
+    currentSection.notes = joinText(noteLines)
+    manifest.sections.push(currentSection)
+    noteLines = []
+  }
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock
+    }
+
+    if (!inCodeBlock) {
+      const h1 = line.match(/^#\s+(.+?)\s*#*\s*$/)
+      if (h1 && manifest.name === undefined && !currentSection) {
+        manifest.name = h1[1]
+        readingSummary = true
+        continue
+      }
+
+      const h2 = line.match(/^##\s+(.+?)\s*#*\s*$/)
+      if (h2) {
+        finishSection()
+        readingSummary = false
+        currentSection = {
+          title: h2[1],
+          optional: isOptionalSection(h2[1]),
+          links: [],
+        }
+        continue
+      }
+    }
+
+    if (!currentSection) {
+      const quote = line.match(/^>\s?(.*)$/)
+      if (readingSummary && quote && !inCodeBlock) {
+        summaryLines.push(quote[1])
+        continue
+      }
+      // Blank lines before the blockquote do not end the summary
+      if (readingSummary && !line.trim() && summaryLines.length === 0) {
+        continue
+      }
+      readingSummary = false
+      detailLines.push(line)
+      continue
+    }
+
+    const entry = inCodeBlock ? null : line.match(LINK_ENTRY_PATTERN)
+    if (entry) {
+      const link: LlmsTxtLink = {
+        title: entry[1].trim(),
+        url: resolveUrl(entry[2], options.baseUrl),
+        description: entry[3]?.trim() || undefined,
+        section: currentSection.title,
+        optional: currentSection.optional,
+      }
+      currentSection.links.push(link)
+      manifest.links.push(link)
+    } else {
+      noteLines.push(line)
+    }
+  }
+
+  finishSection()
+  manifest.summary = joinText(summaryLines)
+  manifest.details = joinText(detailLines)
+
+  return manifest
+}
@@ -0,0 +1,782 @@
+/**
+ * OpenAPI Converter - Turns OpenAPI 3 and Swagger 2 specs into markdown docs
+ *
+ * Specs are read as JSON or YAML. Swagger 2 operations are first brought into
+ * the OpenAPI 3 shape (request bodies, response content), so both versions
+ * render the same way: an overview with servers and auth schemes, one section
+ * per tag (or per path group for untagged operations) and a schema reference.
+ * Parameters become tables; request and response schemas become
+ * TypeScript-like types with an example payload.
+ */
+
+import yaml from 'js-yaml';
+import { DEFAULT_USER_AGENT } from './extractor';
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  title?: string;
+  description?: string;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  items?: OpenApiSchema;
+  enum?: unknown[];
+  const?: unknown;
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  allOf?: OpenApiSchema[];
+  nullable?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  deprecated?: boolean;
+  default?: unknown;
+  example?: unknown;
+  examples?: unknown;
+}
+
+export interface OpenApiSecurityScheme {
+  $ref?: string;
+  type?: string;
+  description?: string;
+  /** apiKey: parameter name and location */
+  name?: string;
+  in?: string;
+  /** http: auth scheme such as bearer or basic */
+  scheme?: string;
+  bearerFormat?: string;
+  /** OpenAPI 3 OAuth flows */
+  flows?: Record<string, OAuthFlow>;
+  /** Swagger 2 OAuth flow */
+  flow?: string;
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  scopes?: Record<string, string>;
+  openIdConnectUrl?: string;
+}
+
+interface OAuthFlow {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  scopes?: Record<string, string>;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+interface ParameterObject {
+  $ref?: string;
+  name: string;
+  in: string;
+  description?: string;
+  required?: boolean;
+  deprecated?: boolean;
+  /** OpenAPI 3 */
+  schema?: OpenApiSchema;
+  /** Swagger 2 keeps the schema keywords on the parameter itself */
+  type?: string;
+  format?: string;
+  items?: OpenApiSchema;
+  enum?: unknown[];
+}
+
+interface MediaTypeObject {
+  schema?: OpenApiSchema;
+  example?: unknown;
+  examples?: Record<string, { value?: unknown; $ref?: string }>;
+}
+
+interface RequestBodyObject {
+  $ref?: string;
+  description?: string;
+  required?: boolean;
+  content?: Record<string, MediaTypeObject>;
+}
+
+interface ResponseObject {
+  $ref?: string;
+  description?: string;
+  content?: Record<string, MediaTypeObject>;
+  /** Swagger 2 */
+  schema?: OpenApiSchema;
+  examples?: Record<string, unknown>;
+}
+
+interface OperationObject {
+  tags?: string[];
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  deprecated?: boolean;
+  parameters?: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  responses?: Record<string, ResponseObject>;
+  security?: SecurityRequirement[];
+  consumes?: string[];
+  produces?: string[];
+}
+
+export interface OpenApiSpec {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string; version?: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  produces?: string[];
+  tags?: Array<{ name: string; description?: string }>;
+  paths?: Record<string, Record<string, unknown>>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    securitySchemes?: Record<string, OpenApiSecurityScheme>;
+  };
+  definitions?: Record<string, OpenApiSchema>;
+  securityDefinitions?: Record<string, OpenApiSecurityScheme>;
+  security?: SecurityRequirement[];
+}
+
+/**
+ * One markdown section of a converted spec
+ */
+export interface OpenApiSection {
+  title: string;
+  content: string;
+}
+
+export interface FetchOpenApiSpecOptions {
+  userAgent?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Well-known spec locations, relative to a site or API origin
+ */
+export const OPENAPI_SPEC_PATHS = [
+  '/openapi.json',
+  '/openapi.yaml',
+  '/swagger.json',
+  '/swagger.yaml',
+  '/api/openapi.json',
+  '/api/swagger.json',
+  '/v1/openapi.json',
+  '/v2/openapi.json',
+  '/v3/openapi.json',
+  '/api-docs',
+  '/api-docs/swagger.json',
+];
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Nesting depth after which inline schemas are shown as `object`
+ */
+const MAX_TYPE_DEPTH = 6;
+
+/**
+ * Check whether a URL points at a spec file rather than a docs page
+ */
+export function isOpenApiSpecUrl(url: string): boolean {
+  try {
+    const fileName = new URL(url).pathname.split('/').pop() ?? '';
+    return fileName === 'api-docs'
+      || (/\.(json|ya?ml)$/i.test(fileName) && /openapi|swagger|api-docs/i.test(url));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a spec from JSON or YAML text
+ * Throws when the text is not an OpenAPI 3 or Swagger 2 document.
+ */
+export function parseOpenApiSpec(text: string): OpenApiSpec {
+  let parsed: unknown;
+  try {
+    parsed = text.trimStart().startsWith('{') ? JSON.parse(text) : yaml.load(text);
+  } catch (error) {
+    throw new Error(`Invalid OpenAPI document: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const spec = parsed as OpenApiSpec | null;
+  const isOpenApi = typeof spec?.openapi === 'string' && spec.openapi.startsWith('3');
+  const isSwagger = String(spec?.swagger ?? '').startsWith('2');
+  if (!spec || typeof spec !== 'object' || (!isOpenApi && !isSwagger)) {
+    throw new Error('Not an OpenAPI 3 or Swagger 2 document');
+  }
+  return spec;
+}
+
+/**
+ * Fetch and parse a spec; null when the URL does not serve one
+ */
+export async function fetchOpenApiSpec(
+  url: string,
+  options: FetchOpenApiSpecOptions = {}
+): Promise<OpenApiSpec | null> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: {
+        'User-Agent': options.userAgent ?? DEFAULT_USER_AGENT,
+        'Accept': 'application/json, application/yaml, text/yaml;q=0.9, */*;q=0.5',
+      },
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    return null;
+  }
+
+  if (!response.ok || (response.headers.get('content-type') ?? '').includes('text/html')) {
+    return null;
+  }
+
+  try {
+    return parseOpenApiSpec(await response.text());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follow a local $ref (#/...) to the object it points at
+ */
+function resolveRef<T extends { $ref?: string }>(spec: OpenApiSpec, value: T | undefined): T | undefined {
+  let current = value;
+  for (let hops = 0; current?.$ref && hops < 10; hops++) {
+    const ref: string = current.$ref;
+    if (!ref.startsWith('#/')) return current;
+
+    let target: unknown = spec;
+    for (const segment of ref.slice(2).split('/')) {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      target = target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+    }
+    current = target as T | undefined;
+  }
+  return current;
+}
+
+/**
+ * Name of a referenced schema, e.g. 'User' for #/components/schemas/User
+ */
+function refName(ref: string): string {
+  return ref.split('/').pop()?.replace(/~1/g, '/').replace(/~0/g, '~') ?? ref;
+}
+
+/**
+ * First line of a description, for table cells and type comments
+ */
+function summarize(text: string | undefined): string {
+  return (text ?? '').trim().split(/\n\s*\n/)[0].replace(/\s+/g, ' ');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function markdownTable(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+/**
+ * Parenthesise a union or intersection before appending []
+ */
+function wrapType(type: string): string {
+  return !type.startsWith('{') && /[|&]/.test(type) ? `(${type})` : type;
+}
+
+/**
+ * Render a schema as a TypeScript-like type
+ * Referenced schemas are shown by name; they are defined in the Schemas section.
+ */
+export function schemaToType(schema: OpenApiSchema | undefined, indent = '', depth = 0): string {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return refName(schema.$ref);
+
+  const type = baseType(schema, indent, depth);
+  return schema.nullable && type !== 'null' ? `${type} | null` : type;
+}
+
+function baseType(schema: OpenApiSchema, indent: string, depth: number): string {
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum?.length) return schema.enum.map(literal).join(' | ');
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants?.length) return variants.map(variant => wrapType(schemaToType(variant, indent, depth))).join(' | ');
+  if (schema.allOf?.length) return schema.allOf.map(part => wrapType(schemaToType(part, indent, depth))).join(' & ');
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => schemaToType({ ...schema, type, nullable: false }, indent, depth)).join(' | ');
+  }
+
+  switch (schema.type ?? (schema.properties || schema.additionalProperties ? 'object' : schema.items ? 'array' : undefined)) {
+    case 'array':
+      return `${wrapType(schemaToType(schema.items, indent, depth + 1))}[]`;
+    case 'object':
+      return objectType(schema, indent, depth);
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'string':
+      return 'string';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'file':
+      return 'Blob';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Doc comment for a property: description plus format, default and flags
+ */
+function propertyComment(schema: OpenApiSchema): string {
+  const notes = [
+    summarize(schema.description),
+    schema.format ? `format: ${schema.format}` : '',
+    schema.default !== undefined ? `default: ${JSON.stringify(schema.default)}` : '',
+    schema.deprecated ? 'deprecated' : '',
+  ].filter(Boolean);
+  return notes.length > 0 ? `/** ${notes.join('; ').replace(/\*\//g, '*\\/')} */` : '';
+}
+
+function objectType(schema: OpenApiSchema, indent: string, depth: number): string {
+  const properties = Object.entries(schema.properties ?? {});
+  const extra = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    if (extra && typeof extra === 'object') return `Record<string, ${schemaToType(extra, indent, depth + 1)}>`;
+    return extra ? 'Record<string, unknown>' : 'object';
+  }
+  if (depth >= MAX_TYPE_DEPTH) return 'object';
+
+  const inner = `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const lines: string[] = [];
+
+  for (const [name, property] of properties) {
+    const comment = property.$ref ? '' : propertyComment(property);
+    if (comment) lines.push(`${inner}${comment}`);
+    const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+    const modifier = property.readOnly ? 'readonly ' : '';
+    lines.push(`${inner}${modifier}${key}${required.has(name) ? '' : '?'}: ${schemaToType(property, inner, depth + 1)}`);
+  }
+  if (extra) {
+    lines.push(`${inner}[key: string]: ${typeof extra === 'object' ? schemaToType(extra, inner, depth + 1) : 'unknown'}`);
+  }
+
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Example value for a schema: declared examples and defaults first, then
+ * placeholders by type and format. Request examples leave out readOnly
+ * properties, response examples writeOnly ones.
+ */
+export function exampleFromSchema(
+  spec: OpenApiSpec,
+  schema: OpenApiSchema | undefined,
+  direction: 'request' | 'response' = 'response',
+  seen: Set<string> = new Set(),
+  depth = 0
+): unknown {
+  if (!schema || depth > MAX_TYPE_DEPTH) return undefined;
+
+  if (schema.$ref) {
+    if (seen.has(schema.$ref)) return undefined;
+    return exampleFromSchema(spec, resolveRef(spec, schema), direction, new Set([...seen, schema.$ref]), depth);
+  }
+
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants?.length) return exampleFromSchema(spec, variants[0], direction, seen, depth);
+  if (schema.allOf?.length) {
+    const parts = schema.allOf.map(part => exampleFromSchema(spec, part, direction, seen, depth));
+    return parts.every(part => part && typeof part === 'object' && !Array.isArray(part))
+      ? Object.assign({}, ...parts)
+      : parts.find(part => part !== undefined);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find(candidate => candidate !== 'null') : schema.type;
+  switch (type ?? (schema.properties || schema.additionalProperties ? 'object' : schema.items ? 'array' : undefined)) {
+    case 'object': {
+      const example: Record<string, unknown> = {};
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        const resolved = resolveRef(spec, property);
+        if (direction === 'request' ? resolved?.readOnly : resolved?.writeOnly) continue;
+        const value = exampleFromSchema(spec, property, direction, seen, depth + 1);
+        if (value !== undefined) example[name] = value;
+      }
+      if (Object.keys(example).length === 0 && typeof schema.additionalProperties === 'object') {
+        const value = exampleFromSchema(spec, schema.additionalProperties, direction, seen, depth + 1);
+        if (value !== undefined) example.key = value;
+      }
+      return example;
+    }
+    case 'array': {
+      const item = exampleFromSchema(spec, schema.items, direction, seen, depth + 1);
+      return item === undefined ? [] : [item];
+    }
+    case 'string':
+      return stringExample(schema.format);
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return undefined;
+  }
+}
+
+function stringExample(format: string | undefined): string {
+  switch (format) {
+    case 'date-time':
+      return '2024-01-01T00:00:00Z';
+    case 'date':
+      return '2024-01-01';
+    case 'email':
+      return 'user@example.com';
+    case 'uuid':
+      return '3fa85f64-5717-4562-b3fc-2c963f66afa6';
+    case 'uri':
+    case 'url':
+      return 'https://example.com';
+    default:
+      return 'string';
+  }
+}
+
+/**
+ * Example of a media type: its own example, its first named example, or one built from the schema
+ */
+function mediaExample(spec: OpenApiSpec, media: MediaTypeObject, direction: 'request' | 'response'): unknown {
+  if (media.example !== undefined) return media.example;
+
+  const [first] = Object.values(media.examples ?? {});
+  const named = resolveRef(spec, first);
+  if (named?.value !== undefined) return named.value;
+
+  return exampleFromSchema(spec, media.schema, direction);
+}
+
+/**
+ * Pick the media type to document: JSON when offered, otherwise the first
+ */
+function preferredMediaType(content: Record<string, MediaTypeObject>): string | undefined {
+  const types = Object.keys(content);
+  return types.find(type => /json/i.test(type)) ?? types[0];
+}
+
+/**
+ * Type and example of a request or response body
+ */
+function renderBody(
+  spec: OpenApiSpec,
+  content: Record<string, MediaTypeObject> | undefined,
+  direction: 'request' | 'response'
+): string {
+  const mediaType = content && preferredMediaType(content);
+  if (!content || !mediaType) return '';
+
+  const media = content[mediaType];
+  const parts = [`Content type: ${Object.keys(content).map(type => `\`${type}\``).join(', ')}`];
+  if (media.schema) parts.push(`\`\`\`ts\n${schemaToType(media.schema)}\n\`\`\``);
+
+  const example = mediaExample(spec, media, direction);
+  if (example !== undefined) {
+    const text = typeof example === 'string' && !/json/i.test(mediaType) ? example : JSON.stringify(example, null, 2);
+    parts.push(`Example:\n\n\`\`\`${/json/i.test(mediaType) ? 'json' : ''}\n${text}\n\`\`\``);
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Describe a security requirement list, e.g. "`oauth` (read, write) or `apiKey`"
+ */
+function describeSecurity(requirements: SecurityRequirement[] | undefined): string | undefined {
+  if (!requirements) return undefined;
+  if (requirements.length === 0 || requirements.some(requirement => Object.keys(requirement).length === 0)) {
+    return 'None';
+  }
+
+  return requirements
+    .map(requirement => Object.entries(requirement)
+      .map(([name, scopes]) => (scopes.length > 0 ? `\`${name}\` (${scopes.join(', ')})` : `\`${name}\``))
+      .join(' and '))
+    .join(' or ');
+}
+
+function describeSecurityScheme(scheme: OpenApiSecurityScheme): [string, string] {
+  switch (scheme.type) {
+    case 'apiKey':
+      return ['API key', `${scheme.in ?? 'header'} parameter \`${scheme.name ?? ''}\``];
+    case 'http':
+      return [
+        `HTTP ${scheme.scheme ?? ''}`.trim(),
+        scheme.bearerFormat ? `Bearer format: ${scheme.bearerFormat}` : `\`Authorization: ${scheme.scheme === 'basic' ? 'Basic' : 'Bearer'} ...\``,
+      ];
+    case 'basic':
+      return ['HTTP basic', '`Authorization: Basic ...`'];
+    case 'oauth2': {
+      const flows = scheme.flows
+        ?? { [scheme.flow ?? 'oauth2']: { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes: scheme.scopes } };
+      const details = Object.entries(flows).map(([name, flow]) => {
+        const urls = [
+          flow.authorizationUrl ? `authorize at ${flow.authorizationUrl}` : '',
+          flow.tokenUrl ? `token at ${flow.tokenUrl}` : '',
+        ].filter(Boolean).join(', ');
+        const scopes = Object.keys(flow.scopes ?? {});
+        return `${name}${urls ? `: ${urls}` : ''}${scopes.length > 0 ? `; scopes ${scopes.map(scope => `\`${scope}\``).join(', ')}` : ''}`;
+      });
+      return ['OAuth 2.0', details.join('<br>')];
+    }
+    case 'openIdConnect':
+      return ['OpenID Connect', scheme.openIdConnectUrl ?? ''];
+    default:
+      return [scheme.type ?? 'unknown', ''];
+  }
+}
+
+/**
+ * An operation with Swagger 2 differences smoothed out
+ */
+interface NormalizedOperation {
+  method: string;
+  path: string;
+  operation: OperationObject;
+  parameters: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  responses: Array<[string, ResponseObject]>;
+}
+
+/**
+ * Merge path-level and operation-level parameters and, for Swagger 2, turn
+ * body and formData parameters into a request body and response schemas into
+ * response content
+ */
+function normalizeOperation(
+  spec: OpenApiSpec,
+  path: string,
+  method: string,
+  operation: OperationObject,
+  pathParameters: ParameterObject[]
+): NormalizedOperation {
+  const merged = new Map<string, ParameterObject>();
+  for (const parameter of [...pathParameters, ...(operation.parameters ?? [])]) {
+    const resolved = resolveRef(spec, parameter);
+    if (resolved) merged.set(`${resolved.in}:${resolved.name}`, resolved);
+  }
+  let parameters = Array.from(merged.values());
+  let requestBody = resolveRef(spec, operation.requestBody);
+
+  if (spec.swagger) {
+    const consumes = operation.consumes ?? spec.consumes ?? ['application/json'];
+    const body = parameters.find(parameter => parameter.in === 'body');
+    const form = parameters.filter(parameter => parameter.in === 'formData');
+
+    if (body) {
+      requestBody = {
+        description: body.description,
+        required: body.required,
+        content: { [consumes[0]]: { schema: body.schema } },
+      };
+    } else if (form.length > 0) {
+      const mediaType = consumes.find(type => type.includes('form')) ?? 'application/x-www-form-urlencoded';
+      requestBody = {
+        content: {
+          [mediaType]: {
+            schema: {
+              type: 'object',
+              properties: Object.fromEntries(form.map(parameter => [
+                parameter.name,
+                { type: parameter.type, format: parameter.format, items: parameter.items, enum: parameter.enum, description: parameter.description },
+              ])),
+              required: form.filter(parameter => parameter.required).map(parameter => parameter.name),
+            },
+          },
+        },
+      };
+    }
+    parameters = parameters.filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData');
+  }
+
+  const produces = operation.produces ?? spec.produces ?? ['application/json'];
+  const responses = Object.entries(operation.responses ?? {}).map(([status, value]): [string, ResponseObject] => {
+    const response = resolveRef(spec, value) ?? {};
+    if (spec.swagger && response.schema) {
+      const mediaType = produces[0];
+      return [status, {
+        description: response.description,
+        content: { [mediaType]: { schema: response.schema, example: response.examples?.[mediaType] } },
+      }];
+    }
+    return [status, response];
+  });
+
+  return { method, path, operation, parameters, requestBody, responses };
+}
+
+function renderOperation(spec: OpenApiSpec, { method, path, operation, parameters, requestBody, responses }: NormalizedOperation): string {
+  const endpoint = `${method.toUpperCase()} ${path}`;
+  const title = operation.summary?.trim() || operation.operationId || endpoint;
+  const parts = [`### ${title}`];
+
+  if (title !== endpoint) parts.push(`\`${endpoint}\``);
+  if (operation.deprecated) parts.push('> **Deprecated**');
+  if (operation.description?.trim() && operation.description.trim() !== title) parts.push(operation.description.trim());
+
+  const auth = describeSecurity(operation.security ?? spec.security);
+  if (auth) parts.push(`**Auth:** ${auth}`);
+
+  if (parameters.length > 0) {
+    parts.push('#### Parameters', markdownTable(
+      ['Name', 'In', 'Type', 'Required', 'Description'],
+      parameters.map(parameter => [
+        `\`${parameter.name}\``,
+        parameter.in,
+        `\`${schemaToType(parameter.schema ?? (parameter as OpenApiSchema)).replace(/\s+/g, ' ')}\``,
+        parameter.required || parameter.in === 'path' ? 'Yes' : 'No',
+        [summarize(parameter.description), parameter.deprecated ? '(deprecated)' : ''].filter(Boolean).join(' '),
+      ])
+    ));
+  }
+
+  if (requestBody) {
+    const body = renderBody(spec, requestBody.content, 'request');
+    const notes = [summarize(requestBody.description), requestBody.required ? 'Required.' : ''].filter(Boolean).join(' ');
+    if (body || notes) parts.push('#### Request body', ...[notes, body].filter(Boolean));
+  }
+
+  if (responses.length > 0) {
+    parts.push('#### Responses', markdownTable(
+      ['Status', 'Description'],
+      responses.map(([status, response]) => [status, summarize(response.description)])
+    ));
+    for (const [status, response] of responses) {
+      const body = renderBody(spec, response.content, 'response');
+      if (body) parts.push(`**${status}**`, body);
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Operations of a spec in path order
+ */
+function collectOperations(spec: OpenApiSpec): NormalizedOperation[] {
+  const operations: NormalizedOperation[] = [];
+
+  for (const [path, pathItem] of Object.entries(spec.paths ?? {})) {
+    const pathParameters = (pathItem.parameters as ParameterObject[] | undefined) ?? [];
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method] as OperationObject | undefined;
+      if (operation && typeof operation === 'object') {
+        operations.push(normalizeOperation(spec, path, method, operation, pathParameters));
+      }
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Group name of an untagged operation: its first static path segment
+ */
+function pathGroup(path: string): string {
+  const segment = path.split('/').find(part => part && !part.startsWith('{'));
+  return segment ? `/${segment}` : '/';
+}
+
+function renderOverview(spec: OpenApiSpec): string {
+  const parts: string[] = [];
+  if (spec.info?.description?.trim()) parts.push(spec.info.description.trim());
+  if (spec.info?.version) parts.push(`**Version:** ${spec.info.version}`);
+
+  const servers = spec.servers?.map(server => `- \`${server.url}\`${server.description ? ` - ${server.description}` : ''}`)
+    ?? (spec.host ? (spec.schemes ?? ['https']).map(scheme => `- \`${scheme}://${spec.host}${spec.basePath ?? ''}\``) : []);
+  if (servers.length > 0) parts.push('### Servers', servers.join('\n'));
+
+  const schemes = Object.entries(spec.components?.securitySchemes ?? spec.securityDefinitions ?? {});
+  if (schemes.length > 0) {
+    parts.push('### Authentication', markdownTable(
+      ['Scheme', 'Type', 'Details'],
+      schemes.map(([name, value]) => {
+        const scheme = resolveRef(spec, value) ?? {};
+        const [type, details] = describeSecurityScheme(scheme);
+        return [`\`${name}\``, type, [details, summarize(scheme.description)].filter(Boolean).join(' - ')];
+      })
+    ));
+    const auth = describeSecurity(spec.security);
+    if (auth && auth !== 'None') parts.push(`Requests need ${auth} unless an operation says otherwise.`);
+  }
+
+  return parts.join('\n\n');
+}
+
+function renderSchemas(spec: OpenApiSpec): string {
+  return Object.entries(spec.components?.schemas ?? spec.definitions ?? {})
+    .map(([name, schema]) => {
+      const type = schemaToType(schema);
+      const declaration = type.startsWith('{') ? `interface ${name} ${type}` : `type ${name} = ${type}`;
+      const description = schema.description?.trim();
+      return [`### ${name}`, ...(description ? [description] : []), `\`\`\`ts\n${declaration}\n\`\`\``].join('\n\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Convert a spec into markdown sections
+ * The overview comes first, then one section per tag in the spec's tag order
+ * (untagged operations are grouped by path), then the schema reference.
+ */
+export function openApiToMarkdown(spec: OpenApiSpec): OpenApiSection[] {
+  const groups = new Map<string, NormalizedOperation[]>();
+  for (const tag of spec.tags ?? []) groups.set(tag.name, []);
+
+  for (const operation of collectOperations(spec)) {
+    const group = operation.operation.tags?.[0] ?? pathGroup(operation.path);
+    groups.set(group, [...(groups.get(group) ?? []), operation]);
+  }
+
+  const sections: OpenApiSection[] = [];
+  const overview = renderOverview(spec);
+  if (overview) sections.push({ title: spec.info?.title?.trim() || 'API Overview', content: overview });
+
+  for (const [name, operations] of Array.from(groups.entries())) {
+    if (operations.length === 0) continue;
+    const description = spec.tags?.find(tag => tag.name === name)?.description?.trim();
+    sections.push({
+      title: name,
+      content: [...(description ? [description] : []), ...operations.map(operation => renderOperation(spec, operation))].join('\n\n'),
+    });
+  }
+
+  const schemas = renderSchemas(spec);
+  if (schemas) sections.push({ title: 'Schemas', content: schemas });
+
+  return sections;
+}
@@ -0,0 +1,150 @@
+/**
+ * Page Fetcher - Markdown-first page downloads
+ *
+ * Docs platforms such as Mintlify and GitBook serve a page's markdown source
+ * next to its HTML, either in reply to `Accept: text/markdown` or at the page
+ * URL with `.md` appended. That markdown is what the HTML was rendered from,
+ * so it is preferred over converting the HTML back. Which of the two an origin
+ * supports (or that it supports neither) is remembered, so later pages of the
+ * same site go straight to the format that works.
+ */
+
+import { DEFAULT_USER_AGENT } from './extractor';
+import { getPageFormatCache } from './cache';
+import { httpError } from './crawler';
+import { getRobotsPolicy, getRobotsTxt, isAllowedByRobots } from './robots';
+
+/**
+ * How a page's content was obtained
+ * - `accept-markdown`: markdown returned for `Accept: text/markdown`
+ * - `md-suffix`: markdown served at the page URL plus `.md`
+ * - `html`: the HTML page, converted to markdown
+ */
+export type PageFormat = 'accept-markdown' | 'md-suffix' | 'html';
+
+export interface FetchedPage {
+  format: PageFormat;
+  body: string;
+  /** URL the body was read from (the .md URL for `md-suffix`) */
+  url: string;
+}
+
+export interface FetchPageOptions {
+  userAgent?: string;
+  /** Aborts the request */
+  signal?: AbortSignal;
+  /** Try the markdown representations before HTML (default: true) */
+  markdownFirst?: boolean;
+  /** Check the .md variant against robots.txt before probing it (default: true) */
+  respectRobots?: boolean;
+}
+
+const MARKDOWN_FIRST_ACCEPT = 'text/markdown, text/x-markdown;q=0.95, text/html;q=0.9, application/xhtml+xml;q=0.9, */*;q=0.8';
+const HTML_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8';
+const MARKDOWN_ACCEPT = 'text/markdown, text/x-markdown;q=0.95, text/plain;q=0.9, */*;q=0.1';
+
+/**
+ * The .md variant of a page URL, e.g. /docs/intro -> /docs/intro.md
+ * Null for the site root and for URLs that already name a file (.html, .md).
+ */
+export function getMarkdownUrl(url: string): string | null {
+  const parsed = new URL(url);
+  const path = parsed.pathname.replace(/\/+$/, '');
+  const fileName = path.split('/').pop() ?? '';
+  if (!fileName || /\.[a-z0-9]{1,5}$/i.test(fileName)) return null;
+
+  parsed.pathname = `${path}.md`;
+  parsed.hash = '';
+  return parsed.href;
+}
+
+/**
+ * Whether a response body is markdown rather than an HTML page
+ * Plain text counts only for the .md URL, where nothing else is expected.
+ */
+function isMarkdownResponse(response: Response, body: string, allowPlainText: boolean): boolean {
+  const type = (response.headers.get('content-type') ?? '').toLowerCase();
+  if (!body.trim() || /^\s*<(!doctype|html|head|body)\b/i.test(body)) return false;
+  return /^text\/(x-)?markdown\b/.test(type) || (allowPlainText && type.startsWith('text/plain'));
+}
+
+/**
+ * Whether the origin's cached robots.txt lets the user agent fetch a URL
+ * An unavailable robots.txt allows nothing, as in the crawler.
+ */
+async function isAllowedUrl(url: string, userAgent: string): Promise<boolean> {
+  const robots = await getRobotsTxt(new URL(url).origin, userAgent);
+  return robots !== null && isAllowedByRobots(getRobotsPolicy(robots, userAgent), url);
+}
+
+/**
+ * Fetch the .md variant of a page
+ * Returns null when the site has none and undefined when the answer says
+ * nothing about the site (rate limits, server and network errors) or
+ * robots.txt disallows the .md URL, which is a different path than the page.
+ */
+async function fetchMarkdownVariant(
+  url: string,
+  userAgent: string,
+  signal: AbortSignal | undefined,
+  respectRobots: boolean
+): Promise<FetchedPage | null | undefined> {
+  const markdownUrl = getMarkdownUrl(url);
+  if (!markdownUrl) return undefined;
+  if (respectRobots && !(await isAllowedUrl(markdownUrl, userAgent))) return undefined;
+
+  try {
+    const response = await fetch(markdownUrl, {
+      headers: { 'User-Agent': userAgent, 'Accept': MARKDOWN_ACCEPT },
+      signal,
+    });
+    if (response.status === 429 || response.status >= 500) return undefined;
+    if (!response.ok) return null;
+
+    const body = await response.text();
+    return isMarkdownResponse(response, body, true) ? { format: 'md-suffix', body, url: markdownUrl } : null;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return undefined;
+  }
+}
+
+/**
+ * Fetch a page, preferring its markdown source
+ * Origins that answered with markdown before are asked the same way first;
+ * origins that did not are fetched as HTML straight away. Throws a CrawlError
+ * for a non-2xx response from the page itself.
+ */
+export async function fetchPage(url: string, options: FetchPageOptions = {}): Promise<FetchedPage> {
+  const { userAgent = DEFAULT_USER_AGENT, signal, markdownFirst = true, respectRobots = true } = options;
+  const origin = new URL(url).origin;
+  const cache = getPageFormatCache<PageFormat>();
+  const known = markdownFirst ? cache.get(origin) : 'html';
+
+  if (known === 'md-suffix') {
+    const page = await fetchMarkdownVariant(url, userAgent, signal, respectRobots);
+    if (page) return page;
+  }
+
+  const response = await fetch(url, {
+    headers: { 'User-Agent': userAgent, 'Accept': known === 'html' ? HTML_ACCEPT : MARKDOWN_FIRST_ACCEPT },
+    signal,
+  });
+  if (!response.ok) {
+    throw httpError(url, response);
+  }
+
+  const body = await response.text();
+  if (known !== 'html' && isMarkdownResponse(response, body, false)) {
+    cache.set(origin, 'accept-markdown');
+    return { format: 'accept-markdown', body, url };
+  }
+
+  if (known === null) {
+    const page = await fetchMarkdownVariant(url, userAgent, signal, respectRobots);
+    if (page !== undefined) cache.set(origin, page ? 'md-suffix' : 'html');
+    if (page) return page;
+  }
+
+  return { format: 'html', body, url };
+}
@@ -5,6 +5,7 @@
  */
 
 import type { Document, ParsedSection } from './types'
+import { countTokens } from './tokenizer'
 
 /**
  * Converts a title string to a URL-friendly filename
@@ -24,14 +25,14 @@ export function slugify(text: string): string {
 }
 
 /**
- * Estimates token count from text (rough approximation: ~4 chars per token)
- * This provides a reasonable estimate for most LLM tokenizers
+ * Counts tokens in text with the shared tokenizer
  * 
- * @param text - The text to estimate tokens for
- * @returns Estimated token count
+ * @param text - The text to count tokens for
+ * @param tokenizer - Vocabulary or model name, e.g. 'o200k' or 'claude-sonnet-4' (default: cl100k)
+ * @returns Token count
  */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4)
+export function estimateTokens(text: string, tokenizer?: string): number {
+  return countTokens(text, tokenizer)
 }
 
 /**
@@ -175,3 +176,69 @@ export function parseLlmsContent(content: string): Document[] {
   const sections = parseMarkdownSections(content)
   return sectionsToDocuments(sections)
 }
+
+/**
+ * Options for splitting llms.txt content into top-level sections
+ */
+export interface SplitSectionsOptions {
+  /** Source URL recorded on every produced document */
+  sourceUrl?: string
+  /** Name of the source; used as title prefix and for the leading section */
+  name?: string
+  /** Number of documents already produced, used to continue filename numbering */
+  offset?: number
+  /** Vocabulary or model name used for token counts */
+  tokenizer?: string
+}
+
+/**
+ * Splits llms.txt content into documents at each `## ` heading
+ * Content before the first `## ` heading becomes an "Introduction" document
+ * (or the source name when one is given). Fragments shorter than 20
+ * characters are skipped. Filenames are numbered ("01-introduction.md").
+ *
+ * @param content - Raw llms.txt or llms-full.txt content
+ * @param options - Source URL, name prefix, and numbering offset
+ * @returns Array of Document objects
+ */
+export function splitLlmsSections(content: string, options: SplitSectionsOptions = {}): Document[] {
+  const { sourceUrl, name, offset = 0, tokenizer } = options
+  const sections = content.split(/^## /m)
+  const documents: Document[] = []
+  const slugPrefix = name ? `${slugify(name)}-` : ''
+
+  for (let i = 0; i < sections.length; i++) {
+    const section = sections[i].trim()
+    if (!section || section.length < 20) continue
+
+    const lines = section.split('\n')
+    const heading = lines[0].trim() || `Section ${i}`
+    const sectionTitle = i === 0 ? (name || 'Introduction') : heading
+    const sectionContent = i === 0 ? section : `## ${heading}\n\n${lines.slice(1).join('\n').trim()}`
+    const number = String(offset + documents.length + 1).padStart(2, '0')
+    const slug = slugify(sectionTitle).slice(0, 50) || 'section'
+    const baseFilename = i === 0 ? slug : `${slugPrefix}${slug}`
+
+    documents.push({
+      filename: `${number}-${baseFilename}.md`,
+      title: name && i > 0 ? `${name}: ${sectionTitle}` : sectionTitle,
+      content: sectionContent,
+      tokens: estimateTokens(sectionContent, tokenizer),
+      ...(sourceUrl ? { sourceUrl } : {}),
+    })
+  }
+
+  // If no sections, treat the whole content as one document
+  if (documents.length === 0 && content.trim().length > 20) {
+    const title = name || 'Documentation'
+    documents.push({
+      filename: `${String(offset + 1).padStart(2, '0')}-${slugify(title) || 'documentation'}.md`,
+      title,
+      content: content.trim(),
+      tokens: estimateTokens(content, tokenizer),
+      ...(sourceUrl ? { sourceUrl } : {}),
+    })
+  }
+
+  return documents
+}
@@ -0,0 +1,59 @@
+/**
+ * Docusaurus Extractor
+ * Docs pages render into .theme-doc-markdown; versions and translations come
+ * from the navbar dropdowns, with the current locale also named in the
+ * docusaurus_locale meta tag.
+ */
+
+import { getAttribute, getClassList, querySelector, querySelectorAll, type HtmlElement } from '../html-parser';
+import { admonitionRule, findChild, getMetaContent, hasGenerator, readVariants, tabsRule } from './shared';
+import type { PlatformExtractor } from './types';
+
+/**
+ * Links of the navbar dropdown menus, one list per menu
+ */
+function dropdownMenus(document: HtmlElement): HtmlElement[][] {
+  return querySelectorAll(document, '.dropdown__menu')
+    .map(menu => querySelectorAll(menu, 'a.dropdown__link'));
+}
+
+function isActive(anchor: HtmlElement): boolean {
+  return getClassList(anchor).includes('dropdown__link--active');
+}
+
+export const docusaurusExtractor: PlatformExtractor = {
+  name: 'docusaurus',
+  detect: document => hasGenerator(document, 'docusaurus') || Boolean(querySelector(document, '#__docusaurus')),
+  contentSelectors: ['.theme-doc-markdown', 'article .markdown', 'article'],
+  removeSelectors: [
+    '.theme-doc-breadcrumbs',
+    '.theme-doc-version-badge',
+    '.theme-doc-version-banner',
+    '.theme-doc-toc-mobile',
+    '.theme-doc-footer',
+    '.theme-edit-this-page',
+    '.theme-last-updated',
+    '.pagination-nav',
+    '.hash-link',
+  ],
+  navigationSelector: '.theme-doc-sidebar-menu a.menu__link[href], nav.menu a.menu__link[href]',
+  // The version menu is the dropdown whose links are not translations and
+  // that marks the page's version as active
+  getVersions: (document, pageUrl) => {
+    const menu = dropdownMenus(document)
+      .find(links => links.some(isActive) && !links.some(link => getAttribute(link, 'lang')));
+    return menu ? readVariants(menu, pageUrl, isActive) : [];
+  },
+  getLocales: (document, pageUrl) => {
+    const locale = getMetaContent(document, 'docusaurus_locale');
+    const links = querySelectorAll(document, 'a.dropdown__link[lang]');
+    return readVariants(links, pageUrl, link => isActive(link) || getAttribute(link, 'lang') === locale);
+  },
+  rules: [
+    // v3 headings carry a hashed CSS module class, e.g. admonitionHeading_Gvgb
+    admonitionRule('.theme-admonition, .admonition', element =>
+      findChild(element, '[class^="admonitionHeading"], [class*=" admonitionHeading"], .admonition-heading')
+    ),
+    tabsRule('.tabs-container', '[role="tab"]', '[role="tabpanel"]'),
+  ],
+};
@@ -0,0 +1,29 @@
+/**
+ * GitBook Extractor
+ * Published spaces render the page into <main>, followed by previous/next
+ * buttons and a "Last updated" line; the table of contents is an <aside>.
+ */
+
+import { getClassList } from '../html-parser';
+import { admonitionRule, hasGenerator, loadsAssetFrom } from './shared';
+import type { PlatformExtractor } from './types';
+
+export const gitbookExtractor: PlatformExtractor = {
+  name: 'gitbook',
+  detect: document => hasGenerator(document, 'gitbook') || loadsAssetFrom(document, 'gitbook.com'),
+  contentSelectors: ['[data-testid="page.contentEditor"]', 'main'],
+  removeSelectors: [
+    'aside',
+    'nav',
+    '[data-testid="page.desktopTableOfContents"]',
+    '[data-testid="page.lastUpdated"]',
+    '[data-testid="page.feedback"]',
+    'a[class*="navbutton"]',
+    'a[aria-label^="Direct link to"]',
+  ],
+  navigationSelector: '[data-testid="table-of-contents"] a[href], aside a[href]',
+  rules: [
+    // Hints are classed by style: hint-info, hint-warning, hint-danger, hint-success
+    admonitionRule('.hint', element => getClassList(element).find(name => name.startsWith('hint-'))?.slice(5)),
+  ],
+};
@@ -0,0 +1,75 @@
+/**
+ * Platform Extractors Module
+ * Per-platform knowledge for scraping docs sites built with Docusaurus,
+ * Mintlify, GitBook, MkDocs, Sphinx and VitePress: where the rendered page
+ * lives, which chrome to strip, how the sidebar orders pages and which
+ * versions and translations the site offers
+ */
+
+import type { DocsPlatform } from '../types';
+import type { HtmlElement } from '../html-parser';
+import { readLinks } from './shared';
+import type { PlatformExtractor } from './types';
+import { docusaurusExtractor } from './docusaurus';
+import { mintlifyExtractor } from './mintlify';
+import { gitbookExtractor } from './gitbook';
+import { mkdocsExtractor } from './mkdocs';
+import { sphinxExtractor } from './sphinx';
+import { vitepressExtractor } from './vitepress';
+
+// Re-export individual extractors
+export { docusaurusExtractor } from './docusaurus';
+export { mintlifyExtractor } from './mintlify';
+export { gitbookExtractor } from './gitbook';
+export { mkdocsExtractor } from './mkdocs';
+export { sphinxExtractor } from './sphinx';
+export { vitepressExtractor } from './vitepress';
+export { admonitionRule, tabsRule } from './shared';
+export type { PlatformExtractor } from './types';
+
+/**
+ * Registered extractors, checked in order; the first one detecting a page wins
+ */
+export const PLATFORM_EXTRACTORS: PlatformExtractor[] = [
+  docusaurusExtractor,
+  mintlifyExtractor,
+  gitbookExtractor,
+  mkdocsExtractor,
+  sphinxExtractor,
+  vitepressExtractor,
+];
+
+/**
+ * Find the extractor for the platform a parsed page was built with
+ */
+export function detectDocsPlatform(document: HtmlElement): PlatformExtractor | null {
+  return PLATFORM_EXTRACTORS.find(extractor => extractor.detect(document)) ?? null;
+}
+
+/**
+ * Look up an extractor by platform name
+ */
+export function getPlatformExtractor(name: string): PlatformExtractor | null {
+  return PLATFORM_EXTRACTORS.find(extractor => extractor.name === name) ?? null;
+}
+
+/**
+ * Sidebar links of a page in reading order
+ */
+export function getNavigation(extractor: PlatformExtractor, document: HtmlElement, pageUrl: string): string[] {
+  return readLinks(document, extractor.navigationSelector, pageUrl);
+}
+
+/**
+ * Platform name plus the versions and translations a page's switchers offer
+ */
+export function getPlatformInfo(extractor: PlatformExtractor, document: HtmlElement, pageUrl: string): DocsPlatform {
+  const versions = extractor.getVersions?.(document, pageUrl) ?? [];
+  const locales = extractor.getLocales?.(document, pageUrl) ?? [];
+
+  return {
+    name: extractor.name,
+    ...(versions.length > 0 ? { versions } : {}),
+    ...(locales.length > 0 ? { locales } : {}),
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Mintlify Extractor
+ * Pages render into #content-area: a header with the title and description,
+ * the MDX content, then pagination and a feedback footer.
+ */
+
+import { getAttribute } from '../html-parser';
+import { admonitionRule, hasGenerator, loadsAssetFrom, tabsRule } from './shared';
+import type { PlatformExtractor } from './types';
+
+export const mintlifyExtractor: PlatformExtractor = {
+  name: 'mintlify',
+  detect: document =>
+    hasGenerator(document, 'mintlify')
+    || loadsAssetFrom(document, 'mintlify')
+    || loadsAssetFrom(document, 'mintcdn.com'),
+  contentSelectors: ['#content-area', '.mdx-content', '#content'],
+  removeSelectors: [
+    '#header .eyebrow',
+    '#pagination',
+    '#footer',
+    '#table-of-contents',
+    '#content-side-layout',
+    '.feedback-toolbar',
+  ],
+  navigationSelector: '#sidebar a[href], #sidebar-content a[href], #navigation-items a[href]',
+  rules: [
+    admonitionRule('[data-callout-type]', element => getAttribute(element, 'data-callout-type')),
+    // Tabs and code groups share the ARIA tab markup
+    tabsRule('.tabs, .code-group', '[role="tab"]', '[role="tabpanel"]'),
+  ],
+};
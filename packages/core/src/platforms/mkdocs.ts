@@ -0,0 +1,49 @@
+/**
+ * MkDocs Extractor
+ * Covers the built-in themes and Material for MkDocs. Material's version
+ * switcher (mike) and language selector are read when present in the page.
+ */
+
+import { getAttribute, querySelector, querySelectorAll } from '../html-parser';
+import { admonitionRule, findChild, hasGenerator, labelOf, readVariants, tabsRule } from './shared';
+import type { PlatformExtractor } from './types';
+
+export const mkdocsExtractor: PlatformExtractor = {
+  name: 'mkdocs',
+  detect: document => hasGenerator(document, 'mkdocs'),
+  contentSelectors: ['article.md-content__inner', '.md-content', 'div[role="main"]'],
+  removeSelectors: [
+    '.md-content__button',
+    '.md-source-file',
+    '.md-feedback',
+    '.md-footer',
+    '.md-tags',
+    '.md-clipboard',
+    '.headerlink',
+    '.linenos',
+  ],
+  navigationSelector: [
+    '.md-nav--primary a.md-nav__link[href]',
+    '.wy-menu-vertical a[href]',
+    '.bs-sidenav a[href]',
+    '.navbar-nav a.dropdown-item[href]',
+  ].join(', '),
+  getVersions: (document, pageUrl) => {
+    const current = querySelector(document, '.md-version__current');
+    const label = current ? labelOf(current) : undefined;
+    return readVariants(querySelectorAll(document, 'a.md-version__link'), pageUrl, link => labelOf(link) === label);
+  },
+  getLocales: (document, pageUrl) => {
+    const html = querySelector(document, 'html');
+    const lang = html ? getAttribute(html, 'lang') : undefined;
+    return readVariants(
+      querySelectorAll(document, 'a.md-select__link[hreflang]'),
+      pageUrl,
+      link => getAttribute(link, 'hreflang') === lang
+    );
+  },
+  rules: [
+    admonitionRule('.admonition, details', element => findChild(element, '.admonition-title, summary')),
+    tabsRule('.tabbed-set', 'label', '.tabbed-block'),
+  ],
+};
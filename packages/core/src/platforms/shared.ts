@@ -0,0 +1,195 @@
+/**
+ * Helpers shared by the platform extractors
+ */
+
+import type { SiteVariant } from '../types';
+import {
+  compileSelector,
+  createElement,
+  getAttribute,
+  querySelector,
+  querySelectorAll,
+  textContent,
+  type HtmlElement,
+  type HtmlNode,
+} from '../html-parser';
+import type { ConversionContext, ConversionRule } from '../html-to-markdown';
+
+/**
+ * Check whether a <meta name="generator"> names the given tool, e.g. 'docusaurus'
+ */
+export function hasGenerator(document: HtmlElement, name: string): boolean {
+  return querySelectorAll(document, 'meta[name="generator"]')
+    .some(meta => (getAttribute(meta, 'content') ?? '').toLowerCase().startsWith(name));
+}
+
+/**
+ * Content of <meta name="..."> when present
+ */
+export function getMetaContent(document: HtmlElement, name: string): string | undefined {
+  const meta = querySelector(document, `meta[name="${name}"]`);
+  return (meta && getAttribute(meta, 'content')?.trim()) || undefined;
+}
+
+/**
+ * Check whether any script, stylesheet or image is loaded from a URL containing `fragment`
+ */
+export function loadsAssetFrom(document: HtmlElement, fragment: string): boolean {
+  return Boolean(querySelector(document, `script[src*="${fragment}"], link[href*="${fragment}"], img[src*="${fragment}"]`));
+}
+
+/**
+ * Visible text of an element with whitespace collapsed
+ */
+export function labelOf(element: HtmlElement): string {
+  return textContent(element).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Resolve a link's href against the page URL, without its fragment
+ * In-page anchors and non-http(s) targets resolve to null.
+ */
+export function resolveLink(anchor: HtmlElement, pageUrl: string): string | null {
+  const href = getAttribute(anchor, 'href')?.trim();
+  if (!href || href.startsWith('#')) return null;
+
+  try {
+    const url = new URL(href, pageUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Unique page links matching a selector, in document order
+ */
+export function readLinks(document: HtmlElement, selector: string, pageUrl: string): string[] {
+  const links = new Set<string>();
+  for (const anchor of querySelectorAll(document, selector)) {
+    const url = resolveLink(anchor, pageUrl);
+    if (url) links.add(url);
+  }
+  return Array.from(links);
+}
+
+/**
+ * Switcher entries from the links of a version or language menu
+ */
+export function readVariants(
+  anchors: HtmlElement[],
+  pageUrl: string,
+  isCurrent: (anchor: HtmlElement) => boolean
+): SiteVariant[] {
+  const variants: SiteVariant[] = [];
+  const seen = new Set<string>();
+
+  for (const anchor of anchors) {
+    const url = resolveLink(anchor, pageUrl);
+    const label = labelOf(anchor);
+    if (!url || !label || seen.has(url)) continue;
+    seen.add(url);
+
+    const lang = getAttribute(anchor, 'lang') ?? getAttribute(anchor, 'hreflang');
+    variants.push({
+      label,
+      url,
+      ...(lang ? { lang } : {}),
+      ...(isCurrent(anchor) ? { current: true } : {}),
+    });
+  }
+
+  return variants;
+}
+
+/**
+ * First direct child matching a selector
+ */
+export function findChild(element: HtmlElement, selector: string): HtmlElement | undefined {
+  const matches = compileSelector(selector);
+  return element.children.find((child): child is HtmlElement => child.type === 'element' && matches(child));
+}
+
+/**
+ * Nearest ancestor (or the element itself) matching a predicate
+ */
+function closest(element: HtmlElement, matches: (element: HtmlElement) => boolean): HtmlElement | null {
+  let current: HtmlElement | null = element;
+  while (current && !matches(current)) current = current.parent;
+  return current;
+}
+
+/**
+ * Convert some of an element's children, leaving the tree untouched
+ */
+function convertSome(element: HtmlElement, keep: (child: HtmlNode) => boolean, context: ConversionContext): string {
+  const wrapper = createElement('div');
+  // Children keep their real parent, so rules looking upwards still see it
+  wrapper.children = element.children.filter(keep);
+  return context.convertChildren(wrapper).trim();
+}
+
+/**
+ * Rule rendering a callout (note, tip, warning) as a blockquote with a bold title
+ *
+ * @param filter - Selector of the callout container
+ * @param getTitle - Direct child holding the title, or the title text itself
+ */
+export function admonitionRule(
+  filter: string,
+  getTitle: (element: HtmlElement) => HtmlElement | string | undefined
+): ConversionRule {
+  return {
+    filter,
+    replacement: (content, element, context) => {
+      const title = getTitle(element);
+      const label = typeof title === 'string' ? title.trim() : title ? labelOf(title) : '';
+      // Themes often uppercase the title with CSS ("note" shows as "NOTE")
+      const titleText = label.charAt(0).toUpperCase() + label.slice(1);
+      const body = typeof title === 'object'
+        ? convertSome(element, child => child !== title, context)
+        : content.trim();
+
+      const lines = [...(titleText ? [`**${titleText}**`, ''] : []), ...body.split('\n')];
+      while (lines.length > 0 && !lines[lines.length - 1]) lines.pop();
+      if (lines.length === 0) return '';
+      return `\n\n${lines.map(line => (line ? `> ${line}` : '>')).join('\n')}\n\n`;
+    },
+  };
+}
+
+/**
+ * Rule rendering a tab set as one bold-labelled section per tab
+ * Hidden tabs are kept: readers of the markdown cannot switch tabs. Panels
+ * are paired with labels through aria-labelledby when present, otherwise in
+ * order. Labels and panels of nested tab sets belong to the nested set.
+ *
+ * @param filter - Selector of the tab set container
+ * @param labelSelector - Selector of the tab labels inside it
+ * @param panelSelector - Selector of the tab panels inside it
+ */
+export function tabsRule(filter: string, labelSelector: string, panelSelector: string): ConversionRule {
+  const isTabSet = compileSelector(filter);
+  const owned = (tabSet: HtmlElement, selector: string) =>
+    querySelectorAll(tabSet, selector).filter(element => closest(element.parent as HtmlElement, isTabSet) === tabSet);
+
+  return {
+    filter: isTabSet,
+    replacement: (content, element, context) => {
+      const labels = owned(element, labelSelector);
+      const panels = owned(element, panelSelector);
+      if (panels.length === 0) return content;
+
+      const sections = panels.map((panel, i) => {
+        const labelledBy = getAttribute(panel, 'aria-labelledby');
+        const label = (labelledBy && labels.find(candidate => getAttribute(candidate, 'id') === labelledBy)) || labels[i];
+        const body = context.convertChildren(panel).trim();
+        return label ? `**${labelOf(label)}**\n\n${body}` : body;
+      });
+
+      return `\n\n${sections.filter(Boolean).join('\n\n')}\n\n`;
+    },
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Sphinx Extractor
+ * Covers the basic/alabaster, Read the Docs, Furo and PyData themes. The
+ * Read the Docs flyout lists versions and translations as <dl> groups.
+ */
+
+import type { SiteVariant } from '../types';
+import { getClassList, querySelectorAll, textContent, type HtmlElement } from '../html-parser';
+import type { ConversionRule } from '../html-to-markdown';
+import { admonitionRule, findChild, hasGenerator, readVariants, tabsRule } from './shared';
+import type { PlatformExtractor } from './types';
+
+/**
+ * Links of a Read the Docs flyout group, e.g. "Versions" or "Languages"
+ * The current entry is wrapped in <strong>.
+ */
+function readFlyoutGroup(document: HtmlElement, pageUrl: string, heading: string): SiteVariant[] {
+  const group = querySelectorAll(document, '.rst-other-versions dl').find(list => {
+    const title = list.children.find(child => child.type === 'element' && child.tagName === 'dt');
+    return title !== undefined && textContent(title).trim().toLowerCase() === heading;
+  });
+  if (!group) return [];
+
+  return readVariants(querySelectorAll(group, 'dd a[href]'), pageUrl, link => link.parent?.tagName === 'strong');
+}
+
+/**
+ * Pygments blocks name their lexer on the wrapper (highlight-python); the
+ * fenced block produced for the inner <pre> gets that language
+ */
+const highlightRule: ConversionRule = {
+  filter: 'div[class*="highlight-"]',
+  replacement: (content, element) => {
+    const lexer = getClassList(element)
+      .map(name => name.match(/^highlight-([\w+#.-]+)$/)?.[1])
+      .find(Boolean);
+    if (!lexer || lexer === 'none' || lexer === 'text') return content;
+
+    // 'default' is Sphinx's Python 3 lexer with a fallback to plain text
+    const language = lexer === 'default' ? 'python' : lexer;
+    return content.replace(/^(\s*)(`{3,})\n/, `$1$2${language}\n`);
+  },
+};
+
+export const sphinxExtractor: PlatformExtractor = {
+  name: 'sphinx',
+  detect: document =>
+    hasGenerator(document, 'sphinx')
+    || querySelectorAll(document, 'script#documentation_options, script[src*="documentation_options.js"]').length > 0,
+  contentSelectors: [
+    '[itemprop="articleBody"]',
+    'article.bd-article',
+    'article[role="main"]',
+    'div.body[role="main"]',
+    'div.body',
+  ],
+  removeSelectors: [
+    '.headerlink',
+    '.viewcode-link',
+    '.linenos',
+    '.copybtn',
+    '.rst-footer-buttons',
+    '.prev-next-area',
+    '.prev-next-footer',
+    '.bd-footer-article',
+    '.edit-this-page',
+  ],
+  navigationSelector: [
+    '.wy-menu-vertical a.reference.internal[href]',
+    '.sphinxsidebarwrapper a.reference.internal[href]',
+    '.sidebar-tree a.reference[href]',
+    '.bd-sidenav a[href]',
+  ].join(', '),
+  getVersions: (document, pageUrl) => readFlyoutGroup(document, pageUrl, 'versions'),
+  getLocales: (document, pageUrl) => readFlyoutGroup(document, pageUrl, 'languages'),
+  rules: [
+    admonitionRule('.admonition', element => findChild(element, '.admonition-title')),
+    tabsRule('.sd-tab-set', 'label.sd-tab-label', '.sd-tab-content'),
+    highlightRule,
+  ],
+};
@@ -0,0 +1,29 @@
+/**
+ * Platform Extractor Types
+ */
+
+import type { SiteVariant } from '../types';
+import type { HtmlElement } from '../html-parser';
+import type { ConversionRule } from '../html-to-markdown';
+
+/**
+ * What the scraper knows about pages built with one docs platform
+ */
+export interface PlatformExtractor {
+  /** Platform name, as reported in ExtractionResult.platform */
+  name: string;
+  /** Whether a parsed page was built with this platform */
+  detect: (document: HtmlElement) => boolean;
+  /** Containers of the rendered page content, most specific first */
+  contentSelectors: string[];
+  /** Page chrome inside the content: edit links, pagination, breadcrumbs, anchors */
+  removeSelectors: string[];
+  /** Links of the docs sidebar, matched in reading order */
+  navigationSelector: string;
+  /** Versions offered by the version switcher */
+  getVersions?: (document: HtmlElement, pageUrl: string) => SiteVariant[];
+  /** Translations offered by the language switcher */
+  getLocales?: (document: HtmlElement, pageUrl: string) => SiteVariant[];
+  /** Conversion rules for platform markup such as admonitions and tabs */
+  rules?: ConversionRule[];
+}
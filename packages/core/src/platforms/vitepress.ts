@@ -0,0 +1,39 @@
+/**
+ * VitePress Extractor
+ * Markdown renders into .vp-doc. Code blocks are wrapped in a language-*
+ * div with a copy button and a language label; code groups are tab sets.
+ */
+
+import { querySelector, querySelectorAll } from '../html-parser';
+import { admonitionRule, findChild, hasGenerator, labelOf, readVariants, tabsRule } from './shared';
+import type { PlatformExtractor } from './types';
+
+export const vitepressExtractor: PlatformExtractor = {
+  name: 'vitepress',
+  detect: document => hasGenerator(document, 'vitepress') || Boolean(querySelector(document, '#VPContent')),
+  contentSelectors: ['.vp-doc', '.VPDoc .content', '#VPContent main'],
+  removeSelectors: [
+    '.header-anchor',
+    'span.lang',
+    'button.copy',
+    '.line-numbers-wrapper',
+    '.VPDocFooter',
+    '.VPDocAside',
+    '.edit-link',
+    '.prev-next',
+  ],
+  navigationSelector: '.VPSidebar a[href], #VPSidebarNav a[href]',
+  // The translations menu shows the current language as its title and links the others
+  getLocales: (document, pageUrl) => {
+    const menu = querySelector(document, '.VPNavBarTranslations');
+    if (!menu) return [];
+
+    const title = querySelector(menu, '.title');
+    const others = readVariants(querySelectorAll(menu, 'a[href]'), pageUrl, () => false);
+    return title ? [{ label: labelOf(title), url: pageUrl, current: true }, ...others] : others;
+  },
+  rules: [
+    admonitionRule('.custom-block', element => findChild(element, '.custom-block-title')),
+    tabsRule('.vp-code-group', '.tabs label', '.blocks div[class*="language-"]'),
+  ],
+};
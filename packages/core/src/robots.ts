@@ -0,0 +1,214 @@
+/**
+ * Robots.txt - Parses robots.txt files and checks URLs against them (RFC 9309)
+ *
+ * Files are fetched once per origin and cached, so a crawl touching hundreds
+ * of pages on one host costs a single robots.txt request.
+ */
+
+import { DEFAULT_USER_AGENT } from './extractor';
+import { getRobotsCache } from './cache';
+
+export interface RobotsRule {
+  /** true for Allow, false for Disallow */
+  allow: boolean;
+  /** Path pattern; `*` matches any characters and a trailing `$` anchors the end */
+  path: string;
+}
+
+export interface RobotsGroup {
+  /** Lowercased user-agent tokens the group applies to */
+  userAgents: string[];
+  rules: RobotsRule[];
+  /** Crawl-delay in seconds */
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+/**
+ * Rules that apply to one user agent
+ */
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  /** Crawl-delay in seconds */
+  crawlDelay?: number;
+}
+
+/**
+ * Files beyond this size are truncated, as allowed by RFC 9309
+ */
+const MAX_ROBOTS_SIZE = 500 * 1024;
+
+const ROBOTS_TIMEOUT_MS = 10000;
+
+/**
+ * How long an unavailable robots.txt blocks a host before it is fetched again
+ */
+const UNAVAILABLE_TTL = 5 * 60 * 1000;
+
+/**
+ * Parse a robots.txt file into user-agent groups
+ * Consecutive User-agent lines share one group; groups naming the same agent
+ * are merged when the policy is resolved.
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let inRules = false;
+
+  for (const rawLine of content.slice(0, MAX_ROBOTS_SIZE).split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent':
+        if (!current || inRules) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+          inRules = false;
+        }
+        if (value) current.userAgents.push(value.toLowerCase());
+        break;
+      case 'allow':
+      case 'disallow':
+        if (!current) break;
+        inRules = true;
+        // An empty Disallow allows everything
+        if (value) current.rules.push({ allow: key === 'allow', path: value });
+        break;
+      case 'crawl-delay': {
+        if (!current) break;
+        inRules = true;
+        const delay = parseFloat(value);
+        if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+        break;
+      }
+      case 'sitemap':
+        if (value) sitemaps.push(value);
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Product token of a User-Agent header, e.g. "llms-forge" for
+ * "llms-forge/1.0 (Documentation Extractor)"
+ */
+function productToken(userAgent: string): string {
+  return userAgent.trim().split(/[\s/]/)[0].toLowerCase();
+}
+
+/**
+ * Resolve the rules for a user agent
+ * Groups naming our product token win over `*`; several matching groups are merged.
+ */
+export function getRobotsPolicy(robots: RobotsTxt, userAgent: string = DEFAULT_USER_AGENT): RobotsPolicy {
+  const token = productToken(userAgent);
+  let matching = robots.groups.filter(group => group.userAgents.includes(token));
+  if (matching.length === 0) {
+    matching = robots.groups.filter(group => group.userAgents.includes('*'));
+  }
+
+  const delays = matching
+    .map(group => group.crawlDelay)
+    .filter((delay): delay is number => delay !== undefined);
+
+  return {
+    rules: matching.flatMap(group => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+/**
+ * Check whether a rule pattern matches a path
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Check a URL against a policy
+ * The longest matching pattern wins; Allow wins ties. robots.txt itself is always allowed.
+ */
+export function isAllowedByRobots(policy: RobotsPolicy, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  if (pathname === '/robots.txt') return true;
+
+  const path = pathname + search;
+  let best: RobotsRule | null = null;
+
+  for (const rule of policy.rules) {
+    if (!matchesPattern(rule.path, path)) continue;
+    if (
+      !best
+      || rule.path.length > best.path.length
+      || (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best?.allow ?? true;
+}
+
+/**
+ * Fetch and parse the robots.txt of an origin
+ * A missing file (4xx) allows everything. Returns null when the file is
+ * unavailable (5xx, 429 or network error), which means nothing may be crawled.
+ */
+export async function fetchRobotsTxt(origin: string, userAgent: string = DEFAULT_USER_AGENT): Promise<RobotsTxt | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), ROBOTS_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': userAgent },
+      signal: controller.signal,
+      redirect: 'follow',
+    });
+
+    if (response.ok) {
+      return parseRobotsTxt(await response.text());
+    }
+    if (response.status === 429 || response.status >= 500) {
+      return null;
+    }
+    return { groups: [], sitemaps: [] };
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Cached robots.txt of an origin
+ * Concurrent callers share one request; an unavailable file is retried after a few minutes.
+ */
+export function getRobotsTxt(origin: string, userAgent: string = DEFAULT_USER_AGENT): Promise<RobotsTxt | null> {
+  const cache = getRobotsCache<Promise<RobotsTxt | null>>();
+  const cached = cache.get(origin);
+  if (cached) return cached;
+
+  const pending = fetchRobotsTxt(origin, userAgent);
+  cache.set(origin, pending);
+  pending.then(robots => {
+    if (!robots) cache.set(origin, pending, UNAVAILABLE_TTL);
+  });
+  return pending;
+}
@@ -0,0 +1,277 @@
+/**
+ * @llm-energy/core - Full-text search
+ *
+ * An in-memory inverted index with BM25 ranking over extracted documents,
+ * or over their retrieval chunks when the result has them. Hits come back
+ * with a snippet around the best cluster of matches and highlight offsets.
+ */
+
+import type { ExtractionResult } from './types'
+
+/**
+ * A searchable unit: a whole document or one of its chunks
+ */
+export interface SearchEntry {
+  title: string
+  content: string
+  filename?: string
+  sourceUrl?: string
+  /** Heading path of a chunk */
+  headingPath?: string[]
+  /** Index of a chunk within its document */
+  chunkIndex?: number
+}
+
+/**
+ * Inverted index built by createSearchIndex
+ */
+export interface SearchIndex {
+  entries: SearchEntry[]
+  /** term → entry position → weighted term frequency */
+  postings: Map<string, Map<number, number>>
+  /** Weighted number of terms in each entry */
+  lengths: number[]
+  averageLength: number
+}
+
+/**
+ * Options for querying a search index
+ */
+export interface SearchOptions {
+  /** Maximum hits to return (default: 10) */
+  limit?: number
+  /** Approximate snippet length in characters (default: 240) */
+  snippetLength?: number
+}
+
+/**
+ * Character range of a query term inside a snippet
+ */
+export interface SearchHighlight {
+  start: number
+  end: number
+}
+
+/**
+ * A ranked search result
+ */
+export interface SearchHit {
+  title: string
+  filename?: string
+  sourceUrl?: string
+  headingPath?: string[]
+  chunkIndex?: number
+  /** BM25 score; higher is better */
+  score: number
+  /** Text around the matches, with … where it was cut */
+  snippet: string
+  /** Where query terms appear in the snippet */
+  highlights: SearchHighlight[]
+}
+
+/** BM25 term frequency saturation */
+const K1 = 1.2
+/** BM25 length normalization */
+const B = 0.75
+/** Title and heading terms count this many times */
+const TITLE_WEIGHT = 3
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'with',
+])
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu
+
+/**
+ * Splits text into lowercase search terms, without stop words
+ */
+export function tokenizeSearchTerms(text: string): string[] {
+  return (text.toLowerCase().match(WORD_PATTERN) ?? []).filter(term => !STOP_WORDS.has(term))
+}
+
+/**
+ * Builds an inverted index over the given entries
+ *
+ * @param entries - Documents or chunks to index
+ * @returns An index for querySearchIndex
+ */
+export function createSearchIndex(entries: SearchEntry[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>()
+  const lengths: number[] = []
+
+  entries.forEach((entry, position) => {
+    const frequencies = new Map<string, number>()
+    const add = (text: string, weight: number) => {
+      for (const term of tokenizeSearchTerms(text)) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + weight)
+      }
+    }
+
+    add([entry.title, ...(entry.headingPath ?? [])].join(' '), TITLE_WEIGHT)
+    add(entry.content, 1)
+
+    let length = 0
+    for (const [term, frequency] of frequencies) {
+      let posting = postings.get(term)
+      if (!posting) {
+        posting = new Map()
+        postings.set(term, posting)
+      }
+      posting.set(position, frequency)
+      length += frequency
+    }
+    lengths.push(length)
+  })
+
+  const total = lengths.reduce((sum, length) => sum + length, 0)
+  return {
+    entries,
+    postings,
+    lengths,
+    averageLength: entries.length > 0 ? total / entries.length : 0,
+  }
+}
+
+/**
+ * Indexes an extraction result: its chunks when present, otherwise its documents
+ *
+ * @example
+ * const index = buildSearchIndex(result)
+ * querySearchIndex(index, 'refresh token')[0].snippet
+ */
+export function buildSearchIndex(result: Pick<ExtractionResult, 'documents' | 'chunks'>): SearchIndex {
+  if (result.chunks && result.chunks.length > 0) {
+    const titles = new Map(result.documents.map(doc => [doc.filename, doc.title]))
+    return createSearchIndex(result.chunks.map(chunk => ({
+      title: (chunk.filename && titles.get(chunk.filename)) || chunk.headingPath[0] || '',
+      content: chunk.content,
+      filename: chunk.filename,
+      sourceUrl: chunk.sourceUrl,
+      headingPath: chunk.headingPath,
+      chunkIndex: chunk.index,
+    })))
+  }
+
+  return createSearchIndex(result.documents.map(doc => ({
+    title: doc.title,
+    content: doc.content,
+    filename: doc.filename,
+    sourceUrl: doc.sourceUrl,
+  })))
+}
+
+/**
+ * Matches whole-word occurrences of any of the terms
+ */
+function termPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${escaped.join('|')})(?![\\p{L}\\p{N}_])`, 'giu')
+}
+
+/**
+ * Cuts a snippet around the densest cluster of matches and marks the terms in it
+ */
+function buildSnippet(content: string, pattern: RegExp | null, length: number): Pick<SearchHit, 'snippet' | 'highlights'> {
+  const positions = pattern ? Array.from(content.matchAll(pattern), match => match.index ?? 0) : []
+
+  // Pick the window that covers the most matches
+  let best = positions[0] ?? 0
+  let bestCount = 0
+  for (let i = 0; i < positions.length; i++) {
+    let count = 0
+    for (let j = i; j < positions.length && positions[j] < positions[i] + length; j++) count++
+    if (count > bestCount) {
+      best = positions[i]
+      bestCount = count
+    }
+  }
+
+  // Start a little before the first match, on a word boundary
+  let start = Math.max(0, best - Math.floor(length / 5))
+  if (start > 0) {
+    const space = content.indexOf(' ', start)
+    start = space === -1 || space > best ? start : space + 1
+  }
+  let end = Math.min(content.length, start + length)
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end)
+    end = space > start ? space : end
+  }
+
+  const text = content.slice(start, end).replace(/\s+/g, ' ').trim()
+  const snippet = `${start > 0 ? '…' : ''}${text}${end < content.length ? '…' : ''}`
+  const highlights = pattern
+    ? Array.from(snippet.matchAll(pattern), match => ({
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }))
+    : []
+
+  return { snippet, highlights }
+}
+
+/**
+ * Ranks indexed entries against a query with BM25
+ *
+ * @param index - Index from createSearchIndex or buildSearchIndex
+ * @param query - Free-text query
+ * @param options - Result limit and snippet length
+ * @returns Hits ordered by score, best first; empty when nothing matches
+ *
+ * @example
+ * const hits = querySearchIndex(index, 'rate limits', { limit: 5 })
+ * hits.map(hit => `${hit.filename}: ${highlightSnippet(hit)}`)
+ */
+export function querySearchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchHit[] {
+  const terms = Array.from(new Set(tokenizeSearchTerms(query)))
+  const total = index.entries.length
+  const scores = new Map<number, number>()
+
+  for (const term of terms) {
+    const posting = index.postings.get(term)
+    if (!posting) continue
+
+    const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5))
+    for (const [position, frequency] of posting) {
+      const norm = K1 * (1 - B + B * (index.lengths[position] / (index.averageLength || 1)))
+      const score = idf * (frequency * (K1 + 1)) / (frequency + norm)
+      scores.set(position, (scores.get(position) ?? 0) + score)
+    }
+  }
+
+  const pattern = termPattern(terms)
+  return Array.from(scores)
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .slice(0, options.limit ?? 10)
+    .map(([position, score]) => {
+      const entry = index.entries[position]
+      return {
+        title: entry.title,
+        filename: entry.filename,
+        sourceUrl: entry.sourceUrl,
+        headingPath: entry.headingPath,
+        chunkIndex: entry.chunkIndex,
+        score: Math.round(score * 1000) / 1000,
+        ...buildSnippet(entry.content, pattern, options.snippetLength ?? 240),
+      }
+    })
+}
+
+/**
+ * Wraps the highlighted terms of a hit's snippet, e.g. in markdown bold
+ *
+ * @param hit - Search hit
+ * @param before - Text inserted before each highlight (default: '**')
+ * @param after - Text inserted after each highlight (default: same as before)
+ */
+export function highlightSnippet(hit: Pick<SearchHit, 'snippet' | 'highlights'>, before = '**', after = before): string {
+  let output = ''
+  let cursor = 0
+  for (const { start, end } of hit.highlights) {
+    output += `${hit.snippet.slice(cursor, start)}${before}${hit.snippet.slice(start, end)}${after}`
+    cursor = end
+  }
+  return output + hit.snippet.slice(cursor)
+}
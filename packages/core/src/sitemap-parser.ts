@@ -2,11 +2,23 @@
  * Sitemap Parser - Parses sitemap.xml files to extract documentation URLs
  */
 
+import { collectLocales, detectUrlLocale, matchesLocale, normalizeLocale } from './locale';
+
+/**
+ * A translation of a page, from <xhtml:link rel="alternate" hreflang="...">
+ */
+export interface SitemapAlternate {
+  hreflang: string;
+  url: string;
+}
+
 export interface SitemapEntry {
   url: string;
   lastmod?: string;
   priority?: number;
   changefreq?: string;
+  /** Translations of the page, the page itself included */
+  alternates?: SitemapAlternate[];
 }
 
 export interface SitemapParseResult {
@@ -35,6 +47,15 @@ const EXCLUDE_PATTERNS = [
   '/tag/', '/category/', '/author/'
 ];
 
+/**
+ * Check if a URL points at something that is never documentation
+ * (blog, pricing, account pages, feeds, images and archives)
+ */
+export function isExcludedUrl(url: string): boolean {
+  const lower = url.toLowerCase();
+  return EXCLUDE_PATTERNS.some(p => lower.includes(p));
+}
+
 /**
  * Check if a URL is likely a documentation page
  */
@@ -42,7 +63,7 @@ export function isDocumentationUrl(url: string): boolean {
   const lower = url.toLowerCase();
   
   // Always exclude certain patterns
-  if (EXCLUDE_PATTERNS.some(p => lower.includes(p))) {
+  if (isExcludedUrl(url)) {
     return false;
   }
   
@@ -105,6 +126,11 @@ export function parseSitemapXml(xml: string): SitemapParseResult {
     if (changefreqMatch) {
       entry.changefreq = changefreqMatch[1].trim();
     }
+
+    const alternates = parseAlternates(extraContent);
+    if (alternates.length > 0) {
+      entry.alternates = alternates;
+    }
     
     result.entries.push(entry);
     result.urls.push(url);
@@ -113,6 +139,33 @@ export function parseSitemapXml(xml: string): SitemapParseResult {
   return result;
 }
 
+/**
+ * Read the hreflang alternates of a <url> element
+ */
+function parseAlternates(content: string): SitemapAlternate[] {
+  const alternates: SitemapAlternate[] = [];
+
+  for (const [link] of content.matchAll(/<(?:xhtml:)?link\b[^>]*>/gi)) {
+    const attribute = (name: string) => link.match(new RegExp(`\\b${name}=["']([^"']*)["']`, 'i'))?.[1];
+    const hreflang = attribute('hreflang');
+    const href = attribute('href');
+    if (attribute('rel')?.toLowerCase() === 'alternate' && hreflang && href) {
+      alternates.push({ hreflang: hreflang.trim(), url: decodeXmlEntities(href.trim()) });
+    }
+  }
+
+  return alternates;
+}
+
+/**
+ * Locale of a sitemap entry: the hreflang the sitemap gives its own URL,
+ * otherwise the language segment or file name of the URL
+ */
+export function getEntryLocale(entry: SitemapEntry): string | undefined {
+  const self = entry.alternates?.find(alternate => alternate.url === entry.url);
+  return normalizeLocale(self?.hreflang) ?? detectUrlLocale(entry.url);
+}
+
 /**
  * Decode common XML entities
  */
@@ -125,15 +178,43 @@ function decodeXmlEntities(str: string): string {
     .replace(/&apos;/g, "'");
 }
 
+export interface SitemapOptions {
+  maxUrls?: number;
+  filterDocs?: boolean;
+  /** Leave out pages marked with another locale; they do not count towards `maxUrls` */
+  locale?: string;
+}
+
+export interface SitemapPages {
+  /** Page URLs, without those of other locales when a locale was given */
+  urls: string[];
+  /** Locales found in the page URLs and hreflang alternates, left-out pages included */
+  locales?: string[];
+}
+
 /**
  * Fetch and parse a sitemap, handling sitemap indexes recursively
  */
 export async function parseSitemap(
   sitemapUrl: string, 
-  options: { maxUrls?: number; filterDocs?: boolean } = {}
+  options: SitemapOptions = {}
 ): Promise<string[]> {
-  const { maxUrls = 100, filterDocs = true } = options;
+  return (await parseSitemapPages(sitemapUrl, options)).urls;
+}
+
+/**
+ * Fetch and parse a sitemap like parseSitemap, also collecting the locales
+ * the site offers
+ * Pages without a locale are always kept; selectLocale chooses between
+ * them and translated pages.
+ */
+export async function parseSitemapPages(
+  sitemapUrl: string,
+  options: SitemapOptions = {}
+): Promise<SitemapPages> {
+  const { maxUrls = 100, filterDocs = true, locale } = options;
   const allUrls: string[] = [];
+  const locales: Array<string | undefined> = [];
   const visited = new Set<string>();
   
   async function processSitemap(url: string, depth: number = 0): Promise<void> {
@@ -164,11 +245,14 @@ export async function parseSitemap(
         }
       } else {
         // Add URLs from this sitemap
-        for (const pageUrl of parsed.urls) {
-          if (allUrls.length >= maxUrls) break;
-          
-          if (!filterDocs || isDocumentationUrl(pageUrl)) {
-            allUrls.push(pageUrl);
+        for (const entry of parsed.entries) {
+          const entryLocale = getEntryLocale(entry);
+          locales.push(entryLocale, ...(entry.alternates ?? []).flatMap(alternate => normalizeLocale(alternate.hreflang) ?? []));
+
+          if (allUrls.length >= maxUrls) continue;
+          if (locale && entryLocale && !matchesLocale(entryLocale, locale)) continue;
+          if (!filterDocs || isDocumentationUrl(entry.url)) {
+            allUrls.push(entry.url);
           }
         }
       }
@@ -178,7 +262,7 @@ export async function parseSitemap(
   }
   
   await processSitemap(sitemapUrl);
-  return allUrls;
+  return { urls: allUrls, locales: collectLocales(locales) };
 }
 
 /**
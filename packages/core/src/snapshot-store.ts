@@ -0,0 +1,210 @@
+/**
+ * @llm-energy/core - Snapshot store
+ *
+ * Filesystem snapshot store shared by the web app and the MCP server, so both
+ * read the same environment variables and can point at the same directory.
+ * Node only: import it from `@llm-energy/core/snapshot-store`, not from the
+ * package root, which also runs in the browser.
+ *
+ * Configure with environment variables:
+ * - SNAPSHOT_STORE: "fs" (a directory of JSON files) or "sqlite" (one database file)
+ * - SNAPSHOT_PATH: directory or database file (default: .snapshots or .snapshots/snapshots.db)
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { ExtractionResult } from './types'
+import {
+  createSnapshot,
+  hashExtraction,
+  snapshotKey,
+  toSnapshotMeta,
+  type Snapshot,
+  type SnapshotMeta,
+  type SnapshotStore,
+} from './snapshot'
+import { sha256 } from './hash'
+import { slugify } from './parser'
+
+/**
+ * Directory used by the filesystem store when SNAPSHOT_PATH is not set
+ */
+export const DEFAULT_SNAPSHOT_DIR = '.snapshots'
+
+/**
+ * Database file used by the SQLite store when SNAPSHOT_PATH is not set
+ */
+export const DEFAULT_SNAPSHOT_DB = '.snapshots/snapshots.db'
+
+/**
+ * Snapshot store configured through the environment
+ */
+export interface SnapshotStoreConfig {
+  kind: 'fs' | 'sqlite'
+  /** Directory (fs) or database file (sqlite) */
+  location: string
+}
+
+/**
+ * Reads SNAPSHOT_STORE and SNAPSHOT_PATH
+ *
+ * @returns The configured store, or null when snapshots are disabled
+ */
+export function getSnapshotStoreConfig(env: Record<string, string | undefined> = process.env): SnapshotStoreConfig | null {
+  const location = env.SNAPSHOT_PATH
+  if (env.SNAPSHOT_STORE === 'fs') {
+    return { kind: 'fs', location: location || DEFAULT_SNAPSHOT_DIR }
+  }
+  if (env.SNAPSHOT_STORE === 'sqlite') {
+    return { kind: 'sqlite', location: location || DEFAULT_SNAPSHOT_DB }
+  }
+  return null
+}
+
+/**
+ * Directory name for a URL: readable slug plus a short hash so distinct URLs never collide
+ */
+function urlDirectoryName(key: string): string {
+  const readable = slugify(key.replace(/^https?:\/\//, '')).slice(0, 60)
+  return `${readable}-${sha256(key).slice(0, 12)}`
+}
+
+/**
+ * Writes a file via a temporary file so readers never see partial JSON
+ */
+async function writeJsonAtomic(file: string, data: unknown): Promise<void> {
+  const temp = `${file}.${process.pid}.tmp`
+  await fs.writeFile(temp, JSON.stringify(data), 'utf-8')
+  await fs.rename(temp, file)
+}
+
+/** Delay between attempts to take a URL directory's lock */
+const LOCK_RETRY_MS = 20
+
+/** Age after which a lock counts as left behind by a process that crashed while saving */
+const LOCK_STALE_MS = 30_000
+
+/**
+ * Runs `task` while holding the lock file of a URL directory
+ * The lock is created exclusively, so a web app and an MCP server sharing
+ * the directory take turns reading and rewriting index.json.
+ */
+async function withDirectoryLock<T>(directory: string, task: () => Promise<T>): Promise<T> {
+  const lock = path.join(directory, 'index.lock')
+  await fs.mkdir(directory, { recursive: true })
+
+  for (;;) {
+    try {
+      await fs.writeFile(lock, String(process.pid), { flag: 'wx' })
+      break
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+
+    const age = await fs.stat(lock).then(stats => Date.now() - stats.mtimeMs, () => 0)
+    if (age > LOCK_STALE_MS) {
+      await fs.rm(lock, { force: true })
+    } else {
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS))
+    }
+  }
+
+  try {
+    return await task()
+  } finally {
+    await fs.rm(lock, { force: true })
+  }
+}
+
+/**
+ * Snapshot store backed by a directory of JSON files
+ *
+ * Layout: `<root>/<url-slug>-<hash>/index.json` lists the versions of a URL
+ * (one directory per option variant) and `v<version>.json` holds each snapshot.
+ * Saves hold `index.lock` in that directory, so several processes can share the root.
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  private readonly root: string
+  /** Saves per URL and variant run one after another so versions are never reused */
+  private readonly pending = new Map<string, Promise<unknown>>()
+
+  constructor(root: string = DEFAULT_SNAPSHOT_DIR) {
+    this.root = root
+  }
+
+  private directory(key: string): string {
+    return path.join(this.root, urlDirectoryName(key))
+  }
+
+  private async readIndex(key: string): Promise<SnapshotMeta[]> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory(key), 'index.json'), 'utf-8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  async save(result: ExtractionResult, variant = ''): Promise<SnapshotMeta> {
+    const key = snapshotKey(result.url, variant)
+    const previous = this.pending.get(key) ?? Promise.resolve()
+    const directory = this.directory(key)
+    const saving = previous.catch(() => undefined).then(() => withDirectoryLock(directory, async () => {
+      const index = await this.readIndex(key)
+      const latest = index[index.length - 1]
+      if (latest && latest.hash === hashExtraction(result)) {
+        return latest
+      }
+
+      const snapshot = createSnapshot(result, (latest?.version ?? 0) + 1, new Date(), variant)
+      const meta = toSnapshotMeta(snapshot)
+
+      await writeJsonAtomic(path.join(directory, `v${snapshot.version}.json`), snapshot)
+      await writeJsonAtomic(path.join(directory, 'index.json'), [...index, meta])
+      return meta
+    }))
+
+    this.pending.set(key, saving)
+    try {
+      return await saving
+    } finally {
+      if (this.pending.get(key) === saving) this.pending.delete(key)
+    }
+  }
+
+  async list(url: string, variant = ''): Promise<SnapshotMeta[]> {
+    return this.readIndex(snapshotKey(url, variant))
+  }
+
+  async get(url: string, version?: number, variant = ''): Promise<Snapshot | null> {
+    const key = snapshotKey(url, variant)
+    const index = await this.readIndex(key)
+    const meta = version === undefined
+      ? index[index.length - 1]
+      : index.find(entry => entry.version === version)
+    if (!meta) return null
+
+    return JSON.parse(await fs.readFile(path.join(this.directory(key), `v${meta.version}.json`), 'utf-8'))
+  }
+
+  async listUrls(): Promise<string[]> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(this.root)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    const urls = new Set<string>()
+    for (const entry of entries) {
+      try {
+        const index: SnapshotMeta[] = JSON.parse(await fs.readFile(path.join(this.root, entry, 'index.json'), 'utf-8'))
+        if (index.length > 0) urls.add(index[0].url)
+      } catch {
+        // Not a snapshot directory
+      }
+    }
+    return Array.from(urls).sort()
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @llm-energy/core - Extraction snapshots
+ *
+ * Types and helpers shared by the snapshot stores of the web app and the MCP
+ * server. A snapshot is a saved ExtractionResult with a version number per
+ * URL and option variant (see getExtractionVariant) and a content hash, so an
+ * agent run can be pinned to the exact documentation it saw and replayed later.
+ */
+
+import type { ExtractionResult } from './types'
+import { normalizeTargetUrl } from './extractor'
+import { sha256 } from './hash'
+
+/**
+ * Everything about a snapshot except the result itself
+ */
+export interface SnapshotMeta {
+  /** Normalized URL the extraction was requested for; versions are counted per URL and variant */
+  url: string
+  /** Non-default extraction options, e.g. `expand&tokenizer=o200k`; absent for the defaults */
+  variant?: string
+  /** 1 for the first snapshot of a URL, then counting up */
+  version: number
+  /** SHA-256 over the filenames and content of the documents */
+  hash: string
+  /** Actual URL the content was fetched from */
+  sourceUrl: string
+  /** When the snapshot was saved (ISO 8601) */
+  createdAt: string
+  documentCount: number
+  totalTokens: number
+}
+
+/**
+ * A saved extraction
+ */
+export interface Snapshot extends SnapshotMeta {
+  result: ExtractionResult
+}
+
+/**
+ * Persistent, versioned storage for extraction results
+ * Each option variant of a URL has its own versions; `variant` defaults to
+ * the default options ('').
+ */
+export interface SnapshotStore {
+  /**
+   * Saves a result as the next version of its URL and variant. When the content
+   * hash matches the latest version, that version is returned and nothing is written.
+   */
+  save(result: ExtractionResult, variant?: string): Promise<SnapshotMeta>
+  /** Versions of a URL and variant, oldest first */
+  list(url: string, variant?: string): Promise<SnapshotMeta[]>
+  /** One version of a URL and variant, or the latest when no version is given; null when missing */
+  get(url: string, version?: number, variant?: string): Promise<Snapshot | null>
+  /** URLs that have at least one snapshot, in any variant */
+  listUrls(): Promise<string[]>
+}
+
+/**
+ * Normalizes a URL so `docs.example.com` and `https://docs.example.com/`
+ * share their snapshots; a variant is appended after a space, as in cache keys
+ *
+ * @example
+ * snapshotKey('Docs.Example.com/') // 'https://docs.example.com'
+ * snapshotKey('docs.example.com', 'expand') // 'https://docs.example.com expand'
+ */
+export function snapshotKey(url: string, variant = ''): string {
+  const parsed = new URL(normalizeTargetUrl(url))
+  const pathname = parsed.pathname.replace(/\/+$/, '')
+  const key = `${parsed.protocol}//${parsed.host.toLowerCase()}${pathname}`
+  return variant ? `${key} ${variant}` : key
+}
+
+/**
+ * Hashes the documents of a result; generated files and stats are left out
+ * so re-extracting unchanged docs gives the same hash
+ */
+export function hashExtraction(result: Pick<ExtractionResult, 'documents'>): string {
+  return sha256(result.documents.map(doc => `${doc.filename}\n${doc.content}`).join('\u0000'))
+}
+
+/**
+ * Builds the snapshot a store writes for a result
+ *
+ * @param result - Extraction to save
+ * @param version - Version number within the result's URL and variant
+ * @param createdAt - Save time (default: now)
+ * @param variant - Options the result was extracted with (default: the defaults)
+ *
+ * @example
+ * const latest = (await store.list(result.url)).at(-1)
+ * const snapshot = createSnapshot(result, (latest?.version ?? 0) + 1)
+ */
+export function createSnapshot(result: ExtractionResult, version: number, createdAt = new Date(), variant = ''): Snapshot {
+  return {
+    url: snapshotKey(result.url),
+    ...(variant ? { variant } : {}),
+    version,
+    hash: hashExtraction(result),
+    sourceUrl: result.sourceUrl,
+    createdAt: createdAt.toISOString(),
+    documentCount: result.stats.documentCount,
+    totalTokens: result.stats.totalTokens,
+    result,
+  }
+}
+
+/**
+ * Strips the result from a snapshot
+ */
+export function toSnapshotMeta(snapshot: Snapshot): SnapshotMeta {
+  return {
+    url: snapshot.url,
+    ...(snapshot.variant ? { variant: snapshot.variant } : {}),
+    version: snapshot.version,
+    hash: snapshot.hash,
+    sourceUrl: snapshot.sourceUrl,
+    createdAt: snapshot.createdAt,
+    documentCount: snapshot.documentCount,
+    totalTokens: snapshot.totalTokens,
+  }
+}
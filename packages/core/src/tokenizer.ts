@@ -0,0 +1,464 @@
+/**
+ * @llm-energy/core - Tokenizer
+ *
+ * Pure TypeScript byte-pair-encoding tokenizer with pluggable vocabularies.
+ * Text is split with the vocabulary's pre-tokenizer pattern and each piece is
+ * encoded with BPE merge ranks. The published cl100k and o200k rank tables
+ * are loaded on demand with `loadPublishedRanks` (extractions do this for
+ * their tokenizer) and give exact counts. Until then, and always for the
+ * Claude approximation whose tokenizer is not public, pieces are estimated
+ * from a per-vocabulary profile calibrated against the real encoders.
+ */
+
+/**
+ * Names of the built-in vocabularies
+ */
+export type TokenizerName = 'cl100k' | 'o200k' | 'claude'
+
+/**
+ * Tuning used to estimate pieces when a vocabulary has no merge ranks
+ */
+export interface EstimationProfile {
+  /** ASCII words up to this many letters are usually a single token */
+  singleTokenWordLength: number
+  /** Letters per additional token for longer ASCII words */
+  charsPerWordToken: number
+  /** Tokens per CJK character (or other non-ASCII symbol, such as emoji) */
+  tokensPerCjkChar: number
+  /** Letters per token for other non-ASCII scripts (Cyrillic, Greek, accented Latin...) */
+  charsPerScriptToken: number
+  /** ASCII punctuation characters per token */
+  charsPerSymbolToken: number
+}
+
+/**
+ * A tokenizer vocabulary
+ */
+export interface Vocabulary {
+  name: string
+  /** Pre-tokenizer: text is split into these pieces before BPE (needs the `g` and `u` flags) */
+  pattern: RegExp
+  /** Merge ranks keyed by the token's UTF-8 bytes as a latin1 string; enables exact BPE */
+  ranks?: ReadonlyMap<string, number>
+  /** Estimation used for pieces when no ranks are loaded */
+  profile: EstimationProfile
+}
+
+/**
+ * Tokenizer used when none is requested
+ */
+export const DEFAULT_TOKENIZER: TokenizerName = 'cl100k'
+
+const CONTRACTIONS = "'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])"
+
+/**
+ * cl100k_base pre-tokenizer (GPT-4, GPT-3.5)
+ */
+const CL100K_PATTERN = new RegExp(
+  `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+  'gu'
+)
+
+/**
+ * o200k_base pre-tokenizer (GPT-4o and later); also splits camelCase words
+ */
+const O200K_PATTERN = new RegExp([
+  `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+  `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+  `\\p{N}{1,3}`,
+  ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+  `\\s*[\\r\\n]+`,
+  `\\s+(?!\\S)`,
+  `\\s+`,
+].join('|'), 'gu')
+
+const vocabularies = new Map<string, Vocabulary>([
+  ['cl100k', {
+    name: 'cl100k',
+    pattern: CL100K_PATTERN,
+    profile: {
+      singleTokenWordLength: 7,
+      charsPerWordToken: 3.5,
+      tokensPerCjkChar: 1.2,
+      charsPerScriptToken: 2.2,
+      charsPerSymbolToken: 2,
+    },
+  }],
+  ['o200k', {
+    name: 'o200k',
+    pattern: O200K_PATTERN,
+    profile: {
+      singleTokenWordLength: 8,
+      charsPerWordToken: 4,
+      tokensPerCjkChar: 0.75,
+      charsPerScriptToken: 4,
+      charsPerSymbolToken: 2.5,
+    },
+  }],
+  // Claude's tokenizer is not public; this profile approximates its counts,
+  // which run higher than cl100k, especially for code
+  ['claude', {
+    name: 'claude',
+    pattern: CL100K_PATTERN,
+    profile: {
+      singleTokenWordLength: 6,
+      charsPerWordToken: 3.2,
+      tokensPerCjkChar: 1.3,
+      charsPerScriptToken: 2,
+      charsPerSymbolToken: 1.6,
+    },
+  }],
+])
+
+/**
+ * Adds or replaces a vocabulary
+ *
+ * @example
+ * registerVocabulary({ name: 'my-model', pattern: /\S+|\s+/gu, profile: getVocabulary('cl100k').profile })
+ */
+export function registerVocabulary(vocabulary: Vocabulary): void {
+  if (!vocabulary.pattern.global || !vocabulary.pattern.unicode) {
+    throw new Error(`Vocabulary "${vocabulary.name}" pattern needs the g and u flags`)
+  }
+  vocabularies.set(vocabulary.name, vocabulary)
+}
+
+/**
+ * Returns a registered vocabulary
+ * @throws Error when no vocabulary with that name exists
+ */
+export function getVocabulary(name: string): Vocabulary {
+  const vocabulary = vocabularies.get(name)
+  if (!vocabulary) {
+    throw new Error(`Unknown tokenizer vocabulary "${name}"`)
+  }
+  return vocabulary
+}
+
+/**
+ * Names of all registered vocabularies
+ */
+export function listVocabularies(): string[] {
+  return Array.from(vocabularies.keys())
+}
+
+/**
+ * Maps a vocabulary name or model name to a registered vocabulary
+ * Unknown values fall back to the default tokenizer.
+ *
+ * @example
+ * resolveTokenizer('gpt-4o-mini') // 'o200k'
+ * resolveTokenizer('claude-sonnet-4') // 'claude'
+ * resolveTokenizer('gpt-4') // 'cl100k'
+ */
+export function resolveTokenizer(modelOrName?: string): string {
+  if (!modelOrName) return DEFAULT_TOKENIZER
+
+  const name = modelOrName.trim().toLowerCase()
+  if (vocabularies.has(name)) return name
+
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o\d)/.test(name)) return 'o200k'
+  if (/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada)/.test(name)) return 'cl100k'
+  if (name.startsWith('claude')) return 'claude'
+
+  return DEFAULT_TOKENIZER
+}
+
+/**
+ * Encodes a string as UTF-8, one latin1 character per byte
+ */
+export function toUtf8Bytes(text: string): string {
+  let bytes = ''
+  for (const char of text) {
+    const code = char.codePointAt(0)!
+    if (code < 0x80) {
+      bytes += char
+    } else if (code < 0x800) {
+      bytes += String.fromCharCode(0xc0 | (code >> 6), 0x80 | (code & 0x3f))
+    } else if (code < 0x10000) {
+      bytes += String.fromCharCode(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f))
+    } else {
+      bytes += String.fromCharCode(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      )
+    }
+  }
+  return bytes
+}
+
+/**
+ * Decodes base64 into a latin1 byte string
+ */
+function fromBase64(input: string): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+  const clean = input.replace(/[^A-Za-z0-9+/]/g, '')
+  let bytes = ''
+  let buffer = 0
+  let bits = 0
+
+  for (const char of clean) {
+    buffer = (buffer << 6) | alphabet.indexOf(char)
+    bits += 6
+    if (bits >= 8) {
+      bits -= 8
+      bytes += String.fromCharCode((buffer >> bits) & 0xff)
+    }
+  }
+
+  return bytes
+}
+
+/**
+ * Parses a tiktoken rank file (`<base64 token> <rank>` per line)
+ *
+ * @param text - Contents of e.g. cl100k_base.tiktoken
+ * @returns Merge ranks keyed by the token's bytes
+ */
+export function parseTiktokenRanks(text: string): Map<string, number> {
+  const ranks = new Map<string, number>()
+  for (const line of text.split('\n')) {
+    const [token, rank] = line.trim().split(/\s+/)
+    if (!token || rank === undefined) continue
+    ranks.set(fromBase64(token), Number(rank))
+  }
+  return ranks
+}
+
+/**
+ * Attaches merge ranks to a registered vocabulary, switching it to exact BPE
+ *
+ * @param name - Vocabulary name (e.g. 'cl100k')
+ * @param ranks - Parsed ranks, or the text of a tiktoken rank file
+ */
+export function loadVocabularyRanks(name: string, ranks: ReadonlyMap<string, number> | string): void {
+  const vocabulary = getVocabulary(name)
+  vocabularies.set(name, {
+    ...vocabulary,
+    ranks: typeof ranks === 'string' ? parseTiktokenRanks(ranks) : ranks,
+  })
+}
+
+/**
+ * Parses the compressed rank format of js-tiktoken's published tables
+ * Each line is `<prefix> <first rank> <base64 token>...`, with consecutive ranks.
+ *
+ * @param text - The `bpe_ranks` string of e.g. js-tiktoken/ranks/cl100k_base
+ * @returns Merge ranks keyed by the token's bytes
+ */
+export function parseCompressedRanks(text: string): Map<string, number> {
+  const ranks = new Map<string, number>()
+  for (const line of text.split('\n')) {
+    const [, offset, ...tokens] = line.split(' ')
+    if (offset === undefined) continue
+    const first = Number.parseInt(offset, 10)
+    tokens.forEach((token, i) => ranks.set(fromBase64(token), first + i))
+  }
+  return ranks
+}
+
+interface PublishedRanks {
+  default: { bpe_ranks: string }
+}
+
+/**
+ * Published rank tables of the built-in vocabularies, imported on first use
+ * so that they are only bundled where they are loaded
+ */
+const publishedRanks: Record<string, () => Promise<PublishedRanks>> = {
+  cl100k: () => import('js-tiktoken/ranks/cl100k_base'),
+  o200k: () => import('js-tiktoken/ranks/o200k_base'),
+}
+
+const loadingRanks = new Map<string, Promise<boolean>>()
+
+/**
+ * Loads the published rank table of a built-in vocabulary, switching it to exact BPE
+ * Loading happens once per vocabulary; later calls share the same promise.
+ *
+ * @param tokenizer - Vocabulary name or model name (default: cl100k)
+ * @returns Whether the vocabulary now counts exactly (always false for claude)
+ *
+ * @example
+ * await loadPublishedRanks('gpt-4o')
+ * countTokens('Hello, world!', 'gpt-4o') // 4, as tiktoken's o200k_base
+ */
+export function loadPublishedRanks(tokenizer?: string): Promise<boolean> {
+  const name = resolveTokenizer(tokenizer)
+  if (getVocabulary(name).ranks) return Promise.resolve(true)
+
+  const load = publishedRanks[name]
+  if (!load) return Promise.resolve(false)
+
+  let loading = loadingRanks.get(name)
+  if (!loading) {
+    loading = load()
+      .then(module => {
+        loadVocabularyRanks(name, parseCompressedRanks(module.default.bpe_ranks))
+        return true
+      })
+      .catch(() => {
+        // Keep estimating; a later call may retry
+        loadingRanks.delete(name)
+        return false
+      })
+    loadingRanks.set(name, loading)
+  }
+  return loading
+}
+
+/**
+ * Byte pair encoding of a single piece: repeatedly merges the adjacent pair
+ * with the lowest rank until no pair is in the vocabulary
+ *
+ * @returns Token ranks; bytes missing from the vocabulary are -1
+ */
+function bytePairEncode(bytes: string, ranks: ReadonlyMap<string, number>): number[] {
+  const whole = ranks.get(bytes)
+  if (whole !== undefined) return [whole]
+
+  const parts = bytes.split('')
+  while (parts.length > 1) {
+    let minRank = Infinity
+    let minIndex = -1
+    for (let i = 0; i < parts.length - 1; i++) {
+      const rank = ranks.get(parts[i] + parts[i + 1])
+      if (rank !== undefined && rank < minRank) {
+        minRank = rank
+        minIndex = i
+      }
+    }
+    if (minIndex < 0) break
+    parts.splice(minIndex, 2, parts[minIndex] + parts[minIndex + 1])
+  }
+
+  return parts.map(part => ranks.get(part) ?? -1)
+}
+
+const CJK_PATTERN = /[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]/
+
+/**
+ * Estimated token count of a run of letters
+ */
+function estimateLetters(letters: string, profile: EstimationProfile): number {
+  let tokens = 0
+
+  // ASCII words, split at camelCase boundaries as BPE tends to do
+  for (const word of letters.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[A-Za-z]+/g) ?? []) {
+    tokens += word.length <= profile.singleTokenWordLength
+      ? 1
+      : 1 + (word.length - profile.singleTokenWordLength) / profile.charsPerWordToken
+  }
+
+  let otherLetters = 0
+  for (const char of letters.replace(/[A-Za-z]+/g, '')) {
+    if (CJK_PATTERN.test(char)) {
+      tokens += profile.tokensPerCjkChar
+    } else {
+      otherLetters++
+    }
+  }
+  if (otherLetters > 0) {
+    tokens += Math.max(1, otherLetters / profile.charsPerScriptToken)
+  }
+
+  return tokens
+}
+
+/**
+ * Estimated token count of one pre-tokenized piece
+ */
+function estimatePiece(piece: string, profile: EstimationProfile): number {
+  // Whitespace runs and newlines: long indentation runs still merge well
+  if (/^\s+$/.test(piece)) {
+    return Math.max(1, piece.length / 8)
+  }
+
+  // Numbers are split into groups of at most three digits by the pattern
+  if (/^\p{N}+$/u.test(piece)) {
+    return 1
+  }
+
+  // Contractions ('s, 're, ...)
+  if (/^'[a-z]{1,2}$/i.test(piece)) {
+    return 1
+  }
+
+  const body = piece.replace(/^ /, '').replace(/[\r\n]+$/, '')
+  let tokens = 0
+  let symbols = 0
+
+  for (const segment of body.match(/\p{L}[\p{L}\p{M}]*|[^\p{L}]/gu) ?? []) {
+    if (/^\p{L}/u.test(segment)) {
+      tokens += estimateLetters(segment, profile)
+    } else if (segment.charCodeAt(0) < 0x80) {
+      symbols++
+    } else if (!/\s/.test(segment)) {
+      tokens += profile.tokensPerCjkChar
+    }
+  }
+
+  if (symbols > 0) {
+    // A single leading punctuation character usually merges into the word
+    tokens += tokens > 0 && symbols === 1
+      ? 0.5
+      : Math.max(1, symbols / profile.charsPerSymbolToken)
+  }
+
+  return Math.max(tokens, 1)
+}
+
+/**
+ * Splits text into pieces with a vocabulary's pre-tokenizer
+ */
+function pretokenize(text: string, vocabulary: Vocabulary): string[] {
+  return text.match(vocabulary.pattern) ?? []
+}
+
+/**
+ * Encodes text into token ids
+ * Only available for vocabularies with loaded ranks; special tokens are
+ * treated as ordinary text.
+ *
+ * @param text - Text to encode
+ * @param tokenizer - Vocabulary name or model name (default: cl100k)
+ * @throws Error when the vocabulary has no ranks loaded
+ */
+export function encode(text: string, tokenizer?: string): number[] {
+  const vocabulary = getVocabulary(resolveTokenizer(tokenizer))
+  const { ranks } = vocabulary
+  if (!ranks) {
+    throw new Error(`Vocabulary "${vocabulary.name}" has no ranks loaded; use loadVocabularyRanks first`)
+  }
+
+  return pretokenize(text, vocabulary).flatMap(piece => bytePairEncode(toUtf8Bytes(piece), ranks))
+}
+
+/**
+ * Counts the tokens in a text for a vocabulary or model
+ * Exact when the vocabulary has ranks loaded, otherwise estimated per piece.
+ *
+ * @param text - Text to count
+ * @param tokenizer - Vocabulary name or model name (default: cl100k)
+ * @returns Number of tokens
+ *
+ * @example
+ * countTokens('Hello world') // 2
+ * countTokens(markdown, 'claude-sonnet-4')
+ */
+export function countTokens(text: string, tokenizer?: string): number {
+  if (!text) return 0
+
+  const vocabulary = getVocabulary(resolveTokenizer(tokenizer))
+  const pieces = pretokenize(text, vocabulary)
+  const { ranks, profile } = vocabulary
+
+  if (ranks) {
+    return pieces.reduce((sum, piece) => sum + bytePairEncode(toUtf8Bytes(piece), ranks).length, 0)
+  }
+
+  const estimate = pieces.reduce((sum, piece) => sum + estimatePiece(piece, profile), 0)
+  return Math.max(1, Math.round(estimate))
+}
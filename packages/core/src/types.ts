@@ -16,6 +16,14 @@ export interface Document {
   content: string
   /** Estimated token count (~4 chars per token) */
   tokens: number
+  /** URL the section was fetched from, when it differs from the main source */
+  sourceUrl?: string
+  /** True for pages listed in an llms.txt `## Optional` section */
+  optional?: boolean
+  /** Every URL the content was found at, when near-duplicate documents were collapsed into this one */
+  sourceUrls?: string[]
+  /** Filename of the document this one nearly duplicates; only set when duplicates are kept */
+  duplicateOf?: string
 }
 
 /**
@@ -30,6 +38,56 @@ export interface ParsedSection {
   content: string
 }
 
+/**
+ * A linked llms.txt file that was fetched alongside the main source
+ */
+export interface LinkedSource {
+  url: string
+  name: string
+  description?: string
+  documentCount?: number
+  tokens?: number
+  /** URL of the llms.txt file that linked to this one (the main source for depth 1) */
+  parentUrl?: string
+  /** Number of links followed from the main source to reach this file */
+  depth?: number
+}
+
+/**
+ * A linked source with the sources it linked to, for tree views
+ */
+export interface LinkedSourceNode {
+  source: LinkedSource
+  children: LinkedSourceNode[]
+}
+
+/**
+ * Patterns deciding which documents are kept when a token budget is tight
+ *
+ * Patterns are matched against a document's title, filename and source URL.
+ * Earlier patterns in `first` win over later ones; documents matching a
+ * `last` pattern (or flagged optional) are dropped before everything else,
+ * later `last` patterns first.
+ */
+export interface DocumentPriorities {
+  first: RegExp[]
+  last: RegExp[]
+}
+
+/**
+ * How the full document was fitted into a token budget
+ */
+export interface TokenBudget {
+  /** Requested maximum tokens for the full document */
+  maxTokens: number
+  /** Tokens in the budgeted full document */
+  usedTokens: number
+  /** Number of documents included in the full document */
+  includedCount: number
+  /** Documents left out of the full document, most important first */
+  dropped: Array<Pick<Document, 'filename' | 'title' | 'tokens' | 'sourceUrl'>>
+}
+
 /**
  * Result of extracting and parsing llms.txt content
  */
@@ -38,6 +96,8 @@ export interface ExtractionResult {
   url: string
   /** Actual URL that was fetched (llms.txt or llms-full.txt) */
   sourceUrl: string
+  /** Name of the extraction strategy that produced the result */
+  strategy?: string
   /** Raw content from the llms.txt file */
   rawContent: string
   /** Array of parsed document sections */
@@ -46,6 +106,35 @@ export interface ExtractionResult {
   fullDocument: Document
   /** Generated agent guide with usage instructions */
   agentGuide: Document
+  /** Linked llms.txt files that were fetched and merged into the documents */
+  linkedSources?: LinkedSource[]
+  /** Present when the full document was packed into `maxTokens` */
+  budget?: TokenBudget
+  /** Retrieval chunks of every document, when requested with the `chunks` option */
+  chunks?: Chunk[]
+  /** Index of the fenced code blocks in the documents; absent when there are none */
+  codeExamples?: CodeExampleIndex
+  /**
+   * ETag / Last-Modified of `sourceUrl` when the result was built from that
+   * file alone, so a cached copy can be revalidated with a conditional request
+   */
+  validators?: HttpValidators
+  /** Pages a crawling strategy did not fetch, e.g. because robots.txt disallows them */
+  skipped?: SkippedUrl[]
+  /** Pages a crawling strategy tried but could not fetch; the documents are a partial result */
+  failed?: FailedUrl[]
+  /** Docs platform of a crawled site, with the versions and translations it offers */
+  platform?: DocsPlatform
+  /** Text that recurred across the crawled pages and was stripped from every document */
+  boilerplate?: BoilerplateReport
+  /**
+   * Locale the documents were extracted in, e.g. 'en' or 'ja'
+   * Falls back to the untranslated pages' locale when the site has no
+   * translation into the requested one; unset when the strategy cannot tell.
+   */
+  locale?: string
+  /** Locales the site offers, found in its URLs, hreflang alternates and page languages */
+  locales?: string[]
   /** Extraction statistics */
   stats: {
     /** Total tokens across all documents */
@@ -54,9 +143,402 @@ export interface ExtractionResult {
     documentCount: number
     /** Time taken to process in milliseconds */
     processingTime: number
+    /** Number of linked llms.txt files merged into the result */
+    linkedSourceCount?: number
+    /** Vocabulary the token counts were computed with (e.g. 'cl100k') */
+    tokenizer?: string
+    /** Near-duplicate documents collapsed into another document */
+    duplicatesRemoved?: number
+    /** Tokens of the collapsed documents, no longer counted in `totalTokens` */
+    duplicateTokensRemoved?: number
   }
 }
 
+/**
+ * A retrieval-sized piece of a document
+ */
+export interface Chunk {
+  /** Markdown content; never cuts a fenced code block */
+  content: string
+  tokens: number
+  /** Headings above the chunk, outermost first (e.g. ['Auth', 'OAuth', 'Refresh tokens']) */
+  headingPath: string[]
+  /** URL of the page or llms.txt file the chunk came from */
+  sourceUrl: string
+  /** Filename of the document the chunk belongs to */
+  filename?: string
+  /** Position of the chunk within its document, starting at 0 */
+  index: number
+  /** SHA-256 hex digest of the content */
+  hash: string
+}
+
+/**
+ * Options for splitting documents into chunks
+ */
+export interface ChunkOptions {
+  /** Maximum tokens per chunk; a larger code block becomes a chunk of its own (default: 512) */
+  maxTokens?: number
+  /** Tokens repeated from the end of the previous chunk, at most half of maxTokens (default: 64) */
+  overlapTokens?: number
+  /** Source URL recorded on chunks of documents without their own */
+  sourceUrl?: string
+  /** Vocabulary or model name for token counts */
+  tokenizer?: string
+}
+
+/**
+ * A fenced code block found in the extracted documents
+ */
+export interface CodeExample {
+  /** Normalized language (e.g. 'typescript', 'bash'); 'text' when unknown */
+  language: string
+  /** True when the block had no language tag and the language was guessed from the code */
+  inferred: boolean
+  /** Code without the fence lines */
+  code: string
+  /** Nearest heading above the block */
+  heading?: string
+  /** Title of the document the block came from */
+  topic: string
+  /** Filename of the document the block came from */
+  filename: string
+  /** URL of the page or llms.txt file the block came from */
+  sourceUrl: string
+}
+
+/**
+ * Code examples of one language, grouped by the document they came from
+ */
+export interface CodeExampleGroup {
+  language: string
+  count: number
+  topics: Array<{ topic: string; examples: CodeExample[] }>
+}
+
+/**
+ * Every code example of an extraction, as a markdown document and as data
+ */
+export interface CodeExampleIndex {
+  /** CODE-EXAMPLES.md */
+  document: Document
+  /** Examples grouped by language (most examples first), then by topic */
+  groups: CodeExampleGroup[]
+  /** Number of examples across all groups */
+  count: number
+}
+
+/**
+ * Progress status reported while an extraction runs
+ */
+export type ExtractionStatus = 'analyzing' | 'fetching' | 'processing' | 'complete' | 'error'
+
+/**
+ * Progress update emitted by the extraction engine
+ */
+export interface ExtractionProgress {
+  status: ExtractionStatus
+  message: string
+  /** Overall progress from 0 to 100 */
+  progress: number
+  currentStep?: string
+  totalSteps?: number
+  completedSteps?: number
+  error?: string
+}
+
+/**
+ * Shared state handed to every extraction strategy
+ */
+export interface StrategyContext {
+  /** Normalized URL being extracted (always has a protocol) */
+  url: string
+  /** Protocol and host of the URL (e.g., "https://docs.example.com") */
+  baseUrl: string
+  /** Registrable domain used for subdomain probing (e.g., "example.com") */
+  rootDomain: string
+  /** User-Agent header sent with every request */
+  userAgent: string
+  /** Timeout applied to each individual request in milliseconds */
+  timeoutMs: number
+  /** Maximum number of pages a crawling strategy may fetch */
+  maxPages: number
+  /** How many links deep a crawling strategy follows from the start page */
+  maxCrawlDepth: number
+  /** Whether linked llms.txt files should be fetched and merged */
+  followLinks: boolean
+  /** How many levels of linked llms.txt files to follow */
+  maxLinkDepth: number
+  /** Maximum number of linked llms.txt files to fetch in total */
+  maxLinkedFiles: number
+  /** Whether the pages listed in an llms.txt index should be fetched as documents */
+  expandLinks: boolean
+  /** Maximum number of requests made at once when following links or crawling pages */
+  concurrency: number
+  /** Vocabulary used for token counts; pass it to estimateTokens */
+  tokenizer: string
+  /** Normalized locale to extract (e.g. 'en', 'pt-br'); pages and linked files in other locales are left out */
+  locale: string
+  /** Aborts in-flight requests when the caller cancels the extraction */
+  signal?: AbortSignal
+  /** Progress callback forwarded from the caller */
+  onProgress?: (progress: ExtractionProgress) => void
+  /** Receives each page a crawling strategy scrapes, as soon as it arrives */
+  onDocument?: (document: Document) => void
+}
+
+/**
+ * Output of a strategy that was able to extract content
+ */
+export interface StrategyResult {
+  /** URL the content was actually read from */
+  sourceUrl: string
+  /** Raw content of the main source */
+  rawContent: string
+  /** Parsed document sections, including those from linked sources */
+  documents: Document[]
+  /** Linked llms.txt files that contributed documents */
+  linkedSources?: LinkedSource[]
+  /** Validators of the main source; only set when the documents depend on nothing else */
+  validators?: HttpValidators
+  /** Pages the strategy chose not to fetch */
+  skipped?: SkippedUrl[]
+  /** Pages that could not be fetched */
+  failed?: FailedUrl[]
+  /** Docs platform the crawled pages were built with */
+  platform?: DocsPlatform
+  /** Boilerplate stripped from the crawled pages */
+  boilerplate?: BoilerplateReport
+  /** Locale the documents are in, which differs from the requested one when the site has no translation */
+  locale?: string
+  /** Locales found while extracting, including those left out */
+  locales?: string[]
+}
+
+/**
+ * A version or translation of a docs site, read from its version or language switcher
+ */
+export interface SiteVariant {
+  /** Label shown in the switcher, e.g. 'v2.1' or 'Français' */
+  label: string
+  url: string
+  /** Language tag of a translation, when the switcher declares one */
+  lang?: string
+  /** True for the variant the extracted pages belong to */
+  current?: boolean
+}
+
+/**
+ * Documentation platform (Docusaurus, MkDocs, ...) a site was built with
+ */
+export interface DocsPlatform {
+  /** Platform name, e.g. 'docusaurus' or 'mkdocs' */
+  name: string
+  /** Versions offered by the site's version switcher */
+  versions?: SiteVariant[]
+  /** Translations offered by the site's language switcher */
+  locales?: SiteVariant[]
+}
+
+/**
+ * Text removed from the pages of a crawl because it recurs on most of them
+ */
+export interface BoilerplateBlock {
+  /** The removed text; long blocks are truncated */
+  text: string
+  /** `block` for a whole paragraph, list or table; `line` for a single list item or link */
+  kind: 'block' | 'line'
+  /** Number of pages it was removed from */
+  pageCount: number
+}
+
+/**
+ * Cookie banners, feedback widgets, footers and other boilerplate stripped from crawled pages
+ */
+export interface BoilerplateReport {
+  /** Pages that were compared */
+  pageCount: number
+  /** What was removed, most widespread first */
+  removed: BoilerplateBlock[]
+  /** Characters removed across all pages */
+  removedCharacters: number
+}
+
+/**
+ * Why a crawler did not fetch a page
+ * - `robots-disallowed`: a robots.txt Disallow rule matches our user agent
+ * - `robots-unavailable`: robots.txt could not be fetched (5xx, 429 or network
+ *   error), which RFC 9309 treats as a full disallow
+ * - `invalid-url`: the URL could not be parsed
+ */
+export type SkipReason = 'robots-disallowed' | 'robots-unavailable' | 'invalid-url'
+
+/**
+ * A page that was left out of an extraction, with the reason
+ */
+export interface SkippedUrl {
+  url: string
+  reason: SkipReason
+}
+
+/**
+ * Why fetching a page failed
+ * - `HTTP_ERROR`: non-2xx response (5xx after all retries)
+ * - `RATE_LIMITED`: still 429 after all retries, or Retry-After asked for too long a wait
+ * - `TIMEOUT`: the page took longer than the per-page timeout
+ * - `NETWORK_ERROR`: DNS, connection or TLS failure
+ * - `UNKNOWN`: anything else, e.g. the page could not be converted
+ */
+export type FetchErrorCode = 'HTTP_ERROR' | 'RATE_LIMITED' | 'TIMEOUT' | 'NETWORK_ERROR' | 'UNKNOWN'
+
+/**
+ * A page that could not be fetched, so the extraction is only a partial result
+ */
+export interface FailedUrl {
+  url: string
+  code: FetchErrorCode
+  /** HTTP status of the last attempt, when there was a response */
+  status?: number
+  message: string
+  /** Number of requests made, including retries */
+  attempts: number
+}
+
+/**
+ * HTTP cache validators of a fetched file, used for conditional requests
+ */
+export interface HttpValidators {
+  /** ETag response header; sent back as If-None-Match */
+  etag?: string
+  /** Last-Modified response header; sent back as If-Modified-Since */
+  lastModified?: string
+}
+
+/**
+ * A pluggable way of turning a URL into documents
+ *
+ * Strategies are tried in order; the first one returning a result with at
+ * least one document wins. Returning null means "not applicable here".
+ */
+export interface ExtractionStrategy {
+  /** Short identifier reported as ExtractionResult.strategy */
+  name: string
+  extract(context: StrategyContext): Promise<StrategyResult | null>
+}
+
+/**
+ * Options accepted by the extraction engine
+ */
+export interface ExtractOptions {
+  /** Strategies to try, in order (default: the llms.txt strategy) */
+  strategies?: ExtractionStrategy[]
+  /** User-Agent header sent with every request */
+  userAgent?: string
+  /** Timeout per request in milliseconds (default: 30000) */
+  timeoutMs?: number
+  /** Maximum pages for crawling strategies (default: 50) */
+  maxPages?: number
+  /** Link depth for crawling strategies that follow links from the start page (default: 3) */
+  maxCrawlDepth?: number
+  /** Fetch and merge linked llms.txt files (default: true) */
+  followLinks?: boolean
+  /** Levels of linked llms.txt files to follow, e.g. hub → product → sub-product (default: 3) */
+  maxLinkDepth?: number
+  /** Maximum linked llms.txt files fetched per extraction (default: 25) */
+  maxLinkedFiles?: number
+  /**
+   * Fetch every page linked from an llms.txt index and return each one as its
+   * own document, capped at `maxPages` (default: false). Not used when the
+   * site has an llms-full.txt.
+   */
+  expandLinks?: boolean
+  /** Maximum concurrent requests when following links (default: 5) */
+  concurrency?: number
+  /** Vocabulary or model name for token counts, e.g. 'o200k' or 'claude-sonnet-4' (default: 'cl100k') */
+  tokenizer?: string
+  /**
+   * Token budget for the full document. Documents are ranked by `priorities`
+   * and the least important ones are left out of llms-full.md (they are
+   * still returned as individual documents).
+   */
+  maxTokens?: number
+  /** Ranking used with `maxTokens` (default: DEFAULT_DOCUMENT_PRIORITIES) */
+  priorities?: DocumentPriorities
+  /**
+   * Keep near-duplicate documents (e.g. a section repeated in a linked
+   * llms-full.txt) instead of collapsing them; they are flagged with
+   * `duplicateOf` (default: false)
+   */
+  keepDuplicates?: boolean
+  /**
+   * Language tag of the translation to extract, e.g. 'ja' or 'zh-cn'
+   * (default: 'en'). Pages and linked llms.txt files marked with another
+   * locale are left out; unmarked ones count as English.
+   */
+  locale?: string
+  /** Split every document into retrieval chunks; `true` uses the default sizes */
+  chunks?: boolean | Omit<ChunkOptions, 'sourceUrl' | 'tokenizer'>
+  /** Cancels the extraction when aborted */
+  signal?: AbortSignal
+  onProgress?: (progress: ExtractionProgress) => void
+  /**
+   * Called for every document as it is extracted: crawled pages as soon as
+   * they are scraped, other sources once their strategy returns. Crawled
+   * pages are numbered in arrival order and may still lose boilerplate or
+   * be dropped as duplicates or other locales; the result has the final list.
+   */
+  onDocument?: (document: Document) => void
+}
+
+/**
+ * A link entry from an llms.txt file list (`- [title](url): description`)
+ */
+export interface LlmsTxtLink {
+  title: string
+  url: string
+  description?: string
+  /** Title of the H2 section the link appears in */
+  section: string
+  /** True for links in the `## Optional` section, which may be skipped */
+  optional: boolean
+}
+
+/**
+ * An H2-delimited file list in an llms.txt file
+ */
+export interface LlmsTxtSection {
+  title: string
+  optional: boolean
+  links: LlmsTxtLink[]
+  /** Any text in the section that is not a link entry */
+  notes?: string
+}
+
+/**
+ * Structured view of an llms.txt file as described by the llms.txt spec
+ *
+ * ```markdown
+ * # Name
+ * > Summary
+ * Details...
+ * ## Section
+ * - [Title](https://example.com/page.md): Description
+ * ## Optional
+ * - [Title](https://example.com/extra.md)
+ * ```
+ */
+export interface LlmsTxtManifest {
+  /** Project or site name from the H1 heading */
+  name?: string
+  /** Short summary from the blockquote after the H1 */
+  summary?: string
+  /** Free-form text between the summary and the first H2 */
+  details?: string
+  sections: LlmsTxtSection[]
+  /** Every link entry across all sections, in document order */
+  links: LlmsTxtLink[]
+}
+
 /**
  * Request body for downloading documents as ZIP
  */
@@ -126,6 +608,8 @@ export interface CacheEntry<T> {
   data: T
   timestamp: number
   ttl: number
+  /** Validators of the origin response; expired entries with validators can be revalidated */
+  validators?: HttpValidators
 }
 
 /**
@@ -0,0 +1,78 @@
+/**
+ * @llm-energy/core - URL probing
+ *
+ * Checks used by the crawling strategies (and the web app's URL analyzer)
+ * to decide where documentation lives before fetching it
+ */
+
+import { DEFAULT_USER_AGENT } from './extractor'
+
+/**
+ * Check if a URL exists and returns a successful response
+ */
+export async function urlExists(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      method: 'HEAD',
+      headers: {
+        'User-Agent': DEFAULT_USER_AGENT,
+      },
+      redirect: 'follow',
+    })
+    return response.ok
+  } catch {
+    // Try GET as fallback since some servers don't support HEAD
+    try {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'User-Agent': DEFAULT_USER_AGENT,
+        },
+        redirect: 'follow',
+      })
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+}
+
+/**
+ * Determine if a URL is likely a documentation page
+ */
+export function isDocumentationUrl(url: string): boolean {
+  const docPatterns = [
+    '/docs', '/doc/', '/guide', '/api', '/reference',
+    '/tutorial', '/learn', '/manual', '/handbook',
+    '/getting-started', '/quickstart', '/introduction',
+    '/concepts', '/examples', '/sdk'
+  ]
+
+  const excludePatterns = [
+    '/blog', '/changelog', '/news', '/pricing', '/careers',
+    '/about', '/contact', '/privacy', '/terms', '/legal',
+    '/login', '/signup', '/register', '/dashboard', '/account',
+    '/search', '/404', '/500', '.pdf', '.zip', '.png', '.jpg',
+    '/feed', '/rss', '/sitemap'
+  ]
+
+  const lower = url.toLowerCase()
+
+  // If it matches an exclude pattern, skip it
+  if (excludePatterns.some(p => lower.includes(p))) {
+    return false
+  }
+
+  // If it matches a doc pattern, include it
+  if (docPatterns.some(p => lower.includes(p))) {
+    return true
+  }
+
+  // If the URL looks like a content page (not just root), cautiously include
+  const path = new URL(url).pathname
+  if (path.length > 1 && !path.endsWith('/')) {
+    return true
+  }
+
+  return false
+}
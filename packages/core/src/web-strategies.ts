@@ -0,0 +1,388 @@
+/**
+ * @llm-energy/core - Web extraction strategies
+ *
+ * HTML-based fallbacks to the llms.txt strategy (sitemap crawl, docs
+ * discovery and link crawling from the given page), conversion of OpenAPI /
+ * Swagger specs for API-only products, and reading the docs folder of GitHub
+ * repositories. The web app and the MCP server run the same list.
+ */
+
+import type {
+  Document,
+  ExtractionStrategy,
+  StrategyContext,
+  StrategyResult,
+} from './types'
+import { estimateTokens, slugify } from './parser'
+import { collectLocales, detectUrlLocale, normalizeLocale, selectLocale, servedLocale } from './locale'
+import { llmsTxtStrategy } from './llms-txt'
+import { isDocumentationUrl, urlExists } from './url-probe'
+import { parseSitemapPages, sortDocumentationUrls } from './sitemap-parser'
+import { countWords, scrapePages, type MarkdownDocument, type ScrapeResult } from './html-to-markdown'
+import { canonicalizeUrl, crawlLinks } from './link-crawler'
+import { fetchOpenApiSpec, isOpenApiSpecUrl, openApiToMarkdown, OPENAPI_SPEC_PATHS } from './openapi'
+import { fetchGitHubDocs, parseGitHubDocsUrl } from './github-docs'
+import { stripBoilerplate } from './boilerplate'
+
+/**
+ * Sitemap locations checked relative to the site origin
+ */
+const SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/sitemap-index.xml', '/docs/sitemap.xml']
+
+/**
+ * Convert a scraped page into a document numbered by its position
+ */
+function pageToDocument(page: MarkdownDocument, index: number, tokenizer: string): Document {
+  const content = `## ${page.title}\n\n${page.content}`
+  return {
+    filename: `${String(index + 1).padStart(2, '0')}-${slugify(page.title).slice(0, 50) || 'page'}.md`,
+    title: page.title,
+    content,
+    tokens: estimateTokens(content, tokenizer),
+    sourceUrl: page.url,
+  }
+}
+
+/**
+ * Convert scraped pages into numbered documents
+ */
+function pagesToDocuments(pages: MarkdownDocument[], tokenizer: string): Document[] {
+  return pages.map((page, i) => pageToDocument(page, i, tokenizer))
+}
+
+/**
+ * Passes each scraped page on to the context's onDocument as soon as it arrives
+ */
+function announcePages(context: StrategyContext): ((page: MarkdownDocument) => void) | undefined {
+  const { onDocument } = context
+  if (!onDocument) return undefined
+  let count = 0
+  return page => onDocument(pageToDocument(page, count++, context.tokenizer))
+}
+
+/**
+ * Put pages in the order of the docs sidebar, when a page has one
+ * Pages missing from the sidebar (such as a start page that does not list
+ * itself) stay right after the page they followed.
+ */
+function orderByNavigation(pages: MarkdownDocument[]): MarkdownDocument[] {
+  const navigation = pages.find(page => page.navigation)?.navigation
+  if (!navigation) return pages
+
+  const order = new Map<string, number>()
+  navigation.forEach(link => {
+    const key = canonicalizeUrl(link)
+    if (!order.has(key)) order.set(key, order.size)
+  })
+  const position = (page: MarkdownDocument) =>
+    order.get(canonicalizeUrl(page.url)) ?? (page.canonicalUrl ? order.get(canonicalizeUrl(page.canonicalUrl)) : undefined)
+
+  let previous = -1
+  return pages
+    .map((page, index) => {
+      previous = position(page) ?? previous
+      return { page, index, key: previous }
+    })
+    .sort((a, b) => a.key - b.key || a.index - b.index)
+    .map(({ page }) => page)
+}
+
+/**
+ * Locale of a scraped page: the language segment of its URL, then the
+ * language the page declares
+ */
+function pageLocale(page: MarkdownDocument): string | undefined {
+  return detectUrlLocale(page.url) ?? normalizeLocale(page.lang)
+}
+
+/**
+ * How a strategy result is built from its pages
+ */
+interface StrategyResultOptions {
+  /** Skipped and failed pages of the scrape */
+  report?: Pick<ScrapeResult, 'skipped' | 'failed'>
+  /** Locales found before scraping, e.g. in the sitemap */
+  siteLocales?: string[]
+  /** The pages are crawled HTML: strip the boilerplate they share */
+  crawled?: boolean
+}
+
+/**
+ * Build a strategy result from the pages in the requested locale
+ *
+ * Only crawled HTML pages lose the blocks they share: OpenAPI sections and
+ * GitHub markdown repeat text on purpose (auth notes, shared parameters).
+ */
+function toStrategyResult(
+  sourceUrl: string,
+  pages: MarkdownDocument[],
+  context: StrategyContext,
+  { report, siteLocales = [], crawled = false }: StrategyResultOptions = {}
+): StrategyResult {
+  const localized = selectLocale(pages, pageLocale, context.locale)
+  const { pages: stripped, report: boilerplate } = crawled
+    ? stripBoilerplate(localized)
+    : { pages: localized, report: undefined }
+  const documents = pagesToDocuments(orderByNavigation(stripped), context.tokenizer)
+  return {
+    sourceUrl,
+    rawContent: documents.map(doc => doc.content).join('\n\n'),
+    documents,
+    skipped: report?.skipped,
+    failed: report?.failed,
+    platform: pages.find(page => page.platform)?.platform,
+    boilerplate,
+    locale: servedLocale(localized.map(pageLocale), context.locale),
+    locales: collectLocales([...siteLocales, ...pages.map(pageLocale)]),
+  }
+}
+
+/**
+ * Scrape multiple pages, reporting progress for each one
+ */
+async function extractFromPages(pages: string[], context: StrategyContext): Promise<ScrapeResult> {
+  const sortedPages = sortDocumentationUrls(pages)
+
+  return scrapePages(sortedPages, {
+    userAgent: context.userAgent,
+    concurrency: context.concurrency,
+    pageTimeoutMs: context.timeoutMs,
+    signal: context.signal,
+    onPage: announcePages(context),
+    onProgress: (completed, totalPages, currentUrl) => {
+      context.onProgress?.({
+        status: 'fetching',
+        message: `Processing page ${Math.min(completed + 1, totalPages)} of ${totalPages}`,
+        progress: Math.round(20 + (completed / totalPages) * 60),
+        currentStep: currentUrl,
+        totalSteps: totalPages,
+        completedSteps: completed,
+      })
+    },
+  })
+}
+
+/**
+ * Crawl links breadth-first from a start page, reporting progress for each page
+ */
+async function extractFromLinks(startUrl: string, context: StrategyContext): Promise<StrategyResult> {
+  const crawled = await crawlLinks(startUrl, {
+    maxPages: context.maxPages,
+    maxDepth: context.maxCrawlDepth,
+    userAgent: context.userAgent,
+    concurrency: context.concurrency,
+    pageTimeoutMs: context.timeoutMs,
+    signal: context.signal,
+    onPage: announcePages(context),
+    onProgress: (completed, totalPages, currentUrl) => {
+      context.onProgress?.({
+        status: 'fetching',
+        message: `Crawling page ${Math.min(completed + 1, totalPages)} of ${totalPages} found so far`,
+        progress: Math.round(20 + (completed / context.maxPages) * 60),
+        currentStep: currentUrl,
+        totalSteps: totalPages,
+        completedSteps: completed,
+      })
+    },
+  })
+
+  return toStrategyResult(startUrl, crawled.documents, context, { report: crawled, crawled: true })
+}
+
+/**
+ * Find a sitemap on the given origin and scrape its documentation pages
+ */
+async function extractFromSitemap(origin: string, context: StrategyContext): Promise<StrategyResult | null> {
+  for (const path of SITEMAP_PATHS) {
+    const sitemapUrl = `${origin}${path}`
+    if (!(await urlExists(sitemapUrl))) continue
+
+    const sitemap = await parseSitemapPages(sitemapUrl, { filterDocs: false, locale: context.locale })
+    const pages = selectLocale(sitemap.urls.filter(isDocumentationUrl), detectUrlLocale, context.locale)
+    if (pages.length === 0) continue
+
+    context.onProgress?.({
+      status: 'fetching',
+      message: `Found sitemap with ${pages.length} pages`,
+      progress: 20,
+    })
+
+    const scraped = await extractFromPages(pages.slice(0, context.maxPages), context)
+    return toStrategyResult(sitemapUrl, scraped.documents, context, {
+      report: scraped,
+      siteLocales: sitemap.locales,
+      crawled: true,
+    })
+  }
+
+  return null
+}
+
+/**
+ * Strategy: crawl the pages listed in the site's sitemap
+ */
+export const sitemapStrategy: ExtractionStrategy = {
+  name: 'sitemap',
+  extract: context => extractFromSitemap(context.baseUrl, context),
+}
+
+/**
+ * Strategy: find a separate docs site or path and extract from there
+ */
+export const docsDiscoveryStrategy: ExtractionStrategy = {
+  name: 'docs-discovery',
+
+  async extract(context) {
+    const { url, baseUrl, rootDomain } = context
+    const docsVariants = [
+      `https://docs.${rootDomain}`,
+      `https://api-docs.${rootDomain}`,
+      `https://developer.${rootDomain}`,
+      `${baseUrl}/docs`,
+      `${baseUrl}/documentation`,
+      `${baseUrl}/doc`,
+      `${baseUrl}/guide`,
+      `${baseUrl}/api`,
+    ]
+
+    for (const docsUrl of docsVariants) {
+      // Skip if it's the same as the input URL
+      if (docsUrl === url || docsUrl === baseUrl) continue
+      if (!(await urlExists(docsUrl))) continue
+
+      context.onProgress?.({
+        status: 'fetching',
+        message: `Discovered docs at ${docsUrl}`,
+        progress: 20,
+      })
+
+      const fromSitemap = await extractFromSitemap(new URL(docsUrl).origin, context)
+      if (fromSitemap) return fromSitemap
+
+      // Fallback to crawling the docs URL's links
+      return extractFromLinks(docsUrl, context)
+    }
+
+    return null
+  },
+}
+
+/**
+ * Spec URLs to try: the given URL when it names a spec file, then the
+ * well-known spec locations on the site and on its api. subdomain
+ */
+function getOpenApiCandidates(context: StrategyContext): string[] {
+  const bases = Array.from(new Set([context.baseUrl, `https://api.${context.rootDomain}`]))
+  const candidates = bases.flatMap(base => OPENAPI_SPEC_PATHS.map(path => `${base}${path}`))
+  return isOpenApiSpecUrl(context.url) ? [context.url, ...candidates] : candidates
+}
+
+/**
+ * Strategy: convert an OpenAPI / Swagger spec into one document per tag
+ */
+export const openApiStrategy: ExtractionStrategy = {
+  name: 'openapi',
+
+  async extract(context) {
+    for (const specUrl of getOpenApiCandidates(context)) {
+      const spec = await fetchOpenApiSpec(specUrl, { userAgent: context.userAgent, signal: context.signal })
+      if (!spec) continue
+
+      context.onProgress?.({
+        status: 'processing',
+        message: `Converting OpenAPI spec at ${specUrl}`,
+        progress: 40,
+      })
+
+      const pages = openApiToMarkdown(spec).map(section => ({
+        title: section.title,
+        url: specUrl,
+        content: section.content,
+        wordCount: countWords(section.content),
+      }))
+      if (pages.length > 0) return toStrategyResult(specUrl, pages, context)
+    }
+
+    return null
+  },
+}
+
+/**
+ * Strategy: read the markdown docs folder of a GitHub repository URL
+ */
+export const githubStrategy: ExtractionStrategy = {
+  name: 'github',
+
+  async extract(context) {
+    const source = parseGitHubDocsUrl(context.url)
+    if (!source) return null
+
+    const docs = await fetchGitHubDocs(source, {
+      token: process.env.GITHUB_TOKEN || undefined,
+      userAgent: context.userAgent,
+      maxFiles: context.maxPages,
+      concurrency: context.concurrency,
+      pageTimeoutMs: context.timeoutMs,
+      signal: context.signal,
+      onProgress: (completed, totalFiles, currentPath) => {
+        context.onProgress?.({
+          status: 'fetching',
+          message: `Reading file ${Math.min(completed + 1, totalFiles)} of ${totalFiles}`,
+          progress: Math.round(20 + (completed / totalFiles) * 60),
+          currentStep: currentPath,
+          totalSteps: totalFiles,
+          completedSteps: completed,
+        })
+      },
+    })
+    if (!docs || docs.files.length === 0) return null
+
+    const pages = docs.files.map(file => ({
+      title: file.title,
+      url: file.url,
+      content: file.content,
+      wordCount: countWords(file.content),
+    }))
+    return toStrategyResult(docs.sourceUrl, pages, context, { report: docs })
+  },
+}
+
+/**
+ * Strategy: crawl the given page and the pages it links to under the same path
+ */
+export const htmlScrapeStrategy: ExtractionStrategy = {
+  name: 'html-scrape',
+
+  async extract(context) {
+    context.onProgress?.({
+      status: 'fetching',
+      message: 'Crawling page links...',
+      progress: 20,
+    })
+
+    return extractFromLinks(context.url, context)
+  },
+}
+
+/**
+ * Strategies used by the web app and the MCP server, in priority order
+ * The github strategy only answers for github.com repository URLs.
+ */
+export const webStrategies: ExtractionStrategy[] = [
+  githubStrategy,
+  llmsTxtStrategy,
+  sitemapStrategy,
+  docsDiscoveryStrategy,
+  openApiStrategy,
+  htmlScrapeStrategy,
+]
+
+/**
+ * Web strategies in priority order for a URL
+ * A spec URL asks for that spec, not for the docs site around it.
+ */
+export function getWebStrategies(url: string): ExtractionStrategy[] {
+  return isOpenApiSpecUrl(url)
+    ? [openApiStrategy, ...webStrategies.filter(strategy => strategy !== openApiStrategy)]
+    : webStrategies
+}
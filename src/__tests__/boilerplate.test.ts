@@ -0,0 +1,155 @@
+/**
+ * Boilerplate stripping unit tests
+ * Tests for finding blocks and lines that recur across crawled pages,
+ * removing them from every page, and leaving non-HTML sources alone
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  createStrategyContext,
+  fingerprintBlock,
+  githubStrategy,
+  openApiStrategy,
+  stripBoilerplate,
+  type MarkdownDocument,
+} from '@llm-energy/core'
+
+const COOKIES = 'We use cookies to improve your experience. By using this site you accept our cookie policy.'
+
+function page(slug: string, body: string): MarkdownDocument {
+  const content = [
+    COOKIES,
+    '- [v2.0](/v2/) \n- [v1.0](/v1/)',
+    `# ${slug}`,
+    body,
+    '```bash\nnpm install widgets\n```',
+    '## Feedback',
+    'Was this page helpful?',
+    `[Edit this page](https://github.com/acme/docs/edit/main/${slug}.md)`,
+    `Last updated on ${slug.length} March 2026`,
+  ].join('\n\n')
+  return { title: slug, url: `https://docs.acme.dev/${slug}`, content, wordCount: 0 }
+}
+
+const PAGES = [
+  page('install', 'Install the package with your package manager.'),
+  page('configure', 'Pass options to the client constructor.'),
+  page('deploy', 'Build the bundle and upload it to your host.'),
+  page('troubleshooting', 'Check the logs when a request fails.'),
+]
+
+describe('fingerprintBlock', () => {
+  it('ignores case, spacing, link targets and numbers', () => {
+    expect(fingerprintBlock('[Edit  this page](https://a.dev/x.md)')).toBe(fingerprintBlock('[edit this page](/y.md)'))
+    expect(fingerprintBlock('Last updated on 4 May')).toBe(fingerprintBlock('Last updated on 12 May'))
+  })
+})
+
+describe('stripBoilerplate', () => {
+  it('removes blocks found on most pages and keeps the content', () => {
+    const { pages } = stripBoilerplate(PAGES)
+
+    expect(pages[0].content).toBe([
+      '# install',
+      'Install the package with your package manager.',
+      '```bash\nnpm install widgets\n```',
+    ].join('\n\n'))
+    expect(pages[0].wordCount).toBe(12)
+    expect(pages[0].url).toBe('https://docs.acme.dev/install')
+  })
+
+  it('reports what was removed and from how many pages', () => {
+    const { report } = stripBoilerplate(PAGES)
+
+    expect(report?.pageCount).toBe(4)
+    expect(report?.removed).toContainEqual({ text: COOKIES, kind: 'block', pageCount: 4 })
+    expect(report?.removed).toContainEqual({ text: 'Was this page helpful?', kind: 'block', pageCount: 4 })
+    expect(report?.removed.map(block => block.text)).toContain('[Edit this page](https://github.com/acme/docs/edit/main/install.md)')
+    expect(report?.removedCharacters).toBeGreaterThan(4 * COOKIES.length)
+  })
+
+  it('removes recurring list items from lists that differ between pages', () => {
+    const pages = ['a', 'b', 'c'].map(slug => ({
+      title: slug,
+      url: `https://docs.acme.dev/${slug}`,
+      content: `Content of page ${slug} explains something.\n\n- [Home](/)\n- [Next: ${slug}-next](/${slug}-next)\n- [Status](https://status.acme.dev)`,
+      wordCount: 0,
+    }))
+
+    const result = stripBoilerplate(pages)
+
+    expect(result.pages[1].content).toBe('Content of page b explains something.\n\n- [Next: b-next](/b-next)')
+    expect(result.report?.removed).toEqual([
+      { text: '- [Home](/)', kind: 'line', pageCount: 3 },
+      { text: '- [Status](https://status.acme.dev)', kind: 'line', pageCount: 3 },
+    ])
+  })
+
+  it('leaves text shared by only a few pages and small crawls alone', () => {
+    const shared = 'This feature requires the Pro plan.'
+    const pages = [
+      page('a', shared), page('b', shared), page('c', 'Alpha.'), page('d', 'Beta.'), page('e', 'Gamma.'),
+    ]
+
+    expect(stripBoilerplate(pages).pages[0].content).toContain(shared)
+    expect(stripBoilerplate(PAGES.slice(0, 2))).toEqual({ pages: PAGES.slice(0, 2) })
+  })
+
+  it('keeps pages that are nothing but boilerplate', () => {
+    const pages = ['a', 'b', 'c'].map(slug => ({ title: slug, url: `https://x.dev/${slug}`, content: COOKIES, wordCount: 15 }))
+
+    expect(stripBoilerplate(pages)).toEqual({ pages })
+  })
+})
+
+describe('strategies', () => {
+  const AUTH_NOTE = 'Every request needs an API key in the Authorization header.'
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keep text shared by every section of an OpenAPI spec', async () => {
+    const spec = {
+      openapi: '3.0.0',
+      info: { title: 'Widgets API', version: '1.0.0' },
+      paths: Object.fromEntries(['users', 'projects', 'invoices', 'webhooks'].map(tag => [
+        `/${tag}`,
+        { get: { tags: [tag], summary: `List ${tag}`, description: AUTH_NOTE, responses: { 200: { description: 'OK' } } } },
+      ])),
+    }
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => url === 'https://api.widgets.dev/openapi.json'
+      ? Response.json(spec)
+      : new Response('Not found', { status: 404 })))
+
+    const result = await openApiStrategy.extract(createStrategyContext('https://api.widgets.dev/openapi.json'))
+    const sections = result!.documents.filter(doc => /users|projects|invoices|webhooks/i.test(doc.title))
+
+    expect(sections).toHaveLength(4)
+    expect(sections.every(doc => doc.content.includes(AUTH_NOTE))).toBe(true)
+    expect(result!.boilerplate).toBeUndefined()
+  })
+
+  it('keep text shared by every file of a GitHub docs folder', async () => {
+    const files: Record<string, string> = Object.fromEntries(['install', 'configure', 'deploy', 'upgrade'].map(slug => [
+      `docs/${slug}.md`,
+      `# ${slug}\n\n${AUTH_NOTE}\n\nHow to ${slug} widgets.`,
+    ]))
+    const api = 'https://api.github.com/repos/acme/widgets'
+    const raw = 'https://raw.githubusercontent.com/acme/widgets/main/'
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url === api) return Response.json({ default_branch: 'main' })
+      if (url === `${api}/git/trees/main?recursive=1`) {
+        return Response.json({ tree: Object.keys(files).map(path => ({ path, type: 'blob' })) })
+      }
+      const path = url.startsWith(raw) ? url.slice(raw.length) : ''
+      return path in files ? new Response(files[path]) : new Response('Not found', { status: 404 })
+    }))
+
+    const result = await githubStrategy.extract(createStrategyContext('https://github.com/acme/widgets/tree/main/docs'))
+
+    expect(result!.documents).toHaveLength(4)
+    expect(result!.documents.every(doc => doc.content.includes(AUTH_NOTE))).toBe(true)
+    expect(result!.boilerplate).toBeUndefined()
+  })
+})
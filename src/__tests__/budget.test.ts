@@ -0,0 +1,195 @@
+/**
+ * Token budget unit tests
+ * Tests for ranking documents and packing them into a budgeted full document
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/extract/route'
+import { clearAllCaches } from '@/lib/cache'
+import {
+  DEFAULT_DOCUMENT_PRIORITIES,
+  rankDocuments,
+  selectWithinBudget,
+  packDocuments,
+  generateFullDocument,
+  estimateTokens,
+  getExtractionVariant,
+  parseDocumentPriorities,
+  type Document,
+} from '@llm-energy/core'
+
+function doc(title: string, tokens: number, extra: Partial<Document> = {}): Document {
+  return {
+    filename: `${title.toLowerCase().replace(/\s+/g, '-')}.md`,
+    title,
+    content: `## ${title}\n\n${'word '.repeat(tokens)}`.trim(),
+    tokens,
+    ...extra,
+  }
+}
+
+const DOCS = [
+  doc('Changelog', 50),
+  doc('Webhooks', 50),
+  doc('Getting Started', 50),
+  doc('Optional', 50),
+  doc('Introduction', 50),
+  doc('Extras', 50, { optional: true }),
+]
+
+describe('rankDocuments', () => {
+  it('puts introductions first and optional and changelog sections last', () => {
+    expect(rankDocuments(DOCS).map(d => d.title)).toEqual([
+      'Introduction',
+      'Getting Started',
+      'Webhooks',
+      'Changelog',
+      'Optional',
+      'Extras',
+    ])
+  })
+
+  it('matches patterns against the source URL', () => {
+    const ranked = rankDocuments([
+      doc('Page one', 10),
+      doc('Page two', 10, { sourceUrl: 'https://example.com/docs/quickstart' }),
+    ])
+    expect(ranked[0].title).toBe('Page two')
+  })
+
+  it('accepts custom priorities', () => {
+    const ranked = rankDocuments(DOCS, { first: [/webhooks/i], last: [/introduction/i] })
+    expect(ranked[0].title).toBe('Webhooks')
+    // Optional documents are still dropped first
+    expect(ranked.slice(-2).map(d => d.title)).toEqual(['Introduction', 'Extras'])
+  })
+})
+
+describe('parseDocumentPriorities', () => {
+  it('matches terms as whole words and keeps the default for a missing list', () => {
+    const priorities = parseDocumentPriorities({ first: ['webhooks'] })!
+
+    expect(rankDocuments(DOCS, priorities).map(d => d.title)).toEqual([
+      'Webhooks',
+      'Getting Started',
+      'Introduction',
+      'Changelog',
+      'Optional',
+      'Extras',
+    ])
+    expect(priorities.last).toBe(DEFAULT_DOCUMENT_PRIORITIES.last)
+    expect(priorities.first[0].test('webhooks-v2.md')).toBe(true)
+    expect(priorities.first[0].test('mywebhooksetup')).toBe(false)
+  })
+
+  it('reads comma-separated terms and treats them as text, not patterns', () => {
+    const priorities = parseDocumentPriorities({ last: 'legacy, v1.*' })!
+
+    expect(priorities.last.map(pattern => pattern.test('v1.* notes'))).toEqual([false, true])
+    expect(priorities.last[1].test('v10 notes')).toBe(false)
+  })
+
+  it('rejects anything but lists of terms', () => {
+    expect(parseDocumentPriorities(undefined)).toBeUndefined()
+    expect(parseDocumentPriorities({})).toBeUndefined()
+    expect(parseDocumentPriorities('webhooks')).toBeNull()
+    expect(parseDocumentPriorities({ first: [1] })).toBeNull()
+    expect(parseDocumentPriorities({ first: Array.from({ length: 21 }, (_, i) => `t${i}`) })).toBeNull()
+  })
+
+  it('gives custom priorities their own extraction variant', () => {
+    const priorities = parseDocumentPriorities({ first: ['webhooks'] })!
+
+    expect(getExtractionVariant({ priorities })).toBe('')
+    expect(getExtractionVariant({ maxTokens: 100, priorities })).toMatch(/^maxTokens=100&priorities=.*webhooks/)
+  })
+})
+
+describe('selectWithinBudget', () => {
+  it('keeps the most important documents in their original order', () => {
+    const { included, dropped } = selectWithinBudget(DOCS, 120)
+
+    expect(included.map(d => d.title)).toEqual(['Getting Started', 'Introduction'])
+    expect(dropped.map(d => d.title)).toEqual(['Webhooks', 'Changelog', 'Optional', 'Extras'])
+  })
+
+  it('fills the remaining budget with smaller documents', () => {
+    const { included } = selectWithinBudget([doc('Introduction', 80), doc('Guide', 50), doc('Notes', 20)], 100)
+    expect(included.map(d => d.title)).toEqual(['Introduction', 'Notes'])
+  })
+})
+
+describe('packDocuments', () => {
+  it('fits the whole full document, header included, in the budget', () => {
+    const all = generateFullDocument(DOCS, '', 'https://example.com/llms.txt')
+    const maxTokens = Math.floor(all.tokens / 2)
+
+    const { fullDocument, included, budget } = packDocuments(DOCS, '', 'https://example.com/llms.txt', maxTokens)
+
+    expect(fullDocument.tokens).toBeLessThanOrEqual(maxTokens)
+    expect(budget.usedTokens).toBe(fullDocument.tokens)
+    expect(budget.includedCount).toBe(included.length)
+    expect(included.length + budget.dropped.length).toBe(DOCS.length)
+    expect(included.map(d => d.title)).toContain('Introduction')
+    expect(fullDocument.content).not.toContain('## Changelog')
+  })
+
+  it('packs thousands of sections close to the budget', () => {
+    const sections = Array.from({ length: 2000 }, (_, index) => {
+      const content = `## Section ${index}\n\n${'Configure the client before sending requests. '.repeat(8)}`
+      return { filename: `section-${index}.md`, title: `Section ${index}`, content, tokens: estimateTokens(content) }
+    })
+    const all = generateFullDocument(sections, '', 'https://example.com/llms.txt')
+    const maxTokens = Math.floor(all.tokens * 0.75)
+
+    const { fullDocument, included, budget } = packDocuments(sections, '', 'https://example.com/llms.txt', maxTokens)
+
+    expect(fullDocument.tokens).toBeLessThanOrEqual(maxTokens)
+    expect(fullDocument.tokens).toBeGreaterThan(maxTokens * 0.95)
+    expect(included.length + budget.dropped.length).toBe(sections.length)
+  })
+
+  it('drops nothing when everything fits', () => {
+    const { budget } = packDocuments(DOCS, '', 'https://example.com/llms.txt', 100000)
+    expect(budget.dropped).toEqual([])
+  })
+})
+
+describe('GET /api/extract with priorities', () => {
+  const LLMS_FULL = ['Introduction', 'Webhooks', 'Changelog']
+    .map(title => `## ${title}\n\n${'The widgets service sends events to your endpoint. '.repeat(20)}`)
+    .join('\n\n')
+
+  beforeEach(() => {
+    clearAllCaches()
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => url === 'https://budget.example.com/llms-full.txt'
+      ? new Response(`# Widgets\n\n${LLMS_FULL}`)
+      : new Response('Not found', { status: 404 })))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  async function keptTitles(query: string): Promise<string[]> {
+    const response = await GET(new NextRequest(`https://llm.energy/api/extract?url=budget.example.com&maxTokens=300${query}`, {
+      headers: { 'x-forwarded-for': '203.0.113.9' },
+    }))
+    const result = await response.json()
+    const dropped = new Set(result.budget.dropped.map((entry: { title: string }) => entry.title))
+    return result.documents.map((d: Document) => d.title).filter((title: string) => !dropped.has(title))
+  }
+
+  it('keeps the documents the caller ranks first', async () => {
+    expect(await keptTitles('')).toEqual(['Introduction'])
+    expect(await keptTitles('&priorityFirst=webhooks')).toEqual(['Webhooks'])
+  })
+
+  it('rejects invalid priorities', async () => {
+    const terms = Array.from({ length: 21 }, (_, i) => `t${i}`).join(',')
+    const response = await GET(new NextRequest(`https://llm.energy/api/extract?url=budget.example.com&priorityLast=${terms}`))
+
+    expect(response.status).toBe(400)
+  })
+})
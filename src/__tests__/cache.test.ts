@@ -7,11 +7,16 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import {
   LRUCache,
   normalizeUrlKey,
+  normalizeCacheKey,
+  cacheKeyWithVariant,
   getExtractionCache,
+  getSearchIndexCache,
   getValidationCache,
   clearAllCaches,
   getAllCacheStats,
 } from '@/lib/cache'
+import { cacheExtraction, getCachedExtraction } from '@/lib/extractor'
+import type { ExtractionResult } from '@/types'
 
 describe('normalizeUrlKey', () => {
   it('lowercases the host', () => {
@@ -35,6 +40,23 @@ describe('normalizeUrlKey', () => {
   })
 })
 
+describe('cacheKeyWithVariant', () => {
+  it('keeps the variant apart from the normalized URL', () => {
+    expect(cacheKeyWithVariant('https://EXAMPLE.com/docs/', 'expand')).toBe('https://example.com/docs expand')
+    expect(cacheKeyWithVariant('https://example.com/docs', '')).toBe('https://example.com/docs')
+  })
+
+  it('is left as it is by normalizeCacheKey', () => {
+    const key = cacheKeyWithVariant('https://example.com/docs', 'expand')
+    expect(normalizeCacheKey(key)).toBe(key)
+    expect(normalizeCacheKey(key)).not.toBe(normalizeCacheKey('https://example.com/docs'))
+  })
+
+  it('does not turn URL fragments into variants', () => {
+    expect(normalizeCacheKey('https://example.com/docs/#install')).toBe('https://example.com/docs')
+  })
+})
+
 describe('LRUCache', () => {
   let cache: LRUCache<string>
 
@@ -195,6 +217,51 @@ describe('LRUCache', () => {
     })
   })
 
+  describe('revalidation', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('keeps expired entries that have validators', () => {
+      cache.set('https://example.com', 'value', undefined, { etag: '"v1"' })
+      vi.advanceTimersByTime(1100)
+
+      expect(cache.get('https://example.com')).toBeNull()
+      expect(cache.getStale('https://example.com')).toEqual({ data: 'value', validators: { etag: '"v1"' } })
+      expect(cache.getStats().size).toBe(1)
+    })
+
+    it('only returns entries that are expired and have validators', () => {
+      cache.set('https://fresh.com', 'fresh', undefined, { etag: '"v1"' })
+      cache.set('https://plain.com', 'plain')
+      vi.advanceTimersByTime(500)
+
+      expect(cache.getStale('https://fresh.com')).toBeNull()
+
+      vi.advanceTimersByTime(600)
+      expect(cache.getStale('https://plain.com')).toBeNull()
+      expect(cache.has('https://plain.com')).toBe(false)
+    })
+
+    it('starts a new TTL on refresh', () => {
+      cache.set('https://example.com', 'value', undefined, { lastModified: 'Mon, 05 Oct 2026 10:00:00 GMT' })
+      vi.advanceTimersByTime(1100)
+
+      expect(cache.refresh('https://example.com')).toBe('value')
+      expect(cache.get('https://example.com')).toBe('value')
+      expect(cache.getTtlRemaining('https://example.com')).toBe(1)
+      expect(cache.getStats().revalidations).toBe(1)
+    })
+
+    it('returns null when refreshing a missing key', () => {
+      expect(cache.refresh('https://nonexistent.com')).toBeNull()
+    })
+  })
+
   describe('getTtlRemaining', () => {
     beforeEach(() => {
       vi.useFakeTimers()
@@ -271,3 +338,80 @@ describe('Singleton cache instances', () => {
     expect(stats.extraction?.size).toBe(1)
   })
 })
+
+describe('getCachedExtraction', () => {
+  const mockFetch = vi.fn()
+  const result = {
+    url: 'https://example.com',
+    sourceUrl: 'https://example.com/llms-full.txt',
+    validators: { etag: '"v1"' },
+  } as ExtractionResult
+
+  beforeEach(() => {
+    clearAllCaches()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('serves fresh entries without a request', async () => {
+    cacheExtraction('https://example.com', result)
+
+    expect(await getCachedExtraction('https://example.com')).toEqual({ result, status: 'HIT' })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('revalidates expired entries and renews them on 304', async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 304 }))
+    cacheExtraction('https://example.com', result)
+    vi.advanceTimersByTime(6 * 60 * 1000)
+
+    expect(await getCachedExtraction('https://example.com')).toEqual({ result, status: 'REVALIDATED' })
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://example.com/llms-full.txt')
+    expect(init.headers['If-None-Match']).toBe('"v1"')
+
+    expect(await getCachedExtraction('https://example.com')).toEqual({ result, status: 'HIT' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('drops expired entries whose source changed', async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 200, headers: { ETag: '"v2"' } }))
+    cacheExtraction('https://example.com', result)
+    vi.advanceTimersByTime(6 * 60 * 1000)
+
+    expect(await getCachedExtraction('https://example.com')).toBeNull()
+    expect(getExtractionCache().getStale('https://example.com')).toBeNull()
+  })
+
+  it('drops the search index of an extraction whose source changed', async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 200, headers: { ETag: '"v2"' } }))
+    cacheExtraction('https://example.com', result)
+    getSearchIndexCache().set('https://example.com', 'index', 10 * 60 * 1000)
+    vi.advanceTimersByTime(6 * 60 * 1000)
+
+    await getCachedExtraction('https://example.com')
+    expect(getSearchIndexCache().get('https://example.com')).toBeNull()
+  })
+
+  it('drops the search index when an extraction is replaced', () => {
+    cacheExtraction('https://example.com', result)
+    getSearchIndexCache().set('https://example.com', 'index')
+
+    cacheExtraction('https://example.com', { ...result, validators: { etag: '"v2"' } })
+    expect(getSearchIndexCache().get('https://example.com')).toBeNull()
+  })
+
+  it('does not revalidate results without validators', async () => {
+    cacheExtraction('https://example.com', { ...result, validators: undefined })
+    vi.advanceTimersByTime(6 * 60 * 1000)
+
+    expect(await getCachedExtraction('https://example.com')).toBeNull()
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
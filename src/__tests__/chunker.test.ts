@@ -0,0 +1,132 @@
+/**
+ * Chunker unit tests
+ * Tests for splitting markdown into retrieval chunks in @llm-energy/core
+ */
+
+import { describe, it, expect } from 'vitest'
+import { chunkMarkdown, chunkDocuments, countTokens, sha256, type Document } from '@llm-energy/core'
+
+const PROSE = 'Access tokens expire after one hour. Use the refresh token to get a new one. '
+  + 'Refresh tokens are rotated on every use. Store them securely on the server. '
+
+const DOC = `# Auth
+
+Everything about authentication.
+
+## OAuth
+
+The OAuth flow issues access and refresh tokens.
+
+### Refresh tokens
+
+${PROSE.repeat(12).trim()}
+
+\`\`\`ts
+const client = createClient({
+  refreshToken: process.env.REFRESH_TOKEN,
+})
+await client.refresh()
+\`\`\`
+
+## API keys
+
+Create keys in the dashboard.
+`
+
+describe('chunkMarkdown', () => {
+  it('records the heading path of every chunk', () => {
+    const chunks = chunkMarkdown(DOC)
+
+    expect(chunks[0].headingPath).toEqual(['Auth'])
+    expect(chunks[1].headingPath).toEqual(['Auth', 'OAuth'])
+    expect(chunks.some(c => c.headingPath.join(' > ') === 'Auth > OAuth > Refresh tokens')).toBe(true)
+    expect(chunks[chunks.length - 1].headingPath).toEqual(['Auth', 'API keys'])
+  })
+
+  it('keeps chunks within maxTokens', () => {
+    const chunks = chunkMarkdown(DOC, { maxTokens: 60, overlapTokens: 10 })
+
+    expect(chunks.length).toBeGreaterThan(4)
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(60 + 5)
+      expect(chunk.tokens).toBe(countTokens(chunk.content))
+    }
+  })
+
+  it('never cuts a fenced code block', () => {
+    const code = `\`\`\`js\n${Array.from({ length: 40 }, (_, i) => `console.log(${i})`).join('\n')}\n\`\`\``
+    const chunks = chunkMarkdown(`## Example\n\nIntro text.\n\n${code}\n\nAfter the code.`, { maxTokens: 50 })
+
+    const withFence = chunks.filter(c => c.content.includes('```'))
+    expect(withFence).toHaveLength(1)
+    expect(withFence[0].content).toContain(code)
+    expect(withFence[0].tokens).toBeGreaterThan(50)
+  })
+
+  it('repeats trailing sentences of the previous chunk', () => {
+    const chunks = chunkMarkdown(`## Notes\n\n${PROSE.repeat(6).trim()}`, { maxTokens: 40, overlapTokens: 15 })
+
+    const overlap = 'Refresh tokens are rotated on every use. Store them securely on the server.'
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks[0].content.endsWith(overlap)).toBe(true)
+    expect(chunks[1].content.startsWith(overlap)).toBe(true)
+  })
+
+  it('does not overlap when overlapTokens is 0', () => {
+    const chunks = chunkMarkdown(`## Notes\n\n${PROSE.repeat(6).trim()}`, { maxTokens: 40, overlapTokens: 0 })
+    const words = chunks.map(c => c.content.replace('## Notes', '').trim()).join(' ').split(/\s+/)
+
+    expect(words.join(' ')).toBe(PROSE.repeat(6).trim())
+  })
+
+  it('numbers chunks and hashes their content', () => {
+    const chunks = chunkMarkdown(DOC, { sourceUrl: 'https://example.com/auth.md' })
+
+    expect(chunks.map(c => c.index)).toEqual(chunks.map((_, i) => i))
+    expect(chunks[0].sourceUrl).toBe('https://example.com/auth.md')
+    expect(chunks[0].hash).toBe(sha256(chunks[0].content))
+    expect(chunks[0].hash).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('splits a single very long sentence on word boundaries', () => {
+    const chunks = chunkMarkdown(`## Words\n\n${'lorem '.repeat(300).trim()}`, { maxTokens: 50, overlapTokens: 0 })
+
+    expect(chunks.length).toBeGreaterThan(4)
+    expect(chunks.every(c => !c.content.includes('lore\n'))).toBe(true)
+  })
+
+  it('skips headings without content of their own', () => {
+    const chunks = chunkMarkdown('# Title\n\n## Section\n\nBody text.')
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0].content).toBe('## Section\n\nBody text.')
+    expect(chunks[0].headingPath).toEqual(['Title', 'Section'])
+  })
+})
+
+describe('chunkDocuments', () => {
+  it('tags chunks with their document and restarts indexes per document', () => {
+    const documents: Document[] = [
+      { filename: '01-auth.md', title: 'Auth', content: DOC, tokens: 0, sourceUrl: 'https://example.com/auth.md' },
+      { filename: '02-billing.md', title: 'Billing', content: '## Billing\n\nInvoices are monthly.', tokens: 0 },
+    ]
+
+    const chunks = chunkDocuments(documents, { sourceUrl: 'https://example.com/llms.txt' })
+    const billing = chunks.filter(c => c.filename === '02-billing.md')
+
+    expect(billing).toHaveLength(1)
+    expect(billing[0].index).toBe(0)
+    expect(billing[0].sourceUrl).toBe('https://example.com/llms.txt')
+    expect(chunks[0].sourceUrl).toBe('https://example.com/auth.md')
+  })
+})
+
+describe('sha256', () => {
+  it('matches the standard test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855')
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+
+  it('hashes text as UTF-8', () => {
+    expect(sha256('é')).toBe('4a99557e4033c3539de2eb65472017cad5f9557f7a0625a09f1c3f6e2ba69c4c')
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Code example index unit tests
+ * Tests for collecting fenced code blocks, language normalization and
+ * inference, and the CODE-EXAMPLES.md document in @llm-energy/core
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildCodeExampleIndex,
+  collectCodeExamples,
+  groupCodeExamples,
+  inferCodeLanguage,
+  normalizeCodeLanguage,
+  type Document,
+} from '@llm-energy/core'
+
+function doc(title: string, content: string, sourceUrl?: string): Document {
+  return { filename: `${title.toLowerCase().replace(/\s+/g, '-')}.md`, title, content, tokens: 0, sourceUrl }
+}
+
+const QUICKSTART = doc('Quickstart', `# Quickstart
+
+Install the SDK.
+
+\`\`\`sh
+npm install widgets
+\`\`\`
+
+## Create a client
+
+\`\`\`ts title="client.ts"
+const client = new Client({ apiKey: process.env.API_KEY })
+\`\`\`
+
+- Or from Python:
+
+  \`\`\`
+  from widgets import Client
+  client = Client()
+  \`\`\`
+`, 'https://example.com/docs/quickstart')
+
+const API = doc('API Reference', `## Responses
+
+~~~json
+{"id": 1}
+~~~
+
+\`\`\`\`md
+\`\`\`js
+nested()
+\`\`\`
+\`\`\`\`
+
+\`\`\`bash
+npm install widgets
+\`\`\`
+
+\`\`\`
+\`\`\`
+`)
+
+describe('normalizeCodeLanguage', () => {
+  it('maps aliases and strips fence metadata', () => {
+    expect(normalizeCodeLanguage('ts title="client.ts"')).toBe('typescript')
+    expect(normalizeCodeLanguage('JS {1,3}')).toBe('javascript')
+    expect(normalizeCodeLanguage('{.python}')).toBe('python')
+    expect(normalizeCodeLanguage('language-yml')).toBe('yaml')
+    expect(normalizeCodeLanguage('console')).toBe('bash')
+    expect(normalizeCodeLanguage('elixir')).toBe('elixir')
+    expect(normalizeCodeLanguage('  ')).toBeUndefined()
+  })
+})
+
+describe('inferCodeLanguage', () => {
+  it('recognises common languages', () => {
+    expect(inferCodeLanguage('$ npm install widgets')).toBe('bash')
+    expect(inferCodeLanguage('curl -X POST https://api.example.com')).toBe('bash')
+    expect(inferCodeLanguage('{\n  "id": 1\n}')).toBe('json')
+    expect(inferCodeLanguage('<div class="widget"></div>')).toBe('html')
+    expect(inferCodeLanguage('def handler(event):\n    return event')).toBe('python')
+    expect(inferCodeLanguage('package main\n\nfunc main() {}')).toBe('go')
+    expect(inferCodeLanguage('fn main() {\n    let mut x = 1;\n}')).toBe('rust')
+    expect(inferCodeLanguage('interface Options {\n  retries: number\n}')).toBe('typescript')
+    expect(inferCodeLanguage("import { Client } from 'widgets'\nconst client = new Client()")).toBe('javascript')
+    expect(inferCodeLanguage('SELECT id FROM users')).toBe('sql')
+    expect(inferCodeLanguage('.widget {\n  color: red;\n}')).toBe('css')
+    expect(inferCodeLanguage('name: widgets\nservices:\n  - api')).toBe('yaml')
+    expect(inferCodeLanguage('GET /v1/widgets HTTP/1.1')).toBe('http')
+  })
+
+  it('falls back to text', () => {
+    expect(inferCodeLanguage('Hello, world')).toBe('text')
+  })
+})
+
+describe('collectCodeExamples', () => {
+  it('records language, heading, topic and source of every block', () => {
+    const examples = collectCodeExamples([QUICKSTART], 'https://example.com/llms-full.txt')
+
+    expect(examples).toEqual([
+      {
+        language: 'bash',
+        inferred: false,
+        code: 'npm install widgets',
+        heading: 'Quickstart',
+        topic: 'Quickstart',
+        filename: 'quickstart.md',
+        sourceUrl: 'https://example.com/docs/quickstart',
+      },
+      expect.objectContaining({ language: 'typescript', heading: 'Create a client' }),
+      expect.objectContaining({
+        language: 'python',
+        inferred: true,
+        code: 'from widgets import Client\nclient = Client()',
+      }),
+    ])
+  })
+
+  it('handles tilde and longer fences, skips empty and repeated blocks', () => {
+    const examples = collectCodeExamples([QUICKSTART, API], 'https://example.com/llms-full.txt')
+    const api = examples.filter(example => example.topic === 'API Reference')
+
+    expect(api.map(example => [example.language, example.code])).toEqual([
+      ['json', '{"id": 1}'],
+      ['markdown', '```js\nnested()\n```'],
+    ])
+    expect(api[0]).toMatchObject({ heading: 'Responses', sourceUrl: 'https://example.com/llms-full.txt' })
+  })
+})
+
+describe('groupCodeExamples', () => {
+  it('orders languages by count, then topics by first appearance', () => {
+    const groups = groupCodeExamples(collectCodeExamples([
+      doc('A', '```py\nprint(1)\n```\n\n```sh\nls\n```'),
+      doc('B', '```python\nprint(2)\n```'),
+    ], 'https://example.com'))
+
+    expect(groups.map(({ language, count }) => [language, count])).toEqual([['python', 2], ['bash', 1]])
+    expect(groups[0].topics.map(({ topic }) => topic)).toEqual(['A', 'B'])
+  })
+})
+
+describe('buildCodeExampleIndex', () => {
+  it('writes CODE-EXAMPLES.md grouped by language and topic', () => {
+    const index = buildCodeExampleIndex([QUICKSTART, API], 'https://example.com/llms-full.txt')
+
+    expect(index?.count).toBe(5)
+    expect(index?.document.filename).toBe('CODE-EXAMPLES.md')
+    expect(index?.document.title).toBe('Example Code Examples')
+    expect(index?.document.tokens).toBeGreaterThan(0)
+
+    const content = index?.document.content ?? ''
+    expect(content).toContain('> 5 code examples in 5 languages from https://example.com/llms-full.txt')
+    expect(content).toContain('- Bash (1)\n- JSON (1)')
+    expect(content).toContain([
+      '## TypeScript',
+      '### Quickstart',
+      '#### Create a client',
+      'Source: https://example.com/docs/quickstart',
+      '```typescript\nconst client = new Client({ apiKey: process.env.API_KEY })\n```',
+    ].join('\n\n'))
+    expect(content).toContain('Source: https://example.com/docs/quickstart (language inferred)')
+    expect(content).toContain('````markdown\n```js\nnested()\n```\n````')
+  })
+
+  it('returns undefined without code blocks', () => {
+    expect(buildCodeExampleIndex([doc('Intro', '# Intro\n\nNo code here.')], 'https://example.com')).toBeUndefined()
+  })
+})
@@ -0,0 +1,314 @@
+/**
+ * Crawler unit tests
+ * Tests for robots.txt compliance, concurrency limits, crawl delays and retries
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { crawl, httpError, parseRetryAfter } from '@llm-energy/core'
+import { clearAllCaches } from '@/lib/cache'
+
+const mockFetch = vi.fn()
+
+/**
+ * Serve robots.txt files per origin from the mocked fetch
+ * A number stands for an HTTP status without a body
+ */
+function serveRobots(files: Record<string, string | number>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const file = files[new URL(url).origin]
+    if (file === undefined) return new Response('Not found', { status: 404 })
+    return typeof file === 'number'
+      ? new Response(null, { status: file })
+      : new Response(file, { status: 200 })
+  })
+}
+
+/**
+ * Page fetcher that records when each request started and how many were in flight
+ */
+function trackingFetcher(durationMs = 5) {
+  const starts: Array<{ url: string; at: number }> = []
+  let inFlight = 0
+  let maxInFlight = 0
+
+  const fetchPage = async (url: string) => {
+    starts.push({ url, at: Date.now() })
+    inFlight++
+    maxInFlight = Math.max(maxInFlight, inFlight)
+    await new Promise(resolve => setTimeout(resolve, durationMs))
+    inFlight--
+    return `content of ${url}`
+  }
+
+  return { fetchPage, starts, maxInFlight: () => maxInFlight }
+}
+
+describe('crawl', () => {
+  beforeEach(() => {
+    clearAllCaches()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('skips pages disallowed by robots.txt and keeps input order', async () => {
+    serveRobots({ 'https://example.com': 'User-agent: *\nDisallow: /admin/\n' })
+    const { fetchPage } = trackingFetcher()
+
+    const result = await crawl([
+      'https://example.com/docs/b',
+      'https://example.com/admin/users',
+      'https://example.com/docs/a',
+    ], fetchPage, { delayMs: 0 })
+
+    expect(result.pages.map(page => page.url)).toEqual(['https://example.com/docs/b', 'https://example.com/docs/a'])
+    expect(result.pages[0].value).toBe('content of https://example.com/docs/b')
+    expect(result.skipped).toEqual([{ url: 'https://example.com/admin/users', reason: 'robots-disallowed' }])
+  })
+
+  it('applies the group for our user agent', async () => {
+    serveRobots({ 'https://example.com': 'User-agent: *\nDisallow:\n\nUser-agent: llms-forge\nDisallow: /\n' })
+
+    const result = await crawl(['https://example.com/docs'], async () => 'page', { delayMs: 0 })
+
+    expect(result.pages).toHaveLength(0)
+    expect(result.skipped[0].reason).toBe('robots-disallowed')
+  })
+
+  it('crawls everything when robots.txt is missing', async () => {
+    serveRobots({})
+
+    const result = await crawl(['https://example.com/a', 'https://example.com/b'], async () => 'page', { delayMs: 0 })
+
+    expect(result.pages).toHaveLength(2)
+    expect(result.skipped).toEqual([])
+  })
+
+  it('skips a host whose robots.txt is unavailable', async () => {
+    serveRobots({ 'https://down.example.com': 503 })
+    const fetchPage = vi.fn(async () => 'page')
+
+    const result = await crawl(['https://down.example.com/docs'], fetchPage, { delayMs: 0 })
+
+    expect(fetchPage).not.toHaveBeenCalled()
+    expect(result.skipped).toEqual([{ url: 'https://down.example.com/docs', reason: 'robots-unavailable' }])
+  })
+
+  it('fetches robots.txt once per origin', async () => {
+    serveRobots({})
+
+    await crawl(['https://example.com/a', 'https://example.com/b'], async () => 'page', { delayMs: 0 })
+    await crawl(['https://example.com/c'], async () => 'page', { delayMs: 0 })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/robots.txt')
+  })
+
+  it('ignores robots.txt when respectRobots is false', async () => {
+    const result = await crawl(['https://example.com/a'], async () => 'page', { respectRobots: false, delayMs: 0 })
+
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(result.pages).toHaveLength(1)
+  })
+
+  it('limits requests in flight per host while crawling hosts in parallel', async () => {
+    serveRobots({})
+    const { fetchPage, maxInFlight } = trackingFetcher(20)
+    const urls = [1, 2, 3, 4, 5, 6].flatMap(i => [`https://a.example.com/${i}`, `https://b.example.com/${i}`])
+
+    const result = await crawl(urls, fetchPage, { concurrencyPerHost: 2, delayMs: 0 })
+
+    expect(result.pages).toHaveLength(12)
+    expect(maxInFlight()).toBe(4)
+  })
+
+  it('spaces requests by the robots.txt Crawl-delay, one at a time', async () => {
+    serveRobots({ 'https://example.com': 'User-agent: *\nCrawl-delay: 0.05\n' })
+    const { fetchPage, starts, maxInFlight } = trackingFetcher(1)
+
+    await crawl(['https://example.com/1', 'https://example.com/2', 'https://example.com/3'], fetchPage, {
+      concurrencyPerHost: 3,
+      delayMs: 0,
+    })
+
+    expect(maxInFlight()).toBe(1)
+    for (let i = 1; i < starts.length; i++) {
+      expect(starts[i].at - starts[i - 1].at).toBeGreaterThanOrEqual(45)
+    }
+  })
+
+  it('caps long crawl delays', async () => {
+    serveRobots({ 'https://example.com': 'User-agent: *\nCrawl-delay: 3600\n' })
+    const { fetchPage, starts } = trackingFetcher(1)
+
+    await crawl(['https://example.com/1', 'https://example.com/2'], fetchPage, { maxCrawlDelayMs: 20 })
+
+    expect(starts[1].at - starts[0].at).toBeLessThan(1000)
+  })
+
+  it('reports invalid URLs as skipped', async () => {
+    serveRobots({})
+
+    const result = await crawl(['not a url'], async () => 'page', { delayMs: 0 })
+
+    expect(result.skipped).toEqual([{ url: 'not a url', reason: 'invalid-url' }])
+    expect(result.pages).toHaveLength(0)
+  })
+
+  it('limits requests in flight across hosts', async () => {
+    serveRobots({})
+    const { fetchPage, maxInFlight } = trackingFetcher(20)
+    const urls = ['a', 'b', 'c', 'd'].flatMap(host => [`https://${host}.example.com/1`, `https://${host}.example.com/2`])
+
+    const result = await crawl(urls, fetchPage, { concurrency: 3, concurrencyPerHost: 2, delayMs: 0 })
+
+    expect(result.pages).toHaveLength(8)
+    expect(maxInFlight()).toBe(3)
+  })
+
+  it('retries 5xx responses with backoff', async () => {
+    serveRobots({})
+    let calls = 0
+    const fetchPage = vi.fn(async (url: string) => {
+      if (++calls < 3) throw httpError(url, new Response(null, { status: 503 }))
+      return 'page'
+    })
+
+    const result = await crawl(['https://example.com/flaky'], fetchPage, { delayMs: 0, retryDelayMs: 5 })
+
+    expect(fetchPage).toHaveBeenCalledTimes(3)
+    expect(result.pages).toHaveLength(1)
+    expect(result.failed).toEqual([])
+  })
+
+  it('waits for Retry-After before retrying a 429', async () => {
+    serveRobots({})
+    const starts: number[] = []
+    const fetchPage = async (url: string) => {
+      starts.push(Date.now())
+      if (starts.length === 1) {
+        throw httpError(url, new Response(null, { status: 429, headers: { 'Retry-After': '1' } }))
+      }
+      return 'page'
+    }
+
+    const result = await crawl(['https://example.com/limited'], fetchPage, { delayMs: 0, retryDelayMs: 5 })
+
+    expect(result.pages).toHaveLength(1)
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(950)
+  })
+
+  it('fails pages whose Retry-After is longer than the retry limit', async () => {
+    serveRobots({})
+    const fetchPage = vi.fn(async (url: string) => {
+      throw httpError(url, new Response(null, { status: 429, headers: { 'Retry-After': '120' } }))
+    })
+
+    const result = await crawl(['https://example.com/limited'], fetchPage, { delayMs: 0, maxRetryDelayMs: 1000 })
+
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+    expect(result.failed).toEqual([{
+      url: 'https://example.com/limited',
+      code: 'RATE_LIMITED',
+      status: 429,
+      message: 'Failed to fetch https://example.com/limited: 429',
+      attempts: 1,
+    }])
+  })
+
+  it('reports pages that still fail after all retries', async () => {
+    serveRobots({})
+    const fetchPage = vi.fn(async (url: string) => {
+      throw httpError(url, new Response(null, { status: 500 }))
+    })
+
+    const result = await crawl(['https://example.com/down'], fetchPage, { delayMs: 0, retries: 1, retryDelayMs: 5 })
+
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+    expect(result.failed[0]).toMatchObject({ code: 'HTTP_ERROR', status: 500, attempts: 2 })
+  })
+
+  it('does not retry 4xx responses', async () => {
+    serveRobots({})
+    const fetchPage = vi.fn(async (url: string) => {
+      throw httpError(url, new Response(null, { status: 404 }))
+    })
+
+    const result = await crawl(['https://example.com/missing'], fetchPage, { delayMs: 0 })
+
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+    expect(result.failed[0]).toMatchObject({ code: 'HTTP_ERROR', status: 404, attempts: 1 })
+  })
+
+  it('times out slow pages and aborts their request', async () => {
+    serveRobots({})
+    let aborted = false
+    const fetchPage = (_url: string, signal: AbortSignal) => new Promise<string>(() => {
+      signal.addEventListener('abort', () => (aborted = true))
+    })
+
+    const result = await crawl(['https://example.com/slow'], fetchPage, { delayMs: 0, pageTimeoutMs: 20 })
+
+    expect(aborted).toBe(true)
+    expect(result.failed[0]).toMatchObject({ code: 'TIMEOUT', attempts: 1 })
+  })
+
+  it('classifies connection failures and conversion errors', async () => {
+    serveRobots({})
+
+    const result = await crawl(['https://example.com/a', 'https://example.com/b'], async url => {
+      if (url.endsWith('/a')) throw new TypeError('fetch failed')
+      throw new Error('Unexpected markup')
+    }, { delayMs: 0 })
+
+    expect(result.failed.map(failure => failure.code).sort()).toEqual(['NETWORK_ERROR', 'UNKNOWN'])
+  })
+
+  it('stops when the signal is aborted', async () => {
+    serveRobots({})
+    const controller = new AbortController()
+    const fetchPage = vi.fn(async (url: string) => {
+      controller.abort()
+      return url
+    })
+
+    const result = await crawl(
+      ['https://example.com/1', 'https://example.com/2', 'https://example.com/3'],
+      fetchPage,
+      { concurrencyPerHost: 1, delayMs: 0, signal: controller.signal }
+    )
+
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+    expect(result.pages).toHaveLength(1)
+  })
+
+  it('reports progress and finishes with completed === total', async () => {
+    serveRobots({ 'https://example.com': 'User-agent: *\nDisallow: /skip\n' })
+    const onProgress = vi.fn()
+
+    await crawl(['https://example.com/skip', 'https://example.com/keep'], async () => 'page', { delayMs: 0, onProgress })
+
+    expect(onProgress).toHaveBeenCalledWith(1, 2, 'https://example.com/keep')
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2, '')
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('reads delays in seconds', () => {
+    expect(parseRetryAfter('30')).toBe(30000)
+  })
+
+  it('reads HTTP dates relative to now', () => {
+    const now = Date.parse('Mon, 05 Oct 2026 10:00:00 GMT')
+    expect(parseRetryAfter('Mon, 05 Oct 2026 10:00:05 GMT', now)).toBe(5000)
+    expect(parseRetryAfter('Mon, 05 Oct 2026 09:00:00 GMT', now)).toBe(0)
+  })
+
+  it('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Near-duplicate detection unit tests
+ * Tests for shingling, MinHash similarity and collapsing duplicate
+ * documents in @llm-energy/core
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  dedupeDocuments,
+  estimateSimilarity,
+  minHashSignature,
+  shingleHashes,
+  type Document,
+} from '@llm-energy/core'
+
+const AUTH = `## Authentication
+
+Every request needs an API key in the Authorization header. Keys are created
+in the dashboard under Settings and can be rotated at any time without
+downtime. Requests without a valid key fail with a 401 status code, and
+requests with a revoked key fail with a 403 status code. Use a separate key
+for each environment so that test traffic never touches production data.`
+
+const PAGINATION = `## Pagination
+
+List endpoints return at most one hundred items per page. Pass the cursor
+from the previous response to fetch the next page, and stop when the
+response no longer contains a cursor. Cursors expire after twenty four hours.`
+
+function doc(filename: string, content: string, sourceUrl?: string): Document {
+  return { filename, title: filename.replace('.md', ''), content, tokens: 100, sourceUrl }
+}
+
+function similarity(a: string, b: string): number {
+  return estimateSimilarity(minHashSignature(shingleHashes(a)), minHashSignature(shingleHashes(b)))
+}
+
+describe('shingleHashes', () => {
+  it('ignores case, markdown syntax and link targets', () => {
+    expect(shingleHashes('See the [API reference](/api) for **all** options'))
+      .toEqual(shingleHashes('see the [API Reference](https://example.com/docs/api) for all options'))
+  })
+
+  it('returns one shingle for texts shorter than the shingle size', () => {
+    expect(shingleHashes('Hello world').size).toBe(1)
+    expect(shingleHashes('  ').size).toBe(0)
+  })
+})
+
+describe('estimateSimilarity', () => {
+  it('is 1 for identical text, high for small edits and low for other text', () => {
+    expect(similarity(AUTH, AUTH)).toBe(1)
+    expect(similarity(AUTH, AUTH.replace('at any time', 'whenever you like'))).toBeGreaterThan(0.6)
+    expect(similarity(AUTH, PAGINATION)).toBeLessThan(0.1)
+  })
+})
+
+describe('dedupeDocuments', () => {
+  const documents = [
+    doc('authentication.md', AUTH),
+    doc('pagination.md', PAGINATION),
+    doc('authentication-1.md', `${AUTH}\n`, 'https://example.com/llms-api-full.txt'),
+    doc('authentication-2.md', `${AUTH} Keys never expire.`, 'https://example.com/llms-sdk-full.txt'),
+  ]
+
+  it('collapses duplicates into the first copy and keeps every source', () => {
+    const result = dedupeDocuments(documents, 'https://example.com/llms-full.txt')
+
+    expect(result.documents.map(d => d.filename)).toEqual(['authentication.md', 'pagination.md'])
+    expect(result.documents[0].sourceUrls).toEqual([
+      'https://example.com/llms-full.txt',
+      'https://example.com/llms-api-full.txt',
+      'https://example.com/llms-sdk-full.txt',
+    ])
+    expect(result.documents[1].sourceUrls).toBeUndefined()
+    expect(result.removedCount).toBe(2)
+    expect(result.removedTokens).toBe(200)
+  })
+
+  it('flags duplicates instead of removing them when asked to keep them', () => {
+    const result = dedupeDocuments(documents, 'https://example.com/llms-full.txt', { keepDuplicates: true })
+
+    expect(result.documents).toHaveLength(4)
+    expect(result.documents.map(d => d.duplicateOf)).toEqual([
+      undefined,
+      undefined,
+      'authentication.md',
+      'authentication.md',
+    ])
+    expect(result.removedCount).toBe(0)
+    expect(result.removedTokens).toBe(0)
+  })
+
+  it('returns the same documents when nothing repeats', () => {
+    const unique = [doc('a.md', AUTH), doc('b.md', PAGINATION), doc('c.md', ''), doc('d.md', '')]
+
+    expect(dedupeDocuments(unique, 'https://example.com').documents).toBe(unique)
+  })
+
+  it('respects the similarity threshold', () => {
+    const edited = [doc('a.md', AUTH), doc('b.md', AUTH.replace('Settings', 'Account settings'))]
+
+    expect(dedupeDocuments(edited, 'https://example.com', { threshold: 1 }).removedCount).toBe(0)
+    expect(dedupeDocuments(edited, 'https://example.com', { threshold: 0.5 }).removedCount).toBe(1)
+  })
+})
@@ -0,0 +1,233 @@
+/**
+ * Documentation diff tests
+ * Tests for comparing two extractions in @llm-energy/core
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import {
+  diffLines,
+  formatHunks,
+  diffExtractions,
+  formatDiffChangelog,
+  type Document,
+  type ExtractionResult,
+} from '@llm-energy/core'
+import { GET } from '@/app/api/diff/route'
+import { clearAllCaches } from '@/lib/cache'
+import { cacheExtraction, getExtractionCacheKey } from '@/lib/extractor'
+import { getSnapshotStore } from '@/lib/snapshot-store'
+
+function doc(title: string, content: string, index: number): Document {
+  return {
+    filename: `${String(index + 1).padStart(2, '0')}-${title.toLowerCase().replace(/\s+/g, '-')}.md`,
+    title,
+    content,
+    tokens: 0,
+  }
+}
+
+function extraction(sections: Array<[string, string]>, sourceUrl = 'https://docs.example.com/llms-full.txt') {
+  return {
+    url: 'https://docs.example.com',
+    sourceUrl,
+    documents: sections.map(([title, content], i) => doc(title, content, i)),
+  }
+}
+
+describe('diffLines', () => {
+  it('returns no hunks for equal text', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([])
+  })
+
+  it('produces a unified diff with context', () => {
+    const hunks = diffLines('a\nb\nc', 'a\nB\nc')
+    expect(formatHunks(hunks)).toBe('@@ -1,3 +1,3 @@\n a\n-b\n+B\n c')
+  })
+
+  it('splits distant changes into separate hunks', () => {
+    const before = Array.from({ length: 30 }, (_, i) => `line ${i}`)
+    const after = [...before]
+    after[2] = 'changed 2'
+    after[25] = 'changed 25'
+
+    const hunks = diffLines(before.join('\n'), after.join('\n'), 2)
+    expect(hunks).toHaveLength(2)
+    expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 5, newStart: 1, newLines: 5 })
+    expect(hunks[1]).toMatchObject({ oldStart: 24, oldLines: 5, newStart: 24, newLines: 5 })
+  })
+
+  it('numbers the start of a pure insertion after the line it follows', () => {
+    const [hunk] = diffLines('a\nb', 'a\nb\nc', 0)
+    expect(hunk).toMatchObject({ oldStart: 2, oldLines: 0, newStart: 3, newLines: 1 })
+  })
+
+  it('finds a minimal edit script that rebuilds both texts', () => {
+    const lcsLength = (a: string[], b: string[]) => {
+      const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+      for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+          table[i][j] = a[i - 1] === b[j - 1] ? table[i - 1][j - 1] + 1 : Math.max(table[i - 1][j], table[i][j - 1])
+        }
+      }
+      return table[a.length][b.length]
+    }
+
+    // Deterministic pseudo-random edits
+    let seed = 7
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+
+    for (let round = 0; round < 20; round++) {
+      const before = Array.from({ length: 40 }, () => String(Math.floor(random() * 6)))
+      const after = before.filter(() => random() > 0.2).map(line => (random() > 0.9 ? `${line}x` : line))
+
+      const lines = diffLines(before.join('\n'), after.join('\n'), 1000).flatMap(hunk => hunk.lines)
+      expect(lines.filter(l => l.type !== 'added').map(l => l.content)).toEqual(before)
+      expect(lines.filter(l => l.type !== 'removed').map(l => l.content)).toEqual(after)
+      expect(lines.filter(l => l.type === 'context')).toHaveLength(lcsLength(before, after))
+    }
+  })
+})
+
+describe('diffExtractions', () => {
+  const before = extraction([
+    ['Introduction', '# Introduction\n\nWelcome.'],
+    ['Authentication', '# Authentication\n\nUse an API key.\n\nKeys never expire.'],
+    ['Errors', '# Errors\n\n429 means slow down.'],
+    ['Legacy API', '# Legacy API\n\nDo not use.'],
+  ])
+
+  const after = extraction([
+    ['Introduction', '# Introduction\n\nWelcome.'],
+    ['Authentication', '# Authentication\n\nUse an API key.\n\nKeys expire after 90 days.'],
+    ['Errors', '# Errors\n\n429 means slow down.'],
+    ['Webhooks', '# Webhooks\n\nEvents are signed.'],
+  ])
+
+  it('classifies sections as added, removed, modified or moved', () => {
+    const diff = diffExtractions(before, after)
+
+    expect(diff.summary).toEqual({ added: 1, removed: 1, modified: 1, moved: 0, unchanged: 2 })
+    expect(diff.changes.map(c => [c.type, c.title])).toEqual([
+      ['modified', 'Authentication'],
+      ['added', 'Webhooks'],
+      ['removed', 'Legacy API'],
+    ])
+  })
+
+  it('reports moved sections whose content is unchanged', () => {
+    const reordered = extraction([
+      ['Errors', '# Errors\n\n429 means slow down.'],
+      ['Introduction', '# Introduction\n\nWelcome.'],
+      ['Authentication', '# Authentication\n\nUse an API key.\n\nKeys never expire.'],
+      ['Legacy API', '# Legacy API\n\nDo not use.'],
+    ])
+
+    const diff = diffExtractions(before, reordered)
+    expect(diff.changes).toHaveLength(1)
+    expect(diff.changes[0]).toMatchObject({
+      type: 'moved',
+      title: 'Errors',
+      before: { position: 2 },
+      after: { position: 0 },
+    })
+  })
+
+  it('gives modified sections line-level hunks', () => {
+    const modified = diffExtractions(before, after).changes[0]
+
+    expect(modified.additions).toBe(1)
+    expect(modified.deletions).toBe(1)
+    expect(formatHunks(modified.hunks)).toContain('-Keys never expire.\n+Keys expire after 90 days.')
+  })
+
+  it('matches repeated titles by occurrence', () => {
+    const a = extraction([['Example', 'one'], ['Example', 'two']])
+    const b = extraction([['Example', 'one'], ['Example', 'two!']])
+
+    const diff = diffExtractions(a, b)
+    expect(diff.summary).toMatchObject({ modified: 1, unchanged: 1 })
+    expect(diff.changes[0].after?.position).toBe(1)
+  })
+})
+
+describe('formatDiffChangelog', () => {
+  it('summarizes the changes as markdown', () => {
+    const diff = diffExtractions(
+      extraction([['Intro', 'a'], ['Old', 'b']]),
+      extraction([['Intro', 'a!'], ['New', 'c']])
+    )
+    const changelog = formatDiffChangelog(diff, { beforeLabel: 'v1', afterLabel: 'live', includeDiffs: true })
+
+    expect(changelog).toContain('**Before:** v1')
+    expect(changelog).toContain('1 added, 1 removed, 1 modified, 0 moved, 0 unchanged')
+    expect(changelog).toContain('## Added\n\n- New (`02-new.md`)')
+    expect(changelog).toContain('## Removed\n\n- Old (`02-old.md`)')
+    expect(changelog).toContain('- Intro: +1 −1')
+    expect(changelog).toContain('```diff\n@@ -1,1 +1,1 @@\n-a\n+a!\n```')
+  })
+
+  it('says when nothing changed', () => {
+    const same = extraction([['Intro', 'a']])
+    expect(formatDiffChangelog(diffExtractions(same, same))).toContain('No changes across 1 sections.')
+  })
+})
+
+describe('GET /api/diff with a snapshot', () => {
+  let dir: string
+
+  function result(sections: Array<[string, string]>): ExtractionResult {
+    const documents = extraction(sections).documents
+    const fullDocument = { filename: 'llms-full.md', title: 'Full', content: '', tokens: 0 }
+    return {
+      ...extraction(sections),
+      rawContent: '',
+      documents,
+      fullDocument,
+      agentGuide: { ...fullDocument, filename: 'AGENT-GUIDE.md' },
+      stats: { totalTokens: 0, documentCount: documents.length, processingTime: 0 },
+    }
+  }
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'llm-energy-diff-'))
+    process.env.SNAPSHOT_STORE = 'fs'
+    process.env.SNAPSHOT_PATH = dir
+  })
+
+  afterAll(async () => {
+    delete process.env.SNAPSHOT_STORE
+    delete process.env.SNAPSHOT_PATH
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    clearAllCaches()
+  })
+
+  it('compares the live side with the latest snapshot of the same options', async () => {
+    const store = getSnapshotStore()!
+    await store.save(result([['Intro', 'index only']]))
+    await store.save(result([['Intro', 'expanded'], ['Guide', 'page']]), 'expand')
+    cacheExtraction(
+      getExtractionCacheKey({ url: 'https://docs.example.com', expandLinks: true }),
+      result([['Intro', 'expanded'], ['Guide', 'page!']])
+    )
+
+    const response = await GET(new NextRequest('https://llm.energy/api/diff?url=docs.example.com&snapshot=latest&expand=true'))
+    const diff = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(diff.summary).toMatchObject({ added: 0, removed: 0, modified: 1, unchanged: 1 })
+  })
+
+  it('reports a missing snapshot for the requested options', async () => {
+    const response = await GET(new NextRequest('https://llm.energy/api/diff?url=docs.example.com&snapshot=latest&locale=ja'))
+
+    expect(response.status).toBe(404)
+    expect((await response.json()).error).toContain('(locale=ja)')
+  })
+})
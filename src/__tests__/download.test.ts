@@ -0,0 +1,108 @@
+/**
+ * Download tests
+ * Tests for the ZIP bundles built by /api/download and zip-builder
+ */
+
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/download/route'
+import { createZipBundle, getFileCount } from '@/lib/zip-builder'
+import { generateOutputs } from '@/lib/output-generator'
+import { buildCodeExampleIndex, type Document } from '@llm-energy/core'
+
+const DOCUMENTS: Document[] = [
+  {
+    filename: 'quickstart.md',
+    title: 'Quickstart',
+    content: '# Quickstart\n\n```sh\nnpm install widgets\n```\n',
+    tokens: 10,
+  },
+  {
+    filename: 'client.md',
+    title: 'Client',
+    content: '# Client\n\n```ts\nconst client = new Client()\n```\n',
+    tokens: 10,
+  },
+]
+
+const FULL_DOCUMENT: Document = { filename: 'llms-full.md', title: 'Full', content: '# Full\n', tokens: 2 }
+const AGENT_GUIDE: Document = { filename: 'AGENT-GUIDE.md', title: 'Guide', content: '# Guide\n', tokens: 2 }
+
+function zipRequest(body: unknown): NextRequest {
+  return new NextRequest('https://llm.energy/api/download', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+describe('POST /api/download with extraction documents', () => {
+  it('zips the posted documents with CODE-EXAMPLES.md and code-examples.json', async () => {
+    const codeExamples = buildCodeExampleIndex(DOCUMENTS, 'https://widgets.example.com/llms.txt', 'widgets')!
+
+    const response = await POST(zipRequest({
+      documents: DOCUMENTS,
+      fullDocument: FULL_DOCUMENT,
+      agentGuide: AGENT_GUIDE,
+      codeExamples,
+      siteName: 'widgets.example.com',
+    }))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('application/zip')
+
+    const zip = await JSZip.loadAsync(await response.arrayBuffer())
+    const folder = 'widgetsexamplecom-docs'
+    expect(Object.keys(zip.files).filter(name => !zip.files[name].dir).sort()).toEqual([
+      `${folder}/AGENT-GUIDE.md`,
+      `${folder}/CODE-EXAMPLES.md`,
+      `${folder}/code-examples.json`,
+      `${folder}/docs/client.md`,
+      `${folder}/docs/quickstart.md`,
+      `${folder}/llms-full.md`,
+    ])
+    expect(await zip.file(`${folder}/CODE-EXAMPLES.md`)!.async('string')).toBe(codeExamples.document.content)
+    expect(await zip.file(`${folder}/docs/client.md`)!.async('string')).toBe(DOCUMENTS[1].content)
+
+    const groups = JSON.parse(await zip.file(`${folder}/code-examples.json`)!.async('string'))
+    expect(groups.map((group: { language: string }) => group.language).sort()).toEqual(['bash', 'typescript'])
+  })
+
+  it('leaves the code examples out when the extraction has none', async () => {
+    const response = await POST(zipRequest({
+      documents: [],
+      fullDocument: FULL_DOCUMENT,
+      agentGuide: AGENT_GUIDE,
+      siteName: 'empty.example.com',
+    }))
+
+    const zip = await JSZip.loadAsync(await response.arrayBuffer())
+    expect(zip.file(/CODE-EXAMPLES\.md$/)).toHaveLength(0)
+    expect(zip.file(/code-examples\.json$/)).toHaveLength(0)
+  })
+
+  it('rejects a bundle without the full document', async () => {
+    const response = await POST(zipRequest({ documents: DOCUMENTS, agentGuide: AGENT_GUIDE, siteName: 'widgets' }))
+
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('createZipBundle', () => {
+  it('adds the code example files of the generated outputs', async () => {
+    const codeExamples = buildCodeExampleIndex(DOCUMENTS, 'https://widgets.example.com/llms.txt', 'widgets')!
+    const outputs = generateOutputs(
+      DOCUMENTS.map(doc => ({ title: doc.title, url: 'https://widgets.example.com', content: doc.content, wordCount: 4 })),
+      'https://widgets.example.com',
+      'widgets',
+      { codeExamples }
+    )
+
+    const zip = await JSZip.loadAsync(await createZipBundle(outputs, 'widgets'))
+
+    expect(await zip.file('widgets-docs/CODE-EXAMPLES.md')!.async('string')).toBe(codeExamples.document.content)
+    expect(zip.file('widgets-docs/code-examples.json')).not.toBeNull()
+    expect(getFileCount(outputs)).toBe(4 + DOCUMENTS.length + 2)
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Extraction progress stream tests
+ * Tests for the Server-Sent Events response of /api/extract
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/extract/route'
+import { clearAllCaches, getExtractionCache } from '@/lib/cache'
+import type { ExtractionResult } from '@/types'
+
+const mockFetch = vi.fn()
+
+const LLMS_FULL = `# Example
+
+> Example docs
+
+## Getting Started
+
+Install the package and create a client.
+
+## Configuration
+
+Set the API key before making requests.
+`
+
+interface StreamEvent {
+  event: string
+  data: Record<string, unknown>
+}
+
+/**
+ * Parse the events of a Server-Sent Events body
+ */
+function parseEvents(text: string): StreamEvent[] {
+  return text
+    .split('\n\n')
+    .filter(block => block.trim())
+    .map(block => {
+      const lines = block.split('\n')
+      const event = lines.find(line => line.startsWith('event: '))?.slice(7) ?? 'message'
+      const data = lines
+        .filter(line => line.startsWith('data: '))
+        .map(line => line.slice(6))
+        .join('\n')
+      return { event, data: JSON.parse(data) }
+    })
+}
+
+function streamRequest(url: string, signal?: AbortSignal): NextRequest {
+  return new NextRequest(`https://llm.energy/api/extract?url=${encodeURIComponent(url)}`, {
+    headers: { Accept: 'text/event-stream', 'x-forwarded-for': '203.0.113.7' },
+    signal,
+  })
+}
+
+/**
+ * Read a streamed response to the end, calling onEvent with each event as it arrives
+ */
+async function readStream(response: Response, onEvent?: (event: StreamEvent) => void): Promise<StreamEvent[]> {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  const events: StreamEvent[] = []
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const end = buffer.lastIndexOf('\n\n')
+    if (end === -1) continue
+    for (const event of parseEvents(buffer.slice(0, end))) {
+      events.push(event)
+      onEvent?.(event)
+    }
+    buffer = buffer.slice(end + 2)
+  }
+
+  return events
+}
+
+describe('GET /api/extract with Accept: text/event-stream', () => {
+  beforeEach(() => {
+    clearAllCaches()
+    vi.stubGlobal('fetch', mockFetch)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    mockFetch.mockReset()
+  })
+
+  it('sends progress, then each document, then the result', async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url === 'https://stream.example.com/llms-full.txt'
+        ? new Response(LLMS_FULL, { status: 200 })
+        : new Response('Not found', { status: 404 })
+    )
+
+    const response = await GET(streamRequest('https://stream.example.com'))
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+
+    const events = await readStream(response)
+    const names = events.map(e => e.event)
+    const result = events[events.length - 1]
+
+    expect(names[0]).toBe('progress')
+    expect(result.event).toBe('result')
+    expect(names.filter(name => name === 'result')).toHaveLength(1)
+    expect(names.indexOf('document')).toBeGreaterThan(names.indexOf('progress'))
+    expect(names.lastIndexOf('document')).toBeLessThan(names.indexOf('result'))
+
+    const documents = events.filter(e => e.event === 'document').map(e => e.data.title)
+    expect(documents).toEqual((result.data.documents as Array<{ title: string }>).map(doc => doc.title))
+  })
+
+  it('revalidates an expired cached result inside the stream', async () => {
+    const cached = { url: 'https://stale.example.com', sourceUrl: 'https://stale.example.com/llms-full.txt', documents: [] }
+    getExtractionCache<ExtractionResult>().set('https://stale.example.com', cached as unknown as ExtractionResult, 1, { etag: '"v1"' })
+    await new Promise(resolve => setTimeout(resolve, 5))
+
+    let answerHead: (response: Response) => void = () => {}
+    mockFetch.mockImplementation((_url: string, init?: RequestInit) => init?.method === 'HEAD'
+      ? new Promise<Response>(resolve => { answerHead = resolve })
+      : Promise.resolve(new Response('Not found', { status: 404 })))
+
+    // The response starts before the origin has answered the conditional request
+    const response = await GET(streamRequest('https://stale.example.com'))
+    const events = await readStream(response, event => {
+      if (event.event === 'progress') answerHead(new Response(null, { status: 304 }))
+    })
+
+    expect(events.map(e => e.event)).toEqual(['progress', 'result'])
+    expect(events[1].data.sourceUrl).toBe(cached.sourceUrl)
+  })
+
+  it('ends with an error event when no documentation is found', async () => {
+    mockFetch.mockImplementation(async () => new Response('Not found', { status: 404 }))
+
+    const events = await readStream(await GET(streamRequest('https://missing.example.com')))
+    const last = events[events.length - 1]
+
+    expect(last.event).toBe('error')
+    expect(last.data.status).toBe(404)
+    expect(last.data.error).toContain('missing.example.com')
+    expect(events.some(e => e.event === 'result')).toBe(false)
+  })
+
+  it('stops the extraction and closes the stream when the client disconnects', async () => {
+    // Requests hang until they are aborted
+    mockFetch.mockImplementation((_url: string, init?: RequestInit) =>
+      new Promise((_, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      })
+    )
+    const controller = new AbortController()
+
+    const response = await GET(streamRequest('https://slow.example.com', controller.signal))
+    const events = await readStream(response, event => {
+      if (event.event === 'progress') controller.abort()
+    })
+
+    expect(events[0].event).toBe('progress')
+    expect(events.some(e => e.event === 'result' || e.event === 'error')).toBe(false)
+  })
+})
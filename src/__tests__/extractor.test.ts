@@ -0,0 +1,586 @@
+/**
+ * Extraction engine unit tests
+ * Tests for the shared strategy-based extractor in @llm-energy/core
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  extractDocumentation,
+  splitLlmsSections,
+  getLlmsTxtCandidates,
+  detectLinkedLlmsTxtFiles,
+  createStrategyContext,
+  getManifestPageLinks,
+  normalizeLlmsTxtUrl,
+  buildLinkedSourceTree,
+  parseLlmsTxtManifest,
+  countTokens,
+  ExtractionError,
+  ExtractionStrategy,
+  getWebStrategies,
+  webStrategies,
+} from '@llm-energy/core'
+
+const mockFetch = vi.fn()
+
+/**
+ * Serve the given files from the mocked fetch; everything else is a 404
+ */
+function serveFiles(files: Record<string, string>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const body = files[url]
+    return body !== undefined
+      ? new Response(body, { status: 200 })
+      : new Response('Not found', { status: 404 })
+  })
+}
+
+const LLMS_FULL = `# Example
+
+> Example docs
+
+## Getting Started
+
+Install the package and call the client.
+
+## API Reference
+
+All endpoints are documented here.
+`
+
+describe('splitLlmsSections', () => {
+  it('splits content at ## headings with numbered filenames', () => {
+    const docs = splitLlmsSections(LLMS_FULL)
+
+    expect(docs.map(d => d.filename)).toEqual([
+      '01-introduction.md',
+      '02-getting-started.md',
+      '03-api-reference.md',
+    ])
+    expect(docs[1].content).toBe('## Getting Started\n\nInstall the package and call the client.')
+  })
+
+  it('skips fragments shorter than 20 characters', () => {
+    const docs = splitLlmsSections('## Tiny\n\n## Real Section\n\nThis one has enough content.')
+    expect(docs).toHaveLength(1)
+    expect(docs[0].title).toBe('Real Section')
+  })
+
+  it('prefixes titles and continues numbering for linked sources', () => {
+    const docs = splitLlmsSections(LLMS_FULL, {
+      name: 'SDK',
+      sourceUrl: 'https://example.com/llms-sdk.txt',
+      offset: 3,
+    })
+
+    expect(docs[0].title).toBe('SDK')
+    expect(docs[1].title).toBe('SDK: Getting Started')
+    expect(docs[1].filename).toBe('05-sdk-getting-started.md')
+    expect(docs.every(d => d.sourceUrl === 'https://example.com/llms-sdk.txt')).toBe(true)
+  })
+
+  it('treats content without ## headings as a single introduction', () => {
+    const docs = splitLlmsSections('Plain text documentation without any headings at all.')
+    expect(docs).toHaveLength(1)
+    expect(docs[0].filename).toBe('01-introduction.md')
+  })
+})
+
+describe('getLlmsTxtCandidates', () => {
+  it('prefers llms-full.txt on every host before llms.txt', () => {
+    const candidates = getLlmsTxtCandidates(createStrategyContext('https://example.com'))
+
+    expect(candidates[0]).toBe('https://example.com/llms-full.txt')
+    expect(candidates.indexOf('https://docs.example.com/llms-full.txt'))
+      .toBeLessThan(candidates.indexOf('https://example.com/llms.txt'))
+    expect(candidates[candidates.length - 1]).toBe('https://example.com/.well-known/llms.txt')
+  })
+
+  it('checks the given path before the site root', () => {
+    const candidates = getLlmsTxtCandidates(createStrategyContext('https://example.com/docs/'))
+    expect(candidates[0]).toBe('https://example.com/docs/llms-full.txt')
+    expect(candidates[1]).toBe('https://example.com/llms-full.txt')
+  })
+
+  it('tries the translated files first for another locale', () => {
+    const candidates = getLlmsTxtCandidates(createStrategyContext('https://example.com', { locale: 'ja' }))
+
+    expect(candidates.slice(0, 4)).toEqual([
+      'https://example.com/ja/llms-full.txt',
+      'https://example.com/llms-ja-full.txt',
+      'https://example.com/ja/llms.txt',
+      'https://example.com/llms-ja.txt',
+    ])
+    expect(candidates[4]).toBe('https://example.com/llms-full.txt')
+  })
+
+  it('uses a direct .txt URL as-is', () => {
+    const candidates = getLlmsTxtCandidates(createStrategyContext('https://example.com/llms-sdk.txt'))
+    expect(candidates).toEqual(['https://example.com/llms-sdk.txt'])
+  })
+})
+
+describe('detectLinkedLlmsTxtFiles', () => {
+  it('prefers the -full variant of each linked file', () => {
+    const content = `# Hub
+- [SDK](https://example.com/llms-sdk.txt): SDK docs
+- [SDK full](https://example.com/llms-sdk-full.txt)
+- [Main](https://example.com/llms.txt)`
+
+    const linked = detectLinkedLlmsTxtFiles(content, 'https://example.com/llms-full.txt')
+
+    expect(linked).toHaveLength(1)
+    expect(linked[0].url).toBe('https://example.com/llms-sdk-full.txt')
+    expect(linked[0].name).toBe('Sdk')
+  })
+
+  it('resolves relative links and keeps other sites\' llms.txt', () => {
+    const content = `# Hub
+- [Payments](./payments/llms.txt): Payments API
+- [Product](https://product.example.com/llms.txt)`
+
+    const linked = detectLinkedLlmsTxtFiles(content, 'https://example.com/docs/llms.txt')
+
+    expect(linked.map(l => l.url)).toEqual([
+      'https://example.com/docs/payments/llms.txt',
+      'https://product.example.com/llms.txt',
+    ])
+    expect(linked[0]).toMatchObject({ name: 'Payments', description: 'Payments API' })
+  })
+
+  it('reads the locale of translated files from their URL', () => {
+    const linked = detectLinkedLlmsTxtFiles(
+      '- [SDK](llms-sdk.txt)\n- [日本語](llms-ja.txt)\n- [中文](/zh-CN/llms-full.txt)',
+      'https://example.com/llms.txt'
+    )
+
+    expect(linked.map(l => l.locale)).toEqual([undefined, 'ja', 'zh-cn'])
+  })
+
+  it('skips links back to the source file', () => {
+    const linked = detectLinkedLlmsTxtFiles(
+      '- [Self](llms-full.txt)\n- [Root](https://example.com/llms.txt)',
+      'https://example.com/llms.txt'
+    )
+    expect(linked).toEqual([])
+  })
+})
+
+describe('normalizeLlmsTxtUrl', () => {
+  it('ignores protocol, www, hash and the -full suffix', () => {
+    expect(normalizeLlmsTxtUrl('http://www.Example.com/sdk/llms-full.txt#top'))
+      .toBe(normalizeLlmsTxtUrl('https://example.com/sdk/llms.txt'))
+  })
+})
+
+describe('buildLinkedSourceTree', () => {
+  it('nests sources under their parent', () => {
+    const tree = buildLinkedSourceTree([
+      { url: 'https://a.dev/llms.txt', name: 'A', parentUrl: 'https://hub.dev/llms.txt', depth: 1 },
+      { url: 'https://b.dev/llms.txt', name: 'B', parentUrl: 'https://hub.dev/llms.txt', depth: 1 },
+      { url: 'https://a.dev/sub/llms.txt', name: 'Sub', parentUrl: 'https://a.dev/llms.txt', depth: 2 },
+    ])
+
+    expect(tree.map(n => n.source.name)).toEqual(['A', 'B'])
+    expect(tree[0].children.map(n => n.source.name)).toEqual(['Sub'])
+  })
+})
+
+const INDEX = `# Example
+
+> Example docs
+
+## Docs
+
+- [Quickstart](/docs/quickstart.md): Get started
+- [API](https://example.com/docs/api.md): Endpoints
+- [SDK index](https://example.com/llms-sdk.txt)
+
+## Optional
+
+- [Changelog](https://example.com/changelog.md)
+`
+
+describe('getManifestPageLinks', () => {
+  it('skips llms.txt links and puts optional pages last', () => {
+    const manifest = parseLlmsTxtManifest(
+      `# Hub\n\n## Optional\n\n- [Extra](https://example.com/extra.md)\n\n## Docs\n\n- [A](https://example.com/a.md)\n- [A again](https://example.com/a.md#intro)\n- [Index](https://example.com/llms-full.txt)`
+    )
+
+    expect(getManifestPageLinks(manifest).map(l => l.url)).toEqual([
+      'https://example.com/a.md',
+      'https://example.com/extra.md',
+    ])
+  })
+})
+
+describe('extractDocumentation', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('extracts llms-full.txt with the default strategy', async () => {
+    serveFiles({ 'https://example.com/llms-full.txt': LLMS_FULL })
+
+    const result = await extractDocumentation('example.com')
+
+    expect(result.url).toBe('https://example.com')
+    expect(result.sourceUrl).toBe('https://example.com/llms-full.txt')
+    expect(result.strategy).toBe('llms-txt')
+    expect(result.stats.documentCount).toBe(3)
+    expect(result.fullDocument.filename).toBe('llms-full.md')
+    expect(result.agentGuide.filename).toBe('AGENT-GUIDE.md')
+  })
+
+  it('keeps the source file validators for conditional requests', async () => {
+    mockFetch.mockImplementation(async (url: string) => url === 'https://example.com/llms-full.txt'
+      ? new Response(LLMS_FULL, { headers: { ETag: '"v1"', 'Last-Modified': 'Mon, 05 Oct 2026 10:00:00 GMT' } })
+      : new Response('Not found', { status: 404 }))
+
+    const result = await extractDocumentation('example.com')
+
+    expect(result.validators).toEqual({ etag: '"v1"', lastModified: 'Mon, 05 Oct 2026 10:00:00 GMT' })
+  })
+
+  it('leaves out validators when other files contributed documents', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === 'https://example.com/llms.txt') {
+        return new Response(`# Hub\n\n## Products\n\n- [SDK](https://example.com/llms-sdk.txt): The SDK`, { headers: { ETag: '"hub"' } })
+      }
+      return url === 'https://example.com/llms-sdk.txt'
+        ? new Response(LLMS_FULL)
+        : new Response('Not found', { status: 404 })
+    })
+
+    const result = await extractDocumentation('https://example.com')
+
+    expect(result.linkedSources).toHaveLength(1)
+    expect(result.validators).toBeUndefined()
+  })
+
+  it('collapses sections repeated across linked llms.txt files', async () => {
+    serveFiles({
+      'https://example.com/llms.txt': `# Hub\n\n## Products\n\n- [SDK](https://example.com/llms-sdk.txt): The SDK\n- [API](https://example.com/llms-api.txt): The API`,
+      'https://example.com/llms-sdk.txt': LLMS_FULL,
+      'https://example.com/llms-api.txt': LLMS_FULL,
+    })
+
+    const result = await extractDocumentation('https://example.com')
+    const gettingStarted = result.documents.filter(d => d.title.endsWith('Getting Started'))
+
+    expect(gettingStarted).toHaveLength(1)
+    expect(gettingStarted[0].sourceUrls).toEqual(['https://example.com/llms-sdk.txt', 'https://example.com/llms-api.txt'])
+    expect(result.stats.duplicatesRemoved).toBe(3)
+    expect(result.stats.duplicateTokensRemoved).toBeGreaterThan(0)
+
+    const audited = await extractDocumentation('https://example.com', { keepDuplicates: true })
+
+    expect(audited.documents.filter(d => d.title.endsWith('Getting Started')).map(d => d.duplicateOf))
+      .toEqual([undefined, gettingStarted[0].filename])
+    expect(audited.stats.duplicatesRemoved).toBeUndefined()
+    expect(audited.stats.totalTokens).toBeGreaterThan(result.stats.totalTokens)
+  })
+
+  it('follows only the linked files in the requested locale and reports the others', async () => {
+    serveFiles({
+      'https://example.com/llms.txt': `# Hub\n\n## Products\n\n- [SDK](llms-sdk.txt): The SDK\n- [日本語](i18n/llms-ja.txt)\n- [Deutsch](/de/llms.txt)`,
+      'https://example.com/llms-sdk.txt': LLMS_FULL,
+      'https://example.com/i18n/llms-ja.txt': LLMS_FULL.replace('Getting Started', 'はじめに'),
+      'https://example.com/de/llms.txt': LLMS_FULL.replace('Getting Started', 'Erste Schritte'),
+    })
+
+    const result = await extractDocumentation('https://example.com')
+
+    expect(result.linkedSources?.map(s => s.url)).toEqual(['https://example.com/llms-sdk.txt'])
+    expect(result.locale).toBe('en')
+    expect(result.locales).toEqual(['de', 'en', 'ja'])
+
+    const japanese = await extractDocumentation('https://example.com', { locale: 'JA' })
+
+    expect(japanese.locale).toBe('ja')
+    expect(japanese.linkedSources?.map(s => s.url)).toEqual(['https://example.com/llms-sdk.txt', 'https://example.com/i18n/llms-ja.txt'])
+  })
+
+  it('reports the English locale when the site has no translation into the requested one', async () => {
+    serveFiles({ 'https://example.com/llms-full.txt': LLMS_FULL })
+
+    const result = await extractDocumentation('https://example.com', { locale: 'ja' })
+
+    expect(result.sourceUrl).toBe('https://example.com/llms-full.txt')
+    expect(result.locale).toBe('en')
+  })
+
+  it('counts tokens with the selected tokenizer', async () => {
+    serveFiles({ 'https://example.com/llms-full.txt': LLMS_FULL })
+
+    const result = await extractDocumentation('https://example.com', { tokenizer: 'gpt-4o' })
+
+    expect(result.stats.tokenizer).toBe('o200k')
+    expect(result.agentGuide.content).toContain('(o200k tokenizer)')
+    expect(result.documents[1].tokens).toBe(countTokens(result.documents[1].content, 'o200k'))
+  })
+
+  it('merges linked llms.txt files and records them as sources', async () => {
+    serveFiles({
+      'https://example.com/llms.txt': `# Hub\n\n## Products\n\n- [SDK](https://example.com/llms-sdk.txt): The SDK`,
+      'https://example.com/llms-sdk.txt': LLMS_FULL,
+    })
+
+    const result = await extractDocumentation('https://example.com')
+
+    expect(result.linkedSources).toHaveLength(1)
+    expect(result.linkedSources?.[0]).toMatchObject({ url: 'https://example.com/llms-sdk.txt', documentCount: 3 })
+    expect(result.stats.linkedSourceCount).toBe(1)
+    expect(result.documents.filter(d => d.sourceUrl === 'https://example.com/llms-sdk.txt')).toHaveLength(3)
+    expect(result.agentGuide.content).toContain('## Documentation Sources')
+  })
+
+  it('follows nested llms.txt files and records the tree', async () => {
+    serveFiles({
+      'https://example.com/llms.txt': `# Hub\n\n## Products\n\n- [API](/api/llms.txt): The API`,
+      'https://example.com/api/llms.txt': `# API\n\n## Parts\n\n- [Webhooks](webhooks/llms-full.txt)\n- [Hub](../llms.txt)`,
+      'https://example.com/api/webhooks/llms-full.txt': LLMS_FULL,
+    })
+
+    const result = await extractDocumentation('https://example.com')
+
+    expect(result.linkedSources?.map(s => [s.url, s.parentUrl, s.depth])).toEqual([
+      ['https://example.com/api/llms.txt', 'https://example.com/llms.txt', 1],
+      ['https://example.com/api/webhooks/llms-full.txt', 'https://example.com/api/llms.txt', 2],
+    ])
+    // The link back to the hub is a cycle and is not fetched again
+    expect(mockFetch.mock.calls.filter(([url]) => url === 'https://example.com/llms.txt')).toHaveLength(1)
+    expect(result.agentGuide.content).toContain('  - Webhooks: https://example.com/api/webhooks/llms-full.txt')
+  })
+
+  it('stops at the configured depth and file limits', async () => {
+    serveFiles({
+      'https://example.com/llms.txt': `# Hub\n\n## Products\n\n- [A](/a/llms.txt)\n- [B](/b/llms.txt)`,
+      'https://example.com/a/llms.txt': `# A\n\n## Parts\n\n- [Deep](/a/deep/llms.txt)`,
+      'https://example.com/b/llms.txt': LLMS_FULL,
+      'https://example.com/a/deep/llms.txt': LLMS_FULL,
+    })
+
+    const shallow = await extractDocumentation('https://example.com', { maxLinkDepth: 1 })
+    expect(shallow.linkedSources?.map(s => s.name)).toEqual(['A', 'B'])
+
+    const limited = await extractDocumentation('https://example.com', { maxLinkedFiles: 1 })
+    expect(limited.linkedSources?.map(s => s.name)).toEqual(['A'])
+  })
+
+  it('does not follow links when followLinks is false', async () => {
+    serveFiles({
+      'https://example.com/llms.txt': `# Hub\n\n## Products\n\n- [SDK](https://example.com/llms-sdk.txt): The SDK`,
+      'https://example.com/llms-sdk.txt': LLMS_FULL,
+    })
+
+    const result = await extractDocumentation('https://example.com', { followLinks: false })
+    expect(result.linkedSources).toBeUndefined()
+  })
+
+  it('ignores HTML pages served at llms.txt paths', async () => {
+    serveFiles({
+      'https://example.com/llms-full.txt': '<!DOCTYPE html><html><body>App shell</body></html>',
+      'https://example.com/llms.txt': LLMS_FULL,
+    })
+
+    const result = await extractDocumentation('https://example.com')
+    expect(result.sourceUrl).toBe('https://example.com/llms.txt')
+  })
+
+  it('falls back to the next strategy', async () => {
+    serveFiles({})
+    const fallback: ExtractionStrategy = {
+      name: 'fallback',
+      extract: async context => ({
+        sourceUrl: context.url,
+        rawContent: 'Scraped',
+        documents: [{ filename: '01-page.md', title: 'Page', content: '## Page\n\nScraped', tokens: 4 }],
+      }),
+    }
+    const failing: ExtractionStrategy = {
+      name: 'failing',
+      extract: async () => { throw new Error('boom') },
+    }
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const result = await extractDocumentation('https://example.com', {
+      strategies: [failing, fallback],
+    })
+
+    expect(result.strategy).toBe('fallback')
+    expect(result.documents).toHaveLength(1)
+    warn.mockRestore()
+  })
+
+  it('reports progress through the callback', async () => {
+    serveFiles({ 'https://example.com/llms-full.txt': LLMS_FULL })
+    const onProgress = vi.fn()
+
+    await extractDocumentation('https://example.com', { onProgress })
+
+    const statuses = onProgress.mock.calls.map(([p]) => p.status)
+    expect(statuses[0]).toBe('analyzing')
+    expect(statuses).toContain('fetching')
+    expect(statuses[statuses.length - 1]).toBe('complete')
+  })
+
+  it('emits each document through onDocument', async () => {
+    serveFiles({ 'https://example.com/llms-full.txt': LLMS_FULL })
+    const onDocument = vi.fn()
+
+    const result = await extractDocumentation('https://example.com', { onDocument })
+
+    expect(onDocument).toHaveBeenCalledTimes(3)
+    expect(onDocument.mock.calls.map(([doc]) => doc)).toEqual(result.documents)
+  })
+
+  it('throws a CANCELLED error when the signal is aborted', async () => {
+    serveFiles({ 'https://example.com/llms-full.txt': LLMS_FULL })
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(extractDocumentation('https://example.com', { signal: controller.signal }))
+      .rejects.toMatchObject({ code: 'CANCELLED' })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('expands an llms.txt index into one document per linked page', async () => {
+    serveFiles({
+      'https://example.com/llms.txt': INDEX,
+      'https://example.com/docs/quickstart.md': '# Quickstart\n\nInstall the package.',
+      'https://example.com/docs/api.md': 'All endpoints are listed here.',
+      'https://example.com/changelog.md': '<!DOCTYPE html><html></html>',
+    })
+
+    const result = await extractDocumentation('https://example.com', { expandLinks: true, followLinks: false })
+
+    expect(result.documents.map(d => d.filename)).toEqual([
+      '01-introduction.md',
+      '02-quickstart.md',
+      '03-api.md',
+    ])
+    expect(result.documents[1].sourceUrl).toBe('https://example.com/docs/quickstart.md')
+    expect(result.documents[2].content).toBe('## API\n\nAll endpoints are listed here.')
+    expect(result.fullDocument.content).toContain('Install the package.')
+  })
+
+  it('caps expanded pages at maxPages', async () => {
+    serveFiles({
+      'https://example.com/llms.txt': INDEX,
+      'https://example.com/docs/quickstart.md': '# Quickstart\n\nInstall the package.',
+      'https://example.com/docs/api.md': '# API\n\nEndpoints.',
+    })
+
+    const result = await extractDocumentation('https://example.com', {
+      expandLinks: true,
+      followLinks: false,
+      maxPages: 1,
+    })
+
+    expect(result.documents.map(d => d.title)).toEqual(['Introduction', 'Quickstart'])
+  })
+
+  it('does not expand llms-full.txt', async () => {
+    serveFiles({
+      'https://example.com/llms-full.txt': INDEX,
+      'https://example.com/docs/quickstart.md': '# Quickstart\n\nInstall the package.',
+    })
+
+    const result = await extractDocumentation('https://example.com', { expandLinks: true, followLinks: false })
+
+    expect(result.documents.some(d => d.sourceUrl === 'https://example.com/docs/quickstart.md')).toBe(false)
+  })
+
+  it('packs the full document into maxTokens and lists what was dropped', async () => {
+    serveFiles({ 'https://example.com/llms-full.txt': `${LLMS_FULL}\n## Changelog\n\n${'Fixed a bug. '.repeat(200)}` })
+
+    const result = await extractDocumentation('https://example.com', { maxTokens: 200 })
+
+    expect(result.fullDocument.tokens).toBeLessThanOrEqual(200)
+    expect(result.fullDocument.content).toContain('## Getting Started')
+    expect(result.fullDocument.content).not.toContain('Fixed a bug.')
+    expect(result.budget?.dropped.map(d => d.title)).toEqual(['Changelog'])
+    expect(result.documents.map(d => d.title)).toContain('Changelog')
+    expect(result.agentGuide.content).toContain('## Omitted From llms-full.md')
+  })
+
+  it('returns retrieval chunks when requested', async () => {
+    serveFiles({ 'https://example.com/llms-full.txt': LLMS_FULL })
+
+    const result = await extractDocumentation('https://example.com', { chunks: { maxTokens: 100 } })
+
+    expect(result.chunks?.length).toBeGreaterThan(0)
+    expect(result.chunks?.[0]).toMatchObject({
+      sourceUrl: 'https://example.com/llms-full.txt',
+      filename: result.documents[0].filename,
+      index: 0,
+    })
+    expect((await extractDocumentation('https://example.com')).chunks).toBeUndefined()
+  })
+
+  it('indexes code examples when the documents have code blocks', async () => {
+    serveFiles({ 'https://example.com/llms-full.txt': `${LLMS_FULL}\n\`\`\`\nnpm install example\n\`\`\`\n` })
+
+    const result = await extractDocumentation('https://example.com')
+
+    expect(result.codeExamples?.count).toBe(1)
+    expect(result.codeExamples?.groups[0].topics[0].examples[0]).toMatchObject({
+      language: 'bash',
+      inferred: true,
+      heading: 'API Reference',
+      sourceUrl: 'https://example.com/llms-full.txt',
+    })
+    expect(result.codeExamples?.document.filename).toBe('CODE-EXAMPLES.md')
+
+    serveFiles({ 'https://example.com/llms-full.txt': LLMS_FULL })
+    expect((await extractDocumentation('https://example.com')).codeExamples).toBeUndefined()
+  })
+
+  it('flags pages from the Optional section when expanding an index', async () => {
+    serveFiles({
+      'https://example.com/llms.txt': INDEX,
+      'https://example.com/docs/quickstart.md': '# Quickstart\n\nInstall the package.',
+      'https://example.com/changelog.md': '# Changelog\n\nFixes.',
+    })
+
+    const result = await extractDocumentation('https://example.com', { expandLinks: true, followLinks: false })
+
+    expect(result.documents.find(d => d.title === 'Changelog')?.optional).toBe(true)
+    expect(result.documents.find(d => d.title === 'Quickstart')?.optional).toBeUndefined()
+  })
+
+  it('throws a NOT_FOUND error when no strategy finds content', async () => {
+    serveFiles({})
+
+    await expect(extractDocumentation('https://example.com')).rejects.toMatchObject({
+      name: 'ExtractionError',
+      code: 'NOT_FOUND',
+    })
+  })
+
+  it('throws an INVALID_URL error for malformed URLs', async () => {
+    await expect(extractDocumentation('http://')).rejects.toBeInstanceOf(ExtractionError)
+  })
+})
+
+describe('getWebStrategies', () => {
+  it('tries llms.txt before crawling a docs site', () => {
+    const names = getWebStrategies('https://example.com/docs').map(s => s.name)
+    expect(names).toEqual(webStrategies.map(s => s.name))
+    expect(names.indexOf('llms-txt')).toBeLessThan(names.indexOf('sitemap'))
+    expect(names[names.length - 1]).toBe('html-scrape')
+  })
+
+  it('tries the OpenAPI strategy first for a spec URL', () => {
+    const names = getWebStrategies('https://api.example.com/openapi.json').map(s => s.name)
+    expect(names[0]).toBe('openapi')
+    expect(names.filter(name => name === 'openapi')).toHaveLength(1)
+    expect(names).toHaveLength(webStrategies.length)
+  })
+})
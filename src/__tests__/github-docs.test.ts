@@ -0,0 +1,248 @@
+/**
+ * GitHub docs reader unit tests
+ * Tests for repository URL parsing, MDX stripping, navigation ordering and
+ * reading a docs folder through the GitHub API and raw file URLs
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { fetchGitHubDocs, mdxToMarkdown, orderDocFiles, parseGitHubDocsUrl } from '@llm-energy/core'
+
+const mockFetch = vi.fn()
+
+const API = 'https://api.github.com/repos/acme/widgets'
+const RAW = 'https://raw.githubusercontent.com/acme/widgets/main'
+
+/**
+ * Serve a repository: metadata, a recursive tree of the given files and their raw contents
+ */
+function serveRepo(files: Record<string, string>) {
+  const responses: Record<string, unknown> = {
+    [API]: { default_branch: 'main' },
+    [`${API}/git/trees/main?recursive=1`]: {
+      tree: Object.keys(files).map(path => ({ path, type: 'blob' })),
+    },
+  }
+  mockFetch.mockImplementation(async (url: string) => {
+    if (url in responses) return Response.json(responses[url])
+    const path = url.startsWith(`${RAW}/`) ? decodeURIComponent(url.slice(RAW.length + 1)) : undefined
+    return path !== undefined && path in files
+      ? new Response(files[path])
+      : new Response('Not found', { status: 404 })
+  })
+}
+
+describe('parseGitHubDocsUrl', () => {
+  it('reads the repository, branch and docs folder', () => {
+    expect(parseGitHubDocsUrl('https://github.com/acme/widgets')).toEqual({ owner: 'acme', repo: 'widgets' })
+    expect(parseGitHubDocsUrl('github.com/acme/widgets/tree/v2/website/docs')).toEqual({
+      owner: 'acme',
+      repo: 'widgets',
+      branch: 'v2',
+      path: 'website/docs',
+    })
+    expect(parseGitHubDocsUrl('https://github.com/acme/widgets/blob/main/docs/intro.md')).toEqual({
+      owner: 'acme',
+      repo: 'widgets',
+      branch: 'main',
+      path: 'docs',
+    })
+  })
+
+  it('ignores other hosts', () => {
+    expect(parseGitHubDocsUrl('https://docs.github.com/acme/widgets')).toBeNull()
+    expect(parseGitHubDocsUrl('https://example.com/github.com/acme/widgets')).toBeNull()
+  })
+})
+
+describe('mdxToMarkdown', () => {
+  it('removes front matter, imports, exports and components', () => {
+    const source = [
+      '---',
+      'title: Installing',
+      'sidebar_position: 2',
+      '---',
+      "import Tabs from '@theme/Tabs';",
+      'import {',
+      '  TabItem,',
+      "} from '@theme/TabItem';",
+      '',
+      'export const meta = {',
+      "  section: 'setup',",
+      '};',
+      '',
+      '# Install',
+      '',
+      'Pick a package manager. {/* keep this short */}',
+      '',
+      '<Tabs groupId="pm">',
+      '<TabItem value="npm" label="npm">',
+      '',
+      '```bash',
+      'npm install widgets',
+      '```',
+      '',
+      '</TabItem>',
+      '</Tabs>',
+      '',
+      '<Badge color="green" onClick={() => track("x")} />',
+      '',
+      'Render `<Widget />` anywhere.',
+      '',
+      '## Options {#options}',
+    ].join('\n')
+
+    expect(mdxToMarkdown(source, 'docs/install.mdx')).toEqual({
+      title: 'Installing',
+      content: [
+        'Pick a package manager.',
+        '',
+        '**npm**',
+        '',
+        '```bash',
+        'npm install widgets',
+        '```',
+        '',
+        'Render `<Widget />` anywhere.',
+        '',
+        '## Options',
+      ].join('\n'),
+    })
+  })
+
+  it('leaves code blocks untouched', () => {
+    const source = '```jsx\nimport Widget from "widgets"\n\nexport default () => <Widget size="s" />\n```'
+
+    expect(mdxToMarkdown(source).content).toBe(source)
+  })
+
+  it('turns admonitions into blockquotes', () => {
+    expect(mdxToMarkdown(':::tip Pro tip\nCache the client.\n:::\n\nDone.').content)
+      .toBe('> **Pro tip**\n>\n> Cache the client.\n\nDone.')
+  })
+
+  it('takes the title from the heading or the file name', () => {
+    expect(mdxToMarkdown('# Quick start\n\nRun it.')).toEqual({ title: 'Quick start', content: 'Run it.' })
+    expect(mdxToMarkdown('Run it.', 'docs/02-getting_started.md').title).toBe('Getting started')
+    expect(mdxToMarkdown('Welcome.', 'docs/guides/README.md').title).toBe('Guides')
+  })
+})
+
+describe('orderDocFiles', () => {
+  const files = ['docs/b.md', 'docs/a.md', 'docs/guides/setup.md', 'docs/guides/index.md', 'docs/README.md']
+
+  it('sorts by path with index pages first', () => {
+    expect(orderDocFiles(files)).toEqual([
+      'docs/README.md',
+      'docs/a.md',
+      'docs/b.md',
+      'docs/guides/index.md',
+      'docs/guides/setup.md',
+    ])
+  })
+
+  it('puts navigation entries first, expanding folders', () => {
+    expect(orderDocFiles(files, ['docs/b', 'docs/missing', 'docs/guides', 'docs/b.md'])).toEqual([
+      'docs/b.md',
+      'docs/guides/index.md',
+      'docs/README.md',
+      'docs/a.md',
+      'docs/guides/setup.md',
+    ])
+  })
+})
+
+describe('fetchGitHubDocs', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reads the docs folder in Docusaurus sidebar order', async () => {
+    serveRepo({
+      'README.md': '# Widgets',
+      'docs/intro.md': '# Introduction\n\nWidgets render things.',
+      'docs/api/client.mdx': "import X from 'x'\n\n# Client\n\n<X />\n\nCreate a client.",
+      'docs/deploy.md': '# Deploy\n\nShip it.',
+      'docs/_partial.mdx': 'Shared snippet.',
+      'website/sidebars.js': [
+        'module.exports = {',
+        "  // 'docs/old' is gone",
+        "  docs: ['intro', {type: 'category', label: 'API', items: ['api/client']}],",
+        '};',
+      ].join('\n'),
+    })
+
+    const docs = await fetchGitHubDocs({ owner: 'acme', repo: 'widgets', path: 'docs' })
+
+    expect(docs?.sourceUrl).toBe('https://github.com/acme/widgets/tree/main/docs')
+    expect(docs?.files.map(file => file.path)).toEqual(['docs/intro.md', 'docs/api/client.mdx', 'docs/deploy.md'])
+    expect(docs?.files[1]).toEqual({
+      path: 'docs/api/client.mdx',
+      title: 'Client',
+      content: 'Create a client.',
+      url: 'https://github.com/acme/widgets/blob/main/docs/api/client.mdx',
+    })
+  })
+
+  it('detects the docs folder and follows a SUMMARY.md', async () => {
+    serveRepo({
+      'doc/SUMMARY.md': '# Summary\n\n- [Usage](usage.md)\n- [Setup](./setup/README.md)\n- [Site](https://acme.dev)',
+      'doc/setup/README.md': '# Setup\n\nInstall it.',
+      'doc/usage.md': '# Usage\n\nUse it.',
+    })
+
+    const docs = await fetchGitHubDocs({ owner: 'acme', repo: 'widgets' })
+
+    expect(docs?.docsPath).toBe('doc')
+    expect(docs?.files.map(file => file.title)).toEqual(['Usage', 'Setup'])
+  })
+
+  it('uses the mkdocs.yml nav and docs_dir', async () => {
+    serveRepo({
+      'mkdocs.yml': [
+        'site_name: Widgets',
+        'docs_dir: documentation',
+        'nav:',
+        '  - Home: index.md',
+        '  - Guide:',
+        '      - guide/advanced.md',
+        '      - guide/basics.md',
+        'markdown_extensions:',
+        '  - pymdownx.superfences:',
+        '      custom_fences:',
+        '        - name: mermaid',
+        '          format: !!python/name:pymdownx.superfences.fence_code_format',
+      ].join('\n'),
+      'documentation/index.md': '# Home\n\nWelcome.',
+      'documentation/guide/basics.md': '# Basics\n\nStart here.',
+      'documentation/guide/advanced.md': '# Advanced\n\nThen here.',
+    })
+
+    const docs = await fetchGitHubDocs({ owner: 'acme', repo: 'widgets' })
+
+    expect(docs?.files.map(file => file.title)).toEqual(['Home', 'Advanced', 'Basics'])
+  })
+
+  it('returns null for repositories without markdown docs', async () => {
+    serveRepo({ 'README.md': '# Widgets', 'src/index.ts': 'export {}' })
+
+    expect(await fetchGitHubDocs({ owner: 'acme', repo: 'widgets' })).toBeNull()
+  })
+
+  it('limits the number of files and reports failed downloads', async () => {
+    serveRepo({ 'docs/a.md': 'A', 'docs/b.md': 'B', 'docs/c.md': 'C' })
+    const fetchFile = mockFetch.getMockImplementation()!
+    mockFetch.mockImplementation(async (url: string) => url.endsWith('/docs/b.md')
+      ? new Response('Gone', { status: 410 })
+      : fetchFile(url))
+
+    const docs = await fetchGitHubDocs({ owner: 'acme', repo: 'widgets' }, { maxFiles: 2 })
+
+    expect(docs?.files.map(file => file.content)).toEqual(['A'])
+    expect(docs?.failed).toEqual([expect.objectContaining({ url: `${RAW}/docs/b.md`, status: 410 })])
+  })
+})
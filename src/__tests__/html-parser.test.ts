@@ -0,0 +1,120 @@
+/**
+ * HTML parser unit tests
+ * Tests for tokenizing, implied end tags, entities and simple selectors
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  decodeHtmlEntities,
+  matchesSelector,
+  parseHtml,
+  querySelector,
+  querySelectorAll,
+  textContent,
+  tokenizeHtml,
+  type HtmlElement,
+  type HtmlNode,
+} from '@llm-energy/core'
+
+/**
+ * Compact outline of a tree, e.g. "ul(li(#a) li(#b))"
+ */
+function outline(node: HtmlNode): string {
+  if (node.type === 'text') return node.value.trim() ? `#${node.value.trim()}` : ''
+  const children = node.children.map(outline).filter(Boolean).join(' ')
+  return children ? `${node.tagName}(${children})` : node.tagName
+}
+
+function body(html: string): string {
+  const root = parseHtml(html)
+  return root.children.map(outline).filter(Boolean).join(' ')
+}
+
+describe('tokenizeHtml', () => {
+  it('reads quoted, unquoted and valueless attributes in any order', () => {
+    const [tag] = tokenizeHtml(`<img alt='A &amp; B' data-x=1 hidden src="a.png">`)
+
+    expect(tag).toEqual({
+      type: 'startTag',
+      name: 'img',
+      attributes: { alt: 'A & B', 'data-x': '1', hidden: '', src: 'a.png' },
+      selfClosing: false,
+    })
+  })
+
+  it('keeps script content as raw text and drops comments', () => {
+    const tokens = tokenizeHtml('<script>if (a < b) { x = "</p>" }</script><!-- note -->after')
+
+    expect(tokens).toEqual([
+      { type: 'startTag', name: 'script', attributes: {}, selfClosing: false },
+      { type: 'text', value: 'if (a < b) { x = "</p>" }' },
+      { type: 'endTag', name: 'script' },
+      { type: 'text', value: 'after' },
+    ])
+  })
+
+  it('treats a lone < as text', () => {
+    expect(tokenizeHtml('a < b')).toEqual([{ type: 'text', value: 'a < b' }])
+  })
+})
+
+describe('parseHtml', () => {
+  it('closes list items, paragraphs and table cells implicitly', () => {
+    expect(body('<ul><li>a<li>b</ul>')).toBe('ul(li(#a) li(#b))')
+    expect(body('<p>one<p>two<div>three</div>')).toBe('p(#one) p(#two) div(#three)')
+    expect(body('<table><tr><td>1<td>2<tr><td>3</table>')).toBe('table(tr(td(#1) td(#2)) tr(td(#3)))')
+  })
+
+  it('keeps nested lists inside their item', () => {
+    expect(body('<ul><li>a<ul><li>b</li></ul></li><li>c</li></ul>')).toBe('ul(li(#a ul(li(#b))) li(#c))')
+  })
+
+  it('does not nest void elements and ignores stray end tags', () => {
+    expect(body('<p>a<br>b<img src="x"></span>c</p>')).toBe('p(#a br #b img #c)')
+  })
+
+  it('closes unclosed elements at the end of their parent', () => {
+    expect(body('<div><em>open</div>after')).toBe('div(em(#open)) #after')
+  })
+})
+
+describe('decodeHtmlEntities', () => {
+  it('decodes named and numeric references', () => {
+    expect(decodeHtmlEntities('&lt;a&gt; &amp; &#169; &#x2014; &hellip; &rarr;')).toBe('<a> & © — … →')
+  })
+
+  it('leaves unknown references alone', () => {
+    expect(decodeHtmlEntities('&unknown; AT&T')).toBe('&unknown; AT&T')
+  })
+})
+
+describe('selectors', () => {
+  const root = parseHtml(`
+    <main id="content" class="docs prose">
+      <div role="main"><p class="note">A</p><p>B</p></div>
+    </main>`)
+  const main = querySelector(root, 'main') as HtmlElement
+
+  it('matches tags, classes, ids and attributes', () => {
+    expect(matchesSelector(main, 'main')).toBe(true)
+    expect(matchesSelector(main, '.prose')).toBe(true)
+    expect(matchesSelector(main, '#content')).toBe(true)
+    expect(matchesSelector(main, 'main.docs#content')).toBe(true)
+    expect(matchesSelector(main, '.pro')).toBe(false)
+    expect(querySelector(root, '[role="main"]')?.tagName).toBe('div')
+  })
+
+  it('matches descendant combinators and attribute operators', () => {
+    expect(querySelectorAll(root, 'main p').map(textContent)).toEqual(['A', 'B'])
+    expect(querySelectorAll(root, '#content [role="main"] .note').map(textContent)).toEqual(['A'])
+    expect(querySelectorAll(root, 'div main p')).toEqual([])
+    expect(querySelector(root, '[class^="doc"]')?.tagName).toBe('main')
+    expect(querySelector(root, '[class*="pros"]')?.tagName).toBe('main')
+    expect(querySelector(root, '[role$="ain"]')?.tagName).toBe('div')
+  })
+
+  it('finds all matches in document order', () => {
+    expect(querySelectorAll(root, 'p').map(textContent)).toEqual(['A', 'B'])
+    expect(querySelectorAll(root, 'p.note, div').map(element => element.tagName)).toEqual(['div', 'p'])
+  })
+})
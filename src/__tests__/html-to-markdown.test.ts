@@ -0,0 +1,145 @@
+/**
+ * HTML to Markdown unit tests
+ * Fixture-based conversion tests plus custom rules and page metadata
+ *
+ * Each fixtures/html-to-markdown/<name>.html is converted and compared with
+ * <name>.md. Fixtures named page-* are converted as whole pages, so main
+ * content selection and page chrome removal are covered too.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readFileSync, readdirSync } from 'fs'
+import { join } from 'path'
+import {
+  htmlToMarkdown,
+  htmlPageToDocument,
+  extractLinks,
+  markdownPageToDocument,
+  getClassList,
+  parseHtml,
+  type ConversionRule,
+} from '@llm-energy/core'
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'html-to-markdown')
+const BASE_URL = 'https://example.com/docs/'
+
+const fixtures = readdirSync(FIXTURES_DIR)
+  .filter(file => file.endsWith('.html'))
+  .map(file => file.replace(/\.html$/, ''))
+
+describe('htmlToMarkdown fixtures', () => {
+  it.each(fixtures)('converts %s', name => {
+    const html = readFileSync(join(FIXTURES_DIR, `${name}.html`), 'utf8')
+    const expected = readFileSync(join(FIXTURES_DIR, `${name}.md`), 'utf8').trim()
+
+    const markdown = name.startsWith('page-')
+      ? htmlPageToDocument(html, `${BASE_URL}auth/`).content
+      : htmlToMarkdown(html, { baseUrl: BASE_URL })
+
+    expect(markdown).toBe(expected)
+  })
+})
+
+describe('htmlToMarkdown', () => {
+  it('accepts a parsed tree', () => {
+    expect(htmlToMarkdown(parseHtml('<p>Hello <b>world</b></p>'))).toBe('Hello **world**')
+  })
+
+  it('keeps relative links as written without a base URL', () => {
+    expect(htmlToMarkdown('<a href="/docs">Docs</a>')).toBe('[Docs](/docs)')
+  })
+
+  it('checks custom rules before the defaults', () => {
+    const admonition: ConversionRule = {
+      filter: 'div.admonition',
+      replacement: (content, element) => {
+        const kind = getClassList(element).find(name => name !== 'admonition') ?? 'note'
+        return `\n\n> **${kind.toUpperCase()}:** ${content.trim()}\n\n`
+      },
+    }
+
+    const markdown = htmlToMarkdown(
+      '<p>Intro</p><div class="admonition warning"><p>Keys are shown once.</p></div>',
+      { rules: [admonition] }
+    )
+
+    expect(markdown).toBe('Intro\n\n> **WARNING:** Keys are shown once.')
+  })
+
+  it('lets rules override default elements', () => {
+    const markdown = htmlToMarkdown('<p>Press <kbd>Enter</kbd></p>', {
+      rules: [{ filter: 'kbd', replacement: content => `<kbd>${content}</kbd>` }],
+    })
+
+    expect(markdown).toBe('Press <kbd>Enter</kbd>')
+  })
+})
+
+describe('htmlPageToDocument', () => {
+  const html = readFileSync(join(FIXTURES_DIR, 'page-article.html'), 'utf8')
+
+  it('reads metadata regardless of attribute order', () => {
+    const page = htmlPageToDocument(html, 'https://example.com/docs/auth/')
+
+    expect(page.title).toBe('Authentication')
+    expect(page.description).toBe('How to authenticate requests')
+    expect(page.canonicalUrl).toBe('https://example.com/docs/auth')
+    expect(page.wordCount).toBeGreaterThan(20)
+  })
+
+  it('collects links from the whole page, including navigation', () => {
+    const page = htmlPageToDocument(html, 'https://example.com/docs/auth/')
+
+    expect(page.links).toEqual([
+      'https://example.com/',
+      'https://example.com/pricing',
+      'https://example.com/docs/intro',
+      'https://example.com/docs/auth',
+      'https://example.com/docs/settings',
+    ])
+  })
+
+  it('resolves links against <base href>', () => {
+    const document = parseHtml('<base href="https://cdn.example.com/v2/"><a href="guide">Guide</a><a href="mailto:a@b.c">Mail</a>')
+
+    expect(extractLinks(document, 'https://example.com/')).toEqual(['https://cdn.example.com/v2/guide'])
+  })
+})
+
+describe('markdownPageToDocument', () => {
+  it('takes the title and description from front matter', () => {
+    const page = markdownPageToDocument(
+      '---\ntitle: Webhooks\ndescription: Receive events over HTTP\n---\n\nAcme sends a `POST` request.',
+      'https://docs.acme.dev/webhooks',
+      'md-suffix'
+    )
+
+    expect(page).toMatchObject({
+      title: 'Webhooks',
+      description: 'Receive events over HTTP',
+      content: 'Acme sends a `POST` request.',
+      format: 'md-suffix',
+    })
+  })
+
+  it('uses a leading heading as the title and collects links', () => {
+    const page = markdownPageToDocument(
+      '# Authentication\n\nSee [keys](/keys), [SDK](../sdk#setup) and <https://status.acme.dev>.\n\n[ref]: https://acme.dev/ref',
+      'https://docs.acme.dev/guide/authentication',
+      'accept-markdown'
+    )
+
+    expect(page.title).toBe('Authentication')
+    expect(page.content.startsWith('See [keys]')).toBe(true)
+    expect(page.links).toEqual([
+      'https://docs.acme.dev/keys',
+      'https://docs.acme.dev/sdk#setup',
+      'https://status.acme.dev/',
+      'https://acme.dev/ref',
+    ])
+  })
+
+  it('falls back to the URL for the title', () => {
+    expect(markdownPageToDocument('Plain text.', 'https://docs.acme.dev/rate-limits', 'md-suffix').title).toBe('Rate Limits')
+  })
+})
@@ -0,0 +1,306 @@
+/**
+ * Link crawler unit tests
+ * Tests for URL canonicalisation, crawl scope, deduplication, limits and queue order
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { canonicalizeUrl, crawlLinks, extractDocumentation, getCrawlScope, htmlScrapeStrategy, isInCrawlScope } from '@llm-energy/core'
+import { clearAllCaches } from '@/lib/cache'
+
+const mockFetch = vi.fn()
+
+const BODY = 'This page has enough text to count as meaningful documentation content.'
+
+/**
+ * Build an HTML page linking to the given hrefs
+ */
+function page(title: string, links: string[] = [], head = ''): string {
+  const anchors = links.map(href => `<a href="${href}">${href}</a>`).join('\n')
+  return `<html><head><title>${title}</title>${head}</head><body>
+<nav>${anchors}</nav>
+<main><h1>${title}</h1><p>${BODY}</p></main>
+</body></html>`
+}
+
+/**
+ * Serve HTML pages by absolute URL from the mocked fetch; anything else is a 404
+ */
+function serveSite(pages: Record<string, string>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const html = pages[url]
+    return html === undefined
+      ? new Response('Not found', { status: 404 })
+      : new Response(html, { status: 200, headers: { 'Content-Type': 'text/html' } })
+  })
+}
+
+/**
+ * Hold back every request for `url` (and its .md variant) until the returned function is called
+ */
+function holdPage(url: string): () => void {
+  let release!: () => void
+  const gate = new Promise<void>(resolve => { release = resolve })
+  const serve = mockFetch.getMockImplementation()!
+  mockFetch.mockImplementation(async (requested: string, init?: RequestInit) => {
+    if (requested.startsWith(url)) await gate
+    return serve(requested, init)
+  })
+  return release
+}
+
+/**
+ * Page URLs requested from the mocked fetch, without robots.txt and .md variant probes
+ */
+function requestedPages(): string[] {
+  return mockFetch.mock.calls
+    .map(call => call[0] as string)
+    .filter(url => !url.endsWith('/robots.txt') && !url.endsWith('.md'))
+}
+
+describe('canonicalizeUrl', () => {
+  it('drops fragments, tracking parameters and trailing slashes', () => {
+    expect(canonicalizeUrl('https://example.com/docs/intro/?utm_source=x&b=2&a=1#setup'))
+      .toBe('https://example.com/docs/intro?a=1&b=2')
+  })
+
+  it('treats index pages as their directory', () => {
+    expect(canonicalizeUrl('https://example.com/docs/index.html')).toBe('https://example.com/docs')
+    expect(canonicalizeUrl('https://example.com/')).toBe('https://example.com/')
+  })
+})
+
+describe('getCrawlScope', () => {
+  it('scopes to the start path', () => {
+    const scope = getCrawlScope('https://example.com/docs/')
+
+    expect(isInCrawlScope('https://example.com/docs', scope)).toBe(true)
+    expect(isInCrawlScope('https://example.com/docs/guide/setup', scope)).toBe(true)
+    expect(isInCrawlScope('https://example.com/docs-legacy/setup', scope)).toBe(false)
+    expect(isInCrawlScope('https://example.com/pricing', scope)).toBe(false)
+    expect(isInCrawlScope('https://other.example.com/docs/setup', scope)).toBe(false)
+  })
+
+  it('scopes a file-like start page to its directory', () => {
+    expect(getCrawlScope('https://example.com/manual/index.html')).toEqual({
+      origin: 'https://example.com',
+      pathPrefix: '/manual',
+    })
+  })
+
+  it('allows the whole origin from the root', () => {
+    expect(isInCrawlScope('https://example.com/anything', getCrawlScope('https://example.com'))).toBe(true)
+  })
+})
+
+describe('crawlLinks', () => {
+  beforeEach(() => {
+    clearAllCaches()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('follows links within the start path and skips everything else', async () => {
+    serveSite({
+      'https://example.com/docs/': page('Docs', [
+        '/docs/intro',
+        'guide#section',
+        '/blog/launch',
+        '/pricing',
+        'https://other.example.com/docs/x',
+        'mailto:team@example.com',
+        '/docs/logo.svg',
+        '/docs/styles.css',
+      ]),
+      'https://example.com/docs/intro': page('Intro'),
+      'https://example.com/docs/guide': page('Guide'),
+    })
+
+    const result = await crawlLinks('https://example.com/docs/', { delayMs: 0 })
+
+    expect(result.documents.map(doc => doc.title)).toEqual(['Docs', 'Guide', 'Intro'])
+    expect(requestedPages()).toEqual([
+      'https://example.com/docs/',
+      'https://example.com/docs/guide',
+      'https://example.com/docs/intro',
+    ])
+  })
+
+  it('fetches each canonical URL once', async () => {
+    serveSite({
+      'https://example.com/docs': page('Docs', [
+        '/docs/a',
+        '/docs/a/',
+        '/docs/a?utm_campaign=nav',
+        '/docs/a#usage',
+        '/docs/b',
+      ]),
+      'https://example.com/docs/a': page('A', ['/docs', '/docs/index.html']),
+      'https://example.com/docs/b': page('B (alias of A)', [], '<link rel="canonical" href="https://example.com/docs/a">'),
+    })
+
+    const result = await crawlLinks('https://example.com/docs', { delayMs: 0 })
+
+    expect(requestedPages()).toEqual([
+      'https://example.com/docs',
+      'https://example.com/docs/a',
+      'https://example.com/docs/b',
+    ])
+    expect(result.documents.map(doc => doc.title)).toEqual(['Docs', 'A'])
+  })
+
+  it('stops at the depth limit', async () => {
+    serveSite({
+      'https://example.com/docs': page('Level 0', ['/docs/1']),
+      'https://example.com/docs/1': page('Level 1', ['/docs/2']),
+      'https://example.com/docs/2': page('Level 2', ['/docs/3']),
+      'https://example.com/docs/3': page('Level 3'),
+    })
+
+    const result = await crawlLinks('https://example.com/docs', { maxDepth: 2, delayMs: 0 })
+
+    expect(result.documents.map(doc => doc.title)).toEqual(['Level 0', 'Level 1', 'Level 2'])
+    expect(requestedPages()).not.toContain('https://example.com/docs/3')
+  })
+
+  it('requests no more than maxPages pages', async () => {
+    const links = Array.from({ length: 10 }, (_, i) => `/docs/page-${i}`)
+    const site: Record<string, string> = { 'https://example.com/docs': page('Docs', links) }
+    for (const link of links) site[`https://example.com${link}`] = page(link)
+    serveSite(site)
+
+    const result = await crawlLinks('https://example.com/docs', { maxPages: 4, delayMs: 0 })
+
+    expect(requestedPages()).toHaveLength(4)
+    expect(result.documents).toHaveLength(4)
+  })
+
+  it('crawls likely documentation pages first', async () => {
+    serveSite({
+      'https://example.com/': page('Home', ['/community', '/docs/reference', '/docs/getting-started', '/showcase']),
+    })
+
+    await crawlLinks('https://example.com/', { maxPages: 3, delayMs: 0 })
+
+    expect(requestedPages()).toEqual([
+      'https://example.com/',
+      'https://example.com/docs/getting-started',
+      'https://example.com/docs/reference',
+    ])
+  })
+
+  it('crawls pages in docs sidebar order first on recognised platforms', async () => {
+    const sidebar = ['/docs/zeta', '/docs/alpha', '/docs/middle']
+      .map(href => `<li><a class="menu__link" href="${href}">${href}</a></li>`)
+      .join('')
+    serveSite({
+      'https://example.com/docs/': `<html><head><meta name="generator" content="Docusaurus v3.5.2"></head><body>
+<ul class="theme-doc-sidebar-menu">${sidebar}</ul>
+<a href="/docs/getting-started">Start</a>
+<article><div class="theme-doc-markdown"><h1>Docs</h1><p>${BODY}</p></div></article>
+</body></html>`,
+    })
+
+    await crawlLinks('https://example.com/docs/', { maxPages: 4, delayMs: 0 })
+
+    expect(requestedPages()).toEqual([
+      'https://example.com/docs/',
+      'https://example.com/docs/zeta',
+      'https://example.com/docs/alpha',
+      'https://example.com/docs/middle',
+    ])
+  })
+
+  it('reports pages that could not be fetched', async () => {
+    serveSite({ 'https://example.com/docs': page('Docs', ['/docs/missing']) })
+
+    const result = await crawlLinks('https://example.com/docs', { delayMs: 0 })
+
+    expect(result.documents).toHaveLength(1)
+    expect(result.failed).toEqual([expect.objectContaining({
+      url: 'https://example.com/docs/missing',
+      code: 'HTTP_ERROR',
+      status: 404,
+    })])
+  })
+
+  it('honours robots.txt for discovered links', async () => {
+    serveSite({
+      'https://example.com/robots.txt': 'User-agent: *\nDisallow: /docs/internal\n',
+      'https://example.com/docs': page('Docs', ['/docs/internal/notes', '/docs/public']),
+      'https://example.com/docs/public': page('Public'),
+    })
+
+    const result = await crawlLinks('https://example.com/docs', { delayMs: 0 })
+
+    expect(result.documents.map(doc => doc.title)).toEqual(['Docs', 'Public'])
+    expect(result.skipped).toEqual([{ url: 'https://example.com/docs/internal/notes', reason: 'robots-disallowed' }])
+  })
+
+  it('passes each page on as soon as it is scraped', async () => {
+    serveSite({
+      'https://example.com/docs': page('Docs', ['/docs/a', '/docs/b']),
+      'https://example.com/docs/a': page('A'),
+      'https://example.com/docs/b': page('B'),
+    })
+    const release = holdPage('https://example.com/docs/b')
+    const onPage = vi.fn()
+
+    const crawling = crawlLinks('https://example.com/docs', { delayMs: 0, onPage })
+
+    await vi.waitFor(() => expect(onPage.mock.calls.map(([scraped]) => scraped.title)).toEqual(['Docs', 'A']))
+    release()
+    expect((await crawling).documents.map(doc => doc.title)).toEqual(['Docs', 'A', 'B'])
+    expect(onPage).toHaveBeenCalledTimes(3)
+  })
+
+  it('reports progress across levels', async () => {
+    serveSite({
+      'https://example.com/docs': page('Docs', ['/docs/a']),
+      'https://example.com/docs/a': page('A'),
+    })
+    const onProgress = vi.fn()
+
+    await crawlLinks('https://example.com/docs', { delayMs: 0, onProgress })
+
+    expect(onProgress.mock.calls).toEqual([
+      [0, 1, 'https://example.com/docs'],
+      [1, 2, 'https://example.com/docs/a'],
+      [2, 2, ''],
+    ])
+  })
+})
+
+describe('streaming crawled documents', () => {
+  beforeEach(() => {
+    clearAllCaches()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends each crawled page to onDocument before the crawl finishes, and only once', async () => {
+    serveSite({
+      'https://example.com/docs': page('Docs', ['/docs/a', '/docs/b']),
+      'https://example.com/docs/a': page('A'),
+      'https://example.com/docs/b': page('B'),
+    })
+    const release = holdPage('https://example.com/docs/b')
+    const onDocument = vi.fn()
+
+    const extracting = extractDocumentation('https://example.com/docs', { strategies: [htmlScrapeStrategy], onDocument })
+
+    await vi.waitFor(() => expect(onDocument).toHaveBeenCalledTimes(2))
+    release()
+    const result = await extracting
+
+    expect(onDocument.mock.calls.map(([document]) => document.title).sort()).toEqual(['A', 'B', 'Docs'])
+    expect(result.documents.map(doc => doc.title).sort()).toEqual(['A', 'B', 'Docs'])
+  })
+})
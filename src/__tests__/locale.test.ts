@@ -0,0 +1,169 @@
+/**
+ * Locale detection unit tests
+ * Tests for telling translations apart by URL, sitemap hreflang and page
+ * language, and for keeping one locale of a site
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  collectLocales,
+  createStrategyContext,
+  detectUrlLocale,
+  getEntryLocale,
+  htmlPageToDocument,
+  matchesLocale,
+  normalizeLocale,
+  openApiStrategy,
+  parseSitemapPages,
+  parseSitemapXml,
+  selectLocale,
+  servedLocale,
+} from '@llm-energy/core'
+
+const SITEMAP = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+  <url>
+    <loc>https://example.com/docs/intro</loc>
+    <xhtml:link rel="alternate" hreflang="en" href="https://example.com/docs/intro"/>
+    <xhtml:link rel="alternate" hreflang="fr" href="https://example.fr/docs/intro"/>
+    <xhtml:link rel="alternate" hreflang="x-default" href="https://example.com/docs/intro"/>
+  </url>
+  <url><loc>https://example.com/ja/docs/intro</loc></url>
+  <url><loc>https://example.com/docs/install</loc></url>
+  <url><loc>https://example.com/ja/docs/install</loc></url>
+</urlset>`
+
+describe('normalizeLocale', () => {
+  it('lowercases tags and rejects what is not one', () => {
+    expect(normalizeLocale(' zh_CN ')).toBe('zh-cn')
+    expect(normalizeLocale('pt-BR')).toBe('pt-br')
+    expect(normalizeLocale('x-default')).toBeUndefined()
+    expect(normalizeLocale('english!')).toBeUndefined()
+  })
+})
+
+describe('matchesLocale', () => {
+  it('matches languages, and regions only when both have one', () => {
+    expect(matchesLocale('en-us', 'en')).toBe(true)
+    expect(matchesLocale('pt', 'pt-br')).toBe(true)
+    expect(matchesLocale('zh-tw', 'zh-cn')).toBe(false)
+    expect(matchesLocale('ja', 'en')).toBe(false)
+  })
+})
+
+describe('detectUrlLocale', () => {
+  it('reads language segments, llms.txt file names and query parameters', () => {
+    expect(detectUrlLocale('https://example.com/ja/docs/intro')).toBe('ja')
+    expect(detectUrlLocale('https://example.com/docs/zh-Hans/guide')).toBe('zh-hans')
+    expect(detectUrlLocale('https://example.com/llms-de-full.txt')).toBe('de')
+    expect(detectUrlLocale('https://example.com/docs?hl=ko')).toBe('ko')
+  })
+
+  it('ignores segments that are not languages or are too deep', () => {
+    expect(detectUrlLocale('https://example.com/docs/install')).toBeUndefined()
+    expect(detectUrlLocale('https://example.com/sdk/go/client')).toBeUndefined()
+    expect(detectUrlLocale('https://example.com/api/v2/fr/users')).toBeUndefined()
+    expect(detectUrlLocale('https://example.com/llms-full.txt')).toBeUndefined()
+    expect(detectUrlLocale('https://example.com/llms-sdk.txt')).toBeUndefined()
+  })
+})
+
+describe('selectLocale', () => {
+  const urls = ['https://example.com/docs/a', 'https://example.com/ja/docs/a', 'https://example.com/de/docs/a']
+
+  it('counts unmarked items as English', () => {
+    expect(selectLocale(urls, detectUrlLocale)).toEqual(['https://example.com/docs/a'])
+    expect(selectLocale(urls, detectUrlLocale, 'ja')).toEqual(['https://example.com/ja/docs/a'])
+  })
+
+  it('falls back to the unmarked items, then to everything', () => {
+    expect(selectLocale(urls, detectUrlLocale, 'ko')).toEqual(['https://example.com/docs/a'])
+    expect(selectLocale(urls.slice(1), detectUrlLocale, 'ko')).toEqual(urls.slice(1))
+  })
+})
+
+describe('servedLocale', () => {
+  it('reports the requested locale only when some items are in it', () => {
+    expect(servedLocale(['ja', undefined], 'ja')).toBe('ja')
+    expect(servedLocale(['pt-br'], 'pt')).toBe('pt-br')
+    expect(servedLocale([undefined, undefined], 'ja')).toBe('en')
+  })
+
+  it('reports nothing for mixed fallbacks or no items', () => {
+    expect(servedLocale(['ja', 'de'], 'ko')).toBeUndefined()
+    expect(servedLocale([], 'ja')).toBeUndefined()
+  })
+})
+
+describe('collectLocales', () => {
+  it('lists unique locales, leaving out English-only sites', () => {
+    expect(collectLocales(['ja', undefined, 'de', 'ja'])).toEqual(['de', 'en', 'ja'])
+    expect(collectLocales([undefined, 'en'])).toBeUndefined()
+  })
+})
+
+describe('sitemap locales', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    mockFetch.mockImplementation(async () => new Response(SITEMAP))
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reads hreflang alternates', () => {
+    const [entry] = parseSitemapXml(SITEMAP).entries
+
+    expect(entry.alternates).toEqual([
+      { hreflang: 'en', url: 'https://example.com/docs/intro' },
+      { hreflang: 'fr', url: 'https://example.fr/docs/intro' },
+      { hreflang: 'x-default', url: 'https://example.com/docs/intro' },
+    ])
+    expect(getEntryLocale(entry)).toBe('en')
+  })
+
+  it('leaves out other locales and reports every locale found', async () => {
+    const pages = await parseSitemapPages('https://example.com/sitemap.xml', { locale: 'ja' })
+
+    expect(pages.urls).toEqual([
+      'https://example.com/ja/docs/intro',
+      'https://example.com/docs/install',
+      'https://example.com/ja/docs/install',
+    ])
+    expect(pages.locales).toEqual(['en', 'fr', 'ja'])
+  })
+})
+
+describe('page language', () => {
+  it('is read from the html lang attribute', () => {
+    const page = htmlPageToDocument('<html lang="ja"><body><main><p>こんにちは</p></main></body></html>', 'https://example.com/')
+
+    expect(page.lang).toBe('ja')
+  })
+})
+
+describe('strategy locale', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reports the locale of the pages served, not the one requested', async () => {
+    const spec = {
+      openapi: '3.0.0',
+      info: { title: 'Widgets API', version: '1.0.0' },
+      paths: { '/users': { get: { tags: ['users'], summary: 'List users', responses: { 200: { description: 'OK' } } } } },
+    }
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => url === 'https://api.widgets.dev/openapi.json'
+      ? Response.json(spec)
+      : new Response('Not found', { status: 404 })))
+
+    const result = await openApiStrategy.extract(createStrategyContext('https://api.widgets.dev/openapi.json', { locale: 'ja' }))
+
+    expect(result!.documents.length).toBeGreaterThan(0)
+    expect(result!.locale).toBe('en')
+  })
+})
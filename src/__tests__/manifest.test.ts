@@ -0,0 +1,138 @@
+/**
+ * Manifest parser unit tests
+ * Tests for parsing llms.txt files into the spec's structured model
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseLlmsTxtManifest, isOptionalSection } from '@llm-energy/core'
+
+const LLMS_TXT = `# FastHTML
+
+> FastHTML is a python library which brings together Starlette, Uvicorn, HTMX, and fastcore.
+
+Important notes:
+
+- Although parts of its API are inspired by FastAPI, it is *not* compatible with FastAPI syntax
+
+## Docs
+
+- [FastHTML quick start](https://fastht.ml/docs/tutorials/quickstart_for_web_devs.html.md): A brief overview of many FastHTML features
+- [HTMX reference](https://github.com/bigskysoftware/htmx/blob/master/www/content/reference.md): Brief description of all HTMX attributes
+
+## Examples
+
+- [Todo list application](https://github.com/AnswerDotAI/fasthtml/blob/main/examples/adv_app.py)
+
+## Optional
+
+- [Starlette full documentation](https://gist.githubusercontent.com/starlette.md): A subset of the Starlette documentation
+`
+
+describe('parseLlmsTxtManifest', () => {
+  it('reads the name, summary and details', () => {
+    const manifest = parseLlmsTxtManifest(LLMS_TXT)
+
+    expect(manifest.name).toBe('FastHTML')
+    expect(manifest.summary).toBe(
+      'FastHTML is a python library which brings together Starlette, Uvicorn, HTMX, and fastcore.'
+    )
+    expect(manifest.details).toContain('Important notes:')
+    expect(manifest.details).toContain('not* compatible with FastAPI')
+  })
+
+  it('parses each H2 section as a file list', () => {
+    const manifest = parseLlmsTxtManifest(LLMS_TXT)
+
+    expect(manifest.sections.map(s => s.title)).toEqual(['Docs', 'Examples', 'Optional'])
+    expect(manifest.sections[0].links).toHaveLength(2)
+    expect(manifest.sections[0].links[0]).toEqual({
+      title: 'FastHTML quick start',
+      url: 'https://fastht.ml/docs/tutorials/quickstart_for_web_devs.html.md',
+      description: 'A brief overview of many FastHTML features',
+      section: 'Docs',
+      optional: false,
+    })
+  })
+
+  it('leaves the description undefined when there is none', () => {
+    const manifest = parseLlmsTxtManifest(LLMS_TXT)
+    expect(manifest.sections[1].links[0].description).toBeUndefined()
+  })
+
+  it('flags links in the Optional section', () => {
+    const manifest = parseLlmsTxtManifest(LLMS_TXT)
+
+    expect(manifest.sections[2].optional).toBe(true)
+    expect(manifest.links.filter(l => l.optional).map(l => l.title)).toEqual([
+      'Starlette full documentation',
+    ])
+  })
+
+  it('collects every link in document order', () => {
+    const manifest = parseLlmsTxtManifest(LLMS_TXT)
+    expect(manifest.links.map(l => l.section)).toEqual(['Docs', 'Docs', 'Examples', 'Optional'])
+  })
+
+  it('resolves relative URLs against the base URL', () => {
+    const manifest = parseLlmsTxtManifest(
+      '# Site\n\n## Docs\n\n- [Intro](/docs/intro.md)\n- [Guide](guide.md): The guide',
+      { baseUrl: 'https://example.com/docs/llms.txt' }
+    )
+
+    expect(manifest.links.map(l => l.url)).toEqual([
+      'https://example.com/docs/intro.md',
+      'https://example.com/docs/guide.md',
+    ])
+  })
+
+  it('keeps non-link text in section notes', () => {
+    const manifest = parseLlmsTxtManifest(
+      '# Site\n\n## Docs\n\nStart here.\n\n- [Intro](https://example.com/intro.md)'
+    )
+
+    expect(manifest.sections[0].notes).toBe('Start here.')
+    expect(manifest.sections[0].links).toHaveLength(1)
+  })
+
+  it('accepts other bullet markers and dash separators', () => {
+    const manifest = parseLlmsTxtManifest(
+      '# Site\n\n## Docs\n\n* [Intro](https://example.com/intro.md) - Getting started\n+ [API](https://example.com/api.md "API"): Reference'
+    )
+
+    expect(manifest.links.map(l => l.description)).toEqual(['Getting started', 'Reference'])
+    expect(manifest.links[1].url).toBe('https://example.com/api.md')
+  })
+
+  it('ignores headings and links inside code blocks', () => {
+    const manifest = parseLlmsTxtManifest(
+      '# Site\n\n## Usage\n\n```md\n## Not a section\n- [Not a link](https://example.com/x.md)\n```\n'
+    )
+
+    expect(manifest.sections).toHaveLength(1)
+    expect(manifest.links).toHaveLength(0)
+    expect(manifest.sections[0].notes).toContain('## Not a section')
+  })
+
+  it('handles files without a name or sections', () => {
+    const manifest = parseLlmsTxtManifest('Just some text.')
+
+    expect(manifest.name).toBeUndefined()
+    expect(manifest.summary).toBeUndefined()
+    expect(manifest.details).toBe('Just some text.')
+    expect(manifest.sections).toEqual([])
+  })
+
+  it('handles Windows line endings', () => {
+    const manifest = parseLlmsTxtManifest('# Site\r\n\r\n> Summary\r\n\r\n## Docs\r\n\r\n- [A](https://a.dev/a.md): A')
+    expect(manifest.summary).toBe('Summary')
+    expect(manifest.links[0].description).toBe('A')
+  })
+})
+
+describe('isOptionalSection', () => {
+  it('matches the Optional title case-insensitively', () => {
+    expect(isOptionalSection('Optional')).toBe(true)
+    expect(isOptionalSection(' optional ')).toBe(true)
+    expect(isOptionalSection('Optional extras')).toBe(false)
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * OpenAPI converter unit tests
+ * Tests for spec detection and parsing, TypeScript-like types, example
+ * payloads and the per-tag markdown sections for OpenAPI 3 and Swagger 2
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import {
+  exampleFromSchema,
+  fetchOpenApiSpec,
+  isOpenApiSpecUrl,
+  openApiToMarkdown,
+  parseOpenApiSpec,
+  schemaToType,
+} from '@llm-energy/core'
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'openapi')
+
+const mockFetch = vi.fn()
+
+function fixture(name: string): string {
+  return readFileSync(join(FIXTURES_DIR, name), 'utf8')
+}
+
+function sections(name: string) {
+  return openApiToMarkdown(parseOpenApiSpec(fixture(name)))
+}
+
+function section(name: string, title: string): string {
+  return sections(name).find(candidate => candidate.title === title)?.content ?? ''
+}
+
+describe('isOpenApiSpecUrl', () => {
+  it('recognises spec files', () => {
+    expect(isOpenApiSpecUrl('https://api.example.com/openapi.json')).toBe(true)
+    expect(isOpenApiSpecUrl('https://example.com/v2/swagger.yaml')).toBe(true)
+    expect(isOpenApiSpecUrl('https://example.com/api-docs')).toBe(true)
+    expect(isOpenApiSpecUrl('https://example.com/specs/openapi/payments.yml')).toBe(true)
+  })
+
+  it('ignores docs pages', () => {
+    expect(isOpenApiSpecUrl('https://example.com/docs/openapi')).toBe(false)
+    expect(isOpenApiSpecUrl('https://example.com/package.json')).toBe(false)
+    expect(isOpenApiSpecUrl('not a url')).toBe(false)
+  })
+})
+
+describe('parseOpenApiSpec', () => {
+  it('reads JSON and YAML', () => {
+    expect(parseOpenApiSpec(fixture('petstore.yaml')).info?.title).toBe('Petstore API')
+    expect(parseOpenApiSpec(fixture('swagger.json')).swagger).toBe('2.0')
+  })
+
+  it('rejects documents that are not specs', () => {
+    expect(() => parseOpenApiSpec('{"name": "my-package"}')).toThrow('Not an OpenAPI 3 or Swagger 2 document')
+    expect(() => parseOpenApiSpec('openapi: [')).toThrow('Invalid OpenAPI document')
+  })
+})
+
+describe('schemaToType', () => {
+  it('renders objects with optional, readonly and documented properties', () => {
+    expect(schemaToType({
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'integer', readOnly: true },
+        email: { type: 'string', format: 'email', description: 'Contact address' },
+        'x-trace': { type: 'string' },
+      },
+    })).toBe([
+      '{',
+      '  readonly id: number',
+      '  /** Contact address; format: email */',
+      '  email?: string',
+      "  'x-trace'?: string",
+      '}',
+    ].join('\n'))
+  })
+
+  it('renders enums, unions, intersections, nullables and maps', () => {
+    expect(schemaToType({ enum: ['a', 'b'] })).toBe("'a' | 'b'")
+    expect(schemaToType({ oneOf: [{ $ref: '#/components/schemas/Cat' }, { type: 'array', items: { type: 'string' } }] }))
+      .toBe('Cat | string[]')
+    expect(schemaToType({ allOf: [{ $ref: '#/components/schemas/Base' }, { $ref: '#/components/schemas/Extra' }] }))
+      .toBe('Base & Extra')
+    expect(schemaToType({ type: 'array', items: { type: ['string', 'null'] } })).toBe('(string | null)[]')
+    expect(schemaToType({ type: 'string', nullable: true })).toBe('string | null')
+    expect(schemaToType({ type: 'object', additionalProperties: { type: 'number' } })).toBe('Record<string, number>')
+  })
+})
+
+describe('exampleFromSchema', () => {
+  it('builds request and response payloads from the schema', () => {
+    const spec = parseOpenApiSpec(fixture('petstore.yaml'))
+    const pet = { $ref: '#/components/schemas/Pet' }
+
+    expect(exampleFromSchema(spec, pet, 'request')).toEqual({
+      name: 'Rex',
+      status: 'available',
+      tags: ['string'],
+      owner: { email: 'user@example.com' },
+    })
+    expect(exampleFromSchema(spec, pet, 'response')).toHaveProperty('id', '3fa85f64-5717-4562-b3fc-2c963f66afa6')
+  })
+
+  it('stops at recursive references', () => {
+    const spec = parseOpenApiSpec(JSON.stringify({
+      openapi: '3.1.0',
+      components: {
+        schemas: {
+          Node: { type: 'object', properties: { name: { type: 'string' }, parent: { $ref: '#/components/schemas/Node' } } },
+        },
+      },
+    }))
+
+    expect(exampleFromSchema(spec, { $ref: '#/components/schemas/Node' })).toEqual({ name: 'string' })
+  })
+})
+
+describe('openApiToMarkdown', () => {
+  it('writes an overview, one section per tag and a schema reference', () => {
+    expect(sections('petstore.yaml').map(({ title }) => title)).toEqual(['Petstore API', 'pets', '/health', 'Schemas'])
+  })
+
+  it('lists servers and auth schemes in the overview', () => {
+    const overview = section('petstore.yaml', 'Petstore API')
+
+    expect(overview).toContain('- `https://api.petstore.dev/v1` - Production')
+    expect(overview).toContain('| `bearerAuth` | HTTP bearer | Bearer format: JWT |')
+    expect(overview).toContain('| `apiKey` | API key | header parameter `X-API-Key` |')
+    expect(overview).toContain('Requests need `bearerAuth` unless an operation says otherwise.')
+  })
+
+  it('documents operations with parameters, bodies and auth overrides', () => {
+    const pets = section('petstore.yaml', 'pets')
+
+    expect(pets.startsWith('Everything about pets\n\n### List pets\n\n`GET /pets`')).toBe(true)
+    expect(pets).toContain('| `limit` | query | `number` | No | Maximum number of results |')
+    expect(pets).toContain('| `status` | query | `PetStatus` | No | Filter by status |')
+    expect(pets).toContain('| `petId` | path | `string` | Yes |  |')
+    expect(pets).toContain('```ts\nPet[]\n```')
+    expect(pets).toContain('#### Request body\n\nRequired.\n\nContent type: `application/json`')
+    expect(pets).toContain('> **Deprecated**\n\n**Auth:** `apiKey`')
+    expect(section('petstore.yaml', '/health')).toContain('**Auth:** None')
+    expect(section('petstore.yaml', '/health')).toContain('Example:\n\n```\nok\n```')
+  })
+
+  it('declares component schemas as types', () => {
+    const schemas = section('petstore.yaml', 'Schemas')
+
+    expect(schemas).toContain("type PetStatus = 'available' | 'sold'")
+    expect(schemas).toContain('interface Pet {\n  /** format: uuid */\n  readonly id?: string')
+    expect(schemas).toContain('  owner?: {\n    /** format: email */\n    email?: string\n  } | null')
+  })
+
+  it('converts Swagger 2 bodies, form data and responses', () => {
+    const files = section('swagger.json', '/files')
+
+    expect(section('swagger.json', 'Legacy Uploads')).toContain('- `https://uploads.example.com/api`')
+    expect(section('swagger.json', 'Legacy Uploads')).toContain('| `oauth` | OAuth 2.0 | accessCode: authorize at https://example.com/oauth/authorize')
+    expect(files).toContain('**Auth:** `oauth` (files:write)')
+    expect(files).toContain('Content type: `multipart/form-data`\n\n```ts\n{\n  /** File contents */\n  file: Blob\n  folder?: string\n}\n```')
+    expect(files).toContain('#### Request body\n\nRequired.\n\nContent type: `application/json`\n\n```ts\nFile\n```')
+    expect(files).toContain('| `id` | path | `number` | Yes |  |')
+    expect(files).not.toContain('| `body` |')
+    expect(files).toContain('```json\n{\n  "id": 0,\n  "name": "string",\n  "size": 0\n}\n```')
+  })
+})
+
+describe('fetchOpenApiSpec', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('fetches and parses a YAML spec', async () => {
+    mockFetch.mockResolvedValue(new Response(fixture('petstore.yaml'), { headers: { 'Content-Type': 'application/yaml' } }))
+
+    const spec = await fetchOpenApiSpec('https://api.petstore.dev/openapi.yaml')
+
+    expect(spec?.info?.title).toBe('Petstore API')
+  })
+
+  it('returns null for missing specs, HTML pages and other JSON', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('Not found', { status: 404 }))
+      .mockResolvedValueOnce(new Response('<html></html>', { headers: { 'Content-Type': 'text/html' } }))
+      .mockResolvedValueOnce(new Response('{"status": "ok"}', { headers: { 'Content-Type': 'application/json' } }))
+
+    expect(await fetchOpenApiSpec('https://example.com/openapi.json')).toBeNull()
+    expect(await fetchOpenApiSpec('https://example.com/api-docs')).toBeNull()
+    expect(await fetchOpenApiSpec('https://example.com/swagger.json')).toBeNull()
+  })
+})
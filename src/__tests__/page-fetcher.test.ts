@@ -0,0 +1,209 @@
+/**
+ * Page fetcher unit tests
+ * Tests for markdown-first fetching: content negotiation, .md variant
+ * probing, HTML fallback and the per-origin memory of what works
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { fetchPage, getMarkdownUrl, scrapePageToMarkdown } from '@llm-energy/core'
+import { clearAllCaches } from '@/lib/cache'
+
+const mockFetch = vi.fn()
+
+const HTML = '<html><head><title>Intro</title></head><body><main><h1>Intro</h1><p>Rendered page.</p></main></body></html>'
+const MARKDOWN = '# Intro\n\nSource page.'
+
+type Route = { body: string; type: string; status?: number }
+
+/**
+ * Serve responses by URL; a route given as a function picks one by Accept header
+ */
+function serve(routes: Record<string, Route | ((accept: string) => Route)>) {
+  mockFetch.mockImplementation(async (url: string, init?: RequestInit) => {
+    const accept = (init?.headers as Record<string, string> | undefined)?.Accept ?? ''
+    const route = routes[url]
+    const { body, type, status = 200 } = typeof route === 'function'
+      ? route(accept)
+      : route ?? { body: 'Not found', type: 'text/plain', status: 404 }
+    return new Response(body, { status, headers: { 'Content-Type': type } })
+  })
+}
+
+function html(body = HTML): Route {
+  return { body, type: 'text/html; charset=utf-8' }
+}
+
+function markdown(body = MARKDOWN, type = 'text/markdown; charset=utf-8'): Route {
+  return { body, type }
+}
+
+/**
+ * URLs requested from the mocked fetch, without robots.txt
+ */
+function requestedUrls(): string[] {
+  return mockFetch.mock.calls
+    .map(call => call[0] as string)
+    .filter(url => !url.endsWith('/robots.txt'))
+}
+
+describe('getMarkdownUrl', () => {
+  it('appends .md to page paths', () => {
+    expect(getMarkdownUrl('https://docs.acme.dev/guide/intro/?v=2#top')).toBe('https://docs.acme.dev/guide/intro.md?v=2')
+  })
+
+  it('skips the root and file URLs', () => {
+    expect(getMarkdownUrl('https://docs.acme.dev/')).toBeNull()
+    expect(getMarkdownUrl('https://docs.acme.dev/intro.html')).toBeNull()
+    expect(getMarkdownUrl('https://docs.acme.dev/intro.md')).toBeNull()
+  })
+})
+
+describe('fetchPage', () => {
+  beforeEach(() => {
+    clearAllCaches()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('uses markdown served through content negotiation', async () => {
+    serve({
+      'https://docs.acme.dev/intro': accept => (accept.startsWith('text/markdown') ? markdown() : html()),
+      'https://docs.acme.dev/setup': accept => (accept.startsWith('text/markdown') ? markdown() : html()),
+    })
+
+    const first = await fetchPage('https://docs.acme.dev/intro')
+    const second = await fetchPage('https://docs.acme.dev/setup')
+
+    expect(first).toEqual({ format: 'accept-markdown', body: MARKDOWN, url: 'https://docs.acme.dev/intro' })
+    expect(second.format).toBe('accept-markdown')
+    expect(requestedUrls()).toEqual(['https://docs.acme.dev/intro', 'https://docs.acme.dev/setup'])
+  })
+
+  it('probes the .md URL and goes straight to it on the same origin afterwards', async () => {
+    serve({
+      'https://docs.acme.dev/intro': html(),
+      'https://docs.acme.dev/intro.md': markdown(),
+      'https://docs.acme.dev/setup.md': markdown('Setup', 'text/plain'),
+    })
+
+    expect((await fetchPage('https://docs.acme.dev/intro')).format).toBe('md-suffix')
+    expect(await fetchPage('https://docs.acme.dev/setup')).toEqual({
+      format: 'md-suffix',
+      body: 'Setup',
+      url: 'https://docs.acme.dev/setup.md',
+    })
+    expect(requestedUrls()).toEqual([
+      'https://docs.acme.dev/intro',
+      'https://docs.acme.dev/intro.md',
+      'https://docs.acme.dev/setup.md',
+    ])
+  })
+
+  it('falls back to HTML and stops probing origins without markdown', async () => {
+    serve({
+      'https://acme.dev/docs/intro': html(),
+      // SPA hosts answer every path with the app shell
+      'https://acme.dev/docs/intro.md': html(),
+      'https://acme.dev/docs/setup': html(),
+    })
+
+    expect((await fetchPage('https://acme.dev/docs/intro')).format).toBe('html')
+    expect((await fetchPage('https://acme.dev/docs/setup')).format).toBe('html')
+    expect(requestedUrls()).toEqual([
+      'https://acme.dev/docs/intro',
+      'https://acme.dev/docs/intro.md',
+      'https://acme.dev/docs/setup',
+    ])
+  })
+
+  it('keeps probing after an inconclusive .md answer', async () => {
+    serve({
+      'https://acme.dev/intro': html(),
+      'https://acme.dev/intro.md': { body: 'Busy', type: 'text/plain', status: 503 },
+      'https://acme.dev/setup': html(),
+      'https://acme.dev/setup.md': markdown(),
+    })
+
+    expect((await fetchPage('https://acme.dev/intro')).format).toBe('html')
+    expect((await fetchPage('https://acme.dev/setup')).format).toBe('md-suffix')
+  })
+
+  it('does not probe a .md URL that robots.txt disallows', async () => {
+    serve({
+      'https://docs.acme.dev/robots.txt': { body: 'User-agent: *\nDisallow: /*.md$', type: 'text/plain' },
+      'https://docs.acme.dev/intro': html(),
+      'https://docs.acme.dev/intro.md': markdown(),
+      'https://docs.acme.dev/setup': html(),
+      'https://docs.acme.dev/setup.md': markdown(),
+    })
+
+    expect((await fetchPage('https://docs.acme.dev/intro')).format).toBe('html')
+    expect((await fetchPage('https://docs.acme.dev/setup')).format).toBe('html')
+    expect(requestedUrls()).toEqual(['https://docs.acme.dev/intro', 'https://docs.acme.dev/setup'])
+    expect(mockFetch.mock.calls.filter(([url]) => url === 'https://docs.acme.dev/robots.txt')).toHaveLength(1)
+  })
+
+  it('probes the .md URL without robots.txt when told not to respect it', async () => {
+    serve({
+      'https://docs.acme.dev/robots.txt': { body: 'User-agent: *\nDisallow: /', type: 'text/plain' },
+      'https://docs.acme.dev/intro': html(),
+      'https://docs.acme.dev/intro.md': markdown(),
+    })
+
+    expect((await fetchPage('https://docs.acme.dev/intro', { respectRobots: false })).format).toBe('md-suffix')
+    expect(mockFetch.mock.calls.map(([url]) => url)).not.toContain('https://docs.acme.dev/robots.txt')
+  })
+
+  it('ignores plain text from content negotiation', async () => {
+    serve({ 'https://acme.dev/notes': { body: 'Plain notes', type: 'text/plain' } })
+
+    expect((await fetchPage('https://acme.dev/notes')).format).toBe('html')
+  })
+
+  it('fetches only HTML when markdown is not wanted', async () => {
+    serve({ 'https://docs.acme.dev/intro': html(), 'https://docs.acme.dev/intro.md': markdown() })
+
+    expect((await fetchPage('https://docs.acme.dev/intro', { markdownFirst: false })).format).toBe('html')
+    expect(requestedUrls()).toEqual(['https://docs.acme.dev/intro'])
+  })
+
+  it('throws for a missing page', async () => {
+    serve({})
+
+    await expect(fetchPage('https://docs.acme.dev/missing')).rejects.toMatchObject({ code: 'HTTP_ERROR', status: 404 })
+  })
+})
+
+describe('scrapePageToMarkdown', () => {
+  beforeEach(() => {
+    clearAllCaches()
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('records which format the page was read from', async () => {
+    serve({
+      'https://docs.acme.dev/intro': html(),
+      'https://docs.acme.dev/intro.md': markdown(),
+      'https://acme.dev/intro': html(),
+    })
+
+    expect(await scrapePageToMarkdown('https://docs.acme.dev/intro')).toMatchObject({
+      title: 'Intro',
+      url: 'https://docs.acme.dev/intro',
+      content: 'Source page.',
+      format: 'md-suffix',
+    })
+    const converted = await scrapePageToMarkdown('https://acme.dev/intro')
+    expect(converted.format).toBe('html')
+    expect(converted.content).toContain('Rendered page.')
+  })
+})
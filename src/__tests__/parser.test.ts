@@ -50,21 +50,25 @@ describe('slugify', () => {
 })
 
 describe('estimateTokens', () => {
-  it('estimates tokens correctly (~4 chars per token)', () => {
-    expect(estimateTokens('hello')).toBe(2) // 5 chars / 4 = 1.25 → ceil = 2
+  it('counts a common word as one token', () => {
+    expect(estimateTokens('hello')).toBe(1)
   })
 
   it('handles empty string', () => {
     expect(estimateTokens('')).toBe(0)
   })
 
-  it('handles long text', () => {
-    const text = 'a'.repeat(100)
-    expect(estimateTokens(text)).toBe(25) // 100 / 4 = 25
+  it('counts words and punctuation in prose', () => {
+    expect(estimateTokens('The quick brown fox jumps over the lazy dog.')).toBe(10)
   })
 
-  it('rounds up fractional tokens', () => {
-    expect(estimateTokens('a')).toBe(1) // 1 / 4 = 0.25 → ceil = 1
+  it('never returns zero for non-empty text', () => {
+    expect(estimateTokens('a')).toBe(1)
+  })
+
+  it('uses the requested tokenizer', () => {
+    const text = '我们的团队根据这些数字来预算上下文窗口。'
+    expect(estimateTokens(text, 'o200k')).toBeLessThan(estimateTokens(text, 'cl100k'))
   })
 })
 
@@ -0,0 +1,115 @@
+/**
+ * Platform extractor unit tests
+ * Fixture-based page conversion per docs platform, plus detection, sidebar
+ * navigation and version/locale switchers
+ *
+ * Each fixtures/platforms/<platform>.html is a trimmed page as the platform
+ * renders it; its content must convert to <platform>.md, without edit links,
+ * pagination, breadcrumbs or heading anchors.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { detectDocsPlatform, htmlPageToDocument, parseHtml } from '@llm-energy/core'
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'platforms')
+
+const PAGE_URLS: Record<string, string> = {
+  docusaurus: 'https://docs.acme.dev/docs/installation',
+  gitbook: 'https://docs.acme.dev/guide/webhooks',
+  mintlify: 'https://docs.acme.dev/authentication',
+  mkdocs: 'https://acme.dev/docs/configuration/',
+  sphinx: 'https://acme.readthedocs.io/en/stable/quickstart.html',
+  vitepress: 'https://acme.dev/guide/getting-started',
+}
+
+function convert(platform: string) {
+  const html = readFileSync(join(FIXTURES_DIR, `${platform}.html`), 'utf8')
+  return htmlPageToDocument(html, PAGE_URLS[platform])
+}
+
+describe('platform fixtures', () => {
+  it.each(Object.keys(PAGE_URLS))('converts a %s page', platform => {
+    const expected = readFileSync(join(FIXTURES_DIR, `${platform}.md`), 'utf8').trim()
+    const page = convert(platform)
+
+    expect(page.platform?.name).toBe(platform)
+    expect(page.content).toBe(expected)
+  })
+
+  it('takes the title from the rendered page heading', () => {
+    expect(convert('sphinx').title).toBe('Quickstart')
+    expect(convert('docusaurus').title).toBe('Installation')
+  })
+})
+
+describe('detectDocsPlatform', () => {
+  it('ignores pages without platform fingerprints', () => {
+    expect(detectDocsPlatform(parseHtml('<html><body><main><p>Plain site</p></main></body></html>'))).toBeNull()
+  })
+
+  it('falls back to the generic conversion', () => {
+    const page = htmlPageToDocument('<nav><a href="/a">A</a></nav><main><p>Plain site</p></main>', 'https://example.com/')
+
+    expect(page.platform).toBeUndefined()
+    expect(page.navigation).toBeUndefined()
+    expect(page.content).toBe('Plain site')
+  })
+})
+
+describe('navigation', () => {
+  it('lists sidebar pages in reading order without in-page anchors', () => {
+    expect(convert('docusaurus').navigation).toEqual([
+      'https://docs.acme.dev/docs/intro',
+      'https://docs.acme.dev/docs/installation',
+      'https://docs.acme.dev/docs/guides/configuration',
+      'https://docs.acme.dev/docs/guides/deployment',
+    ])
+    expect(convert('mkdocs').navigation).toEqual([
+      'https://acme.dev/docs/',
+      'https://acme.dev/docs/configuration/',
+      'https://acme.dev/docs/reference/',
+    ])
+  })
+})
+
+describe('versions and locales', () => {
+  it('reads the Docusaurus version and locale dropdowns', () => {
+    const { platform } = convert('docusaurus')
+
+    expect(platform?.versions).toEqual([
+      { label: 'Next', url: 'https://docs.acme.dev/docs/installation', current: true },
+      { label: '2.x', url: 'https://docs.acme.dev/docs/2.x/installation' },
+      { label: '1.x', url: 'https://docs.acme.dev/docs/1.x/installation' },
+    ])
+    expect(platform?.locales).toEqual([
+      { label: 'English', url: 'https://docs.acme.dev/docs/installation', lang: 'en', current: true },
+      { label: 'Français', url: 'https://docs.acme.dev/fr/docs/installation', lang: 'fr' },
+    ])
+  })
+
+  it('reads the Read the Docs flyout', () => {
+    const { platform } = convert('sphinx')
+
+    expect(platform?.versions?.map(version => version.label)).toEqual(['latest', 'stable'])
+    expect(platform?.versions?.find(version => version.current)?.label).toBe('stable')
+    expect(platform?.locales?.map(locale => locale.url)).toEqual([
+      'https://acme.readthedocs.io/en/stable/quickstart.html',
+      'https://acme.readthedocs.io/ja/stable/quickstart.html',
+    ])
+  })
+
+  it('reads the Material for MkDocs and VitePress switchers', () => {
+    expect(convert('mkdocs').platform?.versions?.find(version => version.current)?.label).toBe('2.0')
+    expect(convert('mkdocs').platform?.locales?.map(locale => locale.lang)).toEqual(['en', 'de'])
+    expect(convert('vitepress').platform?.locales).toEqual([
+      { label: 'English', url: 'https://acme.dev/guide/getting-started', current: true },
+      { label: '简体中文', url: 'https://acme.dev/zh/guide/getting-started', lang: 'zh' },
+    ])
+  })
+
+  it('leaves out switchers a site does not have', () => {
+    expect(convert('gitbook').platform).toEqual({ name: 'gitbook' })
+  })
+})
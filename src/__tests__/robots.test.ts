@@ -0,0 +1,103 @@
+/**
+ * Robots.txt unit tests
+ * Tests for parsing, user-agent group selection and path matching
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseRobotsTxt, getRobotsPolicy, isAllowedByRobots } from '@llm-energy/core'
+
+const ROBOTS = `# Example robots.txt
+User-agent: *
+Disallow: /private/
+Disallow: /search
+Allow: /private/public-docs
+
+User-agent: llms-forge
+User-agent: other-bot
+Disallow: /internal/ # staff only
+Crawl-delay: 2
+
+User-agent: llms-forge
+Disallow: /drafts/
+
+Sitemap: https://example.com/sitemap.xml
+`
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user-agent lines and strips comments', () => {
+    const robots = parseRobotsTxt(ROBOTS)
+
+    expect(robots.groups).toHaveLength(3)
+    expect(robots.groups[1]).toEqual({
+      userAgents: ['llms-forge', 'other-bot'],
+      rules: [{ allow: false, path: '/internal/' }],
+      crawlDelay: 2,
+    })
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml'])
+  })
+
+  it('ignores rules before the first user-agent and empty disallows', () => {
+    const robots = parseRobotsTxt('Disallow: /\nUser-agent: *\nDisallow:\n')
+
+    expect(robots.groups).toEqual([{ userAgents: ['*'], rules: [] }])
+  })
+})
+
+describe('getRobotsPolicy', () => {
+  const robots = parseRobotsTxt(ROBOTS)
+
+  it('merges every group naming our product token', () => {
+    const policy = getRobotsPolicy(robots, 'llms-forge/1.0 (Documentation Extractor)')
+
+    expect(policy.rules.map(rule => rule.path)).toEqual(['/internal/', '/drafts/'])
+    expect(policy.crawlDelay).toBe(2)
+  })
+
+  it('falls back to the * group', () => {
+    const policy = getRobotsPolicy(robots, 'SomeCrawler/2.0')
+
+    expect(policy.rules).toHaveLength(3)
+    expect(policy.crawlDelay).toBeUndefined()
+  })
+
+  it('matches user agents case-insensitively', () => {
+    const policy = getRobotsPolicy(parseRobotsTxt('User-agent: LLMS-Forge\nDisallow: /\n'), 'llms-forge/1.0')
+
+    expect(policy.rules).toEqual([{ allow: false, path: '/' }])
+  })
+})
+
+describe('isAllowedByRobots', () => {
+  const policy = getRobotsPolicy(parseRobotsTxt(ROBOTS), 'Bot')
+
+  it('disallows matching path prefixes', () => {
+    expect(isAllowedByRobots(policy, 'https://example.com/private/keys')).toBe(false)
+    expect(isAllowedByRobots(policy, 'https://example.com/search?q=api')).toBe(false)
+    expect(isAllowedByRobots(policy, 'https://example.com/docs/intro')).toBe(true)
+  })
+
+  it('lets the longest matching rule win', () => {
+    expect(isAllowedByRobots(policy, 'https://example.com/private/public-docs/setup')).toBe(true)
+  })
+
+  it('prefers allow when rules are equally specific', () => {
+    const tie = getRobotsPolicy(parseRobotsTxt('User-agent: *\nDisallow: /docs\nAllow: /docs\n'), 'Bot')
+    expect(isAllowedByRobots(tie, 'https://example.com/docs')).toBe(true)
+  })
+
+  it('supports * wildcards and $ anchors', () => {
+    const wildcard = getRobotsPolicy(parseRobotsTxt('User-agent: *\nDisallow: /*.pdf$\nDisallow: /api/*/internal\n'), 'Bot')
+
+    expect(isAllowedByRobots(wildcard, 'https://example.com/files/guide.pdf')).toBe(false)
+    expect(isAllowedByRobots(wildcard, 'https://example.com/files/guide.pdf?download=1')).toBe(true)
+    expect(isAllowedByRobots(wildcard, 'https://example.com/api/v2/internal/users')).toBe(false)
+    expect(isAllowedByRobots(wildcard, 'https://example.com/api/v2/public')).toBe(true)
+  })
+
+  it('always allows robots.txt itself', () => {
+    const all = getRobotsPolicy(parseRobotsTxt('User-agent: *\nDisallow: /\n'), 'Bot')
+
+    expect(isAllowedByRobots(all, 'https://example.com/robots.txt')).toBe(true)
+    expect(isAllowedByRobots(all, 'https://example.com/')).toBe(false)
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Search index unit tests
+ * Tests for BM25 full-text search over extracted documents in @llm-energy/core
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/search/route'
+import { clearAllCaches, getSearchIndexCache } from '@/lib/cache'
+import { cacheExtraction } from '@/lib/extractor'
+import type { ExtractionResult } from '@/types'
+import {
+  buildSearchIndex,
+  createSearchIndex,
+  querySearchIndex,
+  highlightSnippet,
+  tokenizeSearchTerms,
+  chunkDocuments,
+  type Document,
+} from '@llm-energy/core'
+
+function doc(filename: string, title: string, body: string): Document {
+  return { filename, title, content: `## ${title}\n\n${body}`, tokens: 0 }
+}
+
+const DOCUMENTS: Document[] = [
+  doc('01-intro.md', 'Introduction', 'Welcome to the Example API. It lets you manage projects and users.'),
+  doc('02-auth.md', 'Authentication', 'Every request needs an API key. Access tokens expire after one hour; use the refresh token to renew them. Refresh tokens never expire.'),
+  doc('03-limits.md', 'Rate limits', 'Requests are limited to 100 per minute per key. Exceeding the rate limit returns 429.'),
+  doc('04-changelog.md', 'Changelog', 'Added token scopes. Fixed a bug in pagination.'),
+]
+
+describe('tokenizeSearchTerms', () => {
+  it('lowercases words and drops stop words', () => {
+    expect(tokenizeSearchTerms('How do I refresh THE token?')).toEqual(['do', 'i', 'refresh', 'token'])
+  })
+})
+
+describe('querySearchIndex', () => {
+  const index = buildSearchIndex({ documents: DOCUMENTS })
+
+  it('ranks the most relevant document first', () => {
+    const hits = querySearchIndex(index, 'refresh token')
+
+    expect(hits[0].filename).toBe('02-auth.md')
+    expect(hits[0].score).toBeGreaterThan(hits[1]?.score ?? 0)
+  })
+
+  it('boosts matches in titles', () => {
+    expect(querySearchIndex(index, 'rate limits')[0].filename).toBe('03-limits.md')
+  })
+
+  it('returns nothing when no term matches', () => {
+    expect(querySearchIndex(index, 'kubernetes')).toEqual([])
+    expect(querySearchIndex(index, 'the')).toEqual([])
+  })
+
+  it('limits the number of hits', () => {
+    expect(querySearchIndex(index, 'api token key', { limit: 2 })).toHaveLength(2)
+  })
+
+  it('highlights whole-word matches in the snippet', () => {
+    const [hit] = querySearchIndex(index, 'refresh')
+
+    expect(hit.highlights.length).toBeGreaterThan(0)
+    for (const { start, end } of hit.highlights) {
+      expect(hit.snippet.slice(start, end).toLowerCase()).toBe('refresh')
+    }
+    expect(highlightSnippet(hit)).toContain('**refresh**')
+  })
+
+  it('cuts long content around the matches', () => {
+    const long = createSearchIndex([{
+      title: 'Guide',
+      content: `${'Filler sentence about nothing. '.repeat(40)}Webhooks are signed with a secret. ${'More filler text. '.repeat(40)}`,
+    }])
+    const [hit] = querySearchIndex(long, 'webhooks', { snippetLength: 80 })
+
+    expect(hit.snippet.startsWith('…')).toBe(true)
+    expect(hit.snippet.endsWith('…')).toBe(true)
+    expect(hit.snippet).toContain('Webhooks are signed')
+    expect(hit.snippet.length).toBeLessThanOrEqual(84)
+  })
+})
+
+describe('buildSearchIndex', () => {
+  it('indexes chunks when the result has them', () => {
+    const chunks = chunkDocuments(DOCUMENTS, { sourceUrl: 'https://example.com/llms.txt' })
+    const index = buildSearchIndex({ documents: DOCUMENTS, chunks })
+    const [hit] = querySearchIndex(index, 'pagination')
+
+    expect(index.entries).toHaveLength(chunks.length)
+    expect(hit).toMatchObject({
+      filename: '04-changelog.md',
+      title: 'Changelog',
+      headingPath: ['Changelog'],
+      chunkIndex: 0,
+      sourceUrl: 'https://example.com/llms.txt',
+    })
+  })
+})
+
+describe('GET /api/search', () => {
+  const search = (query: string) =>
+    GET(new NextRequest(`https://llm.energy/api/search?url=example.com&q=${encodeURIComponent(query)}`))
+
+  beforeEach(() => {
+    clearAllCaches()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('searches the cached extraction and reuses its index', async () => {
+    cacheExtraction('https://example.com', { documents: DOCUMENTS } as ExtractionResult)
+
+    const first = await search('refresh token')
+    expect(first.headers.get('X-Cache')).toBe('MISS')
+    expect((await first.json()).results[0].filename).toBe('02-auth.md')
+    expect((await search('pagination')).headers.get('X-Cache')).toBe('HIT')
+  })
+
+  it('keeps the index for as long as the extraction', async () => {
+    cacheExtraction('https://example.com', { documents: DOCUMENTS } as ExtractionResult)
+    await search('refresh token')
+
+    vi.advanceTimersByTime(2 * 60 * 1000)
+    expect((await search('pagination')).headers.get('X-Cache')).toBe('HIT')
+  })
+
+  it('rebuilds the index when the extraction is replaced', async () => {
+    cacheExtraction('https://example.com', { documents: DOCUMENTS } as ExtractionResult)
+    await search('refresh token')
+
+    cacheExtraction('https://example.com', {
+      documents: [doc('01-webhooks.md', 'Webhooks', 'Refresh tokens are rotated by a webhook.')],
+    } as ExtractionResult)
+    const response = await search('refresh token')
+
+    expect(response.headers.get('X-Cache')).toBe('MISS')
+    expect((await response.json()).results.map((hit: { filename: string }) => hit.filename)).toEqual(['01-webhooks.md'])
+  })
+
+  it('expires the index with the extraction it was built from', async () => {
+    cacheExtraction('https://example.com', { documents: DOCUMENTS } as ExtractionResult)
+    vi.advanceTimersByTime(4 * 60 * 1000)
+    await search('refresh token')
+
+    vi.advanceTimersByTime(2 * 60 * 1000)
+    expect(getSearchIndexCache().get('https://example.com')).toBeNull()
+  })
+})
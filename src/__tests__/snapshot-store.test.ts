@@ -0,0 +1,219 @@
+/**
+ * Snapshot store tests
+ * Tests for the versioned filesystem and SQLite extraction stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  createSnapshot,
+  getExtractionVariant,
+  hashExtraction,
+  snapshotKey,
+  type ExtractionResult,
+  type SnapshotStore,
+} from '@llm-energy/core'
+import { getSnapshotStoreConfig } from '@llm-energy/core/snapshot-store'
+import { FileSnapshotStore, SqliteSnapshotStore } from '@/lib/snapshot-store'
+
+function makeResult(content: string, url = 'https://docs.example.com'): ExtractionResult {
+  const document = { filename: '01-intro.md', title: 'Intro', content, tokens: 3 }
+  return {
+    url,
+    sourceUrl: `${url}/llms-full.txt`,
+    rawContent: content,
+    documents: [document],
+    fullDocument: { ...document, filename: 'llms-full.md' },
+    agentGuide: { ...document, filename: 'AGENT-GUIDE.md' },
+    stats: { totalTokens: 3, documentCount: 1, processingTime: 12 },
+  }
+}
+
+describe('snapshot helpers', () => {
+  it('normalizes URLs so equivalent forms share snapshots', () => {
+    expect(snapshotKey('docs.example.com')).toBe('https://docs.example.com')
+    expect(snapshotKey('https://Docs.Example.com/api/')).toBe('https://docs.example.com/api')
+  })
+
+  it('keys option variants apart from the default extraction', () => {
+    expect(snapshotKey('docs.example.com', 'expand')).toBe('https://docs.example.com expand')
+    expect(getExtractionVariant({})).toBe('')
+    expect(getExtractionVariant({ tokenizer: 'gpt-4', locale: 'en' })).toBe('')
+    expect(getExtractionVariant({ expandLinks: true, tokenizer: 'gpt-4o', locale: 'pt-br' }))
+      .toBe('expand&tokenizer=o200k&locale=pt-br')
+  })
+
+  it('hashes documents but not timing stats', () => {
+    const a = makeResult('# Intro')
+    const b = { ...makeResult('# Intro'), stats: { totalTokens: 3, documentCount: 1, processingTime: 99 } }
+
+    expect(hashExtraction(a)).toBe(hashExtraction(b))
+    expect(hashExtraction(a)).not.toBe(hashExtraction(makeResult('# Changed')))
+  })
+
+  it('records hash, timestamp and source URL', () => {
+    const snapshot = createSnapshot(makeResult('# Intro'), 2, new Date('2026-01-02T03:04:05Z'))
+
+    expect(snapshot).toMatchObject({
+      url: 'https://docs.example.com',
+      version: 2,
+      sourceUrl: 'https://docs.example.com/llms-full.txt',
+      createdAt: '2026-01-02T03:04:05.000Z',
+      documentCount: 1,
+    })
+    expect(snapshot.hash).toMatch(/^[0-9a-f]{64}$/)
+  })
+})
+
+describe('getSnapshotStoreConfig', () => {
+  it('reads the store kind and location from the environment', () => {
+    expect(getSnapshotStoreConfig({})).toBeNull()
+    expect(getSnapshotStoreConfig({ SNAPSHOT_STORE: 'fs' })).toEqual({ kind: 'fs', location: '.snapshots' })
+    expect(getSnapshotStoreConfig({ SNAPSHOT_STORE: 'sqlite', SNAPSHOT_PATH: '/data/snapshots.db' }))
+      .toEqual({ kind: 'sqlite', location: '/data/snapshots.db' })
+  })
+})
+
+describe.each([
+  ['FileSnapshotStore', (dir: string): SnapshotStore => new FileSnapshotStore(dir)],
+  ['SqliteSnapshotStore', (dir: string): SnapshotStore => new SqliteSnapshotStore(path.join(dir, 'snapshots.db'))],
+])('%s', (_name, createStore) => {
+  let dir: string
+  let store: SnapshotStore
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'llm-energy-snapshots-'))
+    store = createStore(dir)
+  })
+
+  afterEach(async () => {
+    if (store instanceof SqliteSnapshotStore) store.close()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('numbers versions per URL', async () => {
+    const first = await store.save(makeResult('# Intro v1'))
+    const second = await store.save(makeResult('# Intro v2'))
+    const other = await store.save(makeResult('# Other', 'https://api.example.com'))
+
+    expect(first.version).toBe(1)
+    expect(second.version).toBe(2)
+    expect(other.version).toBe(1)
+    expect((await store.list('docs.example.com')).map(s => s.version)).toEqual([1, 2])
+    expect(await store.listUrls()).toEqual(['https://api.example.com', 'https://docs.example.com'])
+  })
+
+  it('versions each option variant separately', async () => {
+    await store.save(makeResult('# Intro'))
+    const expanded = await store.save(makeResult('# Intro expanded'), 'expand')
+
+    expect(expanded).toMatchObject({ url: 'https://docs.example.com', variant: 'expand', version: 1 })
+    expect(await store.list('docs.example.com')).toHaveLength(1)
+    expect((await store.get('docs.example.com'))?.result.documents[0].content).toBe('# Intro')
+    expect((await store.get('docs.example.com', undefined, 'expand'))?.result.documents[0].content).toBe('# Intro expanded')
+    expect(await store.get('docs.example.com', undefined, 'keepDuplicates')).toBeNull()
+    expect(await store.listUrls()).toEqual(['https://docs.example.com'])
+  })
+
+  it('does not write a new version when the content is unchanged', async () => {
+    const first = await store.save(makeResult('# Intro'))
+    const again = await store.save(makeResult('# Intro'))
+
+    expect(again).toEqual(first)
+    expect(await store.list('https://docs.example.com/')).toHaveLength(1)
+  })
+
+  it('returns a pinned version or the latest one', async () => {
+    await store.save(makeResult('# Intro v1'))
+    await store.save(makeResult('# Intro v2'))
+
+    const pinned = await store.get('docs.example.com', 1)
+    const latest = await store.get('docs.example.com')
+
+    expect(pinned?.result.documents[0].content).toBe('# Intro v1')
+    expect(pinned?.hash).toBe(hashExtraction(pinned!.result))
+    expect(latest?.version).toBe(2)
+    expect(await store.get('docs.example.com', 3)).toBeNull()
+    expect(await store.get('unknown.example.com')).toBeNull()
+  })
+
+  it('keeps snapshots across store instances', async () => {
+    await store.save(makeResult('# Intro'))
+    if (store instanceof SqliteSnapshotStore) store.close()
+
+    store = createStore(dir)
+    expect((await store.get('docs.example.com'))?.result.documents[0].content).toBe('# Intro')
+  })
+
+  it('assigns distinct versions to concurrent saves', async () => {
+    const saved = await Promise.all([
+      store.save(makeResult('# A')),
+      store.save(makeResult('# B')),
+      store.save(makeResult('# C')),
+    ])
+
+    expect(saved.map(s => s.version).sort()).toEqual([1, 2, 3])
+  })
+
+  it('assigns distinct versions to concurrent saves from stores sharing the location', async () => {
+    const others = [createStore(dir), createStore(dir)]
+    const saved = await Promise.all([
+      store.save(makeResult('# A')),
+      others[0].save(makeResult('# B')),
+      others[1].save(makeResult('# C')),
+    ])
+    for (const other of others) {
+      if (other instanceof SqliteSnapshotStore) other.close()
+    }
+
+    expect(saved.map(s => s.version).sort()).toEqual([1, 2, 3])
+    expect((await store.list('docs.example.com')).map(s => s.version)).toEqual([1, 2, 3])
+  })
+})
+
+describe('FileSnapshotStore lock', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'llm-energy-snapshots-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('waits for another process holding the lock, then releases its own', async () => {
+    const store = new FileSnapshotStore(dir)
+    await store.save(makeResult('# Intro'))
+    const [directory] = await readdir(dir)
+    const lock = path.join(dir, directory, 'index.lock')
+
+    await writeFile(lock, '1', { flag: 'wx' })
+    let saved = false
+    const saving = store.save(makeResult('# Intro v2')).then(meta => {
+      saved = true
+      return meta
+    })
+    await new Promise(resolve => setTimeout(resolve, 100))
+    expect(saved).toBe(false)
+
+    await rm(lock)
+    expect((await saving).version).toBe(2)
+    expect(await readdir(path.join(dir, directory))).not.toContain('index.lock')
+  })
+
+  it('takes over a lock left behind by a crashed process', async () => {
+    const store = new FileSnapshotStore(dir)
+    await store.save(makeResult('# Intro'))
+    const [directory] = await readdir(dir)
+    const lock = path.join(dir, directory, 'index.lock')
+
+    await writeFile(lock, '1', { flag: 'wx' })
+    const stale = new Date(Date.now() - 60_000)
+    await utimes(lock, stale, stale)
+
+    expect((await store.save(makeResult('# Intro v2'))).version).toBe(2)
+  })
+})
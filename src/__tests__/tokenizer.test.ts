@@ -0,0 +1,197 @@
+/**
+ * Tokenizer unit tests
+ * Tests for the BPE tokenizer and vocabulary registry in @llm-energy/core
+ */
+
+import { describe, it, expect } from 'vitest'
+import { Tiktoken } from 'js-tiktoken/lite'
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base'
+import o200kBase from 'js-tiktoken/ranks/o200k_base'
+import {
+  countTokens,
+  encode,
+  resolveTokenizer,
+  registerVocabulary,
+  getVocabulary,
+  listVocabularies,
+  loadVocabularyRanks,
+  loadPublishedRanks,
+  parseCompressedRanks,
+  parseTiktokenRanks,
+  DEFAULT_TOKENIZER,
+} from '@llm-energy/core'
+
+const PROSE = 'The quick brown fox jumps over the lazy dog.'
+
+describe('resolveTokenizer', () => {
+  it('defaults to cl100k', () => {
+    expect(resolveTokenizer()).toBe(DEFAULT_TOKENIZER)
+    expect(DEFAULT_TOKENIZER).toBe('cl100k')
+  })
+
+  it('maps model names to vocabularies', () => {
+    expect(resolveTokenizer('gpt-4')).toBe('cl100k')
+    expect(resolveTokenizer('gpt-3.5-turbo')).toBe('cl100k')
+    expect(resolveTokenizer('gpt-4o-mini')).toBe('o200k')
+    expect(resolveTokenizer('o3')).toBe('o200k')
+    expect(resolveTokenizer('claude-sonnet-4')).toBe('claude')
+  })
+
+  it('accepts vocabulary names in any case', () => {
+    expect(resolveTokenizer('O200K')).toBe('o200k')
+  })
+
+  it('falls back to the default for unknown models', () => {
+    expect(resolveTokenizer('some-other-model')).toBe('cl100k')
+  })
+})
+
+describe('countTokens', () => {
+  it('returns 0 for empty text', () => {
+    expect(countTokens('')).toBe(0)
+  })
+
+  it('counts common English words as single tokens', () => {
+    expect(countTokens('Hello world')).toBe(2)
+    expect(countTokens(PROSE)).toBe(10)
+  })
+
+  it('splits numbers into groups of three digits', () => {
+    expect(countTokens('1234567')).toBe(3)
+  })
+
+  it('counts non-English text by script, not by length', () => {
+    const chinese = '我们的团队根据这些数字来预算上下文窗口。'
+    // length / 4 would give 5
+    expect(countTokens(chinese)).toBeGreaterThan(15)
+    expect(countTokens(chinese, 'o200k')).toBeLessThan(countTokens(chinese, 'cl100k'))
+  })
+
+  it('counts more tokens for code than its length / 4 suggests', () => {
+    const code = 'const { data } = await fetch(`${baseUrl}/api/v1/items?id=${id}`).then(r => r.json());'
+    expect(countTokens(code)).toBeGreaterThan(Math.ceil(code.length / 4))
+  })
+
+  it('reports higher counts for the Claude approximation', () => {
+    const code = 'export function getElementById(id: string): HTMLElement | null {\n  return document.querySelector(`#${id}`)\n}'
+    expect(countTokens(code, 'claude')).toBeGreaterThan(countTokens(code, 'cl100k'))
+  })
+})
+
+describe('vocabularies', () => {
+  it('lists the built-in vocabularies', () => {
+    expect(listVocabularies()).toEqual(expect.arrayContaining(['cl100k', 'o200k', 'claude']))
+  })
+
+  it('throws for unknown vocabularies', () => {
+    expect(() => getVocabulary('nope')).toThrow('Unknown tokenizer vocabulary')
+  })
+
+  it('requires the g and u flags on the pre-tokenizer pattern', () => {
+    expect(() => registerVocabulary({
+      name: 'bad',
+      pattern: /\S+/g,
+      profile: getVocabulary('cl100k').profile,
+    })).toThrow('g and u flags')
+  })
+
+  it('encodes with byte pair merges when ranks are loaded', () => {
+    registerVocabulary({
+      name: 'toy',
+      pattern: /\S+|\s+/gu,
+      ranks: new Map([['a', 0], ['b', 1], ['c', 2], ['bc', 3], ['ab', 4], [' ', 5], ['abc', 6]]),
+      profile: getVocabulary('cl100k').profile,
+    })
+
+    expect(encode('abc ab', 'toy')).toEqual([6, 5, 4])
+    // "bc" has a lower rank than "ab", so it merges first: a|bc|c → abc|c
+    expect(encode('abcc', 'toy')).toEqual([6, 2])
+    expect(encode('cab', 'toy')).toEqual([2, 4])
+    expect(countTokens('abcc ab', 'toy')).toBe(4)
+  })
+
+  it('marks bytes missing from the vocabulary as -1', () => {
+    expect(encode('ad', 'toy')).toEqual([0, -1])
+  })
+
+  it('refuses to encode without ranks', () => {
+    expect(() => encode(PROSE, 'o200k')).toThrow('no ranks loaded')
+  })
+
+  it('encodes multi-byte characters as UTF-8 bytes', () => {
+    registerVocabulary({
+      name: 'bytes',
+      pattern: /\S+|\s+/gu,
+      ranks: new Map([['\xc3', 0], ['\xa9', 1], ['\xc3\xa9', 2]]),
+      profile: getVocabulary('cl100k').profile,
+    })
+
+    expect(encode('é', 'bytes')).toEqual([2])
+  })
+})
+
+describe('parseTiktokenRanks', () => {
+  it('decodes base64 tokens with their ranks', () => {
+    const ranks = parseTiktokenRanks('YQ== 0\nYg== 1\nYWI= 2\n')
+
+    expect(ranks.get('a')).toBe(0)
+    expect(ranks.get('b')).toBe(1)
+    expect(ranks.get('ab')).toBe(2)
+  })
+
+  it('loads ranks from a rank file into a vocabulary', () => {
+    registerVocabulary({
+      name: 'loaded',
+      pattern: /\S+|\s+/gu,
+      profile: getVocabulary('cl100k').profile,
+    })
+    loadVocabularyRanks('loaded', 'YQ== 0\nYg== 1\nYWI= 2\n')
+
+    expect(encode('ab', 'loaded')).toEqual([2])
+  })
+})
+
+describe('parseCompressedRanks', () => {
+  it('assigns consecutive ranks from each line offset', () => {
+    const ranks = parseCompressedRanks('! 0 YQ== Yg==\n! 5 YWI=')
+
+    expect(ranks.get('a')).toBe(0)
+    expect(ranks.get('b')).toBe(1)
+    expect(ranks.get('ab')).toBe(5)
+  })
+})
+
+// Loads the real rank tables, so this runs after the estimation tests above
+describe('loadPublishedRanks', () => {
+  const SAMPLE = [
+    '# Getting Started',
+    '',
+    'Install the SDK with `npm install @example/sdk` and call client.messages.create().',
+    'Les données sont chiffrées — 数据已加密. 🚀',
+    '',
+    '```ts',
+    'const response = await fetch(`${baseUrl}/v1/items?limit=100`)',
+    '```',
+  ].join('\n')
+
+  it('matches tiktoken for cl100k', async () => {
+    await expect(loadPublishedRanks('gpt-4')).resolves.toBe(true)
+
+    expect(encode('Hello, world!', 'cl100k')).toEqual([9906, 11, 1917, 0])
+    expect(encode('tiktoken is great!', 'cl100k')).toEqual([83, 1609, 5963, 374, 2294, 0])
+    expect(encode(SAMPLE, 'cl100k')).toEqual(new Tiktoken(cl100kBase).encode(SAMPLE))
+    expect(countTokens(SAMPLE, 'cl100k')).toBe(new Tiktoken(cl100kBase).encode(SAMPLE).length)
+  })
+
+  it('matches tiktoken for o200k', async () => {
+    await expect(loadPublishedRanks('gpt-4o')).resolves.toBe(true)
+
+    expect(encode('Hello, world!', 'o200k')).toEqual([13225, 11, 2375, 0])
+    expect(encode(SAMPLE, 'o200k')).toEqual(new Tiktoken(o200kBase).encode(SAMPLE))
+  })
+
+  it('keeps the claude approximation', async () => {
+    await expect(loadPublishedRanks('claude-sonnet-4')).resolves.toBe(false)
+    expect(() => encode(PROSE, 'claude')).toThrow('no ranks loaded')
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * Docs watcher tests
+ * Runs the watcher against a local HTTP server standing in for a docs site and a webhook receiver
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createServer, type IncomingMessage, type Server } from 'http'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { AddressInfo } from 'net'
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WatchRegistry,
+  checkWatch,
+  stopWatchScheduler,
+  toPublicWatch,
+  verifyWebhookSignature,
+  type Watch,
+  type WatchWebhookPayload,
+} from '@/lib/watch'
+import { POST } from '@/app/api/watch/route'
+
+const V1 = '# Example\n\n## Auth\n\nUse an API key.\n\n## Errors\n\n429 means slow down.\n'
+const V2 = '# Example\n\n## Auth\n\nUse an API key or OAuth.\n\n## Errors\n\n429 means slow down.\n\n## Webhooks\n\nEvents are signed.\n'
+
+interface Delivery {
+  headers: IncomingMessage['headers']
+  body: string
+}
+
+// State of the stand-in site
+let content = V1
+let sendEtag = true
+let hookStatus = 200
+const requests: Array<{ method?: string; conditional: boolean }> = []
+const deliveries: Delivery[] = []
+
+let server: Server
+let origin: string
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === '/llms-full.txt') {
+      const etag = `"${content.length}-${content.charCodeAt(content.length - 2)}"`
+      requests.push({ method: req.method, conditional: Boolean(req.headers['if-none-match']) })
+      if (sendEtag && req.headers['if-none-match'] === etag) {
+        res.writeHead(304).end()
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain', ...(sendEtag ? { ETag: etag } : {}) })
+      res.end(req.method === 'HEAD' ? undefined : content)
+      return
+    }
+
+    // Never answers
+    if (req.url === '/slow.txt') return
+
+    if (req.url === '/hook' && req.method === 'POST') {
+      let body = ''
+      req.on('data', chunk => (body += chunk))
+      req.on('end', () => {
+        deliveries.push({ headers: req.headers, body })
+        res.writeHead(hookStatus).end()
+      })
+      return
+    }
+
+    res.writeHead(404).end()
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  content = V1
+  sendEtag = true
+  hookStatus = 200
+  requests.length = 0
+  deliveries.length = 0
+})
+
+function makeWatch(): Watch {
+  return {
+    id: 'w1',
+    url: origin,
+    webhookUrl: `${origin}/hook`,
+    secret: 'test-secret',
+    createdAt: new Date().toISOString(),
+  }
+}
+
+describe('checkWatch', () => {
+  it('records a baseline, then uses conditional requests', async () => {
+    const watch = makeWatch()
+
+    expect((await checkWatch(watch)).status).toBe('baseline')
+    expect(watch.sourceUrl).toBe(`${origin}/llms-full.txt`)
+    expect(watch.hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(watch.etag).toBeDefined()
+
+    requests.length = 0
+    const result = await checkWatch(watch)
+    expect(result).toMatchObject({ status: 'unchanged', via: 'not-modified' })
+    expect(requests).toEqual([{ method: 'HEAD', conditional: true }])
+    expect(deliveries).toHaveLength(0)
+  })
+
+  it('posts a signed section-level summary when the content changes', async () => {
+    const watch = makeWatch()
+    await checkWatch(watch)
+
+    content = V2
+    const result = await checkWatch(watch)
+
+    expect(result.status).toBe('changed')
+    expect(result.delivery).toMatchObject({ ok: true, status: 200 })
+    expect(deliveries).toHaveLength(1)
+
+    const [delivery] = deliveries
+    const payload: WatchWebhookPayload = JSON.parse(delivery.body)
+    expect(payload).toMatchObject({
+      event: 'docs.changed',
+      watchId: 'w1',
+      sourceUrl: `${origin}/llms-full.txt`,
+      summary: { added: 1, modified: 1, removed: 0 },
+    })
+    expect(payload.changes.map(c => [c.type, c.title])).toEqual([
+      ['modified', 'Auth'],
+      ['added', 'Webhooks'],
+    ])
+    expect(payload.changelog).toContain('## Added')
+
+    const signature = delivery.headers[SIGNATURE_HEADER.toLowerCase()] as string
+    const timestamp = Number(delivery.headers[TIMESTAMP_HEADER.toLowerCase()])
+    expect(verifyWebhookSignature(delivery.body, 'test-secret', signature, timestamp)).toBe(true)
+    expect(verifyWebhookSignature(delivery.body, 'wrong-secret', signature, timestamp)).toBe(false)
+    expect(verifyWebhookSignature(`${delivery.body} `, 'test-secret', signature, timestamp)).toBe(false)
+  })
+
+  it('sends the change again after a failed delivery', async () => {
+    const watch = makeWatch()
+    await checkWatch(watch)
+
+    content = V2
+    hookStatus = 500
+    const failed = await checkWatch(watch)
+    expect(failed.delivery).toMatchObject({ ok: false, status: 500 })
+
+    hookStatus = 200
+    const retried = await checkWatch(watch)
+    expect(retried.status).toBe('changed')
+    expect(retried.delivery?.ok).toBe(true)
+    expect(deliveries).toHaveLength(2)
+
+    expect((await checkWatch(watch)).status).toBe('unchanged')
+  })
+
+  it('falls back to hashing when the server sends no validators', async () => {
+    sendEtag = false
+    const watch = makeWatch()
+    await checkWatch(watch)
+
+    expect(await checkWatch(watch)).toMatchObject({ status: 'unchanged', via: 'hash' })
+    expect(requests.every(r => r.method === 'GET')).toBe(true)
+  })
+
+  it('gives up on a site that does not respond', async () => {
+    const watch = { ...makeWatch(), sourceUrl: `${origin}/slow.txt` }
+    const result = await checkWatch(watch, 200)
+
+    expect(result.status).toBe('error')
+    expect(result.error).toContain('did not respond within 200ms')
+  })
+
+  it('reports a missing llms.txt as an error', async () => {
+    const watch = { ...makeWatch(), url: `${origin}/missing/llms.txt` }
+    const result = await checkWatch(watch)
+
+    expect(result.status).toBe('error')
+    expect(watch.lastError).toBe(result.error)
+  })
+})
+
+describe('WatchRegistry', () => {
+  it('persists watches and their state to a file', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'llm-energy-watch-'))
+    try {
+      const file = path.join(dir, 'watches.json')
+      const registry = new WatchRegistry(file)
+      const watch = await registry.add({ url: origin, webhookUrl: `${origin}/hook` })
+      await registry.checkAll()
+
+      const reloaded = await new WatchRegistry(file).get(watch.id)
+      expect(reloaded?.hash).toBe(watch.hash)
+      expect(reloaded?.secret).toHaveLength(48)
+
+      const publicWatch = toPublicWatch(reloaded!)
+      expect(publicWatch).not.toHaveProperty('secret')
+      expect(publicWatch).not.toHaveProperty('documents')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('keeps every watch added while the file is first read', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'llm-energy-watch-'))
+    try {
+      const registry = new WatchRegistry(path.join(dir, 'watches.json'))
+      const [watch] = await Promise.all([
+        registry.add({ url: origin, webhookUrl: `${origin}/hook` }),
+        registry.list(),
+      ])
+
+      expect((await registry.list()).map(entry => entry.id)).toEqual([watch.id])
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('saves watches added at the same time', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'llm-energy-watch-'))
+    try {
+      const file = path.join(dir, 'watches.json')
+      const registry = new WatchRegistry(file)
+      const added = await Promise.all([
+        registry.add({ url: origin, webhookUrl: `${origin}/hook` }),
+        registry.add({ url: `${origin}/docs`, webhookUrl: `${origin}/hook` }),
+      ])
+
+      const reloaded = await new WatchRegistry(file).list()
+      expect(reloaded.map(watch => watch.id).sort()).toEqual(added.map(watch => watch.id).sort())
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('sends one webhook when checks overlap', async () => {
+    const registry = new WatchRegistry()
+    await registry.add({ url: origin, webhookUrl: `${origin}/hook` })
+    await registry.checkAll()
+
+    content = V2
+    const [first, second] = await Promise.all([registry.checkAll(), registry.checkAll()])
+
+    expect(first[0].status).toBe('changed')
+    expect(second[0]).toEqual(first[0])
+    expect(deliveries).toHaveLength(1)
+  })
+
+  it('rejects webhook URLs that are not http(s)', async () => {
+    await expect(new WatchRegistry().add({ url: origin, webhookUrl: 'file:///etc/passwd' })).rejects.toThrow('http(s)')
+  })
+})
+
+describe('POST /api/watch', () => {
+  it('returns the new watch and its secret when the first check fails', async () => {
+    vi.stubEnv('ADMIN_KEY', 'test-admin-key')
+    const checkAll = vi.spyOn(WatchRegistry.prototype, 'checkAll').mockRejectedValue(new Error('disk full'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    try {
+      const response = await POST(new NextRequest('https://llm.energy/api/watch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-admin-key': 'test-admin-key' },
+        body: JSON.stringify({ url: origin, webhookUrl: `${origin}/hook` }),
+      }))
+      const body = await response.json()
+
+      expect(checkAll).toHaveBeenCalled()
+      expect(response.status).toBe(201)
+      expect(body.watch.secret).toHaveLength(48)
+      expect(body.check).toMatchObject({ id: body.watch.id, status: 'error' })
+    } finally {
+      vi.restoreAllMocks()
+      vi.unstubAllEnvs()
+      stopWatchScheduler()
+    }
+  })
+})
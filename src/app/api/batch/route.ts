@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import type { ExtractionResult, Document, BatchRequest, BatchResponse, BatchResult, ExportFormat } from '@/types'
+import type { ExtractionResult, BatchRequest, BatchResponse, BatchResult } from '@/types'
+import { extract, type ExtractionOptions } from '@/lib/extractor'
 import { getRateLimiter, getClientIp, createRateLimitResponse } from '@/lib/rate-limiter'
 
 /**
@@ -18,139 +19,15 @@ const MAX_URLS_PER_BATCH = 50
 const EXTRACTION_TIMEOUT = 30000
 
 /**
- * Simple helper to estimate tokens (roughly 4 chars per token)
+ * Options applied to every URL of a batch
  */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4)
-}
-
-/**
- * Simple helper to create a slug from text
- */
-function slugify(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '')
-    .slice(0, 50)
-}
+type BatchExtractionOptions = Pick<ExtractionOptions, 'tokenizer' | 'locale'>
 
 /**
  * Extract content from a single URL
  */
-async function extractFromUrl(url: string): Promise<ExtractionResult> {
-  const startTime = Date.now()
-  
-  // Normalize URL
-  let targetUrl = url.trim()
-  if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
-    targetUrl = `https://${targetUrl}`
-  }
-
-  const urlObj = new URL(targetUrl)
-  const baseUrl = `${urlObj.protocol}//${urlObj.host}`
-  
-  let content: string | null = null
-  let sourceUrl: string = ''
-  
-  const urlsToTry = [
-    `${baseUrl}/llms-full.txt`,
-    `${baseUrl}/llms.txt`
-  ]
-  
-  for (const tryUrl of urlsToTry) {
-    try {
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), EXTRACTION_TIMEOUT)
-      
-      const response = await fetch(tryUrl, {
-        headers: {
-          'User-Agent': 'llms-forge/1.0 (Documentation Extractor)',
-        },
-        signal: controller.signal,
-      })
-      
-      clearTimeout(timeoutId)
-      
-      if (response.ok) {
-        content = await response.text()
-        sourceUrl = tryUrl
-        break
-      }
-    } catch {
-      continue
-    }
-  }
-  
-  if (!content) {
-    throw new Error(`No llms.txt or llms-full.txt found at ${urlObj.host}`)
-  }
-  
-  // Simple parsing - split by ## headers
-  const sections = content.split(/^## /m)
-  const documents: Document[] = []
-  
-  for (let i = 0; i < sections.length; i++) {
-    const section = sections[i].trim()
-    if (!section || section.length < 20) continue
-    
-    const lines = section.split('\n')
-    const title = i === 0 ? 'Introduction' : (lines[0] || `Section ${i}`)
-    const sectionContent = i === 0 ? section : `## ${lines[0]}\n\n${lines.slice(1).join('\n').trim()}`
-    
-    documents.push({
-      filename: `${String(documents.length + 1).padStart(2, '0')}-${slugify(title)}.md`,
-      title,
-      content: sectionContent,
-      tokens: estimateTokens(sectionContent),
-    })
-  }
-  
-  // If no sections, treat whole content as one doc
-  if (documents.length === 0 && content.length > 20) {
-    documents.push({
-      filename: '01-documentation.md',
-      title: 'Documentation',
-      content: content,
-      tokens: estimateTokens(content),
-    })
-  }
-  
-  const siteName = urlObj.host.replace('www.', '').split('.')[0]
-  
-  const fullDocument: Document = {
-    filename: 'docs.md',
-    title: `${siteName} Documentation`,
-    content: content,
-    tokens: estimateTokens(content),
-  }
-  
-  const agentGuide: Document = {
-    filename: 'AGENT-GUIDE.md',
-    title: 'Agent Guide',
-    content: `# ${siteName} Documentation\n\nExtracted from ${sourceUrl}\n\nUse this documentation to answer questions about ${siteName}.`,
-    tokens: estimateTokens(`# ${siteName} Documentation`),
-  }
-  
-  const totalTokens = documents.reduce((sum, doc) => sum + doc.tokens, 0) 
-    + fullDocument.tokens 
-    + agentGuide.tokens
-  
-  const processingTime = Date.now() - startTime
-  
-  return {
-    url: targetUrl,
-    sourceUrl,
-    rawContent: content,
-    documents,
-    fullDocument,
-    agentGuide,
-    stats: {
-      totalTokens,
-      documentCount: documents.length,
-      processingTime
-    }
-  }
+function extractFromUrl(url: string, options: BatchExtractionOptions): Promise<ExtractionResult> {
+  return extract({ url, timeoutMs: EXTRACTION_TIMEOUT, ...options })
 }
 
 /**
@@ -158,7 +35,8 @@ async function extractFromUrl(url: string): Promise<ExtractionResult> {
  */
 async function processUrlsWithConcurrency(
   urls: string[],
-  maxConcurrent: number
+  maxConcurrent: number,
+  options: BatchExtractionOptions = {}
 ): Promise<BatchResult[]> {
   const results: BatchResult[] = []
   const pending: Promise<void>[] = []
@@ -166,7 +44,7 @@ async function processUrlsWithConcurrency(
   for (const url of urls) {
     const promise = (async () => {
       try {
-        const data = await extractFromUrl(url)
+        const data = await extractFromUrl(url, options)
         results.push({
           url,
           success: true,
@@ -275,7 +153,10 @@ export async function POST(request: NextRequest) {
     }
     
     // Process URLs with concurrency limit
-    const results = await processUrlsWithConcurrency(validUrls, MAX_CONCURRENT)
+    const results = await processUrlsWithConcurrency(validUrls, MAX_CONCURRENT, {
+      tokenizer: options?.tokenizer,
+      locale: options?.locale,
+    })
     
     // Add invalid URLs as failed results
     for (const invalidUrl of invalidUrls) {
@@ -338,6 +219,8 @@ export async function GET() {
       options: {
         format: "'markdown' | 'json' | 'yaml' - Export format (optional)",
         includeAgentGuide: 'boolean - Include agent guide in results (optional)',
+        tokenizer: "string - Vocabulary or model for token counts, e.g. 'cl100k', 'o200k', 'claude-sonnet-4' (optional)",
+        locale: "string - Language tag of the translation to extract, e.g. 'ja' or 'pt-BR' (optional, default: 'en')",
       }
     },
     response: {
@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAllCacheStats, clearAllCaches, getExtractionCache, getValidationCache } from '@/lib/cache'
+import {
+  getAllCacheStats,
+  clearAllCaches,
+  getExtractionCache,
+  getSearchIndexCache,
+  getValidationCache,
+  getRobotsCache,
+  getPageFormatCache,
+} from '@/lib/cache'
 import { getRateLimiter } from '@/lib/rate-limiter'
 
 /**
@@ -57,7 +65,10 @@ export async function DELETE(request: NextRequest) {
     success: true,
     cleared: {
       extraction: beforeStats.extraction?.size ?? 0,
+      searchIndex: beforeStats.searchIndex?.size ?? 0,
       validation: beforeStats.validation?.size ?? 0,
+      robots: beforeStats.robots?.size ?? 0,
+      pageFormat: beforeStats.pageFormat?.size ?? 0,
       rateLimiter: clearRateLimiter,
     },
     timestamp: Date.now(),
@@ -81,10 +92,16 @@ export async function POST(request: NextRequest) {
 
   // Prune expired entries
   const extractionCache = getExtractionCache()
+  const searchIndexCache = getSearchIndexCache()
   const validationCache = getValidationCache()
+  const robotsCache = getRobotsCache()
+  const pageFormatCache = getPageFormatCache()
 
   const prunedExtraction = extractionCache.prune()
+  const prunedSearchIndex = searchIndexCache.prune()
   const prunedValidation = validationCache.prune()
+  const prunedRobots = robotsCache.prune()
+  const prunedPageFormat = pageFormatCache.prune()
 
   // Cleanup rate limiter
   const cleanedRateLimiter = getRateLimiter().cleanup()
@@ -93,7 +110,10 @@ export async function POST(request: NextRequest) {
     success: true,
     pruned: {
       extraction: prunedExtraction,
+      searchIndex: prunedSearchIndex,
       validation: prunedValidation,
+      robots: prunedRobots,
+      pageFormat: prunedPageFormat,
       rateLimiter: cleanedRateLimiter,
     },
     currentStats: getAllCacheStats(),
@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ExtractionError,
+  diffExtractions,
+  formatDiffChangelog,
+  getExtractionVariant,
+  normalizeLocale,
+  normalizeTargetUrl,
+} from '@llm-energy/core'
+import type { ExtractionResult } from '@/types'
+import {
+  cacheExtraction,
+  extract,
+  getCachedExtraction,
+  getExtractionCacheKey,
+  type ExtractionOptions,
+} from '@/lib/extractor'
+import { getSnapshotStore, recordSnapshot } from '@/lib/snapshot-store'
+import { getRateLimiter, getClientIp, createRateLimitResponse } from '@/lib/rate-limiter'
+
+/**
+ * Parameters accepted by both GET and POST
+ */
+interface DiffParams {
+  /** Old extraction: a URL */
+  from?: unknown
+  /** New extraction: a URL */
+  to?: unknown
+  /** Site to compare against one of its snapshots */
+  url?: unknown
+  /** Snapshot version (or "latest") used as the old extraction */
+  snapshot?: unknown
+  /** Extraction options of the live side; the snapshot is taken from the same variant */
+  expandLinks?: boolean
+  tokenizer?: unknown
+  keepDuplicates?: boolean
+  locale?: unknown
+  /** "markdown" returns the changelog instead of JSON */
+  format?: unknown
+}
+
+/**
+ * Client errors raised while resolving the two sides of a diff
+ */
+class DiffRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+  }
+}
+
+/**
+ * Extraction options that change the compared documents
+ */
+type DiffExtractionOptions = Pick<ExtractionOptions, 'expandLinks' | 'tokenizer' | 'keepDuplicates' | 'locale'>
+
+/**
+ * Reads the extraction options of a diff request
+ */
+function parseExtractionOptions(params: DiffParams): DiffExtractionOptions {
+  let locale: string | undefined
+  if (params.locale !== undefined && params.locale !== null && params.locale !== '') {
+    locale = typeof params.locale === 'string' ? normalizeLocale(params.locale) : undefined
+    if (!locale) {
+      throw new DiffRequestError("locale must be a language tag such as 'en' or 'pt-BR'", 400)
+    }
+  }
+
+  return {
+    expandLinks: params.expandLinks === true,
+    tokenizer: typeof params.tokenizer === 'string' ? params.tokenizer : undefined,
+    keepDuplicates: params.keepDuplicates === true,
+    locale,
+  }
+}
+
+/**
+ * Cached extraction of a URL, extracting (and snapshotting) it on a miss
+ */
+async function loadExtraction(url: string, options: DiffExtractionOptions): Promise<ExtractionResult> {
+  const extraction: ExtractionOptions = { url, ...options }
+  const cacheKey = getExtractionCacheKey(extraction)
+  const cached = await getCachedExtraction(cacheKey)
+  if (cached) return cached.result
+
+  const result = await extract(extraction)
+  cacheExtraction(cacheKey, result)
+  await recordSnapshot(result, getExtractionVariant(extraction))
+  return result
+}
+
+/**
+ * Resolves the old and new extractions with a label for each
+ */
+async function resolveSides(params: DiffParams): Promise<{
+  before: ExtractionResult
+  after: ExtractionResult
+  beforeLabel: string
+  afterLabel: string
+}> {
+  const options = parseExtractionOptions(params)
+
+  if (typeof params.from === 'string' && typeof params.to === 'string') {
+    const from = normalizeTargetUrl(params.from)
+    const to = normalizeTargetUrl(params.to)
+    const [before, after] = await Promise.all([loadExtraction(from, options), loadExtraction(to, options)])
+    return { before, after, beforeLabel: before.sourceUrl, afterLabel: after.sourceUrl }
+  }
+
+  if (typeof params.url === 'string' && params.snapshot !== undefined) {
+    const store = getSnapshotStore()
+    if (!store) {
+      throw new DiffRequestError('Snapshots are disabled. Set SNAPSHOT_STORE to "fs" or "sqlite" to enable them.', 503)
+    }
+
+    const version = params.snapshot === 'latest' ? undefined : Number(params.snapshot)
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      throw new DiffRequestError('snapshot must be a positive integer or "latest"', 400)
+    }
+
+    // Compare like with like: the snapshot must come from the options of the live side
+    const url = normalizeTargetUrl(params.url)
+    const variant = getExtractionVariant(options)
+    const snapshot = await store.get(url, version, variant)
+    if (!snapshot) {
+      throw new DiffRequestError(
+        `No snapshot${version ? ` version ${version}` : ''} for ${url}${variant ? ` (${variant})` : ''}`,
+        404
+      )
+    }
+
+    const after = await loadExtraction(url, options)
+    return {
+      before: snapshot.result,
+      after,
+      beforeLabel: `snapshot v${snapshot.version} (${snapshot.createdAt})`,
+      afterLabel: `${after.sourceUrl} (live)`,
+    }
+  }
+
+  throw new DiffRequestError('Provide from and to URLs, or a url and a snapshot version', 400)
+}
+
+/**
+ * Shared handler for GET and POST
+ */
+async function handleDiff(request: NextRequest, params: DiffParams) {
+  const rateLimiter = getRateLimiter()
+  const rateLimitResult = rateLimiter.checkAndRecord(getClientIp(request))
+  if (!rateLimitResult.allowed) {
+    return createRateLimitResponse(rateLimitResult, rateLimiter)
+  }
+
+  try {
+    const { before, after, beforeLabel, afterLabel } = await resolveSides(params)
+    const diff = diffExtractions(before, after)
+    const changelog = formatDiffChangelog(diff, { beforeLabel, afterLabel, includeDiffs: params.format === 'markdown' })
+
+    if (params.format === 'markdown') {
+      return new NextResponse(changelog, {
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+      })
+    }
+
+    return NextResponse.json({ ...diff, beforeLabel, afterLabel, changelog })
+  } catch (error) {
+    if (error instanceof DiffRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof ExtractionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'NOT_FOUND' ? 404 : 400 }
+      )
+    }
+    console.error('Diff error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Diff failed' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET endpoint - Compare two extractions
+ * Usage:
+ * - /api/diff?from=docs.example.com&to=staging.docs.example.com
+ * - /api/diff?url=docs.example.com&snapshot=3 (snapshot version 3 vs. the live site)
+ * - add &format=markdown for a changelog with unified diffs
+ * - &expand=true, &tokenizer=, &keepDuplicates=true and &locale= extract with
+ *   those options; snapshots are looked up for the same options
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  return handleDiff(request, {
+    from: params.get('from') ?? undefined,
+    to: params.get('to') ?? undefined,
+    url: params.get('url') ?? undefined,
+    snapshot: params.get('snapshot') ?? undefined,
+    format: params.get('format') ?? undefined,
+    expandLinks: params.get('expand') === 'true',
+    tokenizer: params.get('tokenizer') ?? undefined,
+    keepDuplicates: params.get('keepDuplicates') === 'true',
+    locale: params.get('locale') ?? undefined,
+  })
+}
+
+/**
+ * POST endpoint - Same as GET with a JSON body
+ * Body: { from: string, to: string } or { url: string, snapshot: number | 'latest' }, plus format?: 'markdown',
+ *   expandLinks?: boolean, tokenizer?: string, keepDuplicates?: boolean, locale?: string
+ */
+export async function POST(request: NextRequest) {
+  let params: DiffParams = {}
+  try {
+    const body = await request.json()
+    params = {
+      from: body?.from,
+      to: body?.to,
+      url: body?.url,
+      snapshot: body?.snapshot,
+      format: body?.format,
+      expandLinks: body?.expandLinks === true,
+      tokenizer: body?.tokenizer,
+      keepDuplicates: body?.keepDuplicates === true,
+      locale: body?.locale,
+    }
+  } catch {
+    // Invalid JSON is reported as missing parameters
+  }
+
+  return handleDiff(request, params)
+}
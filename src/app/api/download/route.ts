@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getExtensionForFormat, getMimeTypeForFormat } from '@/lib/exporters'
+import { createDocumentsZip, type DocumentBundle } from '@/lib/zip-builder'
+import { slugify } from '@/lib/parser'
 import type { ExportFormat } from '@/types'
 
 /**
@@ -154,13 +156,57 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Check that a posted value has the fields of an extraction document
+ */
+function isDocument(value: unknown): boolean {
+  const doc = value as { filename?: unknown; content?: unknown } | null
+  return typeof doc?.filename === 'string' && typeof doc.content === 'string'
+}
+
+/**
+ * ZIP of the posted extraction documents, as sent by the extract page
+ */
+async function documentsZipResponse(body: Partial<DocumentBundle>): Promise<NextResponse> {
+  const { documents, fullDocument, agentGuide, codeExamples } = body
+  if (!Array.isArray(documents) || !documents.every(isDocument) || !isDocument(fullDocument) || !isDocument(agentGuide)) {
+    return NextResponse.json(
+      { error: 'documents, fullDocument and agentGuide are required' },
+      { status: 400 }
+    )
+  }
+  if (codeExamples && (!isDocument(codeExamples.document) || !Array.isArray(codeExamples.groups))) {
+    return NextResponse.json(
+      { error: 'codeExamples must have a document and groups' },
+      { status: 400 }
+    )
+  }
+
+  const siteName = body.siteName || 'docs'
+  const zip = await createDocumentsZip({ documents, fullDocument: fullDocument!, agentGuide: agentGuide!, codeExamples, siteName })
+
+  return new NextResponse(zip, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${slugify(siteName)}-docs.zip"`,
+    },
+  })
+}
+
 /**
  * POST endpoint - Download with custom options
  * Body: { url: string, filename?: string, includeHeader?: boolean, format?: ExportFormat }
+ * or the documents of an extraction result, downloaded as a ZIP:
+ * { documents: Document[], fullDocument: Document, agentGuide: Document, codeExamples?: CodeExampleIndex, siteName: string }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
+    if (body && 'documents' in body) {
+      return await documentsZipResponse(body)
+    }
+
     const { url, filename, includeHeader = true, format = 'markdown' } = body as {
       url: string
       filename?: string
@@ -1,174 +1,295 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ExtractionResult, Document, ExportFormat, LinkedSource } from '@/types'
-import { getExtractionCache, normalizeUrlKey } from '@/lib/cache'
-import { getRateLimiter, getClientIp, createRateLimitResponse } from '@/lib/rate-limiter'
-import { exportToFormat, getMimeTypeForFormat, getFilenameForFormat } from '@/lib/exporters'
+import {
+  DEFAULT_CHUNK_OVERLAP,
+  DEFAULT_CHUNK_TOKENS,
+  DEFAULT_LOCALE,
+  ExtractionError,
+  getExtractionVariant,
+  normalizeLocale,
+  normalizeTargetUrl,
+  parseDocumentPriorities,
+  resolveTokenizer,
+  type ChunkOptions,
+  type SnapshotMeta,
+} from '@llm-energy/core'
+import { ExtractionResult, ExportFormat } from '@/types'
+import { getExtractionCache } from '@/lib/cache'
+import {
+  cacheExtraction,
+  extract,
+  getCachedExtraction,
+  getExtractionCacheKey,
+  type ExtractionCacheStatus,
+  type ExtractionOptions,
+} from '@/lib/extractor'
+import { recordSnapshot } from '@/lib/snapshot-store'
+import { getRateLimiter, getClientIp, createRateLimitResponse, type RateLimitResult } from '@/lib/rate-limiter'
+import {
+  exportToFormat,
+  exportChunksToJsonl,
+  getMimeTypeForFormat,
+  getFilenameForFormat,
+  getChunksFilename,
+  getChunksMimeType,
+  exportCodeExamplesToJson,
+  getCodeExamplesFilename,
+  getCodeExamplesMimeType,
+} from '@/lib/exporters'
 
 /**
- * Simple helper to estimate tokens (roughly 4 chars per token)
+ * Add rate limit and cache headers to response
  */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4)
+function addResponseHeaders(
+  headers: Record<string, string>,
+  rateLimitResult: { limit: number; remaining: number; resetAt: number },
+  cacheStatus: ExtractionCacheStatus | 'MISS',
+  cacheTtl?: number
+): Record<string, string> {
+  return {
+    ...headers,
+    'X-Cache': cacheStatus,
+    'X-Cache-TTL': cacheTtl !== undefined ? String(cacheTtl) : '0',
+    'X-RateLimit-Limit': String(rateLimitResult.limit),
+    'X-RateLimit-Remaining': String(rateLimitResult.remaining),
+    'X-RateLimit-Reset': String(rateLimitResult.resetAt),
+    'Cache-Control': 'public, max-age=300', // 5 minutes
+  }
 }
 
 /**
- * Simple helper to create a slug from text
+ * Headers identifying the snapshot a fresh extraction was saved as
  */
-function slugify(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '')
-    .slice(0, 50)
+function snapshotHeaders(snapshot: SnapshotMeta | null): Record<string, string> {
+  if (!snapshot) return {}
+  return {
+    'X-Snapshot-Version': String(snapshot.version),
+    'X-Snapshot-Hash': snapshot.hash,
+  }
 }
 
 /**
- * Interface for a linked llms.txt file
+ * Whether the client asked for a Server-Sent Events progress stream
  */
-interface LinkedLlmsTxt {
-  url: string;
-  name: string;
-  description?: string;
-  content?: string;
-  isFull?: boolean;  // Whether this is a -full.txt version
+function wantsEventStream(request: NextRequest): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false
 }
 
 /**
- * Detect and extract links to other llms.txt files from content
- * Supports patterns like:
- * - https://example.com/llms-sdk.txt
- * - https://example.com/llms-full.txt
- * - https://example.com/llms-sdk-full.txt
+ * Format a single Server-Sent Events frame
  */
-function detectLinkedLlmsTxtFiles(content: string, baseUrl: string): LinkedLlmsTxt[] {
-  const linkedFiles: LinkedLlmsTxt[] = [];
-  const seenUrls = new Set<string>();
-  
-  // Pattern to match llms*.txt URLs
-  const urlPattern = /https?:\/\/[^\s<>"']+\/llms[^\/\s<>"']*\.txt/gi;
-  
-  const matches = content.matchAll(urlPattern);
-  const filesByBase = new Map<string, LinkedLlmsTxt[]>();
-  
-  for (const match of matches) {
-    const url = match[0];
-    
-    // Skip if we've already seen this URL
-    if (seenUrls.has(url)) continue;
-    seenUrls.add(url);
-    
-    // Skip the main llms.txt file itself
-    if (url.endsWith('/llms.txt') || url === `${baseUrl}/llms.txt`) continue;
-    
-    // Extract a name from the URL
-    const filename = url.split('/').pop() || 'llms.txt';
-    const isFull = filename.includes('-full');
-    const baseName = filename
-      .replace(/^llms-?/, '')
-      .replace(/-full\.txt$/, '')
-      .replace(/\.txt$/, '')
-      .replace(/-/g, ' ')
-      .trim() || 'Documentation';
-    
-    // Try to find a description from the surrounding context
-    const lineContainingUrl = content.split('\n').find(line => line.includes(url)) || '';
-    const description = lineContainingUrl
-      .replace(url, '')
-      .replace(/[-–—:]/g, '')
-      .replace(/\[.*?\]/g, '')
-      .replace(/\(.*?\)/g, '')
-      .trim();
-    
-    const linkedFile: LinkedLlmsTxt = {
-      url,
-      name: baseName.charAt(0).toUpperCase() + baseName.slice(1),
-      description: description || undefined,
-      isFull,
-    };
-    
-    // Group by base name to prefer -full versions
-    const baseKey = baseName.toLowerCase();
-    if (!filesByBase.has(baseKey)) {
-      filesByBase.set(baseKey, []);
-    }
-    filesByBase.get(baseKey)!.push(linkedFile);
-  }
-  
-  // For each base name, prefer the -full version
-  for (const [, files] of filesByBase) {
-    // Sort so -full versions come first
-    files.sort((a, b) => (b.isFull ? 1 : 0) - (a.isFull ? 1 : 0));
-    // Only add the first (prefer full) version
-    linkedFiles.push(files[0]);
-  }
-  
-  return linkedFiles;
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
 }
 
 /**
- * Fetch content from a linked llms.txt file
+ * Stream an extraction as Server-Sent Events
+ *
+ * Events:
+ * - `progress`: ExtractionProgress updates from the engine
+ * - `document`: each extracted document
+ * - `result`: the final ExtractionResult (last event on success)
+ * - `error`: { error, status } when the extraction fails
+ *
+ * Closing the connection aborts the extraction. A fresh cached result is sent
+ * right away; an expired one is revalidated inside the stream, after a first
+ * progress event, so the client's no-data timeout never fires while the
+ * origin is checked.
  */
-async function fetchLinkedLlmsTxt(file: LinkedLlmsTxt): Promise<LinkedLlmsTxt> {
-  try {
-    const response = await fetch(file.url, {
-      headers: {
-        'User-Agent': 'llms-forge/1.0 (Documentation Extractor)',
-      },
-    });
-    
-    if (response.ok) {
-      const content = await response.text();
-      return { ...file, content };
-    }
-  } catch (error) {
-    console.error(`Failed to fetch linked llms.txt: ${file.url}`, error);
-  }
-  
-  return file;
+function streamExtraction(
+  request: NextRequest,
+  options: ExtractionOptions,
+  cacheKey: string,
+  rateLimitResult: RateLimitResult
+): Response {
+  const encoder = new TextEncoder()
+  const cache = getExtractionCache<ExtractionResult>()
+  const fresh = cache.get(cacheKey)
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(formatEvent(event, data)))
+        } catch {
+          // Client already disconnected
+        }
+      }
+
+      try {
+        if (fresh) {
+          send('result', fresh)
+          return
+        }
+
+        if (cache.getStale(cacheKey)) {
+          send('progress', { status: 'analyzing', message: 'Checking whether the cached extraction is still current', progress: 5 })
+          const revalidated = await getCachedExtraction(cacheKey)
+          if (revalidated) {
+            send('result', revalidated.result)
+            return
+          }
+        }
+
+        const result = await extract({
+          ...options,
+          signal: request.signal,
+          onProgress: progress => send('progress', progress),
+          onDocument: document => send('document', document),
+        })
+
+        cacheExtraction(cacheKey, result)
+        await recordSnapshot(result, getExtractionVariant(options))
+        send('result', result)
+      } catch (error) {
+        if (error instanceof ExtractionError && error.code === 'CANCELLED') {
+          return
+        }
+        console.error('Extraction error:', error)
+        send('error', {
+          error: error instanceof Error ? error.message : 'Extraction failed',
+          status: error instanceof ExtractionError && error.code === 'NOT_FOUND' ? 404 : 500,
+        })
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Stream was cancelled by the client
+        }
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      // Revalidation happens after the headers are sent, so only a fresh entry is reported as a hit
+      ...addResponseHeaders({}, rateLimitResult, fresh ? 'HIT' : 'MISS', cache.getTtlRemaining(cacheKey)),
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  })
 }
 
 /**
- * Fetch all linked llms.txt files in parallel
+ * Parameters accepted by both GET and POST
  */
-async function fetchAllLinkedLlmsTxt(files: LinkedLlmsTxt[]): Promise<LinkedLlmsTxt[]> {
-  // Limit concurrent fetches to avoid overwhelming servers
-  const MAX_CONCURRENT = 5;
-  const results: LinkedLlmsTxt[] = [];
-  
-  for (let i = 0; i < files.length; i += MAX_CONCURRENT) {
-    const batch = files.slice(i, i + MAX_CONCURRENT);
-    const batchResults = await Promise.all(batch.map(fetchLinkedLlmsTxt));
-    results.push(...batchResults);
-  }
-  
-  return results;
+interface ExtractParams {
+  url: unknown
+  /** Fetch the pages listed in an llms.txt index as separate documents */
+  expandLinks?: boolean
+  /** Vocabulary or model name for token counts (e.g. 'o200k', 'claude-sonnet-4') */
+  tokenizer?: unknown
+  /** Token budget for llms-full.md */
+  maxTokens?: unknown
+  /** { first, last } terms that change which documents the budget keeps */
+  priorities?: unknown
+  /** `true`, a chunk size, or { maxTokens, overlapTokens } to return retrieval chunks */
+  chunks?: unknown
+  /** Overlap for `?chunks=`; ignored when chunks is an object */
+  chunkOverlap?: unknown
+  /** Keep near-duplicate documents instead of collapsing them */
+  keepDuplicates?: boolean
+  /** Language tag of the translation to extract (e.g. 'ja', 'pt-BR') */
+  locale?: unknown
 }
 
 /**
- * Add rate limit and cache headers to response
+ * Reads the locale parameter, defaulting to English; null when it is present
+ * but not a language tag
  */
-function addResponseHeaders(
-  headers: Record<string, string>,
-  rateLimitResult: { limit: number; remaining: number; resetAt: number },
-  cacheStatus: 'HIT' | 'MISS',
-  cacheTtl?: number
-): Record<string, string> {
+function parseLocale(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return DEFAULT_LOCALE
+  return (typeof value === 'string' && normalizeLocale(value)) || null
+}
+
+/**
+ * Reads the maxTokens parameter; null when it is present but not a positive integer
+ */
+function parseMaxTokens(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined
+  const maxTokens = typeof value === 'string' ? Number(value) : value
+  return typeof maxTokens === 'number' && Number.isInteger(maxTokens) && maxTokens > 0
+    ? maxTokens
+    : null
+}
+
+/**
+ * Reads &priorityFirst= and &priorityLast= as priority terms
+ */
+function getPriorityParams(searchParams: URLSearchParams): { first?: string; last?: string } | undefined {
+  const first = searchParams.get('priorityFirst') ?? undefined
+  const last = searchParams.get('priorityLast') ?? undefined
+  return first !== undefined || last !== undefined ? { first, last } : undefined
+}
+
+/**
+ * Reads the chunks parameters into chunk sizes with defaults filled in;
+ * null when they are present but invalid
+ */
+function parseChunkOptions(
+  chunks: unknown,
+  chunkOverlap: unknown
+): Required<Pick<ChunkOptions, 'maxTokens' | 'overlapTokens'>> | undefined | null {
+  if (chunks === undefined || chunks === null || chunks === false || chunks === 'false' || chunks === '') {
+    return undefined
+  }
+
+  // Overlap may be 0; chunk sizes must be positive
+  const parseOverlap = (value: unknown) => (value === 0 || value === '0' ? 0 : parseMaxTokens(value))
+
+  let maxTokens: number | undefined | null
+  let overlapTokens: number | undefined | null
+  if (typeof chunks === 'object') {
+    const settings = chunks as { maxTokens?: unknown; overlapTokens?: unknown }
+    maxTokens = parseMaxTokens(settings.maxTokens)
+    overlapTokens = parseOverlap(settings.overlapTokens)
+  } else {
+    maxTokens = chunks === true || chunks === 'true' ? undefined : parseMaxTokens(chunks)
+    overlapTokens = parseOverlap(chunkOverlap)
+  }
+
+  if (maxTokens === null || overlapTokens === null) return null
   return {
-    ...headers,
-    'X-Cache': cacheStatus,
-    'X-Cache-TTL': cacheTtl !== undefined ? String(cacheTtl) : '0',
-    'X-RateLimit-Limit': String(rateLimitResult.limit),
-    'X-RateLimit-Remaining': String(rateLimitResult.remaining),
-    'X-RateLimit-Reset': String(rateLimitResult.resetAt),
-    'Cache-Control': 'public, max-age=300', // 5 minutes
+    maxTokens: maxTokens ?? DEFAULT_CHUNK_TOKENS,
+    overlapTokens: overlapTokens ?? DEFAULT_CHUNK_OVERLAP,
   }
 }
 
 /**
- * POST endpoint - Simple extraction
- * Fetches llms-full.txt or llms.txt from a domain and returns the content
+ * Download response with the result's chunks as JSON Lines
  */
-export async function POST(request: NextRequest) {
+function chunksResponse(result: ExtractionResult, siteName: string, headers: Record<string, string>): NextResponse {
+  return new NextResponse(exportChunksToJsonl(result.chunks ?? []), {
+    status: 200,
+    headers: {
+      'Content-Type': `${getChunksMimeType()}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${getChunksFilename(siteName)}"`,
+      ...headers,
+    },
+  })
+}
+
+/**
+ * Download response with the result's code examples as JSON
+ */
+function codeExamplesResponse(result: ExtractionResult, siteName: string, headers: Record<string, string>): NextResponse {
+  return new NextResponse(exportCodeExamplesToJson(result.codeExamples?.groups ?? []), {
+    status: 200,
+    headers: {
+      'Content-Type': `${getCodeExamplesMimeType()}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${getCodeExamplesFilename(siteName)}"`,
+      ...headers,
+    },
+  })
+}
+
+/**
+ * Shared handler for GET and POST
+ * Runs the shared extraction engine (llms.txt first, then HTML fallbacks)
+ */
+async function handleExtraction(request: NextRequest, params: ExtractParams) {
+  const { url, expandLinks = false, keepDuplicates = false } = params
+  const tokenizer = resolveTokenizer(typeof params.tokenizer === 'string' ? params.tokenizer : undefined)
   const startTime = Date.now()
   
   // Apply rate limiting
@@ -181,283 +302,129 @@ export async function POST(request: NextRequest) {
   }
   
   try {
-    const body = await request.json()
-    const { url } = body
-    
-    if (!url) {
+    if (!url || typeof url !== 'string') {
       return NextResponse.json(
         { error: 'URL is required' },
         { status: 400 }
       )
     }
 
-    // Simple extraction - just fetch llms-full.txt or llms.txt
-    let targetUrl = url.trim()
-    if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
-      targetUrl = `https://${targetUrl}`
-    }
-
-    let urlObj: URL
+    let targetUrl: string
     try {
-      urlObj = new URL(targetUrl)
+      targetUrl = normalizeTargetUrl(url)
     } catch {
       return NextResponse.json(
         { error: 'Invalid URL format' },
         { status: 400 }
       )
     }
-    
-    const baseUrl = `${urlObj.protocol}//${urlObj.host}`
-    const hostname = urlObj.hostname.replace(/^www\./, '')
-    
-    // Extract root domain for subdomain checks (e.g., defillama.com from api.defillama.com)
-    const domainParts = hostname.split('.')
-    const rootDomain = domainParts.length > 2 
-      ? domainParts.slice(-2).join('.') 
-      : hostname
-    
-    const cacheKey = normalizeUrlKey(baseUrl)
 
-    // Check cache first
+    const maxTokens = parseMaxTokens(params.maxTokens)
+    if (maxTokens === null) {
+      return NextResponse.json(
+        { error: 'maxTokens must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    const priorities = parseDocumentPriorities(params.priorities)
+    if (priorities === null) {
+      return NextResponse.json(
+        { error: 'priorities must be { first?: string[], last?: string[] } with at most 20 terms each' },
+        { status: 400 }
+      )
+    }
+
+    const locale = parseLocale(params.locale)
+    if (locale === null) {
+      return NextResponse.json(
+        { error: "locale must be a language tag such as 'en' or 'pt-BR'" },
+        { status: 400 }
+      )
+    }
+
+    const formatParam = request.nextUrl.searchParams.get('format')
+    // Downloading chunks implies computing them
+    const chunks = parseChunkOptions(formatParam === 'chunks' ? params.chunks ?? true : params.chunks, params.chunkOverlap)
+    if (chunks === null) {
+      return NextResponse.json(
+        { error: 'chunks must be true, a positive chunk size, or { maxTokens, overlapTokens }' },
+        { status: 400 }
+      )
+    }
+
+    const urlObj = new URL(targetUrl)
+    const siteName = urlObj.host.replace('www.', '').split('.')[0]
+    const options: ExtractionOptions = {
+      url: targetUrl, expandLinks, tokenizer, maxTokens, priorities, chunks, keepDuplicates, locale,
+    }
+    const cacheKey = getExtractionCacheKey(options)
+
+    // Stream progress events when requested; the stream checks the cache itself
+    if (wantsEventStream(request)) {
+      return streamExtraction(request, options, cacheKey, rateLimitResult)
+    }
+
+    // Check cache first; expired entries may be revalidated with the origin
     const cache = getExtractionCache<ExtractionResult>()
-    const cachedResult = cache.get(cacheKey)
+    const cached = await getCachedExtraction(cacheKey)
 
-    if (cachedResult) {
+    if (cached) {
       // Return cached result with updated processing time
       const cachedWithTime: ExtractionResult = {
-        ...cachedResult,
+        ...cached.result,
         stats: {
-          ...cachedResult.stats,
+          ...cached.result.stats,
           processingTime: Date.now() - startTime,
         },
       }
       const responseHeaders = addResponseHeaders(
         {},
         rateLimitResult,
-        'HIT',
+        cached.status,
         cache.getTtlRemaining(cacheKey)
       )
-      return NextResponse.json(cachedWithTime, { headers: responseHeaders })
-    }
-    
-    let content: string | null = null
-    let sourceUrl: string = ''
-    
-    // Build list of subdomains to check
-    const subdomains = [
-      baseUrl,
-      `https://docs.${rootDomain}`,
-      `https://api-docs.${rootDomain}`,
-      `https://developer.${rootDomain}`,
-      `https://api.${rootDomain}`,
-    ]
-    
-    // Priority 1: llms-full.txt on all subdomains
-    for (const subdomain of subdomains) {
-      const tryUrl = `${subdomain}/llms-full.txt`
-      try {
-        const response = await fetch(tryUrl, {
-          headers: {
-            'User-Agent': 'llms-forge/1.0 (Documentation Extractor)',
-          },
-        })
-        
-        if (response.ok) {
-          content = await response.text()
-          sourceUrl = tryUrl
-          break
-        }
-      } catch {
-        continue
-      }
-    }
-    
-    // Priority 2: llms.txt on all subdomains
-    if (!content) {
-      for (const subdomain of subdomains) {
-        const tryUrl = `${subdomain}/llms.txt`
-        try {
-          const response = await fetch(tryUrl, {
-            headers: {
-              'User-Agent': 'llms-forge/1.0 (Documentation Extractor)',
-            },
-          })
-          
-          if (response.ok) {
-            content = await response.text()
-            sourceUrl = tryUrl
-            break
-          }
-        } catch {
-          continue
-        }
-      }
-    }
-    
-    if (!content) {
-      return NextResponse.json(
-        { error: `No llms.txt or llms-full.txt found at ${urlObj.host}` },
-        { status: 404 }
-      )
-    }
-    
-    // Check if the content contains links to other llms.txt files
-    // This is common for documentation hubs like MetaMask that split docs by product
-    const linkedFiles = detectLinkedLlmsTxtFiles(content, baseUrl);
-    let linkedLlmsTxtData: LinkedLlmsTxt[] = [];
-    
-    if (linkedFiles.length > 0) {
-      // Fetch all linked llms.txt files
-      linkedLlmsTxtData = await fetchAllLinkedLlmsTxt(linkedFiles);
-    }
-    
-    // Simple parsing - split by ## headers
-    const sections = content.split(/^## /m)
-    const documents: Document[] = []
-    
-    for (let i = 0; i < sections.length; i++) {
-      const section = sections[i].trim()
-      if (!section || section.length < 20) continue
-      
-      const lines = section.split('\n')
-      const title = i === 0 ? 'Introduction' : (lines[0] || `Section ${i}`)
-      const sectionContent = i === 0 ? section : `## ${lines[0]}\n\n${lines.slice(1).join('\n').trim()}`
-      
-      documents.push({
-        filename: `${String(documents.length + 1).padStart(2, '0')}-${slugify(title)}.md`,
-        title,
-        content: sectionContent,
-        tokens: estimateTokens(sectionContent),
-      })
-    }
-    
-    // Add documents from linked llms.txt files
-    for (const linked of linkedLlmsTxtData) {
-      if (!linked.content) continue;
-      
-      // Create a document for each linked file
-      const linkedFilename = linked.url.split('/').pop() || 'linked.txt';
-      const linkedSlug = slugify(linked.name || linkedFilename.replace('.txt', ''));
-      
-      // Parse the linked content into sections too
-      const linkedSections = linked.content.split(/^## /m);
-      
-      for (let i = 0; i < linkedSections.length; i++) {
-        const section = linkedSections[i].trim();
-        if (!section || section.length < 20) continue;
-        
-        const lines = section.split('\n');
-        const sectionTitle = i === 0 
-          ? linked.name || 'Documentation'
-          : (lines[0] || `${linked.name} Section ${i}`);
-        const sectionContent = i === 0 
-          ? section 
-          : `## ${lines[0]}\n\n${lines.slice(1).join('\n').trim()}`;
-        
-        documents.push({
-          filename: `${String(documents.length + 1).padStart(2, '0')}-${linkedSlug}-${slugify(sectionTitle)}.md`,
-          title: `${linked.name}: ${sectionTitle}`,
-          content: sectionContent,
-          tokens: estimateTokens(sectionContent),
-          sourceUrl: linked.url,
-        });
+      if (formatParam === 'chunks') {
+        return chunksResponse(cachedWithTime, siteName, responseHeaders)
       }
-    }
-    
-    // If no sections, treat whole content as one doc
-    if (documents.length === 0 && content.length > 20) {
-      documents.push({
-        filename: '01-documentation.md',
-        title: 'Documentation',
-        content: content,
-        tokens: estimateTokens(content),
-      })
-    }
-    
-    const siteName = urlObj.host.replace('www.', '').split('.')[0]
-    
-    // Combine main content with all linked content for full document
-    let combinedContent = content;
-    if (linkedLlmsTxtData.length > 0) {
-      combinedContent += '\n\n---\n\n# Additional Documentation Sources\n\n';
-      for (const linked of linkedLlmsTxtData) {
-        if (linked.content) {
-          combinedContent += `\n\n---\n\n## ${linked.name}\n\n> Source: ${linked.url}\n\n${linked.content}`;
-        }
+      if (formatParam === 'code-examples') {
+        return codeExamplesResponse(cachedWithTime, siteName, responseHeaders)
       }
+      return NextResponse.json(cachedWithTime, { headers: responseHeaders })
     }
     
-    const fullDocument: Document = {
-      filename: 'docs.md',
-      title: `${siteName} Documentation`,
-      content: combinedContent,
-      tokens: estimateTokens(combinedContent),
-    }
-    
-    // Build agent guide with info about linked docs
-    let agentGuideContent = `# ${siteName} Documentation\n\nExtracted from ${sourceUrl}\n\nUse this documentation to answer questions about ${siteName}.`;
-    
-    if (linkedLlmsTxtData.length > 0) {
-      agentGuideContent += '\n\n## Documentation Sources\n\nThis extraction includes content from multiple documentation sources:\n';
-      agentGuideContent += `\n- Main: ${sourceUrl}`;
-      for (const linked of linkedLlmsTxtData) {
-        if (linked.content) {
-          agentGuideContent += `\n- ${linked.name}: ${linked.url}`;
-        }
+    let result: ExtractionResult
+    try {
+      result = await extract(options)
+    } catch (error) {
+      if (error instanceof ExtractionError && error.code === 'NOT_FOUND') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
       }
+      throw error
     }
+
+    // Cache the successful result and keep a versioned snapshot of it
+    cacheExtraction(cacheKey, result)
+    const savedHeaders = snapshotHeaders(await recordSnapshot(result, getExtractionVariant(options)))
     
-    const agentGuide: Document = {
-      filename: 'AGENT-GUIDE.md',
-      title: 'Agent Guide',
-      content: agentGuideContent,
-      tokens: estimateTokens(agentGuideContent),
+    if (formatParam === 'chunks') {
+      return chunksResponse(result, siteName, addResponseHeaders(savedHeaders, rateLimitResult, 'MISS', cache.getTtlRemaining(cacheKey)))
     }
-    
-    const totalTokens = documents.reduce((sum, doc) => sum + doc.tokens, 0) 
-      + fullDocument.tokens 
-      + agentGuide.tokens
-    
-    const processingTime = Date.now() - startTime
-    
-    // Build linkedSources info for the result
-    const linkedSources = linkedLlmsTxtData
-      .filter(l => l.content)
-      .map(l => ({
-        url: l.url,
-        name: l.name,
-        description: l.description,
-        tokens: l.content ? estimateTokens(l.content) : 0,
-      }));
-    
-    const result: ExtractionResult = {
-      url: targetUrl,
-      sourceUrl,
-      rawContent: content,
-      documents,
-      fullDocument,
-      agentGuide,
-      linkedSources: linkedSources.length > 0 ? linkedSources : undefined,
-      stats: {
-        totalTokens,
-        documentCount: documents.length,
-        processingTime,
-        linkedSourceCount: linkedSources.length > 0 ? linkedSources.length : undefined,
-      }
+    if (formatParam === 'code-examples') {
+      return codeExamplesResponse(result, siteName, addResponseHeaders(savedHeaders, rateLimitResult, 'MISS', cache.getTtlRemaining(cacheKey)))
     }
 
-    // Cache the successful result
-    cache.set(cacheKey, result)
-    
     // Check for format parameter
-    const formatParam = request.nextUrl.searchParams.get('format') as ExportFormat | null
     const acceptHeader = request.headers.get('accept')
     
     // Determine output format based on query param, Accept header, or default to JSON
     let outputFormat: ExportFormat | null = null
     
     if (formatParam && ['markdown', 'json', 'yaml'].includes(formatParam)) {
-      outputFormat = formatParam
+      outputFormat = formatParam as ExportFormat
     } else if (acceptHeader) {
       if (acceptHeader.includes('text/markdown')) {
         outputFormat = 'markdown'
@@ -470,7 +437,6 @@ export async function POST(request: NextRequest) {
     if (outputFormat) {
       const formattedContent = exportToFormat(result, outputFormat)
       const mimeType = getMimeTypeForFormat(outputFormat)
-      const siteName = urlObj.host.replace('www.', '').split('.')[0]
       const filename = getFilenameForFormat(siteName, outputFormat)
       
       return new NextResponse(formattedContent, {
@@ -478,13 +444,13 @@ export async function POST(request: NextRequest) {
         headers: {
           'Content-Type': `${mimeType}; charset=utf-8`,
           'Content-Disposition': `attachment; filename="${filename}"`,
-          ...addResponseHeaders({}, rateLimitResult, 'MISS', cache.getTtlRemaining(cacheKey)),
+          ...addResponseHeaders(savedHeaders, rateLimitResult, 'MISS', cache.getTtlRemaining(cacheKey)),
         },
       })
     }
     
     const responseHeaders = addResponseHeaders(
-      {},
+      savedHeaders,
       rateLimitResult,
       'MISS',
       cache.getTtlRemaining(cacheKey)
@@ -502,7 +468,42 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET endpoint - Simple extraction (same as POST but with query param)
+ * POST endpoint - Extraction
+ * Body: { url: string, expandLinks?: boolean, tokenizer?: string, maxTokens?: number,
+ *   priorities?: { first?: string[], last?: string[] },
+ *   chunks?: boolean | { maxTokens?: number, overlapTokens?: number }, keepDuplicates?: boolean,
+ *   locale?: string }
+ * Send `Accept: text/event-stream` to receive progress events
+ */
+export async function POST(request: NextRequest) {
+  let params: ExtractParams = { url: undefined }
+  try {
+    const body = await request.json()
+    params = {
+      url: body?.url,
+      expandLinks: body?.expandLinks === true,
+      tokenizer: body?.tokenizer,
+      maxTokens: body?.maxTokens,
+      priorities: body?.priorities,
+      chunks: body?.chunks,
+      keepDuplicates: body?.keepDuplicates === true,
+      locale: body?.locale,
+    }
+  } catch {
+    // Invalid JSON is reported as a missing URL
+  }
+
+  return handleExtraction(request, params)
+}
+
+/**
+ * GET endpoint - Same as POST but with query param
+ * Usage: /api/extract?url=docs.anthropic.com&expand=true&tokenizer=o200k&maxTokens=50000
+ * Budget ranking: &priorityFirst=webhooks,auth&priorityLast=legacy (comma-separated terms)
+ * Chunks: &chunks=true (or a chunk size) &chunkOverlap=64; &format=chunks downloads them as JSONL
+ * Near-duplicate documents are collapsed unless &keepDuplicates=true
+ * Translations: &locale=ja extracts the Japanese pages (default: en)
+ * EventSource clients get a Server-Sent Events stream
  */
 export async function GET(request: NextRequest) {
   const url = request.nextUrl.searchParams.get('url')
@@ -514,16 +515,15 @@ export async function GET(request: NextRequest) {
     )
   }
 
-  // Create a mock request body for POST handler
-  const originalJson = request.json.bind(request)
-  const mockRequest = Object.create(request, {
-    json: {
-      value: async () => ({ url }),
-    },
-    headers: {
-      value: request.headers,
-    },
-  }) as NextRequest
-  
-  return POST(mockRequest)
-}
\ No newline at end of file
+  return handleExtraction(request, {
+    url,
+    expandLinks: request.nextUrl.searchParams.get('expand') === 'true',
+    tokenizer: request.nextUrl.searchParams.get('tokenizer') ?? undefined,
+    maxTokens: request.nextUrl.searchParams.get('maxTokens') ?? undefined,
+    priorities: getPriorityParams(request.nextUrl.searchParams),
+    chunks: request.nextUrl.searchParams.get('chunks') ?? undefined,
+    chunkOverlap: request.nextUrl.searchParams.get('chunkOverlap') ?? undefined,
+    keepDuplicates: request.nextUrl.searchParams.get('keepDuplicates') === 'true',
+    locale: request.nextUrl.searchParams.get('locale') ?? undefined,
+  })
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { analyzeGitHubRepo, generateInstallMdPrompt, parseGitHubUrl } from '@/lib/github-analyzer'
+import { parseGitHubUrl } from '@llm-energy/core'
+import { analyzeGitHubRepo, generateInstallMdPrompt } from '@/lib/github-analyzer'
 import { analyzeDocsUrl, generateInstallMdPromptFromDocs } from '@/lib/docs-analyzer'
 import { getRateLimiter } from '@/lib/rate-limiter'
 import Anthropic from '@anthropic-ai/sdk'
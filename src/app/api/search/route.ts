@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  DEFAULT_CHUNK_OVERLAP,
+  DEFAULT_CHUNK_TOKENS,
+  ExtractionError,
+  buildSearchIndex,
+  normalizeTargetUrl,
+  querySearchIndex,
+  type SearchIndex,
+} from '@llm-energy/core'
+import { getExtractionCache, getSearchIndexCache } from '@/lib/cache'
+import {
+  cacheExtraction,
+  extract,
+  getCachedExtraction,
+  getExtractionCacheKey,
+  type ExtractionOptions,
+} from '@/lib/extractor'
+import { getRateLimiter, getClientIp, createRateLimitResponse } from '@/lib/rate-limiter'
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 50
+
+/**
+ * GET endpoint - Full-text search over a site's extracted documentation
+ * Usage: /api/search?url=docs.anthropic.com&q=rate+limits
+ *
+ * Query params:
+ * - url: The documentation site (required)
+ * - q: Search query (required)
+ * - limit: Maximum results, up to 50 (default: 10)
+ * - chunks: If "true", search retrieval chunks instead of whole documents
+ *
+ * The site is extracted on the first query; the extraction and its search
+ * index are cached side by side, so follow-up queries are cheap.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const url = params.get('url')
+  const query = params.get('q')?.trim()
+
+  if (!url || !query) {
+    return NextResponse.json(
+      { error: 'url and q are required. Usage: /api/search?url=example.com&q=authentication' },
+      { status: 400 }
+    )
+  }
+
+  const limitParam = params.get('limit')
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json(
+      { error: 'limit must be a positive integer' },
+      { status: 400 }
+    )
+  }
+
+  let targetUrl: string
+  try {
+    targetUrl = normalizeTargetUrl(url)
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid URL format' },
+      { status: 400 }
+    )
+  }
+
+  const options: ExtractionOptions = {
+    url: targetUrl,
+    chunks: params.get('chunks') === 'true'
+      ? { maxTokens: DEFAULT_CHUNK_TOKENS, overlapTokens: DEFAULT_CHUNK_OVERLAP }
+      : undefined,
+  }
+  const cacheKey = getExtractionCacheKey(options)
+  const indexCache = getSearchIndexCache<SearchIndex>()
+  let index = indexCache.get(cacheKey)
+  const cacheStatus = index ? 'HIT' : 'MISS'
+
+  try {
+    if (!index) {
+      let result = (await getCachedExtraction(cacheKey))?.result
+
+      if (!result) {
+        // Only new extractions count against the rate limit
+        const rateLimiter = getRateLimiter()
+        const rateLimitResult = rateLimiter.checkAndRecord(getClientIp(request))
+        if (!rateLimitResult.allowed) {
+          return createRateLimitResponse(rateLimitResult, rateLimiter)
+        }
+
+        result = await extract(options)
+        cacheExtraction(cacheKey, result)
+      }
+
+      // The index expires with the extraction, so a stale extraction is
+      // revalidated before it is searched again
+      index = buildSearchIndex(result)
+      indexCache.set(cacheKey, index, Math.max(getExtractionCache().getTtlRemainingMs(cacheKey), 0))
+    }
+
+    const results = querySearchIndex(index, query, { limit: Math.min(limit, MAX_LIMIT) })
+
+    return NextResponse.json(
+      {
+        url: targetUrl,
+        query,
+        indexed: index.entries.length,
+        total: results.length,
+        results,
+      },
+      {
+        headers: {
+          'X-Cache': cacheStatus,
+          'X-Cache-TTL': String(Math.max(indexCache.getTtlRemaining(cacheKey), 0)),
+        },
+      }
+    )
+  } catch (error) {
+    if (error instanceof ExtractionError && error.code === 'NOT_FOUND') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      )
+    }
+    console.error('Search error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Search failed' },
+      { status: 500 }
+    )
+  }
+}
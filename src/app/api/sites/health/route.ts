@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { KNOWN_SITES, VerificationResult } from '@/data/sites'
 import { getRateLimiter } from '@/lib/rate-limiter'
-
-const TIMEOUT_MS = parseInt(process.env.HEALTH_TIMEOUT_MS || '8000', 10)
+import { quickCheck } from '@/lib/health-check'
 
 interface HealthCheckResult {
   id: string
@@ -47,41 +46,6 @@ let lastHealthReport: HealthReport | null = null
 let lastHealthCheckTime = 0
 const HEALTH_CHECK_COOLDOWN = 60 * 1000 // 1 minute between full checks
 
-/**
- * Quick check if a URL returns a valid response
- */
-async function quickCheck(url: string): Promise<{ ok: boolean; responseTime: number; finalUrl?: string }> {
-  const startTime = Date.now()
-  
-  try {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS)
-
-    const response = await fetch(url, {
-      method: 'HEAD',
-      signal: controller.signal,
-      redirect: 'follow',
-      headers: {
-        'User-Agent': 'llms-txt-health-check/1.0',
-      },
-    })
-
-    clearTimeout(timeoutId)
-    const responseTime = Date.now() - startTime
-
-    return {
-      ok: response.ok,
-      responseTime,
-      finalUrl: response.url,
-    }
-  } catch {
-    return {
-      ok: false,
-      responseTime: Date.now() - startTime,
-    }
-  }
-}
-
 /**
  * Check a single site's health
  */
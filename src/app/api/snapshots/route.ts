@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { snapshotKey } from '@llm-energy/core'
+import { getSnapshotStore } from '@/lib/snapshot-store'
+
+/**
+ * GET endpoint - Browse saved extraction snapshots
+ *
+ * - /api/snapshots: URLs that have snapshots
+ * - /api/snapshots?url=docs.anthropic.com: versions of a URL, oldest first
+ * - /api/snapshots?url=docs.anthropic.com&version=3: that snapshot with its full result
+ * - /api/snapshots?url=docs.anthropic.com&version=latest: the newest snapshot
+ * - add &variant=expand (the `variant` of a snapshot) for extractions with
+ *   non-default options, which are versioned separately
+ *
+ * Requires SNAPSHOT_STORE to be set to "fs" or "sqlite".
+ */
+export async function GET(request: NextRequest) {
+  const store = getSnapshotStore()
+  if (!store) {
+    return NextResponse.json(
+      { error: 'Snapshots are disabled. Set SNAPSHOT_STORE to "fs" or "sqlite" to enable them.' },
+      { status: 503 }
+    )
+  }
+
+  const url = request.nextUrl.searchParams.get('url')
+  const versionParam = request.nextUrl.searchParams.get('version')
+  const variant = request.nextUrl.searchParams.get('variant') ?? ''
+
+  try {
+    if (!url) {
+      return NextResponse.json({ urls: await store.listUrls() })
+    }
+
+    let key: string
+    try {
+      key = snapshotKey(url)
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid URL format' },
+        { status: 400 }
+      )
+    }
+
+    if (!versionParam) {
+      return NextResponse.json({ url: key, ...(variant ? { variant } : {}), snapshots: await store.list(key, variant) })
+    }
+
+    const version = versionParam === 'latest' ? undefined : Number(versionParam)
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      return NextResponse.json(
+        { error: 'version must be a positive integer or "latest"' },
+        { status: 400 }
+      )
+    }
+
+    const snapshot = await store.get(key, version, variant)
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: `No snapshot${version ? ` version ${version}` : ''} for ${snapshotKey(key, variant)}` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(snapshot, {
+      headers: {
+        'X-Snapshot-Version': String(snapshot.version),
+        'X-Snapshot-Hash': snapshot.hash,
+        // A version never changes once written
+        'Cache-Control': version ? 'public, max-age=31536000, immutable' : 'no-cache',
+      },
+    })
+  } catch (error) {
+    console.error('Snapshot error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read snapshots' },
+      { status: 500 }
+    )
+  }
+}
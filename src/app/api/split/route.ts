@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { discoverLlmsTxt } from '@/lib/url-discovery'
 import { fetchInstallMd, parseInstallMd, isValidInstallMd } from '@/lib/install-md-parser'
+import { estimateTokens, loadPublishedRanks, parseDocumentPriorities, selectWithinBudget, type DocumentPriorities } from '@llm-energy/core'
 import type { ParsedInstallMd } from '@/types'
 
 interface SplitDocument {
@@ -8,6 +9,16 @@ interface SplitDocument {
   title: string
   content: string
   order: number
+  tokens: number
+}
+
+/**
+ * Pages left out by a token budget
+ */
+interface DroppedPage {
+  filename: string
+  title: string
+  tokens: number
 }
 
 /**
@@ -48,13 +59,55 @@ function splitIntoPages(content: string): SplitDocument[] {
       filename,
       title,
       content: pageContent,
-      order
+      order,
+      tokens: estimateTokens(pageContent)
     })
   }
   
   return documents
 }
 
+/**
+ * Read a maxTokens parameter; null when it is present but not a positive integer
+ */
+function parseMaxTokens(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined
+  const maxTokens = typeof value === 'string' ? Number(value) : value
+  return typeof maxTokens === 'number' && Number.isInteger(maxTokens) && maxTokens > 0
+    ? maxTokens
+    : null
+}
+
+/**
+ * Read &priorityFirst= and &priorityLast= as priority terms
+ */
+function getPriorityParams(searchParams: URLSearchParams): { first?: string; last?: string } | undefined {
+  const first = searchParams.get('priorityFirst') ?? undefined
+  const last = searchParams.get('priorityLast') ?? undefined
+  return first !== undefined || last !== undefined ? { first, last } : undefined
+}
+
+/**
+ * Keep the most important pages that fit in maxTokens
+ * Intro and getting-started pages are kept first and changelogs are dropped
+ * first, unless priorities say otherwise.
+ */
+function applyTokenBudget(
+  documents: SplitDocument[],
+  maxTokens?: number,
+  priorities?: DocumentPriorities
+): { documents: SplitDocument[]; dropped: DroppedPage[] } {
+  if (maxTokens === undefined) {
+    return { documents, dropped: [] }
+  }
+
+  const { included, dropped } = selectWithinBudget(documents, maxTokens, priorities)
+  return {
+    documents: included,
+    dropped: dropped.map(({ filename, title, tokens }) => ({ filename, title, tokens })),
+  }
+}
+
 /**
  * GET - Split and return as JSON with all files
  * Usage: /api/split?url=docs.axiom.trade
@@ -62,10 +115,14 @@ function splitIntoPages(content: string): SplitDocument[] {
  * Query params:
  * - url: The domain to extract from (required)
  * - discover: If "true", scan for llms.txt across common doc URL patterns (default: true)
+ * - maxTokens: Only return the most important pages that fit in this many tokens
+ * - priorityFirst, priorityLast: Comma-separated terms of pages to keep first and drop first
  */
 export async function GET(request: NextRequest) {
   const url = request.nextUrl.searchParams.get('url')
   const shouldDiscover = request.nextUrl.searchParams.get('discover') !== 'false'
+  const maxTokens = parseMaxTokens(request.nextUrl.searchParams.get('maxTokens'))
+  const priorities = parseDocumentPriorities(getPriorityParams(request.nextUrl.searchParams))
   
   if (!url) {
     return NextResponse.json(
@@ -74,6 +131,20 @@ export async function GET(request: NextRequest) {
     )
   }
 
+  if (maxTokens === null) {
+    return NextResponse.json(
+      { error: 'maxTokens must be a positive integer' },
+      { status: 400 }
+    )
+  }
+
+  if (priorities === null) {
+    return NextResponse.json(
+      { error: 'priorities must be { first?: string[], last?: string[] } with at most 20 terms each' },
+      { status: 400 }
+    )
+  }
+
   try {
     // Normalize URL
     let targetUrl = url.trim()
@@ -136,8 +207,9 @@ export async function GET(request: NextRequest) {
       )
     }
     
-    // Split into pages
-    const documents = splitIntoPages(content)
+    // Split into pages, keeping the most important ones within the budget
+    await loadPublishedRanks()
+    const { documents, dropped } = applyTokenBudget(splitIntoPages(content), maxTokens, priorities)
     const siteName = urlObj.host.replace('www.', '').replace('docs.', '').split('.')[0]
     
     // Try to fetch install.md
@@ -197,6 +269,8 @@ export async function GET(request: NextRequest) {
         title: d.title,
         order: d.order
       })),
+      // Pages left out by maxTokens
+      ...(maxTokens !== undefined && { maxTokens, dropped }),
       // Include install.md if found
       installMd,
       installMdUrl,
@@ -213,12 +287,14 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST - Split and return as downloadable ZIP
- * Body: { url: string, discover?: boolean }
+ * Body: { url: string, discover?: boolean, maxTokens?: number, priorities?: { first?: string[], last?: string[] } }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { url, discover = true } = body
+    const maxTokens = parseMaxTokens(body.maxTokens)
+    const priorities = parseDocumentPriorities(body.priorities)
     
     if (!url) {
       return NextResponse.json(
@@ -227,6 +303,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (maxTokens === null) {
+      return NextResponse.json(
+        { error: 'maxTokens must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    if (priorities === null) {
+      return NextResponse.json(
+        { error: 'priorities must be { first?: string[], last?: string[] } with at most 20 terms each' },
+        { status: 400 }
+      )
+    }
+
     // Normalize URL
     let targetUrl = url.trim()
     if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
@@ -284,8 +374,9 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    // Split into pages
-    const documents = splitIntoPages(content)
+    // Split into pages, keeping the most important ones within the budget
+    await loadPublishedRanks()
+    const { documents, dropped } = applyTokenBudget(splitIntoPages(content), maxTokens, priorities)
     const siteName = urlObj.host.replace('www.', '').replace('docs.', '').split('.')[0]
     
     // Create a simple TAR-like format (concatenated files with headers)
@@ -308,7 +399,13 @@ Total Pages: ${documents.length}
 ## Pages
 
 ${documents.map(d => `- [${d.title}](./${d.filename})`).join('\n')}
-`
+${dropped.length > 0 ? `
+## Omitted
+
+These pages did not fit in the ${maxTokens?.toLocaleString()} token budget:
+
+${dropped.map(d => `- ${d.title} (${d.tokens.toLocaleString()} tokens)`).join('\n')}
+` : ''}`
     
     filesForDownload.unshift({
       path: `${siteName}-docs/README.md`,
@@ -320,7 +417,8 @@ ${documents.map(d => `- [${d.title}](./${d.filename})`).join('\n')}
       sourceUrl,
       folderName: `${siteName}-docs`,
       totalFiles: filesForDownload.length,
-      files: filesForDownload
+      files: filesForDownload,
+      ...(maxTokens !== undefined && { maxTokens, dropped }),
     })
     
   } catch (error) {
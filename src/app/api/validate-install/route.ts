@@ -101,7 +101,7 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/validate-install?url=...
- * Quick check if a URL has an install.md file
+ * Quick check if a URL has an install.md file; a valid one is returned parsed
  */
 export async function GET(request: NextRequest) {
   const url = request.nextUrl.searchParams.get('url')
@@ -147,6 +147,8 @@ export async function GET(request: NextRequest) {
             url: installUrl,
             isValid,
             size: content.length,
+            // Parsed file for display, e.g. next to an extraction
+            ...(isValid && { installMd: parseInstallMd(content) }),
           })
         }
       } catch {
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWatchRegistry } from '@/lib/watch'
+
+/**
+ * POST endpoint - Re-check watches now and notify webhooks of changes
+ * Usage: /api/watch/check (all watches) or /api/watch/check?id=<watch id>
+ * Protected: Requires x-admin-key header
+ *
+ * Long-running servers re-check on a timer (WATCH_INTERVAL_MS); serverless
+ * deployments should call this endpoint from a cron job.
+ */
+export async function POST(request: NextRequest) {
+  const expectedKey = process.env.ADMIN_KEY
+  if (!expectedKey || request.headers.get('x-admin-key') !== expectedKey) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const id = request.nextUrl.searchParams.get('id')
+  const registry = getWatchRegistry()
+  if (id && !(await registry.get(id))) {
+    return NextResponse.json(
+      { error: 'Watch not found' },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const results = await registry.checkAll(id ? [id] : undefined)
+    return NextResponse.json({
+      timestamp: new Date().toISOString(),
+      total: results.length,
+      changed: results.filter(r => r.status === 'changed').length,
+      errors: results.filter(r => r.status === 'error').length,
+      results,
+    })
+  } catch (error) {
+    console.error('Watch check error:', error)
+    return NextResponse.json(
+      { error: 'Failed to check watches' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWatchRegistry, toPublicWatch, type WatchCheckResult } from '@/lib/watch'
+
+/**
+ * Watches make the server send requests to arbitrary webhook URLs,
+ * so managing them requires the admin key
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const expectedKey = process.env.ADMIN_KEY
+  return Boolean(expectedKey) && request.headers.get('x-admin-key') === expectedKey
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: 'Unauthorized' },
+    { status: 401 }
+  )
+}
+
+/**
+ * GET endpoint - List watches (secrets are never returned)
+ * Protected: Requires x-admin-key header
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) return unauthorized()
+
+  const watches = await getWatchRegistry().list()
+  return NextResponse.json({
+    total: watches.length,
+    watches: watches.map(toPublicWatch),
+  })
+}
+
+/**
+ * POST endpoint - Register a URL to watch
+ * Body: { url: string, webhookUrl: string, secret?: string }
+ * Protected: Requires x-admin-key header
+ *
+ * The response includes the webhook secret; it is not shown again.
+ * The first check runs right away and records the baseline content.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) return unauthorized()
+
+  let body: { url?: unknown; webhookUrl?: unknown; secret?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    body = {}
+  }
+
+  if (typeof body.url !== 'string' || typeof body.webhookUrl !== 'string') {
+    return NextResponse.json(
+      { error: 'url and webhookUrl are required' },
+      { status: 400 }
+    )
+  }
+
+  const registry = getWatchRegistry()
+  let watch
+  try {
+    watch = await registry.add({
+      url: body.url,
+      webhookUrl: body.webhookUrl,
+      secret: typeof body.secret === 'string' ? body.secret : undefined,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid URL' },
+      { status: 400 }
+    )
+  }
+
+  // The watch is stored at this point: a failed first check must not hide its secret
+  let check: WatchCheckResult
+  try {
+    [check] = await registry.checkAll([watch.id])
+  } catch (error) {
+    console.error('Watch check error:', error)
+    check = { id: watch.id, url: watch.url, status: 'error', error: 'Failed to check the watch' }
+  }
+
+  return NextResponse.json(
+    { watch: { ...toPublicWatch(watch), secret: watch.secret }, check },
+    { status: 201 }
+  )
+}
+
+/**
+ * DELETE endpoint - Stop watching
+ * Usage: /api/watch?id=<watch id>
+ * Protected: Requires x-admin-key header
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAuthorized(request)) return unauthorized()
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) {
+    return NextResponse.json(
+      { error: 'id is required' },
+      { status: 400 }
+    )
+  }
+
+  const removed = await getWatchRegistry().remove(id)
+  if (!removed) {
+    return NextResponse.json(
+      { error: 'Watch not found' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({ success: true, id })
+}
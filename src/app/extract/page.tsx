@@ -1,11 +1,15 @@
 'use client';
 
 import { useSearchParams, useRouter } from 'next/navigation';
-import { useState, useEffect, Suspense } from 'react';
-import { ArrowLeft, Download, FileText, Check, Loader2, AlertCircle, Copy, Terminal, CheckSquare, Square } from 'lucide-react';
+import { useState, useEffect, useMemo, Suspense } from 'react';
+import { ArrowLeft, Download, FileText, Check, Loader2, AlertCircle, Copy, Terminal, CheckSquare, Square, GitCompare } from 'lucide-react';
 import Link from 'next/link';
 import JSZip from 'jszip';
-import type { ParsedInstallMd, InstallMdTodoItem, InstallMdStep } from '@/types';
+import { extractSiteName } from '@llm-energy/core';
+import DiffView from '@/components/DiffView';
+import ExtractionProcess from '@/components/ExtractionProcess';
+import { useExtraction } from '@/hooks/useExtraction';
+import type { ExtractionResult, ParsedInstallMd, InstallMdTodoItem, InstallMdStep } from '@/types';
 
 interface SplitDocument {
   filename: string;
@@ -24,49 +28,87 @@ interface SplitResult {
   installMdUrl?: string | null;
 }
 
+interface InstallMdLookup {
+  installMd: ParsedInstallMd;
+  url: string;
+}
+
+/**
+ * Page view of an extraction: numbered documents plus the site's install.md
+ */
+function toSplitResult(extraction: ExtractionResult, installMd: InstallMdLookup | null): SplitResult {
+  const documents = extraction.documents.map((doc, i) => ({
+    filename: doc.filename,
+    title: doc.title,
+    content: doc.content,
+    order: i + 1,
+  }));
+  return {
+    siteName: extractSiteName(extraction.url),
+    sourceUrl: extraction.sourceUrl,
+    totalPages: documents.length,
+    documents,
+    manifest: documents.map(({ filename, title, order }) => ({ filename, title, order })),
+    installMd: installMd?.installMd ?? null,
+    installMdUrl: installMd?.url ?? null,
+  };
+}
+
 function ExtractPageContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const url = searchParams.get('url');
   
-  const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
-  const [result, setResult] = useState<SplitResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const { progress, result: extraction, error, extract, cancel } = useExtraction();
+  const [installMd, setInstallMd] = useState<InstallMdLookup | null>(null);
   const [selectedDoc, setSelectedDoc] = useState<SplitDocument | null>(null);
   const [showInstallMd, setShowInstallMd] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
   const [copied, setCopied] = useState(false);
   const [downloading, setDownloading] = useState(false);
 
+  const result = useMemo(
+    () => (extraction ? toSplitResult(extraction, installMd) : null),
+    [extraction, installMd]
+  );
+  const status = progress.status === 'complete' && result
+    ? 'success'
+    : progress.status === 'error'
+      ? 'error'
+      : progress.status === 'idle'
+        ? 'idle'
+        : 'loading';
+
+  // Stream the extraction; leaving the page closes the stream and stops it
   useEffect(() => {
-    if (url && status === 'idle') {
-      fetchDocs(url);
-    }
-  }, [url, status]);
+    if (!url) return;
+    extract(url);
+    return cancel;
+  }, [url, extract, cancel]);
 
-  const fetchDocs = async (targetUrl: string) => {
-    setStatus('loading');
-    setError(null);
-    
-    try {
-      const apiUrl = '/api/split?url=' + encodeURIComponent(targetUrl);
-      const response = await fetch(apiUrl);
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to extract documentation');
-      }
-      
-      setResult(data);
-      setStatus('success');
-      
-      if (data.documents?.length > 0) {
-        setSelectedDoc(data.documents[0]);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Extraction failed');
-      setStatus('error');
-    }
-  };
+  useEffect(() => {
+    const first = extraction?.documents[0];
+    setSelectedDoc(first ? { filename: first.filename, title: first.title, content: first.content, order: 1 } : null);
+  }, [extraction]);
+
+  // Look for the site's install.md once its docs were found
+  useEffect(() => {
+    setInstallMd(null);
+    if (!extraction) return;
+
+    const controller = new AbortController();
+    fetch('/api/validate-install?url=' + encodeURIComponent(extraction.url), { signal: controller.signal })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data?.installMd?.isValid) {
+          setInstallMd({ installMd: data.installMd, url: data.url });
+        }
+      })
+      .catch(() => {
+        // install.md is optional
+      });
+    return () => controller.abort();
+  }, [extraction]);
 
   const downloadFile = (doc: SplitDocument) => {
     const blob = new Blob([doc.content], { type: 'text/markdown' });
@@ -1140,15 +1182,22 @@ END OF ${data.siteName.toUpperCase()} DOCUMENTATION
       <div className="container mx-auto px-4 py-8">
         {/* Loading State */}
         {status === 'loading' && (
-          <div className="flex flex-col items-center justify-center py-32">
-            <Loader2 className="w-8 h-8 animate-spin text-blue-500 mb-4" />
-            <p className="text-neutral-400 mb-2">Searching for documentation...</p>
-            <p className="text-neutral-500 text-sm">
-              Scanning {url} and common doc locations (docs.*, /docs, etc.)
-            </p>
-            <p className="text-neutral-600 text-xs mt-4">
-              This may take up to 20 seconds
-            </p>
+          <div className="max-w-3xl mx-auto py-16">
+            <ExtractionProcess progress={progress} onCancel={cancel} />
+          </div>
+        )}
+
+        {/* Cancelled State */}
+        {status === 'idle' && url && progress.logs.length > 0 && (
+          <div className="flex flex-col items-center justify-center py-32 max-w-lg mx-auto text-center">
+            <p className="text-xl font-semibold mb-2">Extraction cancelled</p>
+            <p className="text-neutral-400 mb-6">{url}</p>
+            <button
+              onClick={() => extract(url)}
+              className="px-6 py-3 bg-white text-black rounded-lg font-medium hover:bg-neutral-200 transition-colors"
+            >
+              Start Again
+            </button>
           </div>
         )}
 
@@ -1159,8 +1208,8 @@ END OF ${data.siteName.toUpperCase()} DOCUMENTATION
             <p className="text-xl font-semibold mb-2">No Documentation Found</p>
             <p className="text-neutral-400 mb-4">{error}</p>
             <p className="text-neutral-500 text-sm mb-6">
-              We scanned common documentation locations (docs.*, /docs, developers.*, etc.) 
-              but couldn&apos;t find an llms.txt file. The site may not support the llms.txt standard yet.
+              We looked for llms.txt, sitemaps, common documentation locations (docs.*, /docs, etc.),
+              OpenAPI specs and the page&apos;s own links but couldn&apos;t extract any documentation.
             </p>
             <button
               onClick={() => router.push('/')}
@@ -1193,6 +1242,7 @@ END OF ${data.siteName.toUpperCase()} DOCUMENTATION
                     <button
                       onClick={() => {
                         setShowInstallMd(true);
+                        setShowDiff(false);
                         setSelectedDoc(null);
                       }}
                       className={'w-full text-left px-4 py-3 hover:bg-neutral-800/50 transition-colors flex items-center gap-2 ' + (showInstallMd ? 'bg-emerald-900/30 border-l-2 border-l-emerald-500' : '')}
@@ -1206,6 +1256,24 @@ END OF ${data.siteName.toUpperCase()} DOCUMENTATION
                   </div>
                 )}
                 
+                {/* Compare Versions */}
+                <div className="border-b border-neutral-800">
+                  <button
+                    onClick={() => {
+                      setShowDiff(true);
+                      setShowInstallMd(false);
+                      setSelectedDoc(null);
+                    }}
+                    className={'w-full text-left px-4 py-3 hover:bg-neutral-800/50 transition-colors flex items-center gap-2 ' + (showDiff ? 'bg-neutral-800 border-l-2 border-l-blue-500' : '')}
+                  >
+                    <GitCompare className="w-4 h-4 text-blue-400" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm">Compare versions</p>
+                      <p className="text-xs text-neutral-500 truncate">Diff against a snapshot or URL</p>
+                    </div>
+                  </button>
+                </div>
+                
                 <div className="max-h-[60vh] overflow-y-auto">
                   {result.documents.map((doc) => (
                     <button
@@ -1213,6 +1281,7 @@ END OF ${data.siteName.toUpperCase()} DOCUMENTATION
                       onClick={() => {
                         setSelectedDoc(doc);
                         setShowInstallMd(false);
+                        setShowDiff(false);
                       }}
                       className={'w-full text-left px-4 py-3 border-b border-neutral-800 hover:bg-neutral-800/50 transition-colors ' + (selectedDoc?.filename === doc.filename && !showInstallMd ? 'bg-neutral-800 border-l-2 border-l-blue-500' : '')}
                     >
@@ -1351,8 +1420,11 @@ END OF ${data.siteName.toUpperCase()} DOCUMENTATION
                 </div>
               )}
               
+              {/* Diff View */}
+              {showDiff && url && <DiffView url={url} />}
+
               {/* Document Preview */}
-              {selectedDoc && !showInstallMd && (
+              {selectedDoc && !showInstallMd && !showDiff && (
                 <div className="bg-neutral-900 rounded-xl border border-neutral-800 overflow-hidden">
                   {/* File Header */}
                   <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
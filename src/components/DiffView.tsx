@@ -0,0 +1,237 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { GitCompare, Loader2, AlertCircle, Copy, Check, ChevronDown, ChevronRight } from 'lucide-react'
+import type { ExtractionDiff, SectionChange, SnapshotMeta } from '@llm-energy/core'
+
+interface DiffResponse extends ExtractionDiff {
+  beforeLabel: string
+  afterLabel: string
+  changelog: string
+}
+
+interface DiffViewProps {
+  /** Site shown on the extract page; the newer side of the diff */
+  url: string
+}
+
+const CHANGE_STYLES: Record<SectionChange['type'], string> = {
+  added: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  removed: 'bg-red-500/20 text-red-400 border-red-500/30',
+  modified: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  moved: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+}
+
+const LINE_STYLES = {
+  added: 'bg-emerald-500/10 text-emerald-300',
+  removed: 'bg-red-500/10 text-red-300',
+  context: 'text-neutral-500',
+}
+
+function ChangeRow({ change }: { change: SectionChange }) {
+  const [open, setOpen] = useState(false)
+  const expandable = change.hunks.length > 0
+
+  return (
+    <div className="border-b border-neutral-800 last:border-b-0">
+      <button
+        onClick={() => expandable && setOpen(!open)}
+        className={'w-full text-left px-4 py-3 flex items-center gap-3 ' + (expandable ? 'hover:bg-neutral-800/50 transition-colors' : 'cursor-default')}
+      >
+        {expandable
+          ? (open ? <ChevronDown className="w-4 h-4 text-neutral-500" /> : <ChevronRight className="w-4 h-4 text-neutral-500" />)
+          : <span className="w-4" />}
+        <span className={'px-2 py-0.5 text-xs font-medium border rounded-full ' + CHANGE_STYLES[change.type]}>
+          {change.type}
+        </span>
+        <span className="flex-1 min-w-0 truncate font-medium text-sm">{change.title}</span>
+        {change.type === 'modified' && (
+          <span className="text-xs font-mono">
+            <span className="text-emerald-400">+{change.additions}</span>{' '}
+            <span className="text-red-400">−{change.deletions}</span>
+            {change.moved && <span className="text-blue-400"> moved</span>}
+          </span>
+        )}
+        {change.type === 'moved' && change.before && change.after && (
+          <span className="text-xs text-neutral-500">
+            #{change.before.position + 1} → #{change.after.position + 1}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 overflow-x-auto">
+          {change.hunks.map((hunk, i) => (
+            <div key={i} className="font-mono text-xs mb-3 rounded-lg border border-neutral-800 overflow-hidden">
+              <div className="px-3 py-1 bg-neutral-800/60 text-neutral-500">
+                @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+              </div>
+              {hunk.lines.map((line, j) => (
+                <div key={j} className={'px-3 whitespace-pre-wrap ' + LINE_STYLES[line.type]}>
+                  {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}{line.content}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Compares the current extraction of a site with a saved snapshot or another URL
+ */
+export default function DiffView({ url }: DiffViewProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[] | null>(null)
+  const [mode, setMode] = useState<'snapshot' | 'url'>('url')
+  const [version, setVersion] = useState<string>('latest')
+  const [otherUrl, setOtherUrl] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [diff, setDiff] = useState<DiffResponse | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // Snapshots are optional on the server; without them only URL comparison is offered
+  useEffect(() => {
+    fetch('/api/snapshots?url=' + encodeURIComponent(url))
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        const list: SnapshotMeta[] = data?.snapshots ?? []
+        setSnapshots(list)
+        if (list.length > 0) setMode('snapshot')
+      })
+      .catch(() => setSnapshots([]))
+  }, [url])
+
+  const runDiff = async () => {
+    setLoading(true)
+    setError(null)
+    setDiff(null)
+
+    try {
+      const query = mode === 'snapshot'
+        ? 'url=' + encodeURIComponent(url) + '&snapshot=' + encodeURIComponent(version)
+        : 'from=' + encodeURIComponent(otherUrl) + '&to=' + encodeURIComponent(url)
+      const response = await fetch('/api/diff?' + query)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare documentation')
+      }
+      setDiff(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare documentation')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const copyChangelog = async () => {
+    if (!diff) return
+    await navigator.clipboard.writeText(diff.changelog)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const canRun = mode === 'snapshot' ? (snapshots?.length ?? 0) > 0 : otherUrl.trim().length > 0
+
+  return (
+    <div className="bg-neutral-900 rounded-xl border border-neutral-800 overflow-hidden">
+      <div className="p-4 border-b border-neutral-800">
+        <h2 className="font-semibold flex items-center gap-2">
+          <GitCompare className="w-4 h-4" />
+          Compare Versions
+        </h2>
+        <p className="text-sm text-neutral-500 mt-1">
+          See which sections were added, removed, modified or moved
+        </p>
+      </div>
+
+      <div className="p-4 border-b border-neutral-800 flex flex-col sm:flex-row gap-3">
+        <select
+          value={mode}
+          onChange={e => setMode(e.target.value as 'snapshot' | 'url')}
+          className="px-3 py-2 text-sm bg-neutral-800 border border-neutral-700 rounded-lg"
+        >
+          <option value="snapshot" disabled={!snapshots || snapshots.length === 0}>
+            Saved snapshot
+          </option>
+          <option value="url">Another URL</option>
+        </select>
+
+        {mode === 'snapshot' ? (
+          <select
+            value={version}
+            onChange={e => setVersion(e.target.value)}
+            className="flex-1 px-3 py-2 text-sm bg-neutral-800 border border-neutral-700 rounded-lg"
+          >
+            <option value="latest">Latest snapshot</option>
+            {snapshots?.slice().reverse().map(snapshot => (
+              <option key={snapshot.version} value={String(snapshot.version)}>
+                v{snapshot.version} · {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.hash.slice(0, 8)}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={otherUrl}
+            onChange={e => setOtherUrl(e.target.value)}
+            placeholder="Older or alternate docs URL"
+            className="flex-1 px-3 py-2 text-sm bg-neutral-800 border border-neutral-700 rounded-lg placeholder:text-neutral-600"
+          />
+        )}
+
+        <button
+          onClick={runDiff}
+          disabled={loading || !canRun}
+          className="flex items-center justify-center gap-2 px-4 py-2 text-sm bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+          Compare
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 flex items-center gap-2 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {diff && (
+        <div>
+          <div className="p-4 border-b border-neutral-800 flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-neutral-400 flex-1 min-w-0 truncate">
+              {diff.beforeLabel} → {diff.afterLabel}
+            </span>
+            {(['added', 'removed', 'modified', 'moved'] as const).map(type => (
+              <span key={type} className={'px-2 py-0.5 text-xs font-medium border rounded-full ' + CHANGE_STYLES[type]}>
+                {diff.summary[type]} {type}
+              </span>
+            ))}
+            <button
+              onClick={copyChangelog}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-neutral-800 rounded-lg hover:bg-neutral-700 transition-colors"
+            >
+              {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copied!' : 'Copy changelog'}
+            </button>
+          </div>
+
+          {diff.changes.length === 0 ? (
+            <p className="p-6 text-sm text-neutral-500">
+              No changes across {diff.summary.unchanged} sections.
+            </p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              {diff.changes.map(change => (
+                <ChangeRow key={`${change.type}-${change.slug}-${change.after?.position ?? change.before?.position}`} change={change} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,8 +3,9 @@
 import { useState, useEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
 import { 
-  Loader2, Check, Globe, FileText, Scissors, Files
+  Loader2, Check, Globe, FileText, Scissors, Files, X
 } from 'lucide-react'
+import type { ExtractionProgress } from '@/types'
 
 const STAGES = [
   { id: 'connect', label: 'Connecting to site', icon: Globe, duration: 800 },
@@ -28,8 +29,27 @@ const TERMINAL_LOGS = [
   '> Extraction complete',
 ]
 
-export default function ExtractionProcess() {
-  const [currentStage, setCurrentStage] = useState(0)
+/**
+ * Stage index for a status reported by the extraction stream
+ */
+const STAGE_FOR_STATUS: Record<ExtractionProgress['status'], number> = {
+  idle: 0,
+  analyzing: 0,
+  fetching: 1,
+  processing: 3,
+  complete: STAGES.length,
+  error: 0,
+}
+
+interface ExtractionProcessProps {
+  /** Live progress from useExtraction; a simulated run is shown without it */
+  progress?: ExtractionProgress
+  onCancel?: () => void
+}
+
+export default function ExtractionProcess({ progress: liveProgress, onCancel }: ExtractionProcessProps = {}) {
+  const isLive = liveProgress !== undefined
+  const [simulatedStage, setSimulatedStage] = useState(0)
   const [terminalLines, setTerminalLines] = useState<string[]>([])
   const [metrics, setMetrics] = useState({
     tokens: 0,
@@ -41,16 +61,21 @@ export default function ExtractionProcess() {
 
   // Progress through stages
   useEffect(() => {
-    if (currentStage < STAGES.length) {
+    if (isLive) return
+    if (simulatedStage < STAGES.length) {
       const timer = setTimeout(() => {
-        setCurrentStage(prev => prev + 1)
-      }, STAGES[currentStage].duration)
+        setSimulatedStage(prev => prev + 1)
+      }, STAGES[simulatedStage].duration)
       return () => clearTimeout(timer)
     }
-  }, [currentStage])
+  }, [isLive, simulatedStage])
+
+  const currentStage = isLive ? STAGE_FOR_STATUS[liveProgress.status] : simulatedStage
 
   // Add terminal lines
   useEffect(() => {
+    if (isLive) return
+
     const lineIndex = Math.min(
       Math.floor((currentStage / STAGES.length) * TERMINAL_LOGS.length),
       TERMINAL_LOGS.length - 1
@@ -66,10 +91,11 @@ export default function ExtractionProcess() {
     }, 150)
 
     return () => clearInterval(interval)
-  }, [currentStage])
+  }, [isLive, currentStage])
 
   // Update metrics
   useEffect(() => {
+    if (isLive) return
     const interval = setInterval(() => {
       setMetrics(prev => ({
         tokens: Math.min(prev.tokens + Math.floor(Math.random() * 5000), 847293),
@@ -80,16 +106,36 @@ export default function ExtractionProcess() {
     }, 100)
 
     return () => clearInterval(interval)
-  }, [])
+  }, [isLive])
+
+  const lines = isLive
+    ? liveProgress.logs.map(line => `> ${line}`)
+    : terminalLines
 
   // Auto-scroll terminal
   useEffect(() => {
     if (terminalRef.current) {
       terminalRef.current.scrollTop = terminalRef.current.scrollHeight
     }
-  }, [terminalLines])
+  }, [lines.length])
+
+  const progress = isLive ? liveProgress.progress : (currentStage / STAGES.length) * 100
 
-  const progress = (currentStage / STAGES.length) * 100
+  const metricCards = isLive
+    ? [
+        { label: 'Tokens', value: (liveProgress.tokenCount ?? 0).toLocaleString() },
+        { label: 'Documents', value: (liveProgress.documentCount ?? 0).toLocaleString() },
+        { label: 'Pages', value: liveProgress.totalSteps
+          ? `${liveProgress.completedSteps ?? 0}/${liveProgress.totalSteps}`
+          : '-' },
+        { label: 'Stage', value: `${Math.min(currentStage + 1, STAGES.length)}/${STAGES.length}` },
+      ]
+    : [
+        { label: 'Tokens', value: metrics.tokens.toLocaleString() },
+        { label: 'Chunks', value: metrics.chunks.toLocaleString() },
+        { label: 'Nodes', value: metrics.nodes.toLocaleString() },
+        { label: 'Models', value: metrics.requests.toLocaleString() },
+      ]
 
   return (
     <motion.div
@@ -110,14 +156,27 @@ export default function ExtractionProcess() {
             </div>
             <div>
               <h2 className="font-semibold text-white">Extracting Documentation</h2>
-              <p className="text-xs text-neutral-500">Fetching and parsing llms.txt</p>
+              <p className="text-xs text-neutral-500">
+                {isLive && liveProgress.message ? liveProgress.message : 'Fetching and parsing llms.txt'}
+              </p>
             </div>
           </div>
-          <div className="text-right">
-            <div className="text-2xl font-bold text-white font-mono">
-              {progress.toFixed(0)}%
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <div className="text-2xl font-bold text-white font-mono">
+                {progress.toFixed(0)}%
+              </div>
+              <div className="text-xs text-neutral-500">Complete</div>
             </div>
-            <div className="text-xs text-neutral-500">Complete</div>
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-neutral-700 text-xs text-neutral-300 hover:text-white hover:border-neutral-500 transition-colors"
+              >
+                <X className="w-3 h-3" />
+                Cancel
+              </button>
+            )}
           </div>
         </div>
 
@@ -175,7 +234,8 @@ export default function ExtractionProcess() {
                       ? 'text-white'
                       : 'text-neutral-500'
                   }`}>
-                </span>
+                    {stage.label}
+                  </span>
               </motion.div>
             )
           })}
@@ -191,12 +251,7 @@ export default function ExtractionProcess() {
             Live Metrics
           </h3>
           <div className="grid grid-cols-2 gap-4">
-            {[
-              { label: 'Tokens', value: metrics.tokens.toLocaleString() },
-              { label: 'Chunks', value: metrics.chunks.toLocaleString() },
-              { label: 'Nodes', value: metrics.nodes.toLocaleString() },
-              { label: 'Models', value: metrics.requests.toLocaleString() },
-            ].map((metric) => (
+            {metricCards.map((metric) => (
               <div key={metric.label} className="p-3 bg-black/50 rounded-lg border border-neutral-800">
                 <div className="text-2xl font-bold font-mono text-white">
                   {metric.value}
@@ -221,7 +276,7 @@ export default function ExtractionProcess() {
             ref={terminalRef}
             className="terminal h-48 overflow-y-auto p-4"
           >
-            {terminalLines.map((line, i) => (
+            {lines.map((line, i) => (
               <motion.div
                 key={i}
                 initial={{ opacity: 0, x: -10 }}
@@ -5,11 +5,22 @@ import { motion, AnimatePresence } from 'framer-motion'
 import {
   Download, Copy, Check, ExternalLink, RefreshCw,
   FileText, Archive, Eye, Files, Lightbulb, Clock, Hash,
-  ChevronDown, List, ChevronRight
+  ChevronDown, List, ChevronRight, Layers, Code
 } from 'lucide-react'
+import { buildLinkedSourceTree, chunkDocuments, type LinkedSourceNode } from '@llm-energy/core'
 import type { ExtractionResult, Document, ExportFormat } from '@/types'
 import { downloadFile, downloadZip, copyToClipboard, getHostname, calculateTotalSize } from '@/lib/download'
-import { exportToFormat, getFilenameForFormat, getExtensionForFormat, EXPORT_FORMATS } from '@/lib/exporters'
+import {
+  exportToFormat,
+  exportChunksToJsonl,
+  exportCodeExamplesToJson,
+  getFilenameForFormat,
+  getExtensionForFormat,
+  getChunksFilename,
+  getCodeExamplesFilename,
+  getCodeExamplesMimeType,
+  EXPORT_FORMATS,
+} from '@/lib/exporters'
 import CodeBlock from './CodeBlock'
 
 interface OutputSectionProps {
@@ -43,6 +54,36 @@ function extractTOC(content: string): TOCItem[] {
   return toc
 }
 
+// Linked llms.txt source, with the sources it linked to nested below
+function SourceTreeItem({ node }: { node: LinkedSourceNode }) {
+  const { source, children } = node
+
+  return (
+    <li>
+      <a
+        href={source.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-white/10 rounded-lg text-xs text-neutral-300 hover:bg-white/20 transition-colors"
+        title={source.description || source.name}
+      >
+        <span className="truncate max-w-[160px]">{source.name}</span>
+        {source.documentCount !== undefined && (
+          <span className="text-neutral-500">{source.documentCount} docs</span>
+        )}
+        <ExternalLink className="w-3 h-3 flex-shrink-0" />
+      </a>
+      {children.length > 0 && (
+        <ul className="mt-1.5 ml-4 pl-3 border-l border-neutral-700 space-y-1.5">
+          {children.map(child => (
+            <SourceTreeItem key={child.source.url} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
 export default function OutputSection({ result, onReset }: OutputSectionProps) {
   const [activeTab, setActiveTab] = useState<TabType>('documents')
   const [copied, setCopied] = useState<string | null>(null)
@@ -85,6 +126,41 @@ export default function OutputSection({ result, onReset }: OutputSectionProps) {
     URL.revokeObjectURL(url)
   }, [result, exportFormat])
 
+  // Download retrieval chunks as JSON Lines, chunking on the client if the API did not
+  const handleDownloadChunks = useCallback(() => {
+    const chunks = result.chunks ?? chunkDocuments(result.documents, {
+      sourceUrl: result.sourceUrl,
+      tokenizer: result.stats.tokenizer,
+    })
+    const siteName = getHostname(result.url).replace('www.', '').split('.')[0]
+
+    const blob = new Blob([exportChunksToJsonl(chunks)], { type: 'application/x-ndjson' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = getChunksFilename(siteName)
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }, [result])
+
+  // Download the code example index as structured JSON
+  const handleDownloadCodeExamples = useCallback(() => {
+    if (!result.codeExamples) return
+    const siteName = getHostname(result.url).replace('www.', '').split('.')[0]
+
+    const blob = new Blob([exportCodeExamplesToJson(result.codeExamples.groups)], { type: getCodeExamplesMimeType() })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = getCodeExamplesFilename(siteName)
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }, [result])
+
   const handleDownloadZip = useCallback(async () => {
     setIsDownloadingZip(true)
     try {
@@ -92,7 +168,8 @@ export default function OutputSection({ result, onReset }: OutputSectionProps) {
         result.documents,
         result.fullDocument,
         result.agentGuide,
-        getHostname(result.url)
+        getHostname(result.url),
+        result.codeExamples
       )
     } catch (error) {
       console.error('Failed to download ZIP:', error)
@@ -115,11 +192,13 @@ export default function OutputSection({ result, onReset }: OutputSectionProps) {
     { id: 'download' as const, label: 'Download', icon: Archive },
   ]
 
-  // All documents including full and agent guide
-  const allDocuments = useMemo(() => 
-    [result.fullDocument, result.agentGuide, ...result.documents],
-    [result]
-  )
+  // All documents including full, agent guide and code examples
+  const allDocuments = useMemo(() => [
+    result.fullDocument,
+    result.agentGuide,
+    ...(result.codeExamples ? [result.codeExamples.document] : []),
+    ...result.documents,
+  ], [result])
   const totalFileCount = allDocuments.length
 
   // Keyboard navigation for tabs
@@ -229,30 +308,24 @@ export default function OutputSection({ result, onReset }: OutputSectionProps) {
             <div className="text-xs text-neutral-400 mb-3">
               This site uses multiple llms.txt files. All content has been merged for you.
             </div>
-            <div className="flex flex-wrap gap-2">
-              <a
-                href={result.sourceUrl}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-white/10 rounded-lg text-xs text-neutral-300 hover:bg-white/20 transition-colors"
-              >
-                <span className="truncate max-w-[120px]">Main</span>
-                <ExternalLink className="w-3 h-3 flex-shrink-0" />
-              </a>
-              {result.linkedSources.map((source, i) => (
+            <ul className="space-y-1.5">
+              <li>
                 <a
-                  key={i}
-                  href={source.url}
+                  href={result.sourceUrl}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-white/10 rounded-lg text-xs text-neutral-300 hover:bg-white/20 transition-colors"
-                  title={source.description || source.name}
                 >
-                  <span className="truncate max-w-[120px]">{source.name}</span>
+                  <span className="truncate max-w-[160px]">Main</span>
                   <ExternalLink className="w-3 h-3 flex-shrink-0" />
                 </a>
-              ))}
-            </div>
+                <ul className="mt-1.5 ml-4 pl-3 border-l border-neutral-700 space-y-1.5">
+                  {buildLinkedSourceTree(result.linkedSources).map(node => (
+                    <SourceTreeItem key={node.source.url} node={node} />
+                  ))}
+                </ul>
+              </li>
+            </ul>
           </div>
         )}
       </div>
@@ -581,13 +654,13 @@ export default function OutputSection({ result, onReset }: OutputSectionProps) {
                     </span>
                     <span className="flex items-center gap-2">
                       <FileText className="w-4 h-4" />
-                      {calculateTotalSize(result.documents, result.fullDocument, result.agentGuide)}
+                      {calculateTotalSize(result.documents, result.fullDocument, result.agentGuide, result.codeExamples?.document)}
                     </span>
                   </div>
                 </div>
 
                 {/* Quick download buttons */}
-                <div className="grid sm:grid-cols-2 gap-3 pt-4 border-t border-neutral-800">
+                <div className="grid sm:grid-cols-3 gap-3 pt-4 border-t border-neutral-800">
                   <button
                     onClick={() => handleDownloadFile(result.fullDocument)}
                     className="flex items-center justify-between p-3 bg-black/50 border border-neutral-800 rounded-lg hover:border-neutral-600 transition-all min-h-[48px] focus:outline-none focus:ring-2 focus:ring-white/20"
@@ -610,6 +683,43 @@ export default function OutputSection({ result, onReset }: OutputSectionProps) {
                     </div>
                     <Download className="w-4 h-4 text-neutral-400" />
                   </button>
+                  <button
+                    onClick={handleDownloadChunks}
+                    className="flex items-center justify-between p-3 bg-black/50 border border-neutral-800 rounded-lg hover:border-neutral-600 transition-all min-h-[48px] focus:outline-none focus:ring-2 focus:ring-white/20"
+                    aria-label="Download retrieval chunks"
+                  >
+                    <div className="flex items-center gap-2">
+                      <Layers className="w-4 h-4 text-white" />
+                      <span className="text-sm text-white">chunks.jsonl</span>
+                    </div>
+                    <Download className="w-4 h-4 text-neutral-400" />
+                  </button>
+                  {result.codeExamples && (
+                    <>
+                      <button
+                        onClick={() => handleDownloadFile(result.codeExamples!.document)}
+                        className="flex items-center justify-between p-3 bg-black/50 border border-neutral-800 rounded-lg hover:border-neutral-600 transition-all min-h-[48px] focus:outline-none focus:ring-2 focus:ring-white/20"
+                        aria-label="Download code examples"
+                      >
+                        <div className="flex items-center gap-2">
+                          <Code className="w-4 h-4 text-white" />
+                          <span className="text-sm text-white">CODE-EXAMPLES.md</span>
+                        </div>
+                        <Download className="w-4 h-4 text-neutral-400" />
+                      </button>
+                      <button
+                        onClick={handleDownloadCodeExamples}
+                        className="flex items-center justify-between p-3 bg-black/50 border border-neutral-800 rounded-lg hover:border-neutral-600 transition-all min-h-[48px] focus:outline-none focus:ring-2 focus:ring-white/20"
+                        aria-label="Download code examples as JSON"
+                      >
+                        <div className="flex items-center gap-2">
+                          <Code className="w-4 h-4 text-white" />
+                          <span className="text-sm text-white">code-examples.json</span>
+                        </div>
+                        <Download className="w-4 h-4 text-neutral-400" />
+                      </button>
+                    </>
+                  )}
                 </div>
               </motion.div>
             )}
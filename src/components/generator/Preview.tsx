@@ -1,7 +1,8 @@
 'use client'
 
-import { useMemo, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { Copy, Check, Download, FileText, Hash } from 'lucide-react'
+import { countTokens, loadPublishedRanks } from '@llm-energy/core'
 import type { GeneratorData } from '@/types'
 
 interface PreviewProps {
@@ -43,18 +44,22 @@ function generateLlmsTxt(data: GeneratorData): string {
   return lines.join('\n').trim()
 }
 
-/**
- * Estimate token count (roughly 4 chars per token)
- */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4)
-}
-
 export default function Preview({ data }: PreviewProps) {
   const [copied, setCopied] = useState(false)
 
   const content = useMemo(() => generateLlmsTxt(data), [data])
-  const tokens = useMemo(() => estimateTokens(content), [content])
+  // Counts are estimated until the rank table has loaded, then exact
+  const [exact, setExact] = useState(false)
+  useEffect(() => {
+    let active = true
+    loadPublishedRanks().then(loaded => {
+      if (active) setExact(loaded)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+  const tokens = useMemo(() => ({ count: countTokens(content), exact }), [content, exact])
 
   const handleCopy = async () => {
     try {
@@ -92,7 +97,7 @@ export default function Preview({ data }: PreviewProps) {
           </span>
           <span className="flex items-center gap-1">
             <Hash className="w-4 h-4" />
-            ~{tokens.toLocaleString()} tokens
+            {tokens.exact ? '' : '~'}{tokens.count.toLocaleString()} tokens
           </span>
         </div>
         
@@ -1,23 +1,30 @@
 'use client'
 
 import { useState, useCallback, useRef } from 'react'
-import type { ExtractionProgress, ExtractionResult } from '@/types'
+import type { Document, ExtractionProgress, ExtractionResult } from '@/types'
+
+const IDLE_PROGRESS: ExtractionProgress = {
+  status: 'idle',
+  message: '',
+  progress: 0,
+  logs: [],
+}
+
+function timestamp(message: string): string {
+  return `[${new Date().toLocaleTimeString()}] ${message}`
+}
 
 export function useExtraction() {
-  const [progress, setProgress] = useState<ExtractionProgress>({
-    status: 'idle',
-    message: '',
-    progress: 0,
-    logs: [],
-  })
+  const [progress, setProgress] = useState<ExtractionProgress>(IDLE_PROGRESS)
   const [result, setResult] = useState<ExtractionResult | null>(null)
   const [error, setError] = useState<string | null>(null)
   const eventSourceRef = useRef<EventSource | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   const addLog = useCallback((message: string) => {
     setProgress(prev => ({
       ...prev,
-      logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] ${message}`],
+      logs: [...prev.logs, timestamp(message)],
     }))
   }, [])
 
@@ -35,46 +42,82 @@ export function useExtraction() {
     addLog(message)
   }, [addLog])
 
+  const complete = useCallback((data: ExtractionResult) => {
+    setResult(data)
+    const message = `Extraction complete! Found ${data.documents.length} documents.`
+    setProgress(prev => ({
+      ...prev,
+      status: 'complete',
+      message,
+      progress: 100,
+      documentCount: data.documents.length,
+      tokenCount: data.stats.totalTokens,
+      logs: [...prev.logs, timestamp(message)],
+    }))
+  }, [])
+
+  const fail = useCallback((errorMessage: string) => {
+    setError(errorMessage)
+    setProgress(prev => ({
+      ...prev,
+      status: 'error',
+      message: errorMessage,
+      logs: [...prev.logs, timestamp(`Error: ${errorMessage}`)],
+    }))
+  }, [])
+
+  /**
+   * Close any open progress stream or in-flight request
+   */
+  const closeConnections = useCallback(() => {
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
+    }
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+      abortControllerRef.current = null
+    }
+  }, [])
+
   const fetchExtraction = useCallback(async (url: string) => {
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
     try {
       updateProgress('fetching', 'Fetching documentation...', 30)
-      
+
       const response = await fetch('/api/extract', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ url }),
+        signal: controller.signal,
       })
-      
+
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
         throw new Error(errorData.error || 'Extraction failed')
       }
-      
+
       updateProgress('processing', 'Processing documents...', 70)
-      
+
       const data = await response.json() as ExtractionResult
-      setResult(data)
-      
-      updateProgress('complete', `Extraction complete! Found ${data.documents.length} documents.`, 100)
-      
+      complete(data)
+
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Extraction failed'
-      setError(errorMessage)
-      setProgress(prev => ({ 
-        ...prev, 
-        status: 'error', 
-        message: errorMessage,
-        logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Error: ${errorMessage}`]
-      }))
+      // Cancelled by the user
+      if (controller.signal.aborted) return
+      fail(err instanceof Error ? err.message : 'Extraction failed')
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
     }
-  }, [updateProgress])
+  }, [updateProgress, complete, fail])
 
   const extract = useCallback(async (url: string) => {
     // Clean up any existing connection
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close()
-      eventSourceRef.current = null
-    }
+    closeConnections()
 
     setError(null)
     setResult(null)
@@ -82,98 +125,134 @@ export function useExtraction() {
       status: 'analyzing',
       message: 'Starting extraction...',
       progress: 0,
+      documentCount: 0,
+      tokenCount: 0,
       logs: [],
     })
 
     addLog(`Starting extraction for ${url}`)
-    updateProgress('analyzing', 'Analyzing URL...', 10)
 
-    // Try SSE first for streaming progress, fall back to POST
+    // Stream progress over SSE, fall back to POST
     try {
       const eventSource = new EventSource(`/api/extract?url=${encodeURIComponent(url)}`)
       eventSourceRef.current = eventSource
-      
+
       let hasReceivedData = false
-      const timeoutId = setTimeout(() => {
-        if (!hasReceivedData) {
-          eventSource.close()
+      const close = () => {
+        clearTimeout(timeoutId)
+        eventSource.close()
+        if (eventSourceRef.current === eventSource) {
           eventSourceRef.current = null
-          // Fall back to POST request
-          fetchExtraction(url)
         }
-      }, 5000) // 5 second timeout for SSE
-
-      eventSource.onmessage = (event) => {
+      }
+      const parse = <T>(event: Event): T | null => {
         hasReceivedData = true
         clearTimeout(timeoutId)
-        
         try {
-          const data = JSON.parse(event.data)
-          
-          if (data.status === 'complete' && data.result) {
-            setResult(data.result)
-            setProgress(prev => ({
-              ...prev,
-              status: 'complete',
-              message: 'Extraction complete!',
-              progress: 100,
-              logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Extraction complete!`],
-            }))
-            eventSource.close()
-            eventSourceRef.current = null
-          } else if (data.status === 'error') {
-            setError(data.message || 'Extraction failed')
-            setProgress(prev => ({ 
-              ...prev, 
-              status: 'error', 
-              message: data.message || 'Extraction failed'
-            }))
-            eventSource.close()
-            eventSourceRef.current = null
-          } else {
-            setProgress(prev => ({
-              ...prev,
-              status: data.status || prev.status,
-              message: data.message || prev.message,
-              progress: data.progress ?? prev.progress,
-              logs: data.message 
-                ? [...prev.logs, `[${new Date().toLocaleTimeString()}] ${data.message}`]
-                : prev.logs,
-            }))
-          }
+          return JSON.parse((event as MessageEvent<string>).data) as T
         } catch {
-          // Ignore parse errors
+          return null
         }
       }
 
-      eventSource.onerror = () => {
-        clearTimeout(timeoutId)
-        eventSource.close()
-        eventSourceRef.current = null
-        
+      const timeoutId = setTimeout(() => {
         if (!hasReceivedData) {
-          // Fall back to POST request if SSE fails
+          close()
+          // Fall back to POST request
           fetchExtraction(url)
         }
-      }
+      }, 5000) // 5 second timeout for SSE
+
+      eventSource.addEventListener('progress', (event) => {
+        const data = parse<Omit<ExtractionProgress, 'logs'>>(event)
+        if (!data) return
+
+        setProgress(prev => ({
+          ...prev,
+          status: data.status,
+          message: data.message,
+          progress: data.progress,
+          currentStep: data.currentStep,
+          totalSteps: data.totalSteps,
+          completedSteps: data.completedSteps,
+          logs: data.message !== prev.message
+            ? [...prev.logs, timestamp(data.message)]
+            : prev.logs,
+        }))
+      })
+
+      eventSource.addEventListener('document', (event) => {
+        const document = parse<Document>(event)
+        if (!document) return
+
+        setProgress(prev => ({
+          ...prev,
+          documentCount: (prev.documentCount ?? 0) + 1,
+          tokenCount: (prev.tokenCount ?? 0) + document.tokens,
+        }))
+      })
+
+      eventSource.addEventListener('result', (event) => {
+        const data = parse<ExtractionResult>(event)
+        close()
+        if (data) {
+          complete(data)
+        } else {
+          fail('Received an invalid extraction result')
+        }
+      })
+
+      eventSource.addEventListener('error', (event) => {
+        close()
+
+        // Error event sent by the server
+        if (event instanceof MessageEvent && event.data) {
+          const data = parse<{ error?: string }>(event)
+          fail(data?.error || 'Extraction failed')
+          return
+        }
+
+        // Connection failed before any data arrived
+        if (!hasReceivedData) {
+          fetchExtraction(url)
+        } else {
+          fail('Connection to the server was lost')
+        }
+      })
 
     } catch {
       // EventSource not supported or failed, fall back to POST
       await fetchExtraction(url)
     }
-  }, [addLog, updateProgress, fetchExtraction])
+  }, [addLog, closeConnections, fetchExtraction, complete, fail])
+
+  /**
+   * Stop the running extraction
+   * Closing the stream aborts the extraction on the server
+   */
+  const cancel = useCallback(() => {
+    closeConnections()
+    setProgress(prev => {
+      if (prev.status === 'complete' || prev.status === 'error' || prev.status === 'idle') {
+        return prev
+      }
+      return {
+        ...prev,
+        status: 'idle',
+        message: 'Extraction cancelled',
+        logs: [...prev.logs, timestamp('Extraction cancelled')],
+      }
+    })
+  }, [closeConnections])
 
   const reset = useCallback(() => {
     // Clean up any existing connection
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close()
-      eventSourceRef.current = null
-    }
-    
-    setProgress({ status: 'idle', message: '', progress: 0, logs: [] })
+    closeConnections()
+
+    setProgress(IDLE_PROGRESS)
     setResult(null)
     setError(null)
-  }, [])
+  }, [closeConnections])
 
-  return { progress, result, error, extract, reset }
+  return { progress, result, error, extract, cancel, reset }
 }
@@ -9,8 +9,22 @@
  * 2. Extract code blocks from the page
  * 3. Find installation-related sections
  * 4. Parse prerequisites and dependencies
+ *
+ * Pages are read with the shared HTML parser; the page content and
+ * sections come from the same markdown conversion the extractor uses.
  */
 
+import {
+  parseHtml,
+  querySelector,
+  querySelectorAll,
+  textContent,
+  getAttribute,
+  getCodeLanguage,
+  htmlPageToDocument,
+  type HtmlElement,
+} from '@llm-energy/core'
+
 export interface CodeBlock {
   language: string
   code: string
@@ -69,6 +83,7 @@ const DOC_PLATFORMS = {
 
 /**
  * Detect documentation platform from HTML
+ * Fallback for pages no platform extractor recognises (see platforms/)
  */
 function detectPlatform(html: string): string | null {
   const htmlLower = html.toLowerCase()
@@ -125,33 +140,25 @@ function extractDescription(html: string): string {
 }
 
 /**
- * Extract code blocks from HTML
+ * Extract code blocks from a parsed page
  */
-function extractCodeBlocks(html: string): CodeBlock[] {
+function extractCodeBlocks(document: HtmlElement): CodeBlock[] {
   const blocks: CodeBlock[] = []
   
-  // Match <pre><code> patterns
-  const preCodePattern = /<pre[^>]*>[\s\S]*?<code[^>]*(?:class=["'][^"']*language-(\w+)[^"']*["'])?[^>]*>([\s\S]*?)<\/code>[\s\S]*?<\/pre>/gi
-  let match
-  
-  while ((match = preCodePattern.exec(html)) !== null) {
-    const language = match[1] || 'bash'
-    const code = decodeHtmlEntities(match[2])
-      .replace(/<[^>]+>/g, '') // Remove any inner HTML tags
-      .trim()
+  // <pre> blocks, with the language of their <code> element
+  for (const pre of querySelectorAll(document, 'pre')) {
+    const code = querySelector(pre, 'code')
+    const language = (code && getCodeLanguage(code)) ?? getCodeLanguage(pre) ?? 'bash'
+    const text = textContent(pre).trim()
     
-    if (code.length > 0) {
-      blocks.push({ language, code })
+    if (text.length > 0) {
+      blocks.push({ language, code: text })
     }
   }
   
-  // Match standalone <code> blocks that look like commands
-  const codePattern = /<code[^>]*(?:class=["'][^"']*language-(\w+)[^"']*["'])?[^>]*>([\s\S]*?)<\/code>/gi
-  
-  while ((match = codePattern.exec(html)) !== null) {
-    const code = decodeHtmlEntities(match[2])
-      .replace(/<[^>]+>/g, '')
-      .trim()
+  // Standalone <code> elements that look like commands
+  for (const element of querySelectorAll(document, 'code')) {
+    const code = textContent(element).trim()
     
     // Only include if it looks like a command and not already captured
     if (
@@ -168,72 +175,51 @@ function extractCodeBlocks(html: string): CodeBlock[] {
 }
 
 /**
- * Decode HTML entities
+ * Extract fenced code blocks from markdown
  */
-function decodeHtmlEntities(text: string): string {
-  const entities: Record<string, string> = {
-    '&amp;': '&',
-    '&lt;': '<',
-    '&gt;': '>',
-    '&quot;': '"',
-    '&#39;': "'",
-    '&nbsp;': ' ',
-    '&#x27;': "'",
-    '&#x2F;': '/',
-  }
+function extractFencedCode(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = []
+  const fencePattern = /^[ \t]*(`{3,})([\w+#.-]*)\n([\s\S]*?)\n[ \t]*\1[ \t]*$/gm
   
-  let decoded = text
-  for (const [entity, char] of Object.entries(entities)) {
-    decoded = decoded.split(entity).join(char)
+  for (const match of markdown.matchAll(fencePattern)) {
+    const code = match[3].trim()
+    if (code.length > 0) {
+      blocks.push({ language: match[2] || 'bash', code })
+    }
   }
   
-  return decoded
-}
-
-/**
- * Remove HTML tags and get plain text
- */
-function htmlToText(html: string): string {
-  return html
-    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-    .replace(/<nav[^>]*>[\s\S]*?<\/nav>/gi, '')
-    .replace(/<footer[^>]*>[\s\S]*?<\/footer>/gi, '')
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim()
+  return blocks
 }
 
 /**
- * Extract sections from page content
+ * Extract installation-related sections from the page markdown
+ * A section runs from an h2-h4 heading to the next one.
  */
-function extractSections(html: string): ExtractedSection[] {
+function extractSections(markdown: string): ExtractedSection[] {
   const sections: ExtractedSection[] = []
-  
-  // Find all header + content pairs
-  const headerPattern = /<h([2-4])[^>]*(?:id=["']([^"']+)["'])?[^>]*>([\s\S]*?)<\/h\1>/gi
-  const matches = Array.from(html.matchAll(headerPattern))
-  
-  for (let i = 0; i < matches.length; i++) {
-    const match = matches[i]
-    const title = decodeHtmlEntities(match[3]).replace(/<[^>]+>/g, '').trim()
-    
-    // Get content until next header
-    const startIndex = match.index! + match[0].length
-    const endIndex = matches[i + 1]?.index || html.length
-    const sectionHtml = html.slice(startIndex, endIndex)
+  const lines = markdown.split('\n')
+  const headings: Array<{ title: string; line: number }> = []
+  let inFence = false
+  
+  lines.forEach((line, index) => {
+    if (/^\s*```/.test(line)) inFence = !inFence
+    const match = !inFence && line.match(/^#{2,4} (.+)$/)
+    if (match) headings.push({ title: match[1].trim(), line: index })
+  })
+  
+  for (let i = 0; i < headings.length; i++) {
+    const { title, line } = headings[i]
     
     // Check if section is installation-related
     const isRelevant = /install|setup|getting\s*started|prerequisites|requirements|quick\s*start|usage/i.test(title)
     
     if (isRelevant) {
-      const content = htmlToText(sectionHtml)
-      const codeBlocks = extractCodeBlocks(sectionHtml)
+      const content = lines.slice(line + 1, headings[i + 1]?.line ?? lines.length).join('\n').trim()
       
       sections.push({
         title,
         content: content.slice(0, 2000),
-        codeBlocks,
+        codeBlocks: extractFencedCode(content),
       })
     }
   }
@@ -340,12 +326,8 @@ function extractPrerequisites(text: string, codeBlocks: CodeBlock[]): string[] {
 /**
  * Find related documentation URLs
  */
-function findRelatedUrls(html: string, baseUrl: string): DocsAnalysis['relatedUrls'] {
+function findRelatedUrls(document: HtmlElement, baseUrl: string): DocsAnalysis['relatedUrls'] {
   const urls: DocsAnalysis['relatedUrls'] = []
-  const baseUrlObj = new URL(baseUrl)
-  
-  const linkPattern = /<a[^>]+href=["']([^"']+)["'][^>]*>([^<]*)<\/a>/gi
-  const matches = Array.from(html.matchAll(linkPattern))
   
   const typePatterns = {
     installation: /install/i,
@@ -354,18 +336,19 @@ function findRelatedUrls(html: string, baseUrl: string): DocsAnalysis['relatedUr
     api: /api\s*reference|api\s*docs/i,
   }
   
-  for (const match of matches) {
-    let href = match[1]
-    const text = decodeHtmlEntities(match[2]).trim()
+  for (const anchor of querySelectorAll(document, 'a[href]')) {
+    const text = textContent(anchor).replace(/\s+/g, ' ').trim()
     
     if (!text || text.length < 3) continue
     
     // Resolve relative URLs
-    if (href.startsWith('/')) {
-      href = `${baseUrlObj.protocol}//${baseUrlObj.host}${href}`
-    } else if (!href.startsWith('http')) {
+    let href: string
+    try {
+      href = new URL(getAttribute(anchor, 'href') as string, baseUrl).href
+    } catch {
       continue
     }
+    if (!href.startsWith('http')) continue
     
     // Determine type
     let type: DocsAnalysis['relatedUrls'][0]['type'] = 'other'
@@ -415,15 +398,17 @@ export async function analyzeDocsUrl(url: string): Promise<DocsAnalysis> {
   const html = await response.text()
   
   // Extract information
-  const platform = detectPlatform(html)
+  const document = parseHtml(html)
+  const page = htmlPageToDocument(html, url)
+  const pageContent = page.content
+  const platform = page.platform?.name ?? detectPlatform(html)
   const title = extractTitle(html)
   const description = extractDescription(html)
-  const allCodeBlocks = extractCodeBlocks(html)
-  const sections = extractSections(html)
+  const allCodeBlocks = extractCodeBlocks(document)
+  const sections = extractSections(pageContent)
   const installCommands = extractInstallCommands(allCodeBlocks)
-  const pageContent = htmlToText(html)
   const prerequisites = extractPrerequisites(pageContent, allCodeBlocks)
-  const relatedUrls = findRelatedUrls(html, url)
+  const relatedUrls = findRelatedUrls(document, url)
   
   return {
     url,
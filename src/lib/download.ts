@@ -1,3 +1,4 @@
+import type { CodeExampleIndex } from '@llm-energy/core'
 import type { Document } from '@/types'
 
 /**
@@ -22,12 +23,13 @@ export async function downloadZip(
   documents: Document[],
   fullDocument: Document,
   agentGuide: Document,
-  siteName: string
+  siteName: string,
+  codeExamples?: CodeExampleIndex
 ): Promise<void> {
   const response = await fetch('/api/download', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ documents, fullDocument, agentGuide, siteName })
+    body: JSON.stringify({ documents, fullDocument, agentGuide, codeExamples, siteName })
   })
 
   if (!response.ok) {
@@ -88,12 +90,14 @@ export function estimateSize(content: string): string {
 export function calculateTotalSize(
   documents: Document[],
   fullDocument: Document,
-  agentGuide: Document
+  agentGuide: Document,
+  codeExamples?: Document
 ): string {
   const allContent = [
     ...documents.map(d => d.content),
     fullDocument.content,
-    agentGuide.content
+    agentGuide.content,
+    codeExamples?.content ?? ''
   ].join('')
   return estimateSize(allContent)
 }
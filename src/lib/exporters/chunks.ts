@@ -0,0 +1,34 @@
+import type { Chunk } from '@llm-energy/core'
+
+/**
+ * Export chunks as JSON Lines, one chunk per line, ready for embedding pipelines
+ */
+export function exportChunksToJsonl(chunks: Chunk[]): string {
+  return chunks
+    .map(chunk => JSON.stringify({
+      hash: chunk.hash,
+      filename: chunk.filename,
+      index: chunk.index,
+      sourceUrl: chunk.sourceUrl,
+      headingPath: chunk.headingPath,
+      heading: chunk.headingPath.join(' > '),
+      tokens: chunk.tokens,
+      content: chunk.content,
+    }))
+    .join('\n') + '\n'
+}
+
+/**
+ * Get filename for a chunks export
+ */
+export function getChunksFilename(siteName: string): string {
+  const slug = siteName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug}-chunks.jsonl`
+}
+
+/**
+ * Get MIME type for JSON Lines
+ */
+export function getChunksMimeType(): string {
+  return 'application/x-ndjson'
+}
@@ -0,0 +1,36 @@
+import type { CodeExampleGroup } from '@llm-energy/core'
+
+/**
+ * Export code examples as a JSON array grouped by language and topic
+ */
+export function exportCodeExamplesToJson(groups: CodeExampleGroup[]): string {
+  return JSON.stringify(groups.map(group => ({
+    language: group.language,
+    count: group.count,
+    topics: group.topics.map(({ topic, examples }) => ({
+      topic,
+      examples: examples.map(example => ({
+        heading: example.heading,
+        sourceUrl: example.sourceUrl,
+        filename: example.filename,
+        inferred: example.inferred,
+        code: example.code,
+      })),
+    })),
+  })), null, 2) + '\n'
+}
+
+/**
+ * Get filename for a code examples export
+ */
+export function getCodeExamplesFilename(siteName: string): string {
+  const slug = siteName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug}-code-examples.json`
+}
+
+/**
+ * Get MIME type for the code examples export
+ */
+export function getCodeExamplesMimeType(): string {
+  return 'application/json'
+}
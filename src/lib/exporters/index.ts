@@ -46,6 +46,16 @@ export {
   getYamlMimeType,
   parseYamlExport,
 } from './yaml'
+export {
+  exportChunksToJsonl,
+  getChunksFilename,
+  getChunksMimeType,
+} from './chunks'
+export {
+  exportCodeExamplesToJson,
+  getCodeExamplesFilename,
+  getCodeExamplesMimeType,
+} from './code-examples'
 
 /**
  * Export extraction result to specified format
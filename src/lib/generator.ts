@@ -3,6 +3,7 @@ import { estimateTokens, extractSiteName } from './parser'
 
 /**
  * Generates the llms-full.md consolidated document with table of contents
+ * Its token count is an estimate unless `loadPublishedRanks()` was awaited first.
  */
 export function generateFullDocument(
   documents: Document[],
@@ -41,6 +42,7 @@ export function generateFullDocument(
 
 /**
  * Generates the AGENT-GUIDE.md file with instructions for AI assistants
+ * Like generateFullDocument, it counts its own tokens with estimateTokens.
  */
 export function generateAgentGuide(
   documents: Document[],
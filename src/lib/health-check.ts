@@ -0,0 +1,71 @@
+/**
+ * Lightweight URL probes shared by the site health check and the docs watcher
+ */
+
+const TIMEOUT_MS = parseInt(process.env.HEALTH_TIMEOUT_MS || '8000', 10)
+
+export interface QuickCheckOptions {
+  /** ETag from a previous response; sent as If-None-Match */
+  etag?: string
+  /** Last-Modified from a previous response; sent as If-Modified-Since */
+  lastModified?: string
+  /** Request timeout in milliseconds (default: HEALTH_TIMEOUT_MS or 8000) */
+  timeoutMs?: number
+}
+
+export interface QuickCheckResult {
+  ok: boolean
+  responseTime: number
+  finalUrl?: string
+  /** HTTP status; missing when the request failed */
+  status?: number
+  etag?: string
+  lastModified?: string
+  /** The server answered a conditional request with 304 Not Modified */
+  notModified?: boolean
+}
+
+/**
+ * Quick check if a URL returns a valid response
+ * Sends a HEAD request; with an ETag or Last-Modified it becomes a
+ * conditional request that the server can answer with 304
+ */
+export async function quickCheck(url: string, options: QuickCheckOptions = {}): Promise<QuickCheckResult> {
+  const startTime = Date.now()
+
+  try {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? TIMEOUT_MS)
+
+    const headers: Record<string, string> = {
+      'User-Agent': 'llms-txt-health-check/1.0',
+    }
+    if (options.etag) headers['If-None-Match'] = options.etag
+    if (options.lastModified) headers['If-Modified-Since'] = options.lastModified
+
+    const response = await fetch(url, {
+      method: 'HEAD',
+      signal: controller.signal,
+      redirect: 'follow',
+      headers,
+    })
+
+    clearTimeout(timeoutId)
+    const responseTime = Date.now() - startTime
+
+    return {
+      ok: response.ok,
+      responseTime,
+      finalUrl: response.url,
+      status: response.status,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      notModified: response.status === 304,
+    }
+  } catch {
+    return {
+      ok: false,
+      responseTime: Date.now() - startTime,
+    }
+  }
+}
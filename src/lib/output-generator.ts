@@ -1,4 +1,6 @@
+import type { CodeExampleIndex } from '@llm-energy/core'
 import { slugify } from './parser'
+import { exportCodeExamplesToJson } from './exporters/code-examples'
 import { generateAgentPrompt } from './prompt-generator'
 import { generateMcpConfig } from './mcp-generator'
 
@@ -47,6 +49,18 @@ export interface GeneratedOutputs {
     size: number
     url: string
   }
+  codeExamples?: {
+    document: {
+      filename: string
+      content: string
+      size: number
+    }
+    json: {
+      filename: string
+      content: string
+      size: number
+    }
+  }
 }
 
 /**
@@ -68,6 +82,8 @@ export interface GenerateOutputsOptions {
     url: string
     raw: string
   }
+  /** Code example index of the extraction, added as CODE-EXAMPLES.md and code-examples.json */
+  codeExamples?: CodeExampleIndex
 }
 
 /**
@@ -132,6 +148,29 @@ export function generateOutputs(
         url: options.installMd.url,
       }
     } : {}),
+    // 7. Code examples (if provided)
+    ...(options?.codeExamples ? {
+      codeExamples: generateCodeExampleFiles(options.codeExamples),
+    } : {}),
+  }
+}
+
+/**
+ * Generate CODE-EXAMPLES.md and code-examples.json from a code example index
+ */
+export function generateCodeExampleFiles(index: CodeExampleIndex): NonNullable<GeneratedOutputs['codeExamples']> {
+  const json = exportCodeExamplesToJson(index.groups)
+  return {
+    document: {
+      filename: index.document.filename,
+      content: index.document.content,
+      size: getByteSize(index.document.content),
+    },
+    json: {
+      filename: 'code-examples.json',
+      content: json,
+      size: getByteSize(json),
+    },
   }
 }
 
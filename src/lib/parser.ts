@@ -1,3 +1,4 @@
+import { countTokens } from '@llm-energy/core'
 import { Document } from '@/types'
 
 /**
@@ -14,10 +15,13 @@ export function slugify(text: string): string {
 }
 
 /**
- * Estimates token count from text (rough approximation: ~4 chars per token)
+ * Counts tokens in text with the shared tokenizer from @llm-energy/core
+ * The count is an estimate until `loadPublishedRanks` has loaded the
+ * vocabulary's rank table, and exact afterwards. Extractions and /api/split
+ * load it, so await it first when a count must not depend on what ran before.
  */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4)
+export function estimateTokens(text: string, tokenizer?: string): number {
+  return countTokens(text, tokenizer)
 }
 
 /**
@@ -105,6 +109,7 @@ export function parseMarkdownSections(content: string): ParsedSection[] {
 
 /**
  * Converts parsed sections into Document objects
+ * Token counts come from estimateTokens and are estimates unless the rank table is loaded.
  */
 export function sectionsToDocuments(sections: ParsedSection[]): Document[] {
   const documents: Document[] = []
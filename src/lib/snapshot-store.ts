@@ -0,0 +1,192 @@
+/**
+ * Snapshot stores for extraction results
+ *
+ * The LRU caches are in memory and empty after every restart or cold start;
+ * snapshots keep every extraction on disk with a version number and content
+ * hash so a run can be pinned to an exact version of a site's docs.
+ *
+ * Configure with environment variables:
+ * - SNAPSHOT_STORE: "fs" (a directory of JSON files) or "sqlite" (one database file)
+ * - SNAPSHOT_PATH: directory or database file (default: .snapshots or .snapshots/snapshots.db)
+ *
+ * Snapshots are disabled when SNAPSHOT_STORE is not set. The filesystem store
+ * lives in the core package and is shared with the MCP server.
+ */
+
+import { mkdirSync } from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import {
+  createSnapshot,
+  hashExtraction,
+  snapshotKey,
+  toSnapshotMeta,
+  type ExtractionResult,
+  type Snapshot,
+  type SnapshotMeta,
+  type SnapshotStore,
+} from '@llm-energy/core'
+import { DEFAULT_SNAPSHOT_DB, FileSnapshotStore, getSnapshotStoreConfig } from '@llm-energy/core/snapshot-store'
+
+export { FileSnapshotStore }
+
+/**
+ * Row shape of the snapshots table
+ */
+interface SnapshotRow {
+  url: string
+  variant: string
+  version: number
+  hash: string
+  source_url: string
+  created_at: string
+  document_count: number
+  total_tokens: number
+  result?: string
+}
+
+function rowToMeta(row: SnapshotRow): SnapshotMeta {
+  return {
+    url: row.url,
+    ...(row.variant ? { variant: row.variant } : {}),
+    version: row.version,
+    hash: row.hash,
+    sourceUrl: row.source_url,
+    createdAt: row.created_at,
+    documentCount: row.document_count,
+    totalTokens: row.total_tokens,
+  }
+}
+
+const META_COLUMNS = 'url, variant, version, hash, source_url, created_at, document_count, total_tokens'
+
+/**
+ * Snapshot store backed by a single SQLite database file
+ */
+export class SqliteSnapshotStore implements SnapshotStore {
+  private readonly db: Database.Database
+
+  constructor(file: string = DEFAULT_SNAPSHOT_DB) {
+    if (file !== ':memory:') {
+      mkdirSync(path.dirname(file), { recursive: true })
+    }
+    this.db = new Database(file)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS snapshots (
+        url TEXT NOT NULL,
+        variant TEXT NOT NULL DEFAULT '',
+        version INTEGER NOT NULL,
+        hash TEXT NOT NULL,
+        source_url TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        document_count INTEGER NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        result TEXT NOT NULL,
+        PRIMARY KEY (url, variant, version)
+      )
+    `)
+  }
+
+  async save(result: ExtractionResult, variant = ''): Promise<SnapshotMeta> {
+    const key = snapshotKey(result.url)
+
+    // The transaction makes reading the latest version and inserting the next one atomic
+    const insert = this.db.transaction((): SnapshotMeta => {
+      const latest = this.db
+        .prepare(`SELECT ${META_COLUMNS} FROM snapshots WHERE url = ? AND variant = ? ORDER BY version DESC LIMIT 1`)
+        .get(key, variant) as SnapshotRow | undefined
+      if (latest && latest.hash === hashExtraction(result)) {
+        return rowToMeta(latest)
+      }
+
+      const snapshot = createSnapshot(result, (latest?.version ?? 0) + 1, new Date(), variant)
+      this.db
+        .prepare(`INSERT INTO snapshots (${META_COLUMNS}, result) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+        .run(
+          snapshot.url,
+          variant,
+          snapshot.version,
+          snapshot.hash,
+          snapshot.sourceUrl,
+          snapshot.createdAt,
+          snapshot.documentCount,
+          snapshot.totalTokens,
+          JSON.stringify(result)
+        )
+      return toSnapshotMeta(snapshot)
+    })
+
+    return insert()
+  }
+
+  async list(url: string, variant = ''): Promise<SnapshotMeta[]> {
+    const rows = this.db
+      .prepare(`SELECT ${META_COLUMNS} FROM snapshots WHERE url = ? AND variant = ? ORDER BY version`)
+      .all(snapshotKey(url), variant) as SnapshotRow[]
+    return rows.map(rowToMeta)
+  }
+
+  async get(url: string, version?: number, variant = ''): Promise<Snapshot | null> {
+    const key = snapshotKey(url)
+    const row = (version === undefined
+      ? this.db.prepare(`SELECT ${META_COLUMNS}, result FROM snapshots WHERE url = ? AND variant = ? ORDER BY version DESC LIMIT 1`).get(key, variant)
+      : this.db.prepare(`SELECT ${META_COLUMNS}, result FROM snapshots WHERE url = ? AND variant = ? AND version = ?`).get(key, variant, version)
+    ) as SnapshotRow | undefined
+    if (!row?.result) return null
+
+    return { ...rowToMeta(row), result: JSON.parse(row.result) }
+  }
+
+  async listUrls(): Promise<string[]> {
+    const rows = this.db.prepare('SELECT DISTINCT url FROM snapshots ORDER BY url').all() as Array<{ url: string }>
+    return rows.map(row => row.url)
+  }
+
+  /**
+   * Closes the database file
+   */
+  close(): void {
+    this.db.close()
+  }
+}
+
+// Singleton store, created from the environment on first use
+let snapshotStore: SnapshotStore | null | undefined
+
+/**
+ * Get the configured snapshot store, or null when snapshots are disabled
+ */
+export function getSnapshotStore(): SnapshotStore | null {
+  if (snapshotStore === undefined) {
+    const config = getSnapshotStoreConfig()
+    if (config?.kind === 'fs') {
+      snapshotStore = new FileSnapshotStore(config.location)
+    } else if (config?.kind === 'sqlite') {
+      snapshotStore = new SqliteSnapshotStore(config.location)
+    } else {
+      snapshotStore = null
+    }
+  }
+  return snapshotStore
+}
+
+/**
+ * Save a result to the configured store
+ * Failures are logged, never thrown, so a full disk does not fail an extraction
+ *
+ * @param result - Extraction to save
+ * @param variant - Options it was extracted with, from getExtractionVariant (default: the defaults)
+ * @returns The saved (or unchanged latest) version, or null when nothing was saved
+ */
+export async function recordSnapshot(result: ExtractionResult, variant = ''): Promise<SnapshotMeta | null> {
+  const store = getSnapshotStore()
+  if (!store) return null
+
+  try {
+    return await store.save(result, variant)
+  } catch (error) {
+    console.error('Snapshot error:', error)
+    return null
+  }
+}
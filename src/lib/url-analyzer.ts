@@ -2,6 +2,8 @@
  * URL Analyzer - Determines the best extraction strategy for any URL
  */
 
+import { isDocumentationUrl, urlExists } from '@llm-energy/core';
+
 export type ExtractionStrategy = 
   | 'llms-txt' 
   | 'sitemap' 
@@ -21,36 +23,6 @@ export interface UrlAnalysis {
   detectedTitle?: string;
 }
 
-/**
- * Check if a URL exists and returns a successful response
- */
-async function urlExists(url: string): Promise<boolean> {
-  try {
-    const response = await fetch(url, {
-      method: 'HEAD',
-      headers: {
-        'User-Agent': 'llms-forge/1.0 (Documentation Extractor)',
-      },
-      redirect: 'follow',
-    });
-    return response.ok;
-  } catch {
-    // Try GET as fallback since some servers don't support HEAD
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'llms-forge/1.0 (Documentation Extractor)',
-        },
-        redirect: 'follow',
-      });
-      return response.ok;
-    } catch {
-      return false;
-    }
-  }
-}
-
 /**
  * Parse sitemap XML to extract documentation URLs
  */
@@ -103,46 +75,6 @@ async function parseSitemapUrls(sitemapUrl: string): Promise<string[]> {
   }
 }
 
-/**
- * Determine if a URL is likely a documentation page
- */
-function isDocumentationUrl(url: string): boolean {
-  const docPatterns = [
-    '/docs', '/doc/', '/guide', '/api', '/reference', 
-    '/tutorial', '/learn', '/manual', '/handbook',
-    '/getting-started', '/quickstart', '/introduction',
-    '/concepts', '/examples', '/sdk'
-  ];
-  
-  const excludePatterns = [
-    '/blog', '/changelog', '/news', '/pricing', '/careers', 
-    '/about', '/contact', '/privacy', '/terms', '/legal',
-    '/login', '/signup', '/register', '/dashboard', '/account',
-    '/search', '/404', '/500', '.pdf', '.zip', '.png', '.jpg',
-    '/feed', '/rss', '/sitemap'
-  ];
-  
-  const lower = url.toLowerCase();
-  
-  // If it matches an exclude pattern, skip it
-  if (excludePatterns.some(p => lower.includes(p))) {
-    return false;
-  }
-  
-  // If it matches a doc pattern, include it
-  if (docPatterns.some(p => lower.includes(p))) {
-    return true;
-  }
-  
-  // If the URL looks like a content page (not just root), cautiously include
-  const path = new URL(url).pathname;
-  if (path.length > 1 && !path.endsWith('/')) {
-    return true;
-  }
-  
-  return false;
-}
-
 /**
  * Analyze a URL and determine the best extraction strategy
  */
@@ -291,5 +223,3 @@ export async function analyzeUrl(inputUrl: string): Promise<UrlAnalysis> {
   analysis.installMdUrl = await installMdPromise;
   return analysis;
 }
-
-export { urlExists, isDocumentationUrl };
@@ -33,6 +33,8 @@
  * 18. Redirect following and final URL analysis
  */
 
+import { OPENAPI_SPEC_PATHS } from '@llm-energy/core'
+
 // ============================================================================
 // Types & Interfaces
 // ============================================================================
@@ -933,20 +935,6 @@ async function checkOpenApiEndpoints(inputUrl: string): Promise<DiscoveredUrl[]>
   
   if (!parsed) return urls
   
-  const openApiPaths = [
-    '/openapi.json',
-    '/openapi.yaml',
-    '/swagger.json',
-    '/swagger.yaml',
-    '/api/openapi.json',
-    '/api/swagger.json',
-    '/v1/openapi.json',
-    '/v2/openapi.json',
-    '/v3/openapi.json',
-    '/api-docs',
-    '/api-docs/swagger.json',
-  ]
-  
   const bases = [
     `${parsed.protocol}//${parsed.hostname}`,
     `${parsed.protocol}//${parsed.fullDomain}`,
@@ -954,7 +942,7 @@ async function checkOpenApiEndpoints(inputUrl: string): Promise<DiscoveredUrl[]>
   ]
   
   for (const base of Array.from(new Set(bases))) {
-    for (const path of openApiPaths) {
+    for (const path of OPENAPI_SPEC_PATHS) {
       try {
         const response = await fetchWithTimeout(`${base}${path}`, {
           method: 'HEAD',
@@ -0,0 +1,495 @@
+/**
+ * Docs watcher - notifies a webhook when a site's llms.txt changes
+ *
+ * Each watch remembers the llms.txt / llms-full.txt it resolved to, the
+ * validators (ETag, Last-Modified) and a content hash. A re-check first sends
+ * a conditional HEAD (quickCheck); only when the server does not answer 304
+ * is the file downloaded and hashed. When the hash changed, the sections are
+ * diffed against the previous content and a signed JSON payload is POSTed to
+ * the watch's webhook.
+ *
+ * Configure with environment variables:
+ * - WATCH_REGISTRY_PATH: JSON file the registry is persisted to (default: in memory only)
+ * - WATCH_INTERVAL_MS: re-check interval of the background scheduler (default: 15 minutes)
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { nanoid } from 'nanoid'
+import {
+  createStrategyContext,
+  diffExtractions,
+  formatDiffChangelog,
+  locateLlmsTxt,
+  normalizeTargetUrl,
+  sha256,
+  splitLlmsSections,
+  type Document,
+  type ExtractionDiff,
+  type SectionChange,
+} from '@llm-energy/core'
+import { quickCheck } from './health-check'
+
+const USER_AGENT = 'llm-energy-watch/1.0'
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000
+const WEBHOOK_TIMEOUT_MS = 10000
+const CHECK_TIMEOUT_MS = 30000
+
+/** Header carrying `sha256=<hex>`: HMAC-SHA256 of `<timestamp>.<body>` with the watch secret */
+export const SIGNATURE_HEADER = 'X-LLM-Energy-Signature'
+/** Header carrying the Unix timestamp (seconds) that was signed */
+export const TIMESTAMP_HEADER = 'X-LLM-Energy-Timestamp'
+/** Header carrying the event name */
+export const EVENT_HEADER = 'X-LLM-Energy-Event'
+
+/**
+ * A registered watch
+ */
+export interface Watch {
+  id: string
+  /** Site or llms.txt URL that was registered */
+  url: string
+  /** Receives a POST for every detected change */
+  webhookUrl: string
+  /** HMAC secret for the webhook signature */
+  secret: string
+  createdAt: string
+  /** llms.txt or llms-full.txt the URL resolved to */
+  sourceUrl?: string
+  etag?: string
+  lastModified?: string
+  /** SHA-256 of the last content that was delivered */
+  hash?: string
+  /** Sections of the last delivered content, diffed against the next change */
+  documents?: Document[]
+  lastCheckedAt?: string
+  lastChangedAt?: string
+  lastDelivery?: WebhookDelivery
+  lastError?: string
+}
+
+/**
+ * A watch as returned by the API: no secret and no stored sections
+ */
+export type PublicWatch = Omit<Watch, 'secret' | 'documents'>
+
+/**
+ * Outcome of a webhook POST
+ */
+export interface WebhookDelivery {
+  at: string
+  ok: boolean
+  status?: number
+  error?: string
+}
+
+/**
+ * JSON body POSTed to the webhook
+ */
+export interface WatchWebhookPayload {
+  event: 'docs.changed'
+  watchId: string
+  url: string
+  sourceUrl: string
+  previousHash: string
+  hash: string
+  detectedAt: string
+  summary: ExtractionDiff['summary']
+  changes: Array<Pick<SectionChange, 'type' | 'title' | 'additions' | 'deletions' | 'moved'>>
+  /** Markdown changelog of the change */
+  changelog: string
+}
+
+/**
+ * Result of checking one watch
+ * - baseline: first check; content recorded, nothing sent
+ * - unchanged: 304, same validators or same hash
+ * - changed: new content; `delivery` says whether the webhook accepted it
+ * - error: the llms.txt could not be found or fetched
+ */
+export interface WatchCheckResult {
+  id: string
+  url: string
+  status: 'baseline' | 'unchanged' | 'changed' | 'error'
+  /** How the check concluded nothing changed */
+  via?: 'not-modified' | 'validators' | 'hash'
+  summary?: ExtractionDiff['summary']
+  delivery?: WebhookDelivery
+  error?: string
+}
+
+/**
+ * Signs a webhook body
+ *
+ * @returns `sha256=<hex>`, the value of the signature header
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/**
+ * Checks a webhook signature; for receivers of watch notifications
+ *
+ * @param toleranceSeconds - Maximum age of the timestamp (default: 5 minutes)
+ */
+export function verifyWebhookSignature(
+  body: string,
+  secret: string,
+  signature: string,
+  timestamp: number,
+  toleranceSeconds = 300
+): boolean {
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * POSTs a signed payload to a webhook
+ */
+export async function deliverWebhook(webhookUrl: string, secret: string, payload: WatchWebhookPayload): Promise<WebhookDelivery> {
+  const body = JSON.stringify(payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const at = new Date().toISOString()
+
+  try {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS)
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        [EVENT_HEADER]: payload.event,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signWebhookPayload(body, secret, timestamp),
+      },
+      body,
+    })
+    clearTimeout(timeoutId)
+    return { at, ok: response.ok, status: response.status }
+  } catch (error) {
+    return { at, ok: false, error: error instanceof Error ? error.message : 'Delivery failed' }
+  }
+}
+
+/**
+ * Conditional GET of the watched file
+ * @throws Error when the server fails or does not answer within timeoutMs
+ */
+async function fetchContent(
+  url: string,
+  validators: Pick<Watch, 'etag' | 'lastModified'>,
+  timeoutMs: number
+): Promise<{
+  notModified: boolean
+  content?: string
+  etag?: string
+  lastModified?: string
+}> {
+  const headers: Record<string, string> = { 'User-Agent': USER_AGENT }
+  if (validators.etag) headers['If-None-Match'] = validators.etag
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const response = await fetch(url, { headers, signal: controller.signal })
+    if (response.status === 304) return { notModified: true }
+    if (!response.ok) throw new Error(`${url} returned ${response.status}`)
+
+    return {
+      notModified: false,
+      content: await response.text(),
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+    }
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`${url} did not respond within ${timeoutMs}ms`)
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Re-checks one watch and notifies its webhook when the content changed
+ *
+ * The watch is updated in place. After a failed delivery the previous
+ * content is kept as the baseline so the next check sends the change again.
+ *
+ * @param timeoutMs - Limit for each request to the watched site (default: 30 seconds)
+ */
+export async function checkWatch(watch: Watch, timeoutMs = CHECK_TIMEOUT_MS): Promise<WatchCheckResult> {
+  const checkedAt = new Date().toISOString()
+  watch.lastCheckedAt = checkedAt
+  const base = { id: watch.id, url: watch.url }
+
+  try {
+    if (!watch.sourceUrl) {
+      const located = await locateLlmsTxt(createStrategyContext(watch.url, { userAgent: USER_AGENT, timeoutMs }))
+      if (!located) throw new Error(`No llms.txt found for ${watch.url}`)
+      watch.sourceUrl = located.url
+    }
+    const sourceUrl = watch.sourceUrl
+
+    // Cheap HEAD first; many servers answer conditional requests with 304
+    if (watch.hash && (watch.etag || watch.lastModified)) {
+      const probe = await quickCheck(sourceUrl, { etag: watch.etag, lastModified: watch.lastModified, timeoutMs })
+      if (probe.notModified) {
+        watch.lastError = undefined
+        return { ...base, status: 'unchanged', via: 'not-modified' }
+      }
+      const sameEtag = watch.etag && probe.etag === watch.etag
+      const sameDate = !watch.etag && watch.lastModified && probe.lastModified === watch.lastModified
+      if (probe.ok && (sameEtag || sameDate)) {
+        watch.lastError = undefined
+        return { ...base, status: 'unchanged', via: 'validators' }
+      }
+    }
+
+    // Without a baseline there is nothing to compare a 304 against
+    const fetched = await fetchContent(sourceUrl, watch.hash ? watch : {}, timeoutMs)
+    watch.lastError = undefined
+    if (fetched.notModified) {
+      return { ...base, status: 'unchanged', via: 'not-modified' }
+    }
+
+    const content = fetched.content ?? ''
+    const hash = sha256(content)
+    const documents = splitLlmsSections(content, { sourceUrl })
+
+    if (!watch.hash) {
+      Object.assign(watch, { hash, documents, etag: fetched.etag, lastModified: fetched.lastModified })
+      return { ...base, status: 'baseline' }
+    }
+
+    if (hash === watch.hash) {
+      Object.assign(watch, { etag: fetched.etag, lastModified: fetched.lastModified })
+      return { ...base, status: 'unchanged', via: 'hash' }
+    }
+
+    const diff = diffExtractions(
+      { url: watch.url, sourceUrl, documents: watch.documents ?? [] },
+      { url: watch.url, sourceUrl, documents }
+    )
+    const payload: WatchWebhookPayload = {
+      event: 'docs.changed',
+      watchId: watch.id,
+      url: watch.url,
+      sourceUrl,
+      previousHash: watch.hash,
+      hash,
+      detectedAt: checkedAt,
+      summary: diff.summary,
+      changes: diff.changes.map(({ type, title, additions, deletions, moved }) => ({ type, title, additions, deletions, moved })),
+      changelog: formatDiffChangelog(diff, { beforeLabel: watch.hash.slice(0, 12), afterLabel: hash.slice(0, 12) }),
+    }
+
+    const delivery = await deliverWebhook(watch.webhookUrl, watch.secret, payload)
+    watch.lastDelivery = delivery
+    if (delivery.ok) {
+      Object.assign(watch, {
+        hash,
+        documents,
+        etag: fetched.etag,
+        lastModified: fetched.lastModified,
+        lastChangedAt: checkedAt,
+      })
+    }
+
+    return { ...base, status: 'changed', summary: diff.summary, delivery }
+  } catch (error) {
+    watch.lastError = error instanceof Error ? error.message : 'Check failed'
+    return { ...base, status: 'error', error: watch.lastError }
+  }
+}
+
+/**
+ * Registry of watches, kept in memory and optionally persisted to a JSON file
+ */
+export class WatchRegistry {
+  /** Shared by concurrent first calls, so they all get the same map */
+  private loading: Promise<Map<string, Watch>> | null = null
+  private readonly file?: string
+  /** Last save, which the next one waits for */
+  private saving: Promise<void> = Promise.resolve()
+  /** Checks that are still running, by watch id */
+  private readonly checking = new Map<string, Promise<WatchCheckResult>>()
+
+  constructor(file?: string) {
+    this.file = file
+  }
+
+  private load(): Promise<Map<string, Watch>> {
+    if (!this.loading) {
+      this.loading = this.read().catch(error => {
+        this.loading = null
+        throw error
+      })
+    }
+    return this.loading
+  }
+
+  private async read(): Promise<Map<string, Watch>> {
+    let stored: Watch[] = []
+    if (this.file) {
+      try {
+        stored = JSON.parse(await fs.readFile(this.file, 'utf-8'))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      }
+    }
+    return new Map(stored.map(watch => [watch.id, watch]))
+  }
+
+  /**
+   * Write the registry to its file, if it has one
+   * Saves run one after another, so two writers never share the temporary file.
+   */
+  save(): Promise<void> {
+    const saving = this.saving.catch(() => undefined).then(() => this.write())
+    this.saving = saving
+    return saving
+  }
+
+  private async write(): Promise<void> {
+    if (!this.file || !this.loading) return
+    const watches = await this.load()
+    await fs.mkdir(path.dirname(this.file), { recursive: true })
+    const temp = `${this.file}.${process.pid}.tmp`
+    await fs.writeFile(temp, JSON.stringify(Array.from(watches.values())), 'utf-8')
+    await fs.rename(temp, this.file)
+  }
+
+  /**
+   * Register a URL; a secret is generated when none is given
+   * @throws Error when the URL or webhook URL is invalid
+   */
+  async add(options: { url: string; webhookUrl: string; secret?: string }): Promise<Watch> {
+    const webhook = new URL(options.webhookUrl)
+    if (webhook.protocol !== 'https:' && webhook.protocol !== 'http:') {
+      throw new Error('webhookUrl must be an http(s) URL')
+    }
+
+    const watches = await this.load()
+    const watch: Watch = {
+      id: nanoid(12),
+      url: normalizeTargetUrl(options.url),
+      webhookUrl: webhook.toString(),
+      secret: options.secret || randomBytes(24).toString('hex'),
+      createdAt: new Date().toISOString(),
+    }
+    watches.set(watch.id, watch)
+    await this.save()
+    return watch
+  }
+
+  async get(id: string): Promise<Watch | undefined> {
+    return (await this.load()).get(id)
+  }
+
+  async list(): Promise<Watch[]> {
+    return Array.from((await this.load()).values())
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const removed = (await this.load()).delete(id)
+    if (removed) await this.save()
+    return removed
+  }
+
+  /**
+   * Re-check every watch (or the given ones) in parallel and persist the new state
+   * One failing watch never keeps the others from being checked and saved.
+   */
+  async checkAll(ids?: string[]): Promise<WatchCheckResult[]> {
+    const watches = (await this.list()).filter(watch => !ids || ids.includes(watch.id))
+    const settled = await Promise.allSettled(watches.map(watch => this.check(watch)))
+    const results = settled.map((outcome, i): WatchCheckResult => outcome.status === 'fulfilled'
+      ? outcome.value
+      : {
+          id: watches[i].id,
+          url: watches[i].url,
+          status: 'error',
+          error: outcome.reason instanceof Error ? outcome.reason.message : 'Check failed',
+        })
+    await this.save()
+    return results
+  }
+
+  /**
+   * Check one watch; a watch that is already being checked (by the scheduler
+   * and /api/watch/check at once) shares that check, so its webhook is not
+   * sent twice for the same change
+   */
+  private check(watch: Watch): Promise<WatchCheckResult> {
+    let running = this.checking.get(watch.id)
+    if (!running) {
+      running = checkWatch(watch).finally(() => this.checking.delete(watch.id))
+      this.checking.set(watch.id, running)
+    }
+    return running
+  }
+}
+
+/**
+ * Strip the secret and stored sections from a watch
+ */
+export function toPublicWatch(watch: Watch): PublicWatch {
+  const { secret: _secret, documents: _documents, ...rest } = watch
+  return rest
+}
+
+// Singleton registry, its background timer and the timer's current run
+let registry: WatchRegistry | null = null
+let schedulerTimer: ReturnType<typeof setInterval> | null = null
+let scheduledRun: Promise<unknown> | null = null
+
+/**
+ * Get the shared watch registry
+ * Loading it starts the background scheduler, so watches persisted before a
+ * restart are re-checked without waiting for a new registration.
+ */
+export function getWatchRegistry(): WatchRegistry {
+  if (!registry) {
+    registry = new WatchRegistry(process.env.WATCH_REGISTRY_PATH || undefined)
+    startWatchScheduler()
+  }
+  return registry
+}
+
+/**
+ * Start re-checking all watches every WATCH_INTERVAL_MS in long-running servers
+ * Serverless deployments should call POST /api/watch/check from a cron job instead.
+ */
+export function startWatchScheduler(intervalMs = parseInt(process.env.WATCH_INTERVAL_MS || String(DEFAULT_INTERVAL_MS), 10)): void {
+  if (schedulerTimer) return
+
+  schedulerTimer = setInterval(() => {
+    // Skip a tick while the previous run is still going
+    if (scheduledRun) return
+    scheduledRun = getWatchRegistry()
+      .checkAll()
+      .catch(error => console.error('Watch check error:', error))
+      .finally(() => {
+        scheduledRun = null
+      })
+  }, intervalMs)
+  // Don't keep the process alive just for the watcher
+  schedulerTimer.unref?.()
+}
+
+/**
+ * Stop the background scheduler
+ */
+export function stopWatchScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer)
+    schedulerTimer = null
+  }
+}
@@ -1,7 +1,27 @@
 import JSZip from 'jszip'
-import type { GeneratedOutputs } from './output-generator'
+import type { CodeExampleIndex, Document } from '@llm-energy/core'
+import { generateCodeExampleFiles, type GeneratedOutputs } from './output-generator'
 import { slugify } from './parser'
 
+/**
+ * Extraction documents posted for a ZIP download
+ */
+export interface DocumentBundle {
+  documents: Document[]
+  fullDocument: Document
+  agentGuide: Document
+  codeExamples?: CodeExampleIndex
+  siteName: string
+}
+
+/**
+ * Add CODE-EXAMPLES.md and code-examples.json to a ZIP folder
+ */
+function addCodeExamples(folder: JSZip, codeExamples: NonNullable<GeneratedOutputs['codeExamples']>): void {
+  folder.file(codeExamples.document.filename, codeExamples.document.content)
+  folder.file(codeExamples.json.filename, codeExamples.json.content)
+}
+
 /**
  * Create a ZIP bundle containing all documentation files
  */
@@ -34,6 +54,11 @@ export async function createZipBundle(
     folder.file(outputs.installMd.filename, outputs.installMd.content)
   }
 
+  // Add code examples if available
+  if (outputs.codeExamples) {
+    addCodeExamples(folder, outputs.codeExamples)
+  }
+
   // Add sections in subfolder
   const sectionsFolder = folder.folder('sections')
   if (sectionsFolder) {
@@ -62,6 +87,7 @@ export async function createCustomZipBundle(
     includeReadme?: boolean
     includeSections?: boolean
     includeInstallMd?: boolean
+    includeCodeExamples?: boolean
   }
 ): Promise<Blob> {
   const zip = new JSZip()
@@ -94,6 +120,11 @@ export async function createCustomZipBundle(
     folder.file(outputs.installMd.filename, outputs.installMd.content)
   }
 
+  // Add code examples if available and not excluded
+  if (outputs.codeExamples && options.includeCodeExamples !== false) {
+    addCodeExamples(folder, outputs.codeExamples)
+  }
+
   if (options.includeSections !== false) {
     const sectionsFolder = folder.folder('sections')
     if (sectionsFolder) {
@@ -110,6 +141,42 @@ export async function createCustomZipBundle(
   })
 }
 
+/**
+ * Create a ZIP bundle from the documents of an extraction result
+ *
+ * Holds llms-full.md, AGENT-GUIDE.md, the code examples when the extraction
+ * found any, and every document in a docs subfolder. Returns bytes so the
+ * download route can send it from the server.
+ */
+export async function createDocumentsZip(bundle: DocumentBundle): Promise<ArrayBuffer> {
+  const zip = new JSZip()
+  const folder = zip.folder(`${slugify(bundle.siteName)}-docs`)
+
+  if (!folder) {
+    throw new Error('Failed to create ZIP folder')
+  }
+
+  folder.file(bundle.fullDocument.filename, bundle.fullDocument.content)
+  folder.file(bundle.agentGuide.filename, bundle.agentGuide.content)
+
+  if (bundle.codeExamples) {
+    addCodeExamples(folder, generateCodeExampleFiles(bundle.codeExamples))
+  }
+
+  const docsFolder = folder.folder('docs')
+  if (docsFolder) {
+    for (const doc of bundle.documents) {
+      docsFolder.file(doc.filename, doc.content)
+    }
+  }
+
+  return await zip.generateAsync({
+    type: 'arraybuffer',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+  })
+}
+
 /**
  * Calculate total size of ZIP contents
  */
@@ -120,7 +187,8 @@ export function calculateZipSize(outputs: GeneratedOutputs): number {
     outputs.mcpConfig.size +
     outputs.readme.size +
     outputs.sections.reduce((sum, section) => sum + section.size, 0) +
-    (outputs.installMd?.size || 0)
+    (outputs.installMd?.size || 0) +
+    (outputs.codeExamples ? outputs.codeExamples.document.size + outputs.codeExamples.json.size : 0)
 
   return totalSize
 }
@@ -129,8 +197,8 @@ export function calculateZipSize(outputs: GeneratedOutputs): number {
  * Get file count for the ZIP
  */
 export function getFileCount(outputs: GeneratedOutputs): number {
-  // 4 main files + sections + optional install.md
-  return 4 + outputs.sections.length + (outputs.installMd ? 1 : 0)
+  // 4 main files + sections + optional install.md and code examples
+  return 4 + outputs.sections.length + (outputs.installMd ? 1 : 0) + (outputs.codeExamples ? 2 : 0)
 }
 
 /**
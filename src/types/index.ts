@@ -1,10 +1,7 @@
-export interface Document {
-  filename: string
-  title: string
-  content: string
-  tokens: number
-  sourceUrl?: string  // For documents extracted from linked llms.txt files
-}
+import type { Document, ExtractionResult } from '@llm-energy/core'
+
+// Extraction result types are shared with the MCP server through the core package
+export type { Document, ExtractionResult, LinkedSource } from '@llm-energy/core'
 
 export interface MarkdownDocument {
   title: string
@@ -22,31 +19,11 @@ export interface ExtractionProgress {
   currentStep?: string
   totalSteps?: number
   completedSteps?: number
-  logs: string[]
-}
-
-export interface LinkedSource {
-  url: string
-  name: string
-  description?: string
+  /** Documents received so far from the progress stream */
   documentCount?: number
-  tokens?: number
-}
-
-export interface ExtractionResult {
-  url: string
-  sourceUrl: string
-  rawContent: string
-  documents: Document[]
-  fullDocument: Document
-  agentGuide: Document
-  linkedSources?: LinkedSource[]  // Info about linked llms.txt files that were fetched
-  stats: {
-    totalTokens: number
-    documentCount: number
-    processingTime: number
-    linkedSourceCount?: number
-  }
+  /** Tokens across the documents received so far */
+  tokenCount?: number
+  logs: string[]
 }
 
 export interface UrlAnalysis {
@@ -124,6 +101,7 @@ export interface CacheStats {
   misses: number
   size: number
   evictions: number
+  revalidations: number
 }
 
 // Rate limiting types
@@ -176,6 +154,10 @@ export interface BatchRequest {
   options?: {
     format?: ExportFormat
     includeAgentGuide?: boolean
+    /** Vocabulary or model name for token counts */
+    tokenizer?: string
+    /** Language tag of the translation to extract (default: en) */
+    locale?: string
   }
 }
 